@@ -106,6 +106,8 @@ const main = async (): Promise<void> => {
     `   Trade blocks/items: ${summary.tradeBlocks}/${summary.tradeItems} ` +
       `(unresolved player items: ${summary.unresolvedTradeItems})`,
   );
+  console.info(`   Manual override items: ${summary.manualOverrideItems}`);
+  console.info(`   Fuzzy name matched items: ${summary.fuzzyNameItems}`);
   console.info(`   Ignored lineup-change rows: ${summary.ignoredLineupChanges}`);
   console.info(
     `   Ignored commissioner trade blocks: ${summary.ignoredCommissionerBlocks}`,
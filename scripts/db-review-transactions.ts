@@ -0,0 +1,72 @@
+#!/usr/bin/env tsx
+
+import dotenv from "dotenv";
+dotenv.config();
+
+if (process.env.USE_REMOTE_DB !== "true") {
+  process.env.TURSO_DATABASE_URL = "file:local.db";
+  delete process.env.TURSO_AUTH_TOKEN;
+}
+
+import { getUnresolvedTransactionsData } from "../src/features/transactions/unresolved.js";
+import { TRANSACTION_OVERRIDES_FILE_NAME } from "../src/features/transactions/files.js";
+
+const main = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const seasonArg = args.find((arg) => arg.startsWith("--season="));
+  const json = args.includes("--json");
+
+  const season =
+    seasonArg !== undefined
+      ? Number.parseInt(seasonArg.split("=")[1], 10)
+      : undefined;
+  if (seasonArg !== undefined && !Number.isFinite(season)) {
+    throw new Error(`Invalid --season value: ${seasonArg.split("=")[1]}`);
+  }
+
+  const items = await getUnresolvedTransactionsData(season);
+
+  if (json) {
+    console.info(JSON.stringify(items, null, 2));
+    return;
+  }
+
+  console.info(`Review DB: ${process.env.TURSO_DATABASE_URL}`);
+  console.info(`Unresolved transaction items: ${items.length}`);
+
+  for (const item of items) {
+    const teams = [item.fromTeam?.name, item.toTeam?.name]
+      .filter(Boolean)
+      .join(" -> ");
+    console.info("");
+    console.info(
+      `${item.id} ${item.type} ${item.occurredAt} (season ${item.season}) ${teams}`,
+    );
+    console.info(
+      `   ${item.rawName} [${item.rawPosition ?? "-"}] ${item.matchStatus}`,
+    );
+    if (!item.candidates.length) {
+      console.info("   No candidates");
+    }
+    for (const candidate of item.candidates) {
+      console.info(
+        `   - ${candidate.id} ${candidate.name} [${candidate.position ?? "-"}] ` +
+          `${candidate.firstSeenSeason}-${candidate.lastSeenSeason}` +
+          (candidate.exactName ? " (exact name)" : ""),
+      );
+    }
+  }
+
+  if (items.length) {
+    console.info("");
+    console.info(
+      `Add { season, occurredAt, rawName, fantraxId } entries to ` +
+        `csv/transactions/${TRANSACTION_OVERRIDES_FILE_NAME} and re-run db:import:transactions.`,
+    );
+  }
+};
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -11,7 +11,11 @@ if (process.env.USE_REMOTE_DB !== "true") {
 import fs from "fs";
 import path from "path";
 import { PutObjectCommand } from "@aws-sdk/client-s3";
-import { CAREER_HIGHLIGHT_TYPES, TEAMS } from "../src/config/index.js";
+import {
+  CAREER_HIGHLIGHT_TYPES,
+  SCORING_MODELS,
+  TEAMS,
+} from "../src/config/index.js";
 import {
   resolveSnapshotGenerationConfig,
   type SnapshotGenerationConfig,
@@ -19,6 +23,7 @@ import {
 import {
   getCareerGoaliesData,
   getCareerHighlightsData,
+  getCareerMilestonesData,
   getCareerPlayersData,
 } from "../src/features/career/service.js";
 import {
@@ -30,12 +35,20 @@ import {
   getRegularLeaderboardData,
   getTransactionLeaderboardData,
 } from "../src/features/leaderboard/service.js";
+import {
+  getLeagueRecordsData,
+  getTeamRecordsData,
+} from "../src/features/records/service.js";
+import { getLopsidedTradesData } from "../src/features/transactions/analysis.js";
 import {
   createSnapshotR2Client,
   getCareerGoaliesSnapshotKey,
   getCareerHighlightsSnapshotKey,
+  getCareerMilestonesSnapshotKey,
   getCareerPlayersSnapshotKey,
   getCombinedSnapshotKey,
+  getLeagueRecordsSnapshotKey,
+  getLopsidedTradesSnapshotKey,
   getPlayoffsLeaderboardSnapshotKey,
   getRegularLeaderboardSnapshotKey,
   getSnapshotBucketName,
@@ -43,6 +56,7 @@ import {
   getSnapshotManifestKey,
   getSnapshotObjectKey,
   getSnapshotPrefix,
+  getTeamRecordsSnapshotKey,
   getTransactionsLeaderboardSnapshotKey,
   isR2SnapshotConfigAvailable,
   loadSnapshot,
@@ -164,6 +178,11 @@ const buildSnapshotEntries = async (
       data: await getCareerGoaliesData(),
       bytes: 0,
     });
+    entries.push({
+      key: getCareerMilestonesSnapshotKey(),
+      data: await getCareerMilestonesData(),
+      bytes: 0,
+    });
   }
 
   if (config.scopes.includes("career-highlights")) {
@@ -192,12 +211,32 @@ const buildSnapshotEntries = async (
     });
   }
 
+  if (config.scopes.includes("records")) {
+    entries.push({
+      key: getLeagueRecordsSnapshotKey(),
+      data: await getLeagueRecordsData(),
+      bytes: 0,
+    });
+    for (const team of TEAMS) {
+      entries.push({
+        key: getTeamRecordsSnapshotKey(team.id),
+        data: await getTeamRecordsData(team.id),
+        bytes: 0,
+      });
+    }
+  }
+
   if (config.scopes.includes("transactions")) {
     entries.push({
       key: getTransactionsLeaderboardSnapshotKey(),
       data: await getTransactionLeaderboardData(),
       bytes: 0,
     });
+    entries.push({
+      key: getLopsidedTradesSnapshotKey(),
+      data: await getLopsidedTradesData(),
+      bytes: 0,
+    });
   }
 
   if (config.scopes.includes("stats")) {
@@ -212,16 +251,38 @@ const buildSnapshotEntries = async (
       }
 
       for (const reportType of config.statsReportTypes) {
-        entries.push({
-          key: getCombinedSnapshotKey("players", reportType, team.id),
-          data: await getPlayersStatsCombined(reportType, team.id),
-          bytes: 0,
-        });
-        entries.push({
-          key: getCombinedSnapshotKey("goalies", reportType, team.id),
-          data: await getGoaliesStatsCombined(reportType, team.id),
-          bytes: 0,
-        });
+        for (const model of SCORING_MODELS) {
+          entries.push({
+            key: getCombinedSnapshotKey(
+              "players",
+              reportType,
+              team.id,
+              model.id,
+            ),
+            data: await getPlayersStatsCombined(
+              reportType,
+              team.id,
+              undefined,
+              model,
+            ),
+            bytes: 0,
+          });
+          entries.push({
+            key: getCombinedSnapshotKey(
+              "goalies",
+              reportType,
+              team.id,
+              model.id,
+            ),
+            data: await getGoaliesStatsCombined(
+              reportType,
+              team.id,
+              undefined,
+              model,
+            ),
+            bytes: 0,
+          });
+        }
       }
     }
   }
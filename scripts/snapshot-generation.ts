@@ -6,6 +6,7 @@ export const SNAPSHOT_GENERATION_SCOPES = [
   "career-highlights",
   "leaderboard-playoffs",
   "leaderboard-regular",
+  "records",
   "stats",
   "transactions",
 ] as const;
@@ -4,13 +4,20 @@ import type { Client } from "@libsql/client";
 
 import { CURRENT_SEASON, TEAMS } from "../src/config/index.js";
 import type { Team } from "../src/shared/types/index.js";
+import {
+  createFuzzyNameMatcher,
+  type FuzzyNameMatcher,
+  type FuzzyNameMatchOptions,
+} from "../src/shared/name-matching.js";
 import {
   parseTransactionCsvFileName,
+  TRANSACTION_OVERRIDES_FILE_NAME,
   type TransactionType,
 } from "../src/features/transactions/files.js";
 import { parseCsvFile } from "./csv.js";
 
 const DROP_MARKER = "(Drop)";
+const TRANSACTION_OVERRIDES_VERSION = 1;
 
 const MONTH_INDEX_BY_ABBR = {
   Jan: 0,
@@ -37,8 +44,20 @@ export type TransactionMatchStatus =
 export type TransactionMatchStrategy =
   | "exact_name_position"
   | "season_team_context"
+  | "manual_override"
+  | "fuzzy_name"
   | "not_applicable";
 
+// One reviewed link from a transaction row (identified by season, timestamp and
+// the raw CSV player name) to the Fantrax entity it should point at.
+export type TransactionOverride = {
+  season: number;
+  occurredAt: string;
+  rawName: string;
+  fantraxId: string;
+  note?: string;
+};
+
 type ClaimCsvRow = {
   Player: string;
   Position: string;
@@ -69,6 +88,15 @@ type ResolvedEntityMatch = {
   fantraxEntityId: string | null;
   matchStatus: TransactionMatchStatus;
   matchStrategy: TransactionMatchStrategy;
+  matchConfidence: number | null;
+};
+
+type FuzzyEntityCandidate = {
+  id: string;
+  name: string;
+  position: string | null;
+  firstSeenSeason: number;
+  lastSeenSeason: number;
 };
 
 type ClaimEventItemSeed = {
@@ -79,6 +107,7 @@ type ClaimEventItemSeed = {
   rawPosition: string | null;
   matchStatus: TransactionMatchStatus;
   matchStrategy: TransactionMatchStrategy;
+  matchConfidence: number | null;
 };
 
 export type ClaimEventSeed = {
@@ -100,6 +129,7 @@ type TradeBlockItemSeed = {
   rawPosition: string | null;
   matchStatus: TransactionMatchStatus;
   matchStrategy: TransactionMatchStrategy;
+  matchConfidence: number | null;
   draftSeason: number | null;
   draftRound: number | null;
   draftOriginalTeamId: string | null;
@@ -171,6 +201,8 @@ export type TransactionImportSummary = {
   tradeItems: number;
   unresolvedClaimItems: number;
   unresolvedTradeItems: number;
+  manualOverrideItems: number;
+  fuzzyNameItems: number;
   ignoredLineupChanges: number;
   ignoredCommissionerBlocks: number;
 };
@@ -182,6 +214,8 @@ export type ImportTransactionsToDbArgs = {
   currentOnly?: boolean;
   dryRun?: boolean;
   incremental?: boolean;
+  overridesPath?: string;
+  fuzzyNameMatch?: FuzzyNameMatchOptions;
 };
 
 const normalizeSpacesLower = (value: string): string =>
@@ -309,6 +343,92 @@ const toNumber = (value: bigint | number | string | null | undefined): number =>
   return Number(value);
 };
 
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isTransactionOverride = (value: unknown): value is TransactionOverride => {
+  const entry = value as Partial<TransactionOverride> | null;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    Number.isInteger(entry.season) &&
+    isNonEmptyString(entry.occurredAt) &&
+    !Number.isNaN(Date.parse(entry.occurredAt)) &&
+    isNonEmptyString(entry.rawName) &&
+    isNonEmptyString(entry.fantraxId) &&
+    (entry.note === undefined || typeof entry.note === "string")
+  );
+};
+
+/** @internal Test-only export for manual override file parsing. */
+export const loadTransactionOverrides = (
+  filePath: string,
+): TransactionOverride[] => {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as {
+    version?: unknown;
+    overrides?: unknown;
+  };
+  if (parsed.version !== TRANSACTION_OVERRIDES_VERSION) {
+    throw new Error(
+      `Unsupported transaction overrides version in ${filePath}: ${String(parsed.version)}`,
+    );
+  }
+  if (!Array.isArray(parsed.overrides)) {
+    throw new Error(`Transaction overrides file is missing an overrides list: ${filePath}`);
+  }
+
+  return parsed.overrides.map((entry: unknown, index) => {
+    if (!isTransactionOverride(entry)) {
+      throw new Error(`Invalid transaction override #${index} in ${filePath}`);
+    }
+    return {
+      ...entry,
+      occurredAt: new Date(entry.occurredAt).toISOString(),
+      rawName: entry.rawName.trim(),
+      fantraxId: entry.fantraxId.trim(),
+    };
+  });
+};
+
+const buildOverrideKey = (
+  season: number,
+  occurredAt: string,
+  rawName: string,
+): string => `${season}|${occurredAt}|${rawName}`;
+
+const assertOverrideEntitiesExist = async (
+  db: DbExecutor,
+  overrides: readonly TransactionOverride[],
+): Promise<void> => {
+  const fantraxIds = dedupe(overrides.map((override) => override.fantraxId));
+  if (!fantraxIds.length) {
+    return;
+  }
+
+  const result = await db.execute({
+    sql: `SELECT fantrax_id
+          FROM fantrax_entities
+          WHERE fantrax_id IN (${buildDynamicInList(fantraxIds.length)})`,
+    args: fantraxIds,
+  });
+  const knownIds = new Set(
+    result.rows.map((row) =>
+      String((row as unknown as { fantrax_id: string }).fantrax_id),
+    ),
+  );
+  const unknownIds = fantraxIds.filter((fantraxId) => !knownIds.has(fantraxId));
+
+  if (unknownIds.length) {
+    throw new Error(
+      `Unknown Fantrax IDs in transaction overrides: ${unknownIds.join(", ")}`,
+    );
+  }
+};
+
 const listTransactionCsvFiles = (
   csvDir: string,
 ): ParsedTransactionFile[] => {
@@ -571,15 +691,98 @@ export type TransactionEntityResolver = {
     rawPosition: string | null;
     season: number;
     teamIds: readonly string[];
+    occurredAt?: string;
   }) => Promise<ResolvedEntityMatch>;
 };
 
 /** @internal Test-only export for transaction entity matching. */
 export const createTransactionEntityResolver = (
   db: DbExecutor,
+  overrides: readonly TransactionOverride[] = [],
+  fuzzyNameMatch?: FuzzyNameMatchOptions,
 ): TransactionEntityResolver => {
+  const overrideIdByKey = new Map(
+    overrides.map((override) => [
+      buildOverrideKey(override.season, override.occurredAt, override.rawName),
+      override.fantraxId,
+    ]),
+  );
   const candidatesByKey = new Map<string, Promise<EntityCandidate[]>>();
   const teamHitByKey = new Map<string, Promise<boolean>>();
+  let fuzzyMatcher: Promise<FuzzyNameMatcher<FuzzyEntityCandidate>> | undefined;
+
+  const getFuzzyMatcher = (): Promise<FuzzyNameMatcher<FuzzyEntityCandidate>> => {
+    fuzzyMatcher ??= db
+      .execute(
+        `SELECT fantrax_id, name, position, first_seen_season, last_seen_season
+         FROM fantrax_entities`,
+      )
+      .then((result) =>
+        createFuzzyNameMatcher(
+          result.rows.map((row) => {
+            const entityRow = row as unknown as {
+              fantrax_id: string;
+              name: string;
+              position?: string | null;
+              first_seen_season: number;
+              last_seen_season: number;
+            };
+
+            return {
+              id: String(entityRow.fantrax_id),
+              name: String(entityRow.name),
+              position:
+                entityRow.position == null ? null : String(entityRow.position),
+              firstSeenSeason: Number(entityRow.first_seen_season),
+              lastSeenSeason: Number(entityRow.last_seen_season),
+            };
+          }),
+          fuzzyNameMatch,
+        ),
+      );
+    return fuzzyMatcher;
+  };
+
+  // A fuzzy hit must share a position with the row and have been seen in the
+  // row's season; anything else stays unresolved for review.
+  const resolveFuzzyEntity = async (
+    name: string,
+    positions: readonly string[],
+    season: number,
+  ): Promise<ResolvedEntityMatch> => {
+    const match = (await getFuzzyMatcher()).match(
+      name,
+      (candidate) =>
+        candidate.position !== null &&
+        positions.includes(candidate.position) &&
+        candidate.firstSeenSeason <= season &&
+        candidate.lastSeenSeason >= season,
+    );
+
+    if (match.status === "matched") {
+      return {
+        fantraxEntityId: match.id,
+        matchStatus: "matched",
+        matchStrategy: "fuzzy_name",
+        matchConfidence: match.confidence,
+      };
+    }
+    if (match.status === "ambiguous") {
+      return {
+        fantraxEntityId: null,
+        matchStatus: "unresolved_ambiguous_entity",
+        matchStrategy: "fuzzy_name",
+        matchConfidence: match.confidence,
+      };
+    }
+
+    return {
+      fantraxEntityId: null,
+      matchStatus: "unresolved_missing_entity",
+      matchStrategy: "exact_name_position",
+      matchConfidence: null,
+    };
+  };
 
   const getCandidates = async (
     name: string,
@@ -679,6 +882,21 @@ export const createTransactionEntityResolver = (
 
   return {
     resolveEntity: async (args) => {
+      const overrideId =
+        args.occurredAt === undefined
+          ? undefined
+          : overrideIdByKey.get(
+              buildOverrideKey(args.season, args.occurredAt, args.name),
+            );
+      if (overrideId !== undefined) {
+        return {
+          fantraxEntityId: overrideId,
+          matchStatus: "matched",
+          matchStrategy: "manual_override",
+          matchConfidence: null,
+        };
+      }
+
       const positions = dedupe(
         (args.rawPosition ?? "")
           .split(",")
@@ -691,17 +909,14 @@ export const createTransactionEntityResolver = (
           fantraxEntityId: null,
           matchStatus: "unresolved_missing_entity",
           matchStrategy: "exact_name_position",
+          matchConfidence: null,
         };
       }
 
       const candidates = await getCandidates(args.name, positions);
 
       if (candidates.length === 0) {
-        return {
-          fantraxEntityId: null,
-          matchStatus: "unresolved_missing_entity",
-          matchStrategy: "exact_name_position",
-        };
+        return resolveFuzzyEntity(args.name, positions, args.season);
       }
 
       if (candidates.length === 1) {
@@ -709,6 +924,7 @@ export const createTransactionEntityResolver = (
           fantraxEntityId: candidates[0].fantraxId,
           matchStatus: "matched",
           matchStrategy: "exact_name_position",
+          matchConfidence: null,
         };
       }
 
@@ -730,6 +946,7 @@ export const createTransactionEntityResolver = (
           fantraxEntityId: matchedCandidates[0].fantraxId,
           matchStatus: "matched",
           matchStrategy: "season_team_context",
+          matchConfidence: null,
         };
       }
 
@@ -742,6 +959,7 @@ export const createTransactionEntityResolver = (
           fantraxEntityId: latestLastSeenCandidate.fantraxId,
           matchStatus: "matched",
           matchStrategy: "season_team_context",
+          matchConfidence: null,
         };
       }
 
@@ -749,6 +967,7 @@ export const createTransactionEntityResolver = (
         fantraxEntityId: null,
         matchStatus: "unresolved_ambiguous_entity",
         matchStrategy: "season_team_context",
+        matchConfidence: null,
       };
     },
   };
@@ -803,6 +1022,7 @@ export const buildClaimEvents = async (args: {
         rawPosition: row.rawPosition,
         season: args.season,
         teamIds: [row.teamId],
+        occurredAt: row.occurredAt,
       });
 
       items.push({
@@ -813,6 +1033,7 @@ export const buildClaimEvents = async (args: {
         rawPosition: row.rawPosition,
         matchStatus: resolved.matchStatus,
         matchStrategy: resolved.matchStrategy,
+        matchConfidence: resolved.matchConfidence,
       });
     }
 
@@ -1028,6 +1249,7 @@ const buildTradeDropEvents = async (args: {
         rawPosition: row.rawPosition,
         season: args.season,
         teamIds: [currentTeamId],
+        occurredAt: row.occurredAt,
       });
 
       items.push({
@@ -1038,6 +1260,7 @@ const buildTradeDropEvents = async (args: {
         rawPosition: row.rawPosition,
         matchStatus: resolved.matchStatus,
         matchStrategy: resolved.matchStrategy,
+        matchConfidence: resolved.matchConfidence,
       });
     }
 
@@ -1122,6 +1345,7 @@ export const buildTradeImportData = async (args: {
           rawPosition: row.rawPosition,
           season: args.season,
           teamIds: [block.fromTeamId, block.toTeamId],
+          occurredAt: block.occurredAt,
         });
 
         items.push({
@@ -1134,6 +1358,7 @@ export const buildTradeImportData = async (args: {
           rawPosition: row.rawPosition,
           matchStatus: resolved.matchStatus,
           matchStrategy: resolved.matchStrategy,
+          matchConfidence: resolved.matchConfidence,
           draftSeason: null,
           draftRound: null,
           draftOriginalTeamId: null,
@@ -1153,6 +1378,7 @@ export const buildTradeImportData = async (args: {
           rawPosition: null,
           matchStatus: "not_applicable",
           matchStrategy: "not_applicable",
+          matchConfidence: null,
           draftSeason: draftPick.draftSeason,
           draftRound: draftPick.draftRound,
           draftOriginalTeamId: draftPick.draftOriginalTeamId,
@@ -1171,6 +1397,7 @@ export const buildTradeImportData = async (args: {
         rawPosition: null,
         matchStatus: "not_applicable",
         matchStrategy: "not_applicable",
+        matchConfidence: null,
         draftSeason: null,
         draftRound: null,
         draftOriginalTeamId: null,
@@ -1249,8 +1476,9 @@ const insertClaimEvent = async (
     await db.execute({
       sql: `INSERT INTO claim_event_items (
               claim_event_id, season, team_id, occurred_at, sequence, action_type,
-              fantrax_entity_id, raw_name, raw_position, match_status, match_strategy
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              fantrax_entity_id, raw_name, raw_position, match_status, match_strategy,
+              match_confidence
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
         claimEventId,
         event.season,
@@ -1263,6 +1491,7 @@ const insertClaimEvent = async (
         item.rawPosition,
         item.matchStatus,
         item.matchStrategy,
+        item.matchConfidence,
       ],
     });
   }
@@ -1293,8 +1522,9 @@ const insertTradeBlock = async (
       sql: `INSERT INTO trade_block_items (
               trade_source_block_id, sequence, from_team_id, to_team_id, asset_type,
               fantrax_entity_id, raw_name, raw_position, match_status, match_strategy,
-              draft_season, draft_round, draft_original_team_id, raw_asset_text
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              match_confidence, draft_season, draft_round, draft_original_team_id,
+              raw_asset_text
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
         tradeSourceBlockId,
         item.sequence,
@@ -1306,6 +1536,7 @@ const insertTradeBlock = async (
         item.rawPosition,
         item.matchStatus,
         item.matchStrategy,
+        item.matchConfidence,
         item.draftSeason,
         item.draftRound,
         item.draftOriginalTeamId,
@@ -1315,6 +1546,17 @@ const insertTradeBlock = async (
   }
 };
 
+const countMatchedItemsByStrategy = (
+  items: ReadonlyArray<{
+    matchStatus: TransactionMatchStatus;
+    matchStrategy: TransactionMatchStrategy;
+  }>,
+  strategy: TransactionMatchStrategy,
+): number =>
+  items.filter(
+    (item) => item.matchStatus === "matched" && item.matchStrategy === strategy,
+  ).length;
+
 export const importTransactionsToDb = async (
   args: ImportTransactionsToDbArgs,
 ): Promise<TransactionImportSummary> => {
@@ -1330,7 +1572,16 @@ export const importTransactionsToDb = async (
   }
   const seasonSet = new Set(seasons);
   const selectedFiles = files.filter((file) => seasonSet.has(file.seasonStartYear));
-  const resolver = createTransactionEntityResolver(args.db);
+  const overrides = loadTransactionOverrides(
+    args.overridesPath ??
+      path.resolve(args.csvDir, TRANSACTION_OVERRIDES_FILE_NAME),
+  );
+  await assertOverrideEntitiesExist(args.db, overrides);
+  const resolver = createTransactionEntityResolver(
+    args.db,
+    overrides,
+    args.fuzzyNameMatch,
+  );
 
   const summary: TransactionImportSummary = {
     processedFiles: selectedFiles.length,
@@ -1341,6 +1592,8 @@ export const importTransactionsToDb = async (
     tradeItems: 0,
     unresolvedClaimItems: 0,
     unresolvedTradeItems: 0,
+    manualOverrideItems: 0,
+    fuzzyNameItems: 0,
     ignoredLineupChanges: 0,
     ignoredCommissionerBlocks: 0,
   };
@@ -1393,6 +1646,14 @@ export const importTransactionsToDb = async (
         summary.unresolvedClaimItems += event.items.filter(
           (item) => item.matchStatus !== "matched",
         ).length;
+        summary.manualOverrideItems += countMatchedItemsByStrategy(
+          event.items,
+          "manual_override",
+        );
+        summary.fuzzyNameItems += countMatchedItemsByStrategy(
+          event.items,
+          "fuzzy_name",
+        );
 
         if (!args.dryRun) {
           await insertClaimEvent(args.db, event);
@@ -1435,6 +1696,14 @@ export const importTransactionsToDb = async (
       summary.unresolvedClaimItems += event.items.filter(
         (item) => item.matchStatus !== "matched",
       ).length;
+      summary.manualOverrideItems += countMatchedItemsByStrategy(
+        event.items,
+        "manual_override",
+      );
+      summary.fuzzyNameItems += countMatchedItemsByStrategy(
+        event.items,
+        "fuzzy_name",
+      );
 
       if (!args.dryRun) {
         await insertClaimEvent(args.db, event);
@@ -1447,6 +1716,14 @@ export const importTransactionsToDb = async (
       summary.unresolvedTradeItems += block.items.filter(
         (item) => item.assetType === "player" && item.matchStatus !== "matched",
       ).length;
+      summary.manualOverrideItems += countMatchedItemsByStrategy(
+        block.items,
+        "manual_override",
+      );
+      summary.fuzzyNameItems += countMatchedItemsByStrategy(
+        block.items,
+        "fuzzy_name",
+      );
 
       if (!args.dryRun) {
         await insertTradeBlock(args.db, block);
@@ -3,7 +3,7 @@ import os from "os";
 import path from "path";
 import { createClient, type Client } from "@libsql/client";
 
-import { migrateDb } from "../db/schema.js";
+import { getSchemaCreateTableSql, migrateDb } from "../db/schema.js";
 
 const LEGACY_SCHEMA_SQL = [
   `CREATE TABLE IF NOT EXISTS players (
@@ -228,6 +228,21 @@ describe("db schema migration", () => {
           last_seen_season: 2020,
         },
       ]);
+
+      const searchIndexSql = `SELECT fantrax_id, name
+         FROM fantrax_entities_fts
+         ORDER BY fantrax_id ASC`;
+      const searchIndexRows = [
+        { fantrax_id: "g001", name: "Goalie Prime" },
+        { fantrax_id: "p001", name: "Newest Skater" },
+        { fantrax_id: "p002", name: "No Position" },
+      ];
+      expect((await db.execute(searchIndexSql)).rows).toEqual(searchIndexRows);
+
+      await db.execute("DELETE FROM fantrax_entities_fts");
+      await migrateDb(db);
+
+      expect((await db.execute(searchIndexSql)).rows).toEqual(searchIndexRows);
     } finally {
       await cleanup();
     }
@@ -276,14 +291,20 @@ describe("db schema migration", () => {
         };
       }
 
-      if (sql === "SELECT COUNT(*) AS count FROM fantrax_entities") {
+      if (
+        sql === "SELECT COUNT(*) AS count FROM fantrax_entities" ||
+        sql === "SELECT COUNT(*) AS count FROM fantrax_entities_fts"
+      ) {
         return { rows: [{ count: 3 }] };
       }
 
       return { rows: [] };
     });
 
-    await migrateDb({ execute: execute as unknown as Client["execute"] });
+    await migrateDb({
+      execute: execute as unknown as Client["execute"],
+      batch: jest.fn() as unknown as Client["batch"],
+    });
 
     const executedSql = execute.mock.calls.map(([statement]) =>
       typeof statement === "string" ? statement : statement.sql,
@@ -303,6 +324,7 @@ describe("db schema migration", () => {
           sql.includes("FROM goalies g"),
       ),
     ).toBe(false);
+    expect(executedSql).not.toContain("DELETE FROM fantrax_entities_fts");
   });
 
   test("rebuilds fantrax entities when the current schema exists but the registry is empty", async () => {
@@ -347,14 +369,20 @@ describe("db schema migration", () => {
         };
       }
 
-      if (sql === "SELECT COUNT(*) AS count FROM fantrax_entities") {
+      if (
+        sql === "SELECT COUNT(*) AS count FROM fantrax_entities" ||
+        sql === "SELECT COUNT(*) AS count FROM fantrax_entities_fts"
+      ) {
         return { rows: [{ count: 0 }] };
       }
 
       return { rows: [] };
     });
 
-    await migrateDb({ execute: execute as unknown as Client["execute"] });
+    await migrateDb({
+      execute: execute as unknown as Client["execute"],
+      batch: jest.fn() as unknown as Client["batch"],
+    });
 
     const executedSql = execute.mock.calls.map(([statement]) =>
       typeof statement === "string" ? statement : statement.sql,
@@ -374,6 +402,7 @@ describe("db schema migration", () => {
           sql.includes("FROM goalies g"),
       ),
     ).toBe(true);
+    expect(executedSql).toContain("DELETE FROM fantrax_entities_fts");
   });
 
   test("adds denormalized claim item columns when upgrading an existing transaction schema", async () => {
@@ -436,7 +465,12 @@ describe("db schema migration", () => {
       );
 
       expect(columnNames).toEqual(
-        expect.arrayContaining(["season", "team_id", "occurred_at"]),
+        expect.arrayContaining([
+          "season",
+          "team_id",
+          "occurred_at",
+          "match_confidence",
+        ]),
       );
 
       const indexes = await db.execute(
@@ -502,13 +536,17 @@ describe("db schema migration", () => {
       let columnNames = columns.rows.map((row) =>
         String((row as unknown as { name: string }).name),
       );
-      expect(columnNames).toEqual(expect.arrayContaining(["fantrax_entity_id"]));
+      expect(columnNames).toEqual(
+        expect.arrayContaining(["fantrax_entity_id", "match_confidence"]),
+      );
 
       columns = await db.execute("PRAGMA table_info(opening_draft_picks)");
       columnNames = columns.rows.map((row) =>
         String((row as unknown as { name: string }).name),
       );
-      expect(columnNames).toEqual(expect.arrayContaining(["fantrax_entity_id"]));
+      expect(columnNames).toEqual(
+        expect.arrayContaining(["fantrax_entity_id", "match_confidence"]),
+      );
 
       const indexes = await db.execute(
         `SELECT name
@@ -525,4 +563,247 @@ describe("db schema migration", () => {
       await cleanup();
     }
   });
+
+  test("rebuilds transaction item tables whose match strategy check predates newer strategies", async () => {
+    const { db, cleanup } = await createLegacyDb();
+    const legacyMatchChecks = `CHECK (
+        match_status IN (
+          'matched',
+          'unresolved_missing_entity',
+          'unresolved_ambiguous_entity',
+          'not_applicable'
+        )
+      ),
+      CHECK (
+        match_strategy IN (
+          'exact_name_position',
+          'season_team_context',
+          'not_applicable'
+        )
+      )`;
+
+    try {
+      await db.execute(`CREATE TABLE fantrax_entities (
+        fantrax_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        position TEXT,
+        first_seen_season INTEGER NOT NULL,
+        last_seen_season INTEGER NOT NULL
+      )`);
+      await db.execute(`CREATE TABLE claim_events (
+        id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+        season             INTEGER NOT NULL,
+        team_id            TEXT NOT NULL,
+        occurred_at        TEXT NOT NULL,
+        source_file        TEXT NOT NULL,
+        source_group_index INTEGER NOT NULL,
+        UNIQUE(source_file, source_group_index)
+      )`);
+      await db.execute(`CREATE TABLE claim_event_items (
+        id                INTEGER PRIMARY KEY AUTOINCREMENT,
+        claim_event_id    INTEGER NOT NULL,
+        season            INTEGER NOT NULL,
+        team_id           TEXT NOT NULL,
+        occurred_at       TEXT NOT NULL,
+        sequence          INTEGER NOT NULL,
+        action_type       TEXT NOT NULL,
+        fantrax_entity_id TEXT,
+        raw_name          TEXT NOT NULL,
+        raw_position      TEXT,
+        match_status      TEXT NOT NULL,
+        match_strategy    TEXT NOT NULL,
+        UNIQUE(claim_event_id, sequence),
+        FOREIGN KEY (claim_event_id) REFERENCES claim_events(id) ON DELETE CASCADE,
+        FOREIGN KEY (fantrax_entity_id) REFERENCES fantrax_entities(fantrax_id),
+        CHECK (action_type IN ('claim', 'drop')),
+        ${legacyMatchChecks}
+      )`);
+      await db.execute(`CREATE TABLE trade_source_blocks (
+        id                    INTEGER PRIMARY KEY AUTOINCREMENT,
+        season                INTEGER NOT NULL,
+        occurred_at           TEXT NOT NULL,
+        source_file           TEXT NOT NULL,
+        source_block_index    INTEGER NOT NULL,
+        source_period         INTEGER NOT NULL,
+        participant_signature TEXT NOT NULL,
+        UNIQUE(source_file, source_block_index)
+      )`);
+      await db.execute(`CREATE TABLE trade_block_items (
+        id                    INTEGER PRIMARY KEY AUTOINCREMENT,
+        trade_source_block_id INTEGER NOT NULL,
+        sequence              INTEGER NOT NULL,
+        from_team_id          TEXT NOT NULL,
+        to_team_id            TEXT NOT NULL,
+        asset_type            TEXT NOT NULL,
+        fantrax_entity_id     TEXT,
+        raw_name              TEXT NOT NULL,
+        raw_position          TEXT,
+        match_status          TEXT NOT NULL,
+        match_strategy        TEXT NOT NULL,
+        draft_season          INTEGER,
+        draft_round           INTEGER,
+        draft_original_team_id TEXT,
+        raw_asset_text        TEXT NOT NULL,
+        UNIQUE(trade_source_block_id, sequence),
+        FOREIGN KEY (trade_source_block_id) REFERENCES trade_source_blocks(id) ON DELETE CASCADE,
+        FOREIGN KEY (fantrax_entity_id) REFERENCES fantrax_entities(fantrax_id),
+        CHECK (asset_type IN ('player', 'draft_pick', 'other')),
+        ${legacyMatchChecks}
+      )`);
+      await db.execute(
+        `INSERT INTO claim_events (id, season, team_id, occurred_at, source_file, source_group_index)
+         VALUES (4, 2025, '7', '2026-03-05T16:38:00.000Z', 'claims-2025-2026.csv', 0)`,
+      );
+      await db.execute(
+        `INSERT INTO claim_event_items (
+           id, claim_event_id, season, team_id, occurred_at, sequence, action_type,
+           fantrax_entity_id, raw_name, raw_position, match_status, match_strategy
+         ) VALUES (
+           9, 4, 2025, '7', '2026-03-05T16:38:00.000Z', 0, 'claim',
+           NULL, 'Claim Target', 'F', 'unresolved_missing_entity', 'exact_name_position'
+         )`,
+      );
+      await db.execute(
+        `INSERT INTO trade_source_blocks (
+           id, season, occurred_at, source_file, source_block_index, source_period,
+           participant_signature
+         ) VALUES (3, 2025, '2026-03-05T16:38:00.000Z', 'trades-2025-2026.csv', 0, 150, '16|7')`,
+      );
+      await db.execute(
+        `INSERT INTO trade_block_items (
+           id, trade_source_block_id, sequence, from_team_id, to_team_id, asset_type,
+           fantrax_entity_id, raw_name, raw_position, match_status, match_strategy,
+           raw_asset_text
+         ) VALUES (
+           12, 3, 0, '7', '16', 'player', NULL, 'Trade Target', 'D',
+           'unresolved_ambiguous_entity', 'season_team_context', 'Trade Target'
+         )`,
+      );
+
+      await migrateDb(db);
+
+      const claimItems = await db.execute(
+        "SELECT id, raw_name, match_status FROM claim_event_items",
+      );
+      expect(claimItems.rows).toEqual([
+        { id: 9, raw_name: "Claim Target", match_status: "unresolved_missing_entity" },
+      ]);
+      const tradeItems = await db.execute(
+        "SELECT id, raw_name, match_status FROM trade_block_items",
+      );
+      expect(tradeItems.rows).toEqual([
+        { id: 12, raw_name: "Trade Target", match_status: "unresolved_ambiguous_entity" },
+      ]);
+
+      await db.execute(
+        `UPDATE claim_event_items SET match_strategy = 'manual_override' WHERE id = 9`,
+      );
+      await db.execute(
+        `UPDATE trade_block_items
+         SET match_strategy = 'fuzzy_name', match_confidence = 0.92
+         WHERE id = 12`,
+      );
+      await db.execute(
+        `INSERT INTO claim_event_items (
+           claim_event_id, season, team_id, occurred_at, sequence, action_type,
+           raw_name, match_status, match_strategy
+         ) VALUES (4, 2025, '7', '2026-03-05T16:38:00.000Z', 1, 'drop', 'Next Item', 'matched', 'manual_override')`,
+      );
+      const nextItem = await db.execute(
+        "SELECT id FROM claim_event_items WHERE sequence = 1",
+      );
+      expect(nextItem.rows).toEqual([{ id: 10 }]);
+
+      const indexes = await db.execute(
+        `SELECT name
+         FROM sqlite_master
+         WHERE type = 'index'
+           AND name IN ('idx_claim_event_items_entity', 'idx_trade_block_items_entity')
+         ORDER BY name ASC`,
+      );
+      expect(indexes.rows).toEqual([
+        { name: "idx_claim_event_items_entity" },
+        { name: "idx_trade_block_items_entity" },
+      ]);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  test("keeps a transaction item table when its match strategy rebuild fails", async () => {
+    const { db, cleanup } = await createLegacyDb();
+
+    try {
+      await db.execute(`CREATE TABLE claim_events (
+        id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+        season             INTEGER NOT NULL,
+        team_id            TEXT NOT NULL,
+        occurred_at        TEXT NOT NULL,
+        source_file        TEXT NOT NULL,
+        source_group_index INTEGER NOT NULL,
+        UNIQUE(source_file, source_group_index)
+      )`);
+      await db.execute(`CREATE TABLE claim_event_items (
+        id                INTEGER PRIMARY KEY AUTOINCREMENT,
+        claim_event_id    INTEGER NOT NULL,
+        season            INTEGER NOT NULL,
+        team_id           TEXT NOT NULL,
+        occurred_at       TEXT NOT NULL,
+        sequence          INTEGER NOT NULL,
+        action_type       TEXT NOT NULL,
+        fantrax_entity_id TEXT,
+        raw_name          TEXT NOT NULL,
+        raw_position      TEXT,
+        match_status      TEXT NOT NULL,
+        match_strategy    TEXT NOT NULL,
+        UNIQUE(claim_event_id, sequence),
+        FOREIGN KEY (claim_event_id) REFERENCES claim_events(id) ON DELETE CASCADE,
+        CHECK (
+          match_strategy IN (
+            'exact_name_position',
+            'season_team_context',
+            'not_applicable',
+            'retired_strategy'
+          )
+        )
+      )`);
+      await db.execute(
+        `INSERT INTO claim_events (id, season, team_id, occurred_at, source_file, source_group_index)
+         VALUES (4, 2025, '7', '2026-03-05T16:38:00.000Z', 'claims-2025-2026.csv', 0)`,
+      );
+      await db.execute(
+        `INSERT INTO claim_event_items (
+           id, claim_event_id, season, team_id, occurred_at, sequence, action_type,
+           raw_name, match_status, match_strategy
+         ) VALUES (
+           9, 4, 2025, '7', '2026-03-05T16:38:00.000Z', 0, 'claim',
+           'Claim Target', 'matched', 'retired_strategy'
+         )`,
+      );
+
+      await expect(migrateDb(db)).rejects.toThrow();
+
+      const claimItems = await db.execute(
+        "SELECT id, match_strategy FROM claim_event_items",
+      );
+      expect(claimItems.rows).toEqual([
+        { id: 9, match_strategy: "retired_strategy" },
+      ]);
+      const rebuildTables = await db.execute(
+        "SELECT name FROM sqlite_master WHERE name = 'claim_event_items_rebuild'",
+      );
+      expect(rebuildTables.rows).toEqual([]);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  test("throws when the schema has no CREATE TABLE statement for a table", () => {
+    expect(getSchemaCreateTableSql("claim_event_items")).toContain(
+      "CREATE TABLE IF NOT EXISTS claim_event_items (",
+    );
+    expect(() => getSchemaCreateTableSql("missing_table")).toThrow(
+      "No CREATE TABLE statement in the schema for missing_table",
+    );
+  });
 });
@@ -662,6 +662,130 @@ describe("draft DB import", () => {
     }
   });
 
+  test("links unmapped picks by fuzzy name and leaves ambiguous names unlinked", async () => {
+    const dbContext = await createIntegrationDb();
+    const draftDir = await createTempDraftDir();
+
+    try {
+      await dbContext.insertPlayers([
+        {
+          teamId: "1",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-lafreniere",
+          name: "Alexis Lafrenière",
+          position: "F",
+        },
+        {
+          teamId: "1",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-hughes-a",
+          name: "Jack Hughes",
+          position: "F",
+        },
+        {
+          teamId: "2",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-hughes-b",
+          name: "Jack Hughes",
+          position: "F",
+        },
+        {
+          teamId: "2",
+          season: 2024,
+          reportType: "regular",
+          playerId: "p-fox",
+          name: "Adam Fox",
+          position: "D",
+        },
+      ]);
+      await writeDraftFile(draftDir.dir, "entry-draft-2025.json", [
+        createEntryPick({ pickNumber: 1, playerName: "Alexis Lafreniere" }),
+        createEntryPick({ pickNumber: 2, playerName: "Jack Hughes" }),
+        createEntryPick({ pickNumber: 3, playerName: null }),
+        createEntryPick({ pickNumber: 4, playerName: "Owen Pwer" }),
+        createEntryPick({ pickNumber: 5, playerName: "Mapped Alias" }),
+        createEntryPick({ pickNumber: 6, playerName: "Alex Lafreniere" }),
+        createEntryPick({ pickNumber: 7, playerName: "Adam Fox" }),
+      ]);
+      await writeDraftFile(draftDir.dir, "opening-draft.json", [
+        createOpeningPick({ pickNumber: 1, playerName: "Lafreniere, Alexis" }),
+        createOpeningPick({ pickNumber: 2, playerName: "Owen Pwer" }),
+      ]);
+      await writeDraftFile(draftDir.dir, "entities-entry-draft.json", [
+        createEntryEntityMapping({ pickNumber: 5 }),
+      ]);
+
+      await importDraftPicksToDb({
+        db: dbContext.db,
+        draftsDir: draftDir.dir,
+      });
+
+      const selectEntryRows = () =>
+        dbContext.db.execute(
+          `SELECT pick_number, fantrax_entity_id, match_confidence
+           FROM entry_draft_picks
+           ORDER BY pick_number ASC`,
+        );
+      const selectOpeningRows = () =>
+        dbContext.db.execute(
+          `SELECT pick_number, fantrax_entity_id, match_confidence
+           FROM opening_draft_picks
+           ORDER BY pick_number ASC`,
+        );
+
+      expect((await selectEntryRows()).rows).toEqual([
+        { pick_number: 1, fantrax_entity_id: "p-lafreniere", match_confidence: 1 },
+        { pick_number: 2, fantrax_entity_id: null, match_confidence: null },
+        { pick_number: 3, fantrax_entity_id: null, match_confidence: null },
+        { pick_number: 4, fantrax_entity_id: null, match_confidence: null },
+        { pick_number: 5, fantrax_entity_id: "ftx-entry-1", match_confidence: null },
+        { pick_number: 6, fantrax_entity_id: null, match_confidence: null },
+        { pick_number: 7, fantrax_entity_id: null, match_confidence: null },
+      ]);
+      expect((await selectOpeningRows()).rows).toEqual([
+        { pick_number: 1, fantrax_entity_id: "p-lafreniere", match_confidence: 1 },
+        { pick_number: 2, fantrax_entity_id: null, match_confidence: null },
+      ]);
+
+      await dbContext.insertPlayers([
+        {
+          teamId: "3",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-power",
+          name: "Owen Power",
+          position: "D",
+        },
+      ]);
+
+      const summary = await applyDraftEntityMappingsToDb({
+        db: dbContext.db,
+        draftsDir: draftDir.dir,
+      });
+
+      expect(summary).toMatchObject({
+        entryUpdatedCount: 1,
+        openingUpdatedCount: 1,
+      });
+      expect((await selectEntryRows()).rows[3]).toEqual({
+        pick_number: 4,
+        fantrax_entity_id: "p-power",
+        match_confidence: 0.9,
+      });
+      expect((await selectOpeningRows()).rows[1]).toEqual({
+        pick_number: 2,
+        fantrax_entity_id: "p-power",
+        match_confidence: 0.9,
+      });
+    } finally {
+      await dbContext.cleanup();
+      await draftDir.cleanup();
+    }
+  });
+
   test("applies entity mappings to existing draft rows without reimporting draft sources", async () => {
     const dbContext = await createIntegrationDb();
     const draftDir = await createTempDraftDir();
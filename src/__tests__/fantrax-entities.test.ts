@@ -228,7 +228,7 @@ describe("fantrax entity helpers", () => {
   });
 
   describe("buildFantraxEntityUpsertStatements", () => {
-    test("builds one upsert statement per entity", () => {
+    test("builds an upsert plus search index sync statements per entity", () => {
       const statements = buildFantraxEntityUpsertStatements([
         {
           fantraxId: "p001",
@@ -246,6 +246,14 @@ describe("fantrax entity helpers", () => {
           ),
           args: ["p001", "Skater One", "F", 2012, 2025],
         },
+        {
+          sql: "DELETE FROM fantrax_entities_fts WHERE fantrax_id = ?",
+          args: ["p001"],
+        },
+        {
+          sql: expect.stringContaining("INSERT INTO fantrax_entities_fts"),
+          args: ["p001"],
+        },
       ]);
       const [statement] = statements;
       if (typeof statement === "string") {
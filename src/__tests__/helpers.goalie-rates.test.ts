@@ -0,0 +1,34 @@
+import {
+  aggregateGoalieGaa,
+  aggregateGoalieSavePercent,
+} from "../shared/goalie-rates.js";
+
+describe("helpers goalie rates", () => {
+  test("weights GAA by games and skips rows without games or a GAA", () => {
+    expect(
+      aggregateGoalieGaa([
+        { games: 10, saves: 250, gaa: "2.00" },
+        { games: 5, saves: 100, gaa: "3.20" },
+        { games: 0, saves: 0, gaa: "9.00" },
+        { games: 4, saves: 80 },
+      ]),
+    ).toBe(2.4);
+    expect(aggregateGoalieGaa([{ games: 3, saves: 60 }])).toBeNull();
+  });
+
+  test("divides total saves by the shots recovered from each save percentage", () => {
+    expect(
+      aggregateGoalieSavePercent([
+        { games: 10, saves: 250, savePercent: "0.920" },
+        { games: 5, saves: 100, savePercent: "0.900" },
+        { games: 1, saves: 0, savePercent: "0.000" },
+        { games: 2, saves: 40 },
+      ]),
+    ).toBe(0.914);
+    expect(
+      aggregateGoalieSavePercent([
+        { games: 1, saves: 0, savePercent: "1.000" },
+      ]),
+    ).toBeNull();
+  });
+});
@@ -1,4 +1,7 @@
-import { MIN_GAMES_FOR_ADJUSTED_SCORE } from "../config/index.js";
+import {
+  DEFAULT_SCORING_MODEL,
+  MIN_GAMES_FOR_ADJUSTED_SCORE,
+} from "../config/index.js";
 import { applyGoalieScores } from "../features/stats/scoring.js";
 import { createGoalie } from "./fixtures.js";
 
@@ -255,5 +258,36 @@ describe("helpers goalie scoring", () => {
       expect(best.scores?.gaa).toBe(100);
       expect(extreme.scores?.gaa).toBe(0);
     });
+
+    test("applies custom weights above 1 without clamping scores", () => {
+      const [winner, workhorse] = applyGoalieScores(
+        [
+          createGoalie({ name: "Winner", games: 10, wins: 10 }),
+          createGoalie({ name: "Workhorse", games: 10, saves: 10 }),
+        ],
+        {
+          ...DEFAULT_SCORING_MODEL,
+          goalieWeights: { ...DEFAULT_SCORING_MODEL.goalieWeights, wins: 3 },
+        },
+      );
+
+      expect(winner.score).toBe(100);
+      expect(workhorse.score).toBeCloseTo(33.33, 1);
+      expect(winner.scoreAdjustedByGames).toBeGreaterThan(
+        workhorse.scoreAdjustedByGames,
+      );
+    });
+
+    test("uses the scoring model's dampening exponent", () => {
+      const [, half] = applyGoalieScores(
+        [
+          createGoalie({ name: "Goalie High", wins: 40 }),
+          createGoalie({ name: "Goalie Half", wins: 20 }),
+        ],
+        { ...DEFAULT_SCORING_MODEL, goalieDampeningExponent: 1 },
+      );
+
+      expect(half.scores?.wins).toBe(50);
+    });
   });
 });
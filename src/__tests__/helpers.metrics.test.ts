@@ -0,0 +1,125 @@
+import { applyStatMetrics } from "../features/stats/metrics.js";
+import type { Goalie, Player } from "../features/stats/types.js";
+import { createGoalie, createPlayer } from "./fixtures.js";
+
+describe("helpers stat metrics", () => {
+  describe("players", () => {
+    const players = [
+      createPlayer({ id: "a", position: "F", goals: 10 }),
+      createPlayer({ id: "b", position: "F", goals: 20 }),
+      createPlayer({ id: "c", position: "D", goals: 20 }),
+      createPlayer({ id: "d", position: "F", goals: 30 }),
+      createPlayer({ id: "e", goals: 40 }),
+    ];
+
+    test("adds mid-rank percentiles and z-scores within the pool and by position", () => {
+      const [a, b, c, d, e] = applyStatMetrics(players.slice(0, 4), "players", [
+        "percentile",
+        "zscore",
+      ]) as Player[];
+
+      expect([a, b, c, d].map((row) => row.percentiles?.goals)).toEqual([
+        0, 50, 50, 100,
+      ]);
+      expect([a, b, c, d].map((row) => row.zScores?.goals)).toEqual([
+        -1.41, 0, 0, 1.41,
+      ]);
+      expect([a, b, d].map((row) => row.percentilesByPosition?.goals)).toEqual([
+        0, 50, 100,
+      ]);
+      expect([a, b, d].map((row) => row.zScoresByPosition?.goals)).toEqual([
+        -1.22, 0, 1.22,
+      ]);
+      expect(c.percentilesByPosition).toEqual(
+        expect.objectContaining({ goals: 50, hits: 50 }),
+      );
+      expect(c.zScoresByPosition?.goals).toBe(0);
+      expect(a.percentiles?.hits).toBe(50);
+      expect(a.zScores?.hits).toBe(0);
+      expect(e).toBeUndefined();
+    });
+
+    test("attaches only the requested metrics and leaves the input rows untouched", () => {
+      const result = applyStatMetrics(players, "players", [
+        "zscore",
+      ]) as Player[];
+
+      expect(result[0]).not.toBe(players[0]);
+      expect(result[0].zScores).toBeDefined();
+      expect(result[0].percentiles).toBeUndefined();
+      expect(result[4].zScores?.goals).toBeGreaterThan(0);
+      expect(result[4].zScoresByPosition).toBeUndefined();
+      expect(players[0].zScores).toBeUndefined();
+
+      const percentileOnly = applyStatMetrics(players, "players", [
+        "percentile",
+      ]) as Player[];
+      expect(percentileOnly[0].percentiles).toBeDefined();
+      expect(percentileOnly[0].zScores).toBeUndefined();
+      expect(percentileOnly[4].percentilesByPosition).toBeUndefined();
+    });
+  });
+
+  describe("goalies", () => {
+    test("flips GAA so lower is better and skips missing rates", () => {
+      const [best, worse, noRates] = applyStatMetrics(
+        [
+          createGoalie({
+            id: "g1",
+            wins: 10,
+            gaa: "2.00",
+            savePercent: "0.920",
+          }),
+          createGoalie({
+            id: "g2",
+            wins: 5,
+            gaa: "3.00",
+            savePercent: "0.900",
+          }),
+          createGoalie({ id: "g3", wins: 0, savePercent: "" }),
+        ],
+        "goalies",
+        ["percentile", "zscore"],
+      ) as Goalie[];
+
+      expect(best.percentiles).toEqual(
+        expect.objectContaining({ wins: 100, gaa: 100, savePercent: 100 }),
+      );
+      expect(best.zScores?.gaa).toBe(1);
+      expect(worse.percentiles?.gaa).toBe(0);
+      expect(worse.zScores?.gaa).toBe(-1);
+      expect(worse.percentiles?.wins).toBe(50);
+      expect(noRates.percentiles).not.toHaveProperty("gaa");
+      expect(noRates.zScores).not.toHaveProperty("savePercent");
+      expect(noRates.percentiles?.wins).toBe(0);
+      expect(best).not.toHaveProperty("percentilesByPosition");
+    });
+
+    test("gives a lone goalie the median percentile and a zero z-score", () => {
+      const [only] = applyStatMetrics(
+        [createGoalie({ wins: 3, gaa: "2.50" })],
+        "goalies",
+        ["zscore"],
+      ) as Goalie[];
+
+      expect(only.zScores).toEqual({
+        wins: 0,
+        saves: 0,
+        shutouts: 0,
+        gaa: 0,
+      });
+      expect(only.percentiles).toBeUndefined();
+
+      const [percentileOnly] = applyStatMetrics(
+        [createGoalie({ wins: 3, gaa: "x" })],
+        "goalies",
+        ["percentile"],
+      ) as Goalie[];
+      expect(percentileOnly.percentiles).toEqual({
+        wins: 50,
+        saves: 50,
+        shutouts: 50,
+      });
+    });
+  });
+});
@@ -1,4 +1,7 @@
-import { MIN_GAMES_FOR_ADJUSTED_SCORE } from "../config/index.js";
+import {
+  DEFAULT_SCORING_MODEL,
+  MIN_GAMES_FOR_ADJUSTED_SCORE,
+} from "../config/index.js";
 import {
   applyPlayerScores,
   applyPlayerScoresByPosition,
@@ -200,6 +203,26 @@ describe("helpers player scoring", () => {
       expectScoreInRange(nanPlayer.score);
       expectScoreInRange(validPlayer.score);
     });
+
+    test("applies custom weights above 1 without clamping scores", () => {
+      const [scorer, hitter] = applyPlayerScores(
+        [
+          createPlayer({ name: "Scorer", games: 10, goals: 10 }),
+          createPlayer({ name: "Hitter", games: 10, hits: 10 }),
+        ],
+        {
+          ...DEFAULT_SCORING_MODEL,
+          playerWeights: { ...DEFAULT_SCORING_MODEL.playerWeights, hits: 2 },
+        },
+      );
+
+      expect(hitter.score).toBe(100);
+      expect(scorer.score).toBe(50);
+      expect(hitter.scoreAdjustedByGames).toBeGreaterThan(
+        scorer.scoreAdjustedByGames,
+      );
+      expect(scorer.scores?.goals).toBe(100);
+    });
   });
 
   describe("applyPlayerScoresByPosition", () => {
@@ -454,5 +477,22 @@ describe("helpers player scoring", () => {
       expect(one.scoreByPosition).toBe(0);
       expect(two.scoreByPosition).toBe(0);
     });
+
+    test("applies custom weights to position scores", () => {
+      const [scorer, hitter] = applyPlayerScoresByPosition(
+        [
+          createPlayer({ name: "Scorer", position: "D", games: 10, goals: 10 }),
+          createPlayer({ name: "Hitter", position: "D", games: 10, hits: 10 }),
+        ],
+        {
+          ...DEFAULT_SCORING_MODEL,
+          playerWeights: { ...DEFAULT_SCORING_MODEL.playerWeights, goals: 0 },
+        },
+      );
+
+      expect(hitter.scoreByPosition).toBe(100);
+      expect(scorer.scoreByPosition).toBe(0);
+      expect(scorer.scoresByPosition?.goals).toBe(100);
+    });
   });
 });
@@ -0,0 +1,66 @@
+import {
+  mapCombinedGoalieDataFromGoaliesWithSeason,
+  mapCombinedPlayerDataFromPlayersWithSeason,
+} from "../features/stats/mapping.js";
+import { applyStatRates } from "../features/stats/rates.js";
+import { createGoalie, createPlayer } from "./fixtures.js";
+
+describe("helpers stat rates", () => {
+  test("adds per-game rates for every counting stat without touching the input", () => {
+    const players = [
+      createPlayer({ games: 3, goals: 2, hits: 10, plusMinus: -1 }),
+      createPlayer({ id: "bench", games: 0, goals: 0 }),
+    ];
+
+    const [regular, bench] = applyStatRates(players, "players");
+
+    expect(regular.rates).toEqual(
+      expect.objectContaining({
+        goals: 0.667,
+        hits: 3.333,
+        plusMinus: -0.333,
+        assists: 0,
+      }),
+    );
+    expect(Object.keys(regular.rates ?? {})).toHaveLength(10);
+    expect(bench.rates?.goals).toBe(0);
+    expect(players[0]).not.toHaveProperty("rates");
+  });
+
+  test("weights combined player rates by games played in each season", () => {
+    const combined = mapCombinedPlayerDataFromPlayersWithSeason([
+      { ...createPlayer({ games: 80, goals: 40 }), season: 2023 },
+      { ...createPlayer({ games: 20, goals: 0 }), season: 2024 },
+    ]);
+
+    const [player] = applyStatRates(combined, "players");
+
+    // A plain average of the season rates would be 0.25.
+    expect(player.rates?.goals).toBe(0.4);
+    expect(player.seasons.map((season) => season.rates?.goals)).toEqual([
+      0.5, 0,
+    ]);
+    expect(combined[0].seasons[0]).not.toHaveProperty("rates");
+  });
+
+  test("adds goalie rates to combined rows and their seasons", () => {
+    const combined = mapCombinedGoalieDataFromGoaliesWithSeason([
+      { ...createGoalie({ games: 30, wins: 20, saves: 900 }), season: 2023 },
+      { ...createGoalie({ games: 10, wins: 2, saves: 300 }), season: 2024 },
+    ]);
+
+    const [goalie] = applyStatRates(combined, "goalies");
+
+    expect(goalie.rates).toEqual(
+      expect.objectContaining({ wins: 0.55, saves: 30, shutouts: 0 }),
+    );
+    expect(goalie.rates).not.toHaveProperty("gaa");
+    expect(goalie.seasons[1].rates?.wins).toBe(0.2);
+
+    const [single] = applyStatRates(
+      [createGoalie({ games: 4, wins: 1 })],
+      "goalies",
+    );
+    expect(single.rates?.wins).toBe(0.25);
+  });
+});
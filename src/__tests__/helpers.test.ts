@@ -1,12 +1,17 @@
 import { CURRENT_SEASON, TEAMS } from "../config/index.js";
 import {
   availableSeasons,
+  getSeasonForDate,
   parseSeasonParam,
   reportTypeAvailable,
   seasonAvailable,
 } from "../shared/seasons.js";
 import { getTeamsWithData, resolveTeamId } from "../shared/teams.js";
 import { sortItemsByStatField } from "../features/stats/scoring.js";
+import {
+  applyStatsListQuery,
+  parseStatsListQuery,
+} from "../shared/route-utils.js";
 import { createGoalie, createPlayer } from "./fixtures.js";
 import type { Goalie, Player, Report } from "../shared/types/index.js";
 
@@ -108,6 +113,15 @@ describe("helpers utilities", () => {
     });
   });
 
+  describe("getSeasonForDate", () => {
+    test("maps dates before the season start month to the previous season", () => {
+      expect(getSeasonForDate("2025-01-15")).toBe(2024);
+      expect(getSeasonForDate("2025-08-31")).toBe(2024);
+      expect(getSeasonForDate("2025-09-01")).toBe(2025);
+      expect(getSeasonForDate("2025-12-31")).toBe(2025);
+    });
+  });
+
   describe("getTeamsWithData", () => {
     test("returns a copy of every configured team including expansions", () => {
       const teams = getTeamsWithData();
@@ -122,4 +136,127 @@ describe("helpers utilities", () => {
       );
     });
   });
+
+  describe("stats list query", () => {
+    const options = {
+      positions: ["F", "D"],
+      sortFields: ["name", "goals", "gaa"],
+    };
+    const parse = (query: string) =>
+      parseStatsListQuery({ url: `/players/season/regular${query}` }, options);
+
+    test("parses every list param and defaults offset to zero", () => {
+      expect(parse("")).toEqual({ offset: 0 });
+      expect(
+        parse(
+          "?position=D&minGames=10&sort=goals&order=asc&limit=5&offset=10&search=%20sel%20",
+        ),
+      ).toEqual({
+        position: "D",
+        minGames: 10,
+        sort: "goals",
+        order: "asc",
+        limit: 5,
+        offset: 10,
+        search: "sel",
+      });
+      expect(parse("?search=%20")).toEqual({ offset: 0 });
+    });
+
+    test.each([
+      "?position=G",
+      "?minGames=-1",
+      "?sort=hits",
+      "?order=up",
+      "?limit=0",
+      "?limit=1001",
+      "?limit=ten",
+      "?offset=1.5",
+    ])("rejects invalid list params %s", (query) => {
+      expect(parse(query)).toBeNull();
+    });
+
+    test("filters before paging and reports the filtered total", () => {
+      const players = [
+        createPlayer({
+          id: "a",
+          name: "Teemu Selänne",
+          position: "F",
+          games: 40,
+          goals: 20,
+        }),
+        createPlayer({
+          id: "b",
+          name: "Sel Defender",
+          position: "D",
+          games: 5,
+          goals: 1,
+        }),
+        createPlayer({
+          id: "c",
+          name: "Saku Koivu",
+          position: "F",
+          games: 60,
+          goals: 25,
+        }),
+        createPlayer({
+          id: "d",
+          name: "Jari Kurri",
+          position: "F",
+          games: 30,
+          goals: 25,
+        }),
+      ];
+
+      expect(
+        applyStatsListQuery(players, {
+          position: "F",
+          minGames: 35,
+          search: "SELA",
+          offset: 0,
+        }),
+      ).toEqual({ items: [players[0]], total: 1 });
+
+      const sorted = applyStatsListQuery(players, {
+        sort: "goals",
+        limit: 2,
+        offset: 1,
+      });
+      expect(sorted.total).toBe(4);
+      expect(sorted.items.map((player) => player.id)).toEqual(["d", "a"]);
+      expect(players.map((player) => player.id)).toEqual(["a", "b", "c", "d"]);
+
+      expect(
+        applyStatsListQuery(players, { sort: "name", offset: 0 }).items.map(
+          (player) => player.id,
+        ),
+      ).toEqual(["d", "c", "b", "a"]);
+      expect(
+        applyStatsListQuery(players, { sort: "goals", order: "asc", offset: 3 })
+          .items,
+      ).toEqual([players[3]]);
+    });
+
+    test("sorts formatted goalie rates numerically and keeps missing values last", () => {
+      const goalies = [
+        createGoalie({ id: "a", gaa: "10.50" }),
+        createGoalie({ id: "b" }),
+        createGoalie({ id: "c", gaa: "2.40" }),
+        createGoalie({ id: "d" }),
+      ];
+
+      expect(
+        applyStatsListQuery(goalies, {
+          sort: "gaa",
+          order: "asc",
+          offset: 0,
+        }).items.map((goalie) => goalie.id),
+      ).toEqual(["c", "a", "b", "d"]);
+      expect(
+        applyStatsListQuery(goalies, { sort: "gaa", offset: 0 }).items.map(
+          (goalie) => goalie.id,
+        ),
+      ).toEqual(["a", "c", "b", "d"]);
+    });
+  });
 });
@@ -67,6 +67,46 @@ type RegularResultSeed = {
   isRegularChampion?: boolean;
 };
 
+type TransactionMatchSeed = {
+  fantraxEntityId?: string | null;
+  rawName: string;
+  rawPosition?: string | null;
+  matchStatus?:
+    | "matched"
+    | "unresolved_missing_entity"
+    | "unresolved_ambiguous_entity"
+    | "not_applicable";
+  matchStrategy?:
+    | "exact_name_position"
+    | "season_team_context"
+    | "not_applicable";
+};
+
+type ClaimEventSeed = {
+  season: number;
+  teamId: string;
+  occurredAt: string;
+  sourceFile?: string;
+  items: ReadonlyArray<TransactionMatchSeed & { actionType: "claim" | "drop" }>;
+};
+
+type TradeBlockSeed = {
+  season: number;
+  occurredAt: string;
+  sourceFile?: string;
+  sourcePeriod?: number;
+  fromTeamId: string;
+  toTeamId: string;
+  items: ReadonlyArray<
+    TransactionMatchSeed & {
+      assetType?: "player" | "draft_pick" | "other";
+      draftSeason?: number | null;
+      draftRound?: number | null;
+      draftOriginalTeamId?: string | null;
+    }
+  >;
+};
+
 type IntegrationDbContext = {
   db: Client;
   snapshotDir: string;
@@ -74,6 +114,8 @@ type IntegrationDbContext = {
   insertGoalies: (rows: readonly GoalieSeed[]) => Promise<void>;
   insertPlayoffResults: (rows: readonly PlayoffResultSeed[]) => Promise<void>;
   insertRegularResults: (rows: readonly RegularResultSeed[]) => Promise<void>;
+  insertClaimEvents: (rows: readonly ClaimEventSeed[]) => Promise<number[]>;
+  insertTradeBlocks: (rows: readonly TradeBlockSeed[]) => Promise<number[]>;
   setLastModified: (value: string) => Promise<void>;
   cleanup: () => Promise<void>;
 };
@@ -118,6 +160,8 @@ export const createIntegrationDb = async (): Promise<IntegrationDbContext> => {
     }
   };
 
+  let nextSourceIndex = 0;
+
   const syncFantraxEntities = async (
     statements: ReadonlyArray<
       ReturnType<typeof buildFantraxEntityUpsertStatements>[number]
@@ -246,6 +290,104 @@ export const createIntegrationDb = async (): Promise<IntegrationDbContext> => {
         });
       }
     },
+    insertClaimEvents: async (rows) => {
+      const ids: number[] = [];
+      for (const row of rows) {
+        const eventResult = await db.execute({
+          sql: `INSERT INTO claim_events (
+                  season, team_id, occurred_at, source_file, source_group_index
+                ) VALUES (?, ?, ?, ?, ?) RETURNING id`,
+          args: [
+            row.season,
+            row.teamId,
+            row.occurredAt,
+            row.sourceFile ?? `claims-${row.season}-${row.season + 1}.csv`,
+            nextSourceIndex++,
+          ],
+        });
+        const eventId = Number(eventResult.rows[0].id);
+        ids.push(eventId);
+
+        for (const [sequence, item] of row.items.entries()) {
+          await db.execute({
+            sql: `INSERT INTO claim_event_items (
+                    claim_event_id, season, team_id, occurred_at, sequence, action_type,
+                    fantrax_entity_id, raw_name, raw_position, match_status, match_strategy
+                  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              eventId,
+              row.season,
+              row.teamId,
+              row.occurredAt,
+              sequence,
+              item.actionType,
+              item.fantraxEntityId ?? null,
+              item.rawName,
+              item.rawPosition ?? null,
+              item.matchStatus ??
+                (item.fantraxEntityId ? "matched" : "unresolved_missing_entity"),
+              item.matchStrategy ?? "exact_name_position",
+            ],
+          });
+        }
+      }
+      return ids;
+    },
+    insertTradeBlocks: async (rows) => {
+      const ids: number[] = [];
+      for (const row of rows) {
+        const blockResult = await db.execute({
+          sql: `INSERT INTO trade_source_blocks (
+                  season, occurred_at, source_file, source_block_index, source_period,
+                  participant_signature
+                ) VALUES (?, ?, ?, ?, ?, ?) RETURNING id`,
+          args: [
+            row.season,
+            row.occurredAt,
+            row.sourceFile ?? `trades-${row.season}-${row.season + 1}.csv`,
+            nextSourceIndex++,
+            row.sourcePeriod ?? 1,
+            [row.fromTeamId, row.toTeamId].sort().join("|"),
+          ],
+        });
+        const blockId = Number(blockResult.rows[0].id);
+        ids.push(blockId);
+
+        for (const [sequence, item] of row.items.entries()) {
+          const assetType = item.assetType ?? "player";
+          await db.execute({
+            sql: `INSERT INTO trade_block_items (
+                    trade_source_block_id, sequence, from_team_id, to_team_id, asset_type,
+                    fantrax_entity_id, raw_name, raw_position, match_status, match_strategy,
+                    draft_season, draft_round, draft_original_team_id, raw_asset_text
+                  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              blockId,
+              sequence,
+              row.fromTeamId,
+              row.toTeamId,
+              assetType,
+              item.fantraxEntityId ?? null,
+              item.rawName,
+              item.rawPosition ?? null,
+              item.matchStatus ??
+                (assetType !== "player"
+                  ? "not_applicable"
+                  : item.fantraxEntityId
+                    ? "matched"
+                    : "unresolved_missing_entity"),
+              item.matchStrategy ??
+                (assetType === "player" ? "exact_name_position" : "not_applicable"),
+              item.draftSeason ?? null,
+              item.draftRound ?? null,
+              item.draftOriginalTeamId ?? null,
+              item.rawName,
+            ],
+          });
+        }
+      }
+      return ids;
+    },
     setLastModified: async (value) => {
       await db.execute({
         sql: "INSERT OR REPLACE INTO import_metadata (key, value) VALUES (?, ?)",
@@ -0,0 +1,147 @@
+import {
+  createFuzzyNameMatcher,
+  splitPersonName,
+} from "../shared/name-matching.js";
+
+describe("name matching", () => {
+  test("splits first name and surname after folding diacritics, punctuation, suffixes and nicknames", () => {
+    expect(splitPersonName("Alexis Lafrenière")).toEqual({
+      first: "alexis",
+      last: "lafreniere",
+    });
+    expect(splitPersonName("Marner, Mitch")).toEqual({
+      first: "mitchell",
+      last: "marner",
+    });
+    expect(splitPersonName("Mitchell Marner")).toEqual({
+      first: "mitchell",
+      last: "marner",
+    });
+    expect(splitPersonName("Ryan O'Reilly Jr.")).toEqual({
+      first: "ryan",
+      last: "o reilly",
+    });
+    expect(splitPersonName("Jean-Gabriel Pageau")).toEqual({
+      first: "jean gabriel",
+      last: "pageau",
+    });
+    expect(splitPersonName("Pageau, Jean-Gabriel")).toEqual({
+      first: "jean gabriel",
+      last: "pageau",
+    });
+    expect(splitPersonName("Jr.")).toEqual({ first: "", last: "" });
+  });
+
+  test("returns the best candidate above the threshold with its confidence", () => {
+    const matcher = createFuzzyNameMatcher([
+      { id: "p-short", name: "Al" },
+      { id: "p-lafreniere", name: "Alexis Lafrenière" },
+      { id: "p-lafrenier", name: "Alexis Lafrenier" },
+      { id: "p-far", name: "Alexis Lafrenixxx" },
+    ]);
+
+    expect(matcher.match("Alexis Lafreniere")).toEqual({
+      status: "matched",
+      id: "p-lafreniere",
+      confidence: 1,
+    });
+    expect(
+      matcher.match(
+        "Alexis Lafreniere",
+        (candidate) => candidate.id !== "p-lafreniere",
+      ),
+    ).toEqual({ status: "matched", id: "p-lafrenier", confidence: 0.941 });
+    expect(matcher.match("Somebody Else")).toEqual({ status: "missing" });
+  });
+
+  test("keeps near ties unresolved and honors custom thresholds", () => {
+    const candidates = [
+      { id: "p-a", name: "Tim Stützle" },
+      { id: "p-b", name: "Tim Stutzle" },
+    ];
+
+    expect(createFuzzyNameMatcher(candidates).match("Tim Stutzle Jr.")).toEqual({
+      status: "ambiguous",
+      confidence: 1,
+    });
+    expect(
+      createFuzzyNameMatcher(candidates, {
+        minConfidence: 0.5,
+        ambiguityMargin: 0,
+        minPartSimilarity: 0.5,
+      }).match("Tim Stutzle"),
+    ).toEqual({ status: "matched", id: "p-a", confidence: 1 });
+    expect(
+      createFuzzyNameMatcher([{ id: "p-a", name: "Tim Stutzel" }], {
+        minConfidence: 0.8,
+        ambiguityMargin: 0.05,
+        minPartSimilarity: 0.95,
+      }).match("Tim Stutzle"),
+    ).toEqual({ status: "missing" });
+    expect(
+      createFuzzyNameMatcher([{ id: "p-empty", name: "Jr." }]).match(""),
+    ).toEqual({ status: "missing" });
+  });
+
+  test("tracks the runner-up across candidates in any order", () => {
+    const candidates = [
+      { id: "p-lafreniere", name: "Alexis Lafrenière" },
+      { id: "p-far", name: "Alexis Lafreniereee" },
+      { id: "p-near", name: "Alexis Lafrenier" },
+      { id: "p-far-copy", name: "Alexis Lafreniereee" },
+    ];
+
+    expect(createFuzzyNameMatcher(candidates).match("Alexis Lafreniere")).toEqual({
+      status: "matched",
+      id: "p-lafreniere",
+      confidence: 1,
+    });
+    expect(
+      createFuzzyNameMatcher(candidates, {
+        minConfidence: 0.85,
+        ambiguityMargin: 0.06,
+        minPartSimilarity: 0.8,
+      }).match("Alexis Lafreniere"),
+    ).toEqual({ status: "ambiguous", confidence: 1 });
+  });
+
+  test("matches reordered name tokens", () => {
+    const matcher = createFuzzyNameMatcher([
+      { id: "p-marner", name: "Mitchell Marner" },
+      { id: "p-pageau", name: "Jean-Gabriel Pageau" },
+    ]);
+
+    expect(matcher.match("Marner Mitch")).toEqual({
+      status: "matched",
+      id: "p-marner",
+      confidence: 1,
+    });
+    expect(matcher.match("Pageau Jean-Gabriel")).toEqual({
+      status: "matched",
+      id: "p-pageau",
+      confidence: 1,
+    });
+    expect(matcher.match("Marner")).toEqual({ status: "missing" });
+  });
+
+  test("never links near-miss names of different players", () => {
+    const matcher = createFuzzyNameMatcher([
+      { id: "p-fox", name: "Adam Fox" },
+      { id: "p-hughes", name: "Jack Hughes" },
+      { id: "p-power", name: "Owen Power" },
+    ]);
+
+    expect(matcher.match("Adam Cox")).toEqual({ status: "missing" });
+    expect(matcher.match("Mack Hughes")).toEqual({ status: "missing" });
+    expect(matcher.match("Hughes, Jack")).toEqual({
+      status: "matched",
+      id: "p-hughes",
+      confidence: 1,
+    });
+    expect(matcher.match("Owen Pwer")).toEqual({
+      status: "matched",
+      id: "p-power",
+      confidence: 0.9,
+    });
+  });
+});
@@ -166,5 +166,8 @@ describe("router", () => {
     expect(res.getHeader("Access-Control-Allow-Headers")).toBe(
       "Authorization, Content-Type, X-Requested-With, x-api-key",
     );
+    expect(res.getHeader("Access-Control-Expose-Headers")).toBe(
+      "X-Total-Count, X-Score-Weights",
+    );
   });
 });
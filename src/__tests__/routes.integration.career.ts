@@ -3,10 +3,16 @@ import {
   getCareerGoalie,
   getCareerGoalies,
   getCareerHighlights,
+  getCareerMilestones,
   getCareerPlayer,
   getCareerPlayers,
+  getCompareGoalies,
+  getComparePlayers,
+  getPlayersProgression,
+  getSimilarGoalies,
+  getSimilarPlayers,
 } from "../features/career/routes.js";
-import { HTTP_STATUS } from "../shared/http.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
 import { createIntegrationDb } from "./integration-db.js";
 import { expectArraySchema, expectObjectSchema } from "./openapi-schema.js";
 import {
@@ -20,8 +26,101 @@ type CareerGoalieReq = Parameters<typeof getCareerGoalie>[0];
 type CareerPlayersReq = Parameters<typeof getCareerPlayers>[0];
 type CareerGoaliesReq = Parameters<typeof getCareerGoalies>[0];
 type CareerHighlightsReq = Parameters<typeof getCareerHighlights>[0];
+type CompareReq = Parameters<typeof getComparePlayers>[0];
+type ProgressionReq = Parameters<typeof getPlayersProgression>[0];
+type MilestonesReq = Parameters<typeof getCareerMilestones>[0];
 type IntegrationDbClient = Awaited<ReturnType<typeof createIntegrationDb>>["db"];
 
+type ProgressionItem = {
+  id: string;
+  season: number;
+  scoreDelta: number;
+  status: string;
+  previous: { season: number; games: number };
+  current: { season: number; games: number };
+};
+
+type ProgressionBody = {
+  season: number;
+  risers: ProgressionItem[];
+  fallers: ProgressionItem[];
+};
+
+const requestProgression = async (query: string) => {
+  const req = createRequest({
+    method: "GET",
+    url: `/players/progression${query}`,
+  });
+  const res = createResponse();
+  await getPlayersProgression(asRouteReq<ProgressionReq>(req), res);
+  return res;
+};
+
+type MilestonesBody = {
+  skip: number;
+  take: number;
+  total: number;
+  items: Array<{ id: string; type: string; season: number }>;
+};
+
+const requestMilestones = async (query = "") => {
+  const req = createRequest({
+    method: "GET",
+    url: `/career/milestones${query}`,
+  });
+  const res = createResponse();
+  await getCareerMilestones(asRouteReq<MilestonesReq>(req), res);
+  return res;
+};
+
+type CompareEntity = {
+  id: string;
+  score: { set: number; league: number };
+  scoreAdjustedByGames: { set: number; league: number };
+  totals: { games: number; goals: number; rates: Record<string, number> };
+  seasons: Array<{ season: number; reportType: string }>;
+};
+
+const requestCompare = async (kind: "players" | "goalies", query: string) => {
+  const req = createRequest({ method: "GET", url: `/compare/${kind}${query}` });
+  const res = createResponse();
+  if (kind === "players") {
+    await getComparePlayers(asRouteReq<CompareReq>(req), res);
+  } else {
+    await getCompareGoalies(asRouteReq<CompareReq>(req), res);
+  }
+  return res;
+};
+
+type SimilarReq = Parameters<typeof getSimilarPlayers>[0];
+
+type SimilarBody = {
+  id: string;
+  season: number | null;
+  games: number;
+  similar: Array<{ id: string; similarity: number }>;
+};
+
+const requestSimilar = async (
+  kind: "players" | "goalies",
+  id: string,
+  query: string,
+) => {
+  const path = kind === "players" ? "player" : "goalie";
+  const req = createRequest({
+    method: "GET",
+    url: `/career/${path}/${id}/similar${query}`,
+    params: { id },
+  });
+  const res = createResponse();
+  if (kind === "players") {
+    await getSimilarPlayers(asRouteReq<SimilarReq>(req), res);
+  } else {
+    await getSimilarGoalies(asRouteReq<SimilarReq>(req), res);
+  }
+  return res;
+};
+
 type ClaimHighlightSeed = {
   season: number;
   teamId: string;
@@ -238,6 +337,158 @@ export const registerCareerRouteIntegrationTests = (): void => {
           "2022-2-regular",
         ]);
         expectObjectSchema("CareerPlayer", body);
+
+        const ratesReq = createRequest({
+          method: "GET",
+          url: "/career/player/p-career?include=rates",
+          params: { id: "p-career" },
+        });
+        const ratesRes = createResponse();
+
+        await getCareerPlayer(asRouteReq<CareerPlayerReq>(ratesReq), ratesRes);
+
+        const ratesBody = getJsonBody<Record<string, unknown>>(ratesRes);
+        const rateTotals = ratesBody.totals as Record<
+          string,
+          { rates: Record<string, number>; teams: Array<{ rates: unknown }> }
+        >;
+        expect(rateTotals.career.rates).toEqual(
+          expect.objectContaining({ goals: 0.412, points: 1, shots: 2.471 }),
+        );
+        expect(rateTotals.regular.rates.goals).toBe(0.4);
+        expect(rateTotals.playoffs.rates.goals).toBe(0.5);
+        expect(rateTotals.career.teams[0].rates).toEqual(
+          expect.objectContaining({ goals: 0.417 }),
+        );
+        expectObjectSchema("CareerPlayer", ratesBody);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns the career player's claims, drops and trades oldest first with trade ids", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "4",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-mover",
+            name: "Moving Winger",
+            position: "F",
+            games: 20,
+          },
+        ]);
+        const [tradeId, moverBlockId] = await db.insertTradeBlocks([
+          {
+            season: 2024,
+            occurredAt: "2025-01-10T12:00:00.000Z",
+            fromTeamId: "4",
+            toTeamId: "3",
+            items: [{ assetType: "other", rawName: "Future considerations" }],
+          },
+          {
+            season: 2024,
+            occurredAt: "2025-01-10T12:00:00.000Z",
+            fromTeamId: "3",
+            toTeamId: "4",
+            items: [
+              {
+                fantraxEntityId: "p-mover",
+                rawName: "Moving Winger",
+                rawPosition: "F",
+              },
+            ],
+          },
+        ]);
+        await db.insertClaimEvents([
+          {
+            season: 2024,
+            teamId: "4",
+            occurredAt: "2025-03-01T12:00:00.000Z",
+            items: [
+              {
+                actionType: "drop",
+                fantraxEntityId: "p-mover",
+                rawName: "Moving Winger",
+                rawPosition: "F",
+              },
+            ],
+          },
+          {
+            season: 2024,
+            teamId: "3",
+            occurredAt: "2024-10-05T12:00:00.000Z",
+            items: [
+              {
+                actionType: "claim",
+                fantraxEntityId: "p-mover",
+                rawName: "Moving Winger",
+                rawPosition: "F",
+              },
+              {
+                actionType: "claim",
+                rawName: "Other Skater",
+                rawPosition: "D",
+              },
+            ],
+          },
+        ]);
+
+        const req = createRequest({
+          method: "GET",
+          url: "/career/player/p-mover",
+          params: { id: "p-mover" },
+        });
+        const res = createResponse();
+
+        await getCareerPlayer(asRouteReq<CareerPlayerReq>(req), res);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        const body = getJsonBody<{
+          transactions: Array<{
+            type: string;
+            occurredAt: string;
+            fromTeam: { id: string } | null;
+            toTeam: { id: string } | null;
+            tradeId: number | null;
+          }>;
+        }>(res);
+        expectObjectSchema("CareerPlayer", body);
+        expect(tradeId).not.toBe(moverBlockId);
+        expect(
+          body.transactions.map((event) => ({
+            type: event.type,
+            occurredAt: event.occurredAt,
+            fromTeamId: event.fromTeam?.id ?? null,
+            toTeamId: event.toTeam?.id ?? null,
+            tradeId: event.tradeId,
+          })),
+        ).toEqual([
+          {
+            type: "claim",
+            occurredAt: "2024-10-05T12:00:00.000Z",
+            fromTeamId: null,
+            toTeamId: "3",
+            tradeId: null,
+          },
+          {
+            type: "trade",
+            occurredAt: "2025-01-10T12:00:00.000Z",
+            fromTeamId: "3",
+            toTeamId: "4",
+            tradeId,
+          },
+          {
+            type: "drop",
+            occurredAt: "2025-03-01T12:00:00.000Z",
+            fromTeamId: "4",
+            toTeamId: null,
+            tradeId: null,
+          },
+        ]);
       } finally {
         await db.cleanup();
       }
@@ -496,6 +747,12 @@ export const registerCareerRouteIntegrationTests = (): void => {
         expect(totals.career.wins).toBe(10);
         expect(totals.regular.games).toBe(12);
         expect(totals.playoffs.games).toBe(4);
+        expect(totals.career).toMatchObject({ gaa: "1.41", savePercent: "0.906" });
+        expect(totals.regular).toMatchObject({ gaa: "1.20", savePercent: "0.900" });
+        expect(totals.playoffs).toMatchObject({
+          gaa: "2.05",
+          savePercent: "0.925",
+        });
         expect(body.seasons).toEqual(
           expect.arrayContaining([
             expect.objectContaining({
@@ -512,6 +769,27 @@ export const registerCareerRouteIntegrationTests = (): void => {
       }
     });
 
+    test.each([
+      ["player", "?include=totals"],
+      ["goalie", "?include=rates,totals"],
+    ])("rejects unknown include values on the career %s route", async (kind, query) => {
+      const req = createRequest({
+        method: "GET",
+        url: `/career/${kind}/any${query}`,
+        params: { id: "any" },
+      });
+      const res = createResponse();
+
+      if (kind === "player") {
+        await getCareerPlayer(asRouteReq<CareerPlayerReq>(req), res);
+      } else {
+        await getCareerGoalie(asRouteReq<CareerGoalieReq>(req), res);
+      }
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(ERROR_MESSAGES.INVALID_INCLUDE);
+    });
+
     test("returns 404 for a missing career goalie from the live DB", async () => {
       const db = await createIntegrationDb();
 
@@ -1709,110 +1987,57 @@ export const registerCareerRouteIntegrationTests = (): void => {
       }
     });
 
-    test("returns most-claims highlights with per-team transaction counts from the live DB", async () => {
+    test("returns most-franchise-points highlights from regular-season points per team", async () => {
       const db = await createIntegrationDb();
 
       try {
         await db.insertPlayers([
           {
             teamId: "1",
-            season: 2025,
+            season: 2023,
             reportType: "regular",
-            playerId: "p-claim",
-            name: "Claim King",
+            playerId: "p-franchise",
+            name: "Franchise Skater",
             position: "F",
-            games: 1,
+            games: 82,
+            points: 90,
           },
           {
-            teamId: "7",
-            season: 2025,
+            teamId: "1",
+            season: 2024,
             reportType: "regular",
-            playerId: "p-claim",
-            name: "Claim King",
+            playerId: "p-franchise",
+            name: "Franchise Skater",
             position: "F",
-            games: 1,
-          },
-        ]);
-        await db.insertGoalies([
-          {
-            teamId: "5",
-            season: 2025,
-            reportType: "regular",
-            goalieId: "g-claim",
-            name: "Goalie Claimer",
-            games: 1,
-          },
-        ]);
-        await insertClaimHighlightSeeds(db.db, [
-          {
-            season: 2025,
-            teamId: "7",
-            occurredAt: "2026-03-05T16:38:00.000Z",
-            actionType: "claim",
-            fantraxEntityId: "p-claim",
-            rawName: "Claim King",
-            rawPosition: "F",
-          },
-          {
-            season: 2025,
-            teamId: "7",
-            occurredAt: "2026-03-06T16:38:00.000Z",
-            actionType: "claim",
-            fantraxEntityId: "p-claim",
-            rawName: "Claim King",
-            rawPosition: "F",
-          },
-          {
-            season: 2025,
-            teamId: "7",
-            occurredAt: "2026-03-07T16:38:00.000Z",
-            actionType: "claim",
-            fantraxEntityId: "p-claim",
-            rawName: "Claim King",
-            rawPosition: "F",
+            games: 82,
+            points: 70,
           },
           {
-            season: 2025,
             teamId: "1",
-            occurredAt: "2026-03-08T16:38:00.000Z",
-            actionType: "claim",
-            fantraxEntityId: "p-claim",
-            rawName: "Claim King",
-            rawPosition: "F",
-          },
-          {
-            season: 2025,
-            teamId: "5",
-            occurredAt: "2026-03-09T16:38:00.000Z",
-            actionType: "claim",
-            fantraxEntityId: "g-claim",
-            rawName: "Goalie Claimer",
-            rawPosition: "G",
-          },
-          {
-            season: 2025,
-            teamId: "5",
-            occurredAt: "2026-03-10T16:38:00.000Z",
-            actionType: "claim",
-            fantraxEntityId: "g-claim",
-            rawName: "Goalie Claimer",
-            rawPosition: "G",
+            season: 2024,
+            reportType: "playoffs",
+            playerId: "p-franchise",
+            name: "Franchise Skater",
+            position: "F",
+            games: 20,
+            points: 25,
           },
           {
-            season: 2025,
-            teamId: "5",
-            occurredAt: "2026-03-11T16:38:00.000Z",
-            actionType: "claim",
-            fantraxEntityId: "g-claim",
-            rawName: "Goalie Claimer",
-            rawPosition: "G",
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-short",
+            name: "Short Skater",
+            position: "D",
+            games: 82,
+            points: 120,
           },
         ]);
 
         const req = createRequest({
           method: "GET",
-          url: "/career/highlights/most-claims",
-          params: { type: "most-claims" },
+          url: "/career/highlights/most-franchise-points",
+          params: { type: "most-franchise-points" },
         });
         const res = createResponse();
 
@@ -1821,141 +2046,58 @@ export const registerCareerRouteIntegrationTests = (): void => {
         const body = getJsonBody<Record<string, unknown>>(res);
         expect(res.statusCode).toBe(HTTP_STATUS.OK);
         expect(body).toEqual({
-          type: "most-claims",
-          minAllowed: 3,
+          type: "most-franchise-points",
+          minAllowed: 150,
           skip: 0,
           take: 10,
-          total: 2,
+          total: 1,
           items: [
             {
-              id: "p-claim",
-              name: "Claim King",
+              id: "p-franchise",
+              name: "Franchise Skater",
               position: "F",
-              transactionCount: 4,
-              teams: [
-                { id: "7", name: "Edmonton Oilers", count: 3 },
-                { id: "1", name: "Colorado Avalanche", count: 1 },
-              ],
-            },
-            {
-              id: "g-claim",
-              name: "Goalie Claimer",
-              position: "G",
-              transactionCount: 3,
-              teams: [{ id: "5", name: "Montreal Canadiens", count: 3 }],
+              points: 160,
+              team: { id: "1", name: "Colorado Avalanche" },
             },
           ],
         });
-        expectObjectSchema("CareerTransactionHighlightPage", body);
+        expectObjectSchema("CareerFranchisePointsHighlightPage", body);
       } finally {
         await db.cleanup();
       }
     });
 
-    test("returns most-trades highlights using traded-away team counts from the live DB", async () => {
+    test("returns most-playoff-points highlights with playoff teams", async () => {
       const db = await createIntegrationDb();
 
       try {
         await db.insertPlayers([
           {
-            teamId: "2",
-            season: 2025,
-            reportType: "regular",
-            playerId: "p-trade",
-            name: "Trade Skater",
+            teamId: "1",
+            season: 2023,
+            reportType: "playoffs",
+            playerId: "p-playoff",
+            name: "Playoff Skater",
             position: "D",
-            games: 1,
+            games: 10,
+            points: 12,
           },
-        ]);
-        await db.insertGoalies([
           {
-            teamId: "5",
-            season: 2025,
-            reportType: "regular",
-            goalieId: "g-trade",
-            name: "Trade Goalie",
-            games: 1,
-          },
-        ]);
-        await insertTradeHighlightSeeds(db.db, [
-          {
-            season: 2025,
-            fromTeamId: "2",
-            toTeamId: "7",
-            occurredAt: "2026-03-05T13:12:00.000Z",
-            fantraxEntityId: "p-trade",
-            rawName: "Trade Skater",
-            rawPosition: "D",
-          },
-          {
-            season: 2025,
-            fromTeamId: "2",
-            toTeamId: "8",
-            occurredAt: "2026-03-06T13:12:00.000Z",
-            fantraxEntityId: "p-trade",
-            rawName: "Trade Skater",
-            rawPosition: "D",
-          },
-          {
-            season: 2025,
-            fromTeamId: "2",
-            toTeamId: "9",
-            occurredAt: "2026-03-07T13:12:00.000Z",
-            fantraxEntityId: "p-trade",
-            rawName: "Trade Skater",
-            rawPosition: "D",
-          },
-          {
-            season: 2025,
-            fromTeamId: "2",
-            toTeamId: "10",
-            occurredAt: "2026-03-08T13:12:00.000Z",
-            fantraxEntityId: "p-trade",
-            rawName: "Trade Skater",
-            rawPosition: "D",
-          },
-          {
-            season: 2025,
-            fromTeamId: "5",
-            toTeamId: "1",
-            occurredAt: "2026-03-09T13:12:00.000Z",
-            fantraxEntityId: "g-trade",
-            rawName: "Trade Goalie",
-            rawPosition: "G",
-          },
-          {
-            season: 2025,
-            fromTeamId: "5",
-            toTeamId: "2",
-            occurredAt: "2026-03-10T13:12:00.000Z",
-            fantraxEntityId: "g-trade",
-            rawName: "Trade Goalie",
-            rawPosition: "G",
-          },
-          {
-            season: 2025,
-            fromTeamId: "5",
-            toTeamId: "3",
-            occurredAt: "2026-03-11T13:12:00.000Z",
-            fantraxEntityId: "g-trade",
-            rawName: "Trade Goalie",
-            rawPosition: "G",
-          },
-          {
-            season: 2025,
-            fromTeamId: "5",
-            toTeamId: "4",
-            occurredAt: "2026-03-12T13:12:00.000Z",
-            fantraxEntityId: "g-trade",
-            rawName: "Trade Goalie",
-            rawPosition: "G",
+            teamId: "2",
+            season: 2024,
+            reportType: "playoffs",
+            playerId: "p-playoff",
+            name: "Playoff Skater",
+            position: "D",
+            games: 8,
+            points: 9,
           },
         ]);
 
         const req = createRequest({
           method: "GET",
-          url: "/career/highlights/most-trades",
-          params: { type: "most-trades" },
+          url: "/career/highlights/most-playoff-points",
+          params: { type: "most-playoff-points" },
         });
         const res = createResponse();
 
@@ -1964,166 +2106,1166 @@ export const registerCareerRouteIntegrationTests = (): void => {
         const body = getJsonBody<Record<string, unknown>>(res);
         expect(res.statusCode).toBe(HTTP_STATUS.OK);
         expect(body).toEqual({
-          type: "most-trades",
-          minAllowed: 4,
+          type: "most-playoff-points",
+          minAllowed: 20,
           skip: 0,
           take: 10,
-          total: 2,
+          total: 1,
           items: [
             {
-              id: "g-trade",
-              name: "Trade Goalie",
-              position: "G",
-              transactionCount: 4,
-              teams: [{ id: "5", name: "Montreal Canadiens", count: 4 }],
-            },
-            {
-              id: "p-trade",
-              name: "Trade Skater",
+              id: "p-playoff",
+              name: "Playoff Skater",
               position: "D",
-              transactionCount: 4,
-              teams: [{ id: "2", name: "Carolina Hurricanes", count: 4 }],
+              points: 21,
+              teams: [
+                { id: "1", name: "Colorado Avalanche" },
+                { id: "2", name: "Carolina Hurricanes" },
+              ],
             },
           ],
         });
-        expectObjectSchema("CareerTransactionHighlightPage", body);
+        expectObjectSchema("CareerPlayoffPointsHighlightPage", body);
       } finally {
         await db.cleanup();
       }
     });
 
-    test("serves career highlight snapshots and applies paging after loading the snapshot", async () => {
+    test("returns iron-man highlights from consecutive regular-season runs", async () => {
       const db = await createIntegrationDb();
 
       try {
-        const snapshotPayload = [
-          {
-            id: "g-snapshot",
-            name: "Snapshot Goalie",
-            position: "G",
-            teamCount: 5,
-            teams: [
-              { id: "1", name: "Colorado Avalanche" },
-              { id: "2", name: "Carolina Hurricanes" },
-              { id: "3", name: "Calgary Flames" },
-              { id: "4", name: "Vancouver Canucks" },
-              { id: "5", name: "Montreal Canadiens" },
-            ],
-          },
-          {
-            id: "p-snapshot",
-            name: "Snapshot Skater",
-            position: "F",
-            teamCount: 4,
-            teams: [
-              { id: "6", name: "Detroit Red Wings" },
-              { id: "7", name: "Edmonton Oilers" },
-              { id: "8", name: "San Jose Sharks" },
-              { id: "9", name: "New York Rangers" },
-            ],
-          },
-        ];
-        await writeSnapshot(
-          db.snapshotDir,
-          "career/highlights/most-teams-played",
-          snapshotPayload,
+        await db.insertGoalies(
+          [2015, 2016, 2017, 2018, 2019, 2020, 2021, 2022].map((season) => ({
+            teamId: season < 2019 ? "5" : "6",
+            season,
+            reportType: "regular" as const,
+            goalieId: "g-iron",
+            name: "Iron Goalie",
+            games: 40,
+          })),
         );
 
         const req = createRequest({
           method: "GET",
-          url: "/career/highlights/most-teams-played?skip=1&take=1",
-          params: { type: "most-teams-played" },
+          url: "/career/highlights/iron-man",
+          params: { type: "iron-man" },
         });
         const res = createResponse();
 
         await getCareerHighlights(asRouteReq<CareerHighlightsReq>(req), res);
 
+        const body = getJsonBody<Record<string, unknown>>(res);
         expect(res.statusCode).toBe(HTTP_STATUS.OK);
-        expect(res.getHeader("x-stats-data-source")).toBe("snapshot");
-        expect(getJsonBody(res)).toEqual({
-          type: "most-teams-played",
-          minAllowed: 4,
-          skip: 1,
-          take: 1,
-          total: 2,
-          items: [snapshotPayload[1]],
+        expect(body).toEqual({
+          type: "iron-man",
+          minAllowed: 8,
+          skip: 0,
+          take: 10,
+          total: 1,
+          items: [
+            {
+              id: "g-iron",
+              name: "Iron Goalie",
+              position: "G",
+              seasonCount: 8,
+              startSeason: 2015,
+              endSeason: 2022,
+              teams: [
+                { id: "5", name: "Montreal Canadiens" },
+                { id: "6", name: "Detroit Red Wings" },
+              ],
+            },
+          ],
         });
+        expectObjectSchema("CareerIronManHighlightPage", body);
       } finally {
         await db.cleanup();
       }
     });
 
-    test("returns 400 for invalid career highlight paging params", async () => {
+    test("returns one-season-wonders scored against the season's league pool", async () => {
       const db = await createIntegrationDb();
 
       try {
-        const badTakeReq = createRequest({
-          method: "GET",
-          url: "/career/highlights/most-teams-played?take=101",
-          params: { type: "most-teams-played" },
-        });
-        const badTakeRes = createResponse();
-
-        await getCareerHighlights(
-          asRouteReq<CareerHighlightsReq>(badTakeReq),
-          badTakeRes,
-        );
-
-        expect(badTakeRes.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
-        expect(badTakeRes._getData()).toBe("Invalid paging params");
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-wonder",
+            name: "Wonder Skater",
+            position: "F",
+            games: 82,
+            goals: 45,
+            assists: 50,
+            points: 95,
+            shots: 300,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-depth",
+            name: "Depth Skater",
+            position: "D",
+            games: 60,
+            points: 3,
+          },
+        ]);
 
-        const badSkipReq = createRequest({
+        const req = createRequest({
           method: "GET",
-          url: "/career/highlights/most-teams-played?skip=-1",
-          params: { type: "most-teams-played" },
+          url: "/career/highlights/one-season-wonders",
+          params: { type: "one-season-wonders" },
         });
-        const badSkipRes = createResponse();
-
-        await getCareerHighlights(
-          asRouteReq<CareerHighlightsReq>(badSkipReq),
-          badSkipRes,
-        );
+        const res = createResponse();
 
-        expect(badSkipRes.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
-        expect(badSkipRes._getData()).toBe("Invalid paging params");
+        await getCareerHighlights(asRouteReq<CareerHighlightsReq>(req), res);
 
-        const hugeSkipReq = createRequest({
-          method: "GET",
-          url: "/career/highlights/most-teams-played?skip=9007199254740992",
-          params: { type: "most-teams-played" },
+        const body = getJsonBody<Record<string, unknown>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toEqual({
+          type: "one-season-wonders",
+          minAllowed: 60,
+          skip: 0,
+          take: 10,
+          total: 1,
+          items: [
+            {
+              id: "p-wonder",
+              name: "Wonder Skater",
+              position: "F",
+              score: 100,
+              season: 2024,
+              team: { id: "1", name: "Colorado Avalanche" },
+            },
+          ],
         });
-        const hugeSkipRes = createResponse();
-
-        await getCareerHighlights(
-          asRouteReq<CareerHighlightsReq>(hugeSkipReq),
-          hugeSkipRes,
-        );
-
-        expect(hugeSkipRes.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
-        expect(hugeSkipRes._getData()).toBe("Invalid paging params");
+        expectObjectSchema("CareerOneSeasonWonderHighlightPage", body);
       } finally {
         await db.cleanup();
       }
     });
 
-    test("returns 400 for an unknown career highlight type", async () => {
+    test("returns most-claims highlights with per-team transaction counts from the live DB", async () => {
       const db = await createIntegrationDb();
 
       try {
-        const req = createRequest({
-          method: "GET",
-          url: "/career/highlights/not-a-real-type",
-          params: { type: "not-a-real-type" },
-        });
-        const res = createResponse();
-
-        await getCareerHighlights(asRouteReq<CareerHighlightsReq>(req), res);
-
-        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
-        expect(res._getData()).toBe("Invalid career highlight type");
-      } finally {
-        await db.cleanup();
-      }
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2025,
+            reportType: "regular",
+            playerId: "p-claim",
+            name: "Claim King",
+            position: "F",
+            games: 1,
+          },
+          {
+            teamId: "7",
+            season: 2025,
+            reportType: "regular",
+            playerId: "p-claim",
+            name: "Claim King",
+            position: "F",
+            games: 1,
+          },
+        ]);
+        await db.insertGoalies([
+          {
+            teamId: "5",
+            season: 2025,
+            reportType: "regular",
+            goalieId: "g-claim",
+            name: "Goalie Claimer",
+            games: 1,
+          },
+        ]);
+        await insertClaimHighlightSeeds(db.db, [
+          {
+            season: 2025,
+            teamId: "7",
+            occurredAt: "2026-03-05T16:38:00.000Z",
+            actionType: "claim",
+            fantraxEntityId: "p-claim",
+            rawName: "Claim King",
+            rawPosition: "F",
+          },
+          {
+            season: 2025,
+            teamId: "7",
+            occurredAt: "2026-03-06T16:38:00.000Z",
+            actionType: "claim",
+            fantraxEntityId: "p-claim",
+            rawName: "Claim King",
+            rawPosition: "F",
+          },
+          {
+            season: 2025,
+            teamId: "7",
+            occurredAt: "2026-03-07T16:38:00.000Z",
+            actionType: "claim",
+            fantraxEntityId: "p-claim",
+            rawName: "Claim King",
+            rawPosition: "F",
+          },
+          {
+            season: 2025,
+            teamId: "1",
+            occurredAt: "2026-03-08T16:38:00.000Z",
+            actionType: "claim",
+            fantraxEntityId: "p-claim",
+            rawName: "Claim King",
+            rawPosition: "F",
+          },
+          {
+            season: 2025,
+            teamId: "5",
+            occurredAt: "2026-03-09T16:38:00.000Z",
+            actionType: "claim",
+            fantraxEntityId: "g-claim",
+            rawName: "Goalie Claimer",
+            rawPosition: "G",
+          },
+          {
+            season: 2025,
+            teamId: "5",
+            occurredAt: "2026-03-10T16:38:00.000Z",
+            actionType: "claim",
+            fantraxEntityId: "g-claim",
+            rawName: "Goalie Claimer",
+            rawPosition: "G",
+          },
+          {
+            season: 2025,
+            teamId: "5",
+            occurredAt: "2026-03-11T16:38:00.000Z",
+            actionType: "claim",
+            fantraxEntityId: "g-claim",
+            rawName: "Goalie Claimer",
+            rawPosition: "G",
+          },
+        ]);
+
+        const req = createRequest({
+          method: "GET",
+          url: "/career/highlights/most-claims",
+          params: { type: "most-claims" },
+        });
+        const res = createResponse();
+
+        await getCareerHighlights(asRouteReq<CareerHighlightsReq>(req), res);
+
+        const body = getJsonBody<Record<string, unknown>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toEqual({
+          type: "most-claims",
+          minAllowed: 3,
+          skip: 0,
+          take: 10,
+          total: 2,
+          items: [
+            {
+              id: "p-claim",
+              name: "Claim King",
+              position: "F",
+              transactionCount: 4,
+              teams: [
+                { id: "7", name: "Edmonton Oilers", count: 3 },
+                { id: "1", name: "Colorado Avalanche", count: 1 },
+              ],
+            },
+            {
+              id: "g-claim",
+              name: "Goalie Claimer",
+              position: "G",
+              transactionCount: 3,
+              teams: [{ id: "5", name: "Montreal Canadiens", count: 3 }],
+            },
+          ],
+        });
+        expectObjectSchema("CareerTransactionHighlightPage", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns most-trades highlights using traded-away team counts from the live DB", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "2",
+            season: 2025,
+            reportType: "regular",
+            playerId: "p-trade",
+            name: "Trade Skater",
+            position: "D",
+            games: 1,
+          },
+        ]);
+        await db.insertGoalies([
+          {
+            teamId: "5",
+            season: 2025,
+            reportType: "regular",
+            goalieId: "g-trade",
+            name: "Trade Goalie",
+            games: 1,
+          },
+        ]);
+        await insertTradeHighlightSeeds(db.db, [
+          {
+            season: 2025,
+            fromTeamId: "2",
+            toTeamId: "7",
+            occurredAt: "2026-03-05T13:12:00.000Z",
+            fantraxEntityId: "p-trade",
+            rawName: "Trade Skater",
+            rawPosition: "D",
+          },
+          {
+            season: 2025,
+            fromTeamId: "2",
+            toTeamId: "8",
+            occurredAt: "2026-03-06T13:12:00.000Z",
+            fantraxEntityId: "p-trade",
+            rawName: "Trade Skater",
+            rawPosition: "D",
+          },
+          {
+            season: 2025,
+            fromTeamId: "2",
+            toTeamId: "9",
+            occurredAt: "2026-03-07T13:12:00.000Z",
+            fantraxEntityId: "p-trade",
+            rawName: "Trade Skater",
+            rawPosition: "D",
+          },
+          {
+            season: 2025,
+            fromTeamId: "2",
+            toTeamId: "10",
+            occurredAt: "2026-03-08T13:12:00.000Z",
+            fantraxEntityId: "p-trade",
+            rawName: "Trade Skater",
+            rawPosition: "D",
+          },
+          {
+            season: 2025,
+            fromTeamId: "5",
+            toTeamId: "1",
+            occurredAt: "2026-03-09T13:12:00.000Z",
+            fantraxEntityId: "g-trade",
+            rawName: "Trade Goalie",
+            rawPosition: "G",
+          },
+          {
+            season: 2025,
+            fromTeamId: "5",
+            toTeamId: "2",
+            occurredAt: "2026-03-10T13:12:00.000Z",
+            fantraxEntityId: "g-trade",
+            rawName: "Trade Goalie",
+            rawPosition: "G",
+          },
+          {
+            season: 2025,
+            fromTeamId: "5",
+            toTeamId: "3",
+            occurredAt: "2026-03-11T13:12:00.000Z",
+            fantraxEntityId: "g-trade",
+            rawName: "Trade Goalie",
+            rawPosition: "G",
+          },
+          {
+            season: 2025,
+            fromTeamId: "5",
+            toTeamId: "4",
+            occurredAt: "2026-03-12T13:12:00.000Z",
+            fantraxEntityId: "g-trade",
+            rawName: "Trade Goalie",
+            rawPosition: "G",
+          },
+        ]);
+
+        const req = createRequest({
+          method: "GET",
+          url: "/career/highlights/most-trades",
+          params: { type: "most-trades" },
+        });
+        const res = createResponse();
+
+        await getCareerHighlights(asRouteReq<CareerHighlightsReq>(req), res);
+
+        const body = getJsonBody<Record<string, unknown>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toEqual({
+          type: "most-trades",
+          minAllowed: 4,
+          skip: 0,
+          take: 10,
+          total: 2,
+          items: [
+            {
+              id: "g-trade",
+              name: "Trade Goalie",
+              position: "G",
+              transactionCount: 4,
+              teams: [{ id: "5", name: "Montreal Canadiens", count: 4 }],
+            },
+            {
+              id: "p-trade",
+              name: "Trade Skater",
+              position: "D",
+              transactionCount: 4,
+              teams: [{ id: "2", name: "Carolina Hurricanes", count: 4 }],
+            },
+          ],
+        });
+        expectObjectSchema("CareerTransactionHighlightPage", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("serves career highlight snapshots and applies paging after loading the snapshot", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const snapshotPayload = [
+          {
+            id: "g-snapshot",
+            name: "Snapshot Goalie",
+            position: "G",
+            teamCount: 5,
+            teams: [
+              { id: "1", name: "Colorado Avalanche" },
+              { id: "2", name: "Carolina Hurricanes" },
+              { id: "3", name: "Calgary Flames" },
+              { id: "4", name: "Vancouver Canucks" },
+              { id: "5", name: "Montreal Canadiens" },
+            ],
+          },
+          {
+            id: "p-snapshot",
+            name: "Snapshot Skater",
+            position: "F",
+            teamCount: 4,
+            teams: [
+              { id: "6", name: "Detroit Red Wings" },
+              { id: "7", name: "Edmonton Oilers" },
+              { id: "8", name: "San Jose Sharks" },
+              { id: "9", name: "New York Rangers" },
+            ],
+          },
+        ];
+        await writeSnapshot(
+          db.snapshotDir,
+          "career/highlights/most-teams-played",
+          snapshotPayload,
+        );
+
+        const req = createRequest({
+          method: "GET",
+          url: "/career/highlights/most-teams-played?skip=1&take=1",
+          params: { type: "most-teams-played" },
+        });
+        const res = createResponse();
+
+        await getCareerHighlights(asRouteReq<CareerHighlightsReq>(req), res);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("snapshot");
+        expect(getJsonBody(res)).toEqual({
+          type: "most-teams-played",
+          minAllowed: 4,
+          skip: 1,
+          take: 1,
+          total: 2,
+          items: [snapshotPayload[1]],
+        });
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns 400 for invalid career highlight paging params", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const badTakeReq = createRequest({
+          method: "GET",
+          url: "/career/highlights/most-teams-played?take=101",
+          params: { type: "most-teams-played" },
+        });
+        const badTakeRes = createResponse();
+
+        await getCareerHighlights(
+          asRouteReq<CareerHighlightsReq>(badTakeReq),
+          badTakeRes,
+        );
+
+        expect(badTakeRes.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(badTakeRes._getData()).toBe("Invalid paging params");
+
+        const badSkipReq = createRequest({
+          method: "GET",
+          url: "/career/highlights/most-teams-played?skip=-1",
+          params: { type: "most-teams-played" },
+        });
+        const badSkipRes = createResponse();
+
+        await getCareerHighlights(
+          asRouteReq<CareerHighlightsReq>(badSkipReq),
+          badSkipRes,
+        );
+
+        expect(badSkipRes.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(badSkipRes._getData()).toBe("Invalid paging params");
+
+        const hugeSkipReq = createRequest({
+          method: "GET",
+          url: "/career/highlights/most-teams-played?skip=9007199254740992",
+          params: { type: "most-teams-played" },
+        });
+        const hugeSkipRes = createResponse();
+
+        await getCareerHighlights(
+          asRouteReq<CareerHighlightsReq>(hugeSkipReq),
+          hugeSkipRes,
+        );
+
+        expect(hugeSkipRes.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(hugeSkipRes._getData()).toBe("Invalid paging params");
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns 400 for an unknown career highlight type", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const req = createRequest({
+          method: "GET",
+          url: "/career/highlights/not-a-real-type",
+          params: { type: "not-a-real-type" },
+        });
+        const res = createResponse();
+
+        await getCareerHighlights(asRouteReq<CareerHighlightsReq>(req), res);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe("Invalid career highlight type");
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("compares players side by side against the compared set and the league", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2023,
+            reportType: "regular",
+            playerId: "p-a",
+            name: "Alpha Keeper",
+            position: "F",
+            games: 10,
+            goals: 10,
+            points: 10,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-a",
+            name: "Alpha Keeper",
+            position: "F",
+            games: 10,
+            points: 5,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "playoffs",
+            playerId: "p-a",
+            name: "Alpha Keeper",
+            position: "F",
+            games: 4,
+            goals: 2,
+            points: 2,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-b",
+            name: "Bravo Target",
+            position: "D",
+            games: 20,
+            goals: 5,
+            points: 10,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-c",
+            name: "Charlie Star",
+            position: "F",
+            games: 20,
+            goals: 20,
+            points: 30,
+          },
+        ]);
+
+        const res = await requestCompare("players", "?ids=p-a,p-b");
+        const body = getJsonBody<{
+          reportType: string;
+          startFrom: number | null;
+          endAt: number | null;
+          players: Array<CompareEntity & { name: string; position: string }>;
+        }>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toMatchObject({
+          reportType: "regular",
+          startFrom: null,
+          endAt: null,
+        });
+        const [alpha, bravo] = body.players;
+        expect(alpha).toMatchObject({
+          id: "p-a",
+          name: "Alpha Keeper",
+          position: "F",
+          totals: { games: 20, goals: 10 },
+        });
+        expect(alpha.totals.rates).toEqual(
+          expect.objectContaining({ goals: 0.5, points: 0.75 }),
+        );
+        expect(alpha.seasons.map((season) => season.season)).toEqual([
+          2024, 2023,
+        ]);
+        expect(bravo.id).toBe("p-b");
+        expect(alpha.score.set).toBeGreaterThan(bravo.score.set);
+        expect(alpha.score.league).toBeLessThan(alpha.score.set);
+        expect(bravo.score.league).toBeLessThan(bravo.score.set);
+        expectObjectSchema("CareerPlayerComparison", body);
+
+        const rangeRes = await requestCompare(
+          "players",
+          "?ids=p-b,p-a&reportType=both&startFrom=2024&endAt=2024",
+        );
+        const rangeBody = getJsonBody<{ players: CompareEntity[] }>(rangeRes);
+        expect(rangeBody.players.map((player) => player.id)).toEqual([
+          "p-b",
+          "p-a",
+        ]);
+        expect(rangeBody.players[1].totals).toMatchObject({
+          games: 14,
+          goals: 2,
+        });
+        expect(
+          rangeBody.players[1].seasons.map(
+            (season) => `${season.season}-${season.reportType}`,
+          ),
+        ).toEqual(["2024-regular", "2024-playoffs"]);
+
+        const missingRes = await requestCompare("players", "?ids=p-a,missing");
+        expect(missingRes.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+        expect(missingRes._getData()).toBe("Player not found");
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("compares goalies and scores them against every goalie in range", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertGoalies([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-a",
+            name: "Alpha Goalie",
+            games: 20,
+            wins: 12,
+            saves: 500,
+            shutouts: 2,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-b",
+            name: "Bravo Goalie",
+            games: 10,
+            wins: 4,
+            saves: 250,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-c",
+            name: "Charlie Goalie",
+            games: 40,
+            wins: 30,
+            saves: 1200,
+            shutouts: 5,
+          },
+        ]);
+
+        const res = await requestCompare("goalies", "?ids=g-a,g-b,g-a");
+        const body = getJsonBody<{ goalies: CompareEntity[] }>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body.goalies.map((goalie) => goalie.id)).toEqual(["g-a", "g-b"]);
+        expect(body.goalies[0].score.set).toBe(100);
+        expect(body.goalies[0].score.league).toBeLessThan(100);
+        expect(body.goalies[1].totals.rates).toEqual(
+          expect.objectContaining({ wins: 0.4, saves: 25 }),
+        );
+        expectObjectSchema("CareerGoalieComparison", body);
+
+        const emptyRes = await requestCompare(
+          "goalies",
+          "?ids=g-a,g-b&startFrom=2025",
+        );
+        const emptyBody = getJsonBody<{ goalies: CompareEntity[] }>(emptyRes);
+        expect(emptyBody.goalies[0]).toMatchObject({
+          score: { set: 0, league: 0 },
+          totals: { games: 0 },
+          seasons: [],
+        });
+
+        const missingRes = await requestCompare("goalies", "?ids=g-a,missing");
+        expect(missingRes.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+        expect(missingRes._getData()).toBe("Goalie not found");
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["players", "", ERROR_MESSAGES.INVALID_COMPARE_IDS],
+      ["players", "?ids=p-a", ERROR_MESSAGES.INVALID_COMPARE_IDS],
+      ["players", "?ids=p-a,,p-b", ERROR_MESSAGES.INVALID_COMPARE_IDS],
+      ["goalies", "?ids=a,b,c,d,e,f,g", ERROR_MESSAGES.INVALID_COMPARE_IDS],
+      ["goalies", "?ids=a,b&reportType=finals", ERROR_MESSAGES.INVALID_REPORT_TYPE],
+      ["players", "?ids=a,b&startFrom=24", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["players", "?ids=a,b&endAt=2024x", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["goalies", "?ids=a,b&startFrom=1999", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["players", "?ids=a,b&endAt=9999", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      [
+        "goalies",
+        "?ids=a,b&startFrom=2024&endAt=2023",
+        ERROR_MESSAGES.INVALID_SEASON_RANGE,
+      ],
+    ])("rejects invalid %s compare params %s", async (kind, query, message) => {
+      const res = await requestCompare(kind as "players" | "goalies", query);
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(message);
+    });
+
+    test("suggests same-position players with the closest per-game profile", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const createSkater = (
+          playerId: string,
+          position: string,
+          season: number,
+          games: number,
+          scale: number,
+        ) => ({
+          teamId: "1",
+          season,
+          reportType: "regular" as const,
+          playerId,
+          name: `Skater ${playerId}`,
+          position,
+          games,
+          goals: scale * games,
+          assists: scale * games,
+          points: 2 * scale * games,
+          shots: 3 * games,
+        });
+        await db.insertPlayers([
+          createSkater("p-target", "F", 2024, 20, 0.5),
+          createSkater("p-target", "F", 2023, 20, 0),
+          createSkater("p-twin", "F", 2024, 40, 0.5),
+          createSkater("p-other", "F", 2024, 30, 0.1),
+          createSkater("p-defense", "D", 2024, 40, 0.5),
+          createSkater("p-few", "F", 2024, 5, 0.5),
+          {
+            ...createSkater("p-other", "F", 2024, 10, 2),
+            reportType: "playoffs",
+          },
+        ]);
+
+        const res = await requestSimilar("players", "p-target", "?season=2024");
+        const body = getJsonBody<SimilarBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toMatchObject({
+          id: "p-target",
+          position: "F",
+          season: 2024,
+          games: 20,
+          rates: expect.objectContaining({ goals: 0.5, shots: 3 }),
+        });
+        expect(body.similar.map((item) => item.id)).toEqual([
+          "p-twin",
+          "p-other",
+        ]);
+        expect(body.similar[0].similarity).toBe(100);
+        expect(body.similar[1].similarity).toBeLessThan(100);
+        expectObjectSchema("CareerSimilar", body);
+
+        const careerRes = await requestSimilar(
+          "players",
+          "p-target",
+          "?limit=1",
+        );
+        const careerBody = getJsonBody<SimilarBody>(careerRes);
+        expect(careerBody).toMatchObject({ season: null, games: 40 });
+        expect(careerBody.similar).toHaveLength(1);
+
+        const emptyRes = await requestSimilar(
+          "players",
+          "p-target",
+          "?season=2022",
+        );
+        expect(getJsonBody<SimilarBody>(emptyRes)).toMatchObject({
+          games: 0,
+          similar: [],
+        });
+
+        const missingRes = await requestSimilar("players", "missing", "");
+        expect(missingRes.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+        expect(missingRes._getData()).toBe("Player not found");
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("suggests goalies with the closest per-game profile", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertGoalies([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-a",
+            name: "Alpha Goalie",
+            games: 20,
+            wins: 10,
+            saves: 500,
+            shutouts: 2,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-b",
+            name: "Bravo Goalie",
+            games: 40,
+            wins: 20,
+            saves: 1000,
+            shutouts: 4,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-c",
+            name: "Charlie Goalie",
+            games: 30,
+            wins: 5,
+            saves: 900,
+          },
+          {
+            teamId: "4",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-d",
+            name: "Delta Goalie",
+            games: 10,
+            wins: 5,
+            saves: 250,
+            shutouts: 1,
+          },
+        ]);
+
+        const res = await requestSimilar("goalies", "g-a", "");
+        const body = getJsonBody<SimilarBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toMatchObject({ id: "g-a", position: "G", season: null });
+        expect(body.similar).toEqual([
+          expect.objectContaining({ id: "g-b", position: "G", similarity: 100 }),
+          expect.objectContaining({ id: "g-d", position: "G", similarity: 100 }),
+          expect.objectContaining({ id: "g-c", position: "G" }),
+        ]);
+        expectObjectSchema("CareerSimilar", body);
+
+        const missingRes = await requestSimilar("goalies", "missing", "");
+        expect(missingRes.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+        expect(missingRes._getData()).toBe("Goalie not found");
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["players", "?season=1999", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["players", "?limit=0", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      ["goalies", "?limit=51", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      ["goalies", "?limit=ten", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+    ])("rejects invalid %s similar params %s", async (kind, query, message) => {
+      const res = await requestSimilar(
+        kind as "players" | "goalies",
+        "x001",
+        query,
+      );
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(message);
+    });
+
+    test("lists player risers and fallers between back-to-back regular seasons", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2023,
+            reportType: "regular",
+            playerId: "p-riser",
+            name: "Rising Skater",
+            position: "F",
+            games: 70,
+            goals: 5,
+            points: 10,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-riser",
+            name: "Rising Skater",
+            position: "F",
+            games: 70,
+            goals: 35,
+            points: 70,
+          },
+          {
+            teamId: "2",
+            season: 2023,
+            reportType: "regular",
+            playerId: "p-faller",
+            name: "Falling Skater",
+            position: "D",
+            games: 70,
+            goals: 35,
+            points: 70,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-faller",
+            name: "Falling Skater",
+            position: "D",
+            games: 70,
+            goals: 5,
+            points: 10,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-rookie",
+            name: "Rookie Skater",
+            position: "F",
+            games: 70,
+            goals: 20,
+            points: 40,
+          },
+        ]);
+
+        const res = await requestProgression("?season=2024");
+        const body = getJsonBody<ProgressionBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body.risers).toEqual([
+          expect.objectContaining({
+            id: "p-riser",
+            season: 2024,
+            status: "breakout",
+            previous: expect.objectContaining({ season: 2023, games: 70 }),
+            current: expect.objectContaining({ season: 2024, games: 70 }),
+          }),
+        ]);
+        expect(body.fallers).toEqual([
+          expect.objectContaining({ id: "p-faller", status: "decline" }),
+        ]);
+        expectObjectSchema("PlayerProgression", body);
+
+        const careerReq = createRequest({
+          method: "GET",
+          url: "/career/player/p-riser",
+          params: { id: "p-riser" },
+        });
+        const careerRes = createResponse();
+        await getCareerPlayer(asRouteReq<CareerPlayerReq>(careerReq), careerRes);
+        const careerBody = getJsonBody<{ progression: ProgressionItem[] }>(
+          careerRes,
+        );
+        expect(careerBody.progression).toEqual([
+          expect.objectContaining({
+            season: 2024,
+            scoreDelta: body.risers[0].scoreDelta,
+          }),
+        ]);
+        expectObjectSchema("CareerPlayer", careerBody);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each(["", "?season=24", "?season=2000"])(
+      "rejects an invalid progression season %s",
+      async (query) => {
+        const res = await requestProgression(query);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe(ERROR_MESSAGES.SEASON_NOT_AVAILABLE);
+      },
+    );
+
+    test("lists career milestones newest first with filters and paging", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2023,
+            reportType: "regular",
+            playerId: "p-milestone",
+            name: "Milestone Skater",
+            position: "F",
+            games: 82,
+            points: 90,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-milestone",
+            name: "Milestone Skater",
+            position: "F",
+            games: 82,
+            points: 170,
+          },
+        ]);
+        await db.insertGoalies([
+          {
+            teamId: "2",
+            season: 2023,
+            reportType: "playoffs",
+            goalieId: "g-milestone",
+            name: "Milestone Goalie",
+            games: 20,
+            wins: 100,
+          },
+        ]);
+
+        const res = await requestMilestones();
+        const body = getJsonBody<MilestonesBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(
+          body.items.map((item) => [item.id, item.type, item.season]),
+        ).toEqual([
+          ["p-milestone", "points-100", 2024],
+          ["p-milestone", "points-250", 2024],
+          ["g-milestone", "goalie-wins-100", 2023],
+        ]);
+        expectObjectSchema("CareerMilestonesPage", body);
+
+        const filtered = getJsonBody<MilestonesBody>(
+          await requestMilestones("?type=points-100&season=2024"),
+        );
+        expect(filtered.total).toBe(1);
+        expect(filtered.items[0].id).toBe("p-milestone");
+
+        const paged = getJsonBody<MilestonesBody>(
+          await requestMilestones("?skip=1&take=1"),
+        );
+        expect(paged).toMatchObject({ skip: 1, take: 1, total: 3 });
+        expect(paged.items).toHaveLength(1);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("serves career milestones from local snapshot storage", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const snapshotPayload = [
+          {
+            id: "p-snapshot",
+            name: "Snapshot Skater",
+            position: "D",
+            type: "games-500",
+            stat: "games",
+            threshold: 500,
+            season: 2020,
+            reportType: "regular",
+            team: { id: "1", name: "Snapshot Team" },
+          },
+        ];
+        await writeSnapshot(
+          db.snapshotDir,
+          "career/milestones",
+          snapshotPayload,
+        );
+
+        const res = await requestMilestones("?season=2021");
+        expect(res.getHeader("x-stats-data-source")).toBe("snapshot");
+        expect(getJsonBody<MilestonesBody>(res)).toEqual({
+          skip: 0,
+          take: 50,
+          total: 0,
+          items: [],
+        });
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["?type=points-42", ERROR_MESSAGES.INVALID_CAREER_MILESTONE_TYPE],
+      ["?season=24", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["?skip=-1", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      ["?take=201", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      ["?take=x", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+    ])("rejects invalid career milestone params %s", async (query, message) => {
+      const res = await requestMilestones(query);
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(message);
     });
   });
 };
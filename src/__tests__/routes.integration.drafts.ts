@@ -1,15 +1,19 @@
 import { createRequest, createResponse } from "node-mocks-http";
 import {
+  getDraftInventory,
+  getDraftPickOwnership,
   getEntryDraft,
   getOriginalDraft,
 } from "../features/drafts/routes.js";
-import { HTTP_STATUS } from "../shared/http.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
 import { createIntegrationDb } from "./integration-db.js";
-import { expectArraySchema } from "./openapi-schema.js";
+import { expectArraySchema, expectObjectSchema } from "./openapi-schema.js";
 import { asRouteReq, getJsonBody } from "./routes.integration.helpers.js";
 
 type OriginalDraftReq = Parameters<typeof getOriginalDraft>[0];
 type EntryDraftReq = Parameters<typeof getEntryDraft>[0];
+type DraftPickOwnershipReq = Parameters<typeof getDraftPickOwnership>[0];
+type DraftInventoryReq = Parameters<typeof getDraftInventory>[0];
 
 type OpeningDraftSeed = {
   pickNumber: number;
@@ -68,6 +72,36 @@ const insertEntryDraftPicks = async (
   }
 };
 
+const requestDraftPickOwnership = async (
+  season: string,
+  round: string,
+  originalTeamId: string,
+) => {
+  const req = createRequest({
+    method: "GET",
+    url: `/draft/picks/${season}/${round}/${originalTeamId}`,
+    params: { season, round, originalTeamId },
+  });
+  const res = createResponse();
+  await getDraftPickOwnership(asRouteReq<DraftPickOwnershipReq>(req), res);
+  return res;
+};
+
+const requestDraftInventory = async (url: string) => {
+  const req = createRequest({ method: "GET", url });
+  const res = createResponse();
+  await getDraftInventory(asRouteReq<DraftInventoryReq>(req), res);
+  return res;
+};
+
+const nashvilleFirstRounder = (season: number) => ({
+  assetType: "draft_pick" as const,
+  rawName: `${season} Draft Pick, Round 1 (Nashville Predators)`,
+  draftSeason: season,
+  draftRound: 1,
+  draftOriginalTeamId: "10",
+});
+
 export const registerDraftRouteIntegrationTests = (): void => {
   describe("draft routes", () => {
     test("returns opening draft picks grouped by drafted team in alphabetical order", async () => {
@@ -296,6 +330,7 @@ export const registerDraftRouteIntegrationTests = (): void => {
                     playedInLeague: true,
                     playedForDraftingTeam: false,
                     originalOwner: { id: "10", name: "Nashville Predators" },
+                    trades: [],
                   },
                 ],
               },
@@ -309,6 +344,7 @@ export const registerDraftRouteIntegrationTests = (): void => {
                     playedInLeague: false,
                     playedForDraftingTeam: false,
                     originalOwner: { id: "12", name: "Anaheim Ducks" },
+                    trades: [],
                   },
                 ],
               },
@@ -357,6 +393,7 @@ export const registerDraftRouteIntegrationTests = (): void => {
                     playedInLeague: true,
                     playedForDraftingTeam: true,
                     originalOwner: { id: "19", name: "Toronto Maple Leafs" },
+                    trades: [],
                   },
                 ],
               },
@@ -370,6 +407,7 @@ export const registerDraftRouteIntegrationTests = (): void => {
                     playedInLeague: true,
                     playedForDraftingTeam: false,
                     originalOwner: { id: "1", name: "Colorado Avalanche" },
+                    trades: [],
                   },
                   {
                     round: 1,
@@ -378,6 +416,7 @@ export const registerDraftRouteIntegrationTests = (): void => {
                     playedInLeague: true,
                     playedForDraftingTeam: true,
                     originalOwner: { id: "19", name: "Toronto Maple Leafs" },
+                    trades: [],
                   },
                   {
                     round: 2,
@@ -386,6 +425,7 @@ export const registerDraftRouteIntegrationTests = (): void => {
                     playedInLeague: false,
                     playedForDraftingTeam: false,
                     originalOwner: { id: "19", name: "Toronto Maple Leafs" },
+                    trades: [],
                   },
                 ],
               },
@@ -432,5 +472,194 @@ export const registerDraftRouteIntegrationTests = (): void => {
         await db.cleanup();
       }
     });
+
+    test("returns a draft pick ownership chain and embeds its trades in entry draft picks", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await insertEntryDraftPicks(db.db, [
+          {
+            season: 2025,
+            pickNumber: 7,
+            round: 1,
+            draftedTeamId: "12",
+            ownerTeamId: "10",
+            playerName: "Player B",
+          },
+        ]);
+        const [firstTradeId, secondTradeId, thirdTradeId] =
+          await db.insertTradeBlocks([
+            {
+              season: 2024,
+              occurredAt: "2024-11-01T12:00:00.000Z",
+              fromTeamId: "10",
+              toTeamId: "1",
+              items: [nashvilleFirstRounder(2025), nashvilleFirstRounder(2026)],
+            },
+            {
+              season: 2024,
+              occurredAt: "2025-01-15T12:00:00.000Z",
+              fromTeamId: "1",
+              toTeamId: "19",
+              items: [nashvilleFirstRounder(2025)],
+            },
+            {
+              season: 2024,
+              occurredAt: "2025-02-20T12:00:00.000Z",
+              fromTeamId: "19",
+              toTeamId: "12",
+              items: [nashvilleFirstRounder(2025)],
+            },
+          ]);
+        const nashville = { id: "10", name: "Nashville Predators" };
+        const colorado = { id: "1", name: "Colorado Avalanche" };
+        const toronto = { id: "19", name: "Toronto Maple Leafs" };
+        const anaheim = { id: "12", name: "Anaheim Ducks" };
+        const expectedTrades = [
+          {
+            tradeId: firstTradeId,
+            occurredAt: "2024-11-01T12:00:00.000Z",
+            fromTeam: nashville,
+            toTeam: colorado,
+          },
+          {
+            tradeId: secondTradeId,
+            occurredAt: "2025-01-15T12:00:00.000Z",
+            fromTeam: colorado,
+            toTeam: toronto,
+          },
+          {
+            tradeId: thirdTradeId,
+            occurredAt: "2025-02-20T12:00:00.000Z",
+            fromTeam: toronto,
+            toTeam: anaheim,
+          },
+        ];
+
+        const usedRes = await requestDraftPickOwnership("2025", "1", "10");
+        const usedBody = getJsonBody<Record<string, unknown>>(usedRes);
+        expect(usedRes.statusCode).toBe(HTTP_STATUS.OK);
+        expect(usedBody).toEqual({
+          season: 2025,
+          round: 1,
+          originalTeam: nashville,
+          timesTraded: 3,
+          trades: expectedTrades,
+          lastOwner: anaheim,
+          selection: {
+            pickNumber: 7,
+            team: anaheim,
+            draftedPlayer: "Player B",
+          },
+        });
+        expectObjectSchema("DraftPickOwnership", usedBody);
+
+        const futureRes = await requestDraftPickOwnership("2026", "1", "10");
+        const futureBody = getJsonBody<Record<string, unknown>>(futureRes);
+        expect(futureRes.statusCode).toBe(HTTP_STATUS.OK);
+        expect(futureBody).toMatchObject({
+          timesTraded: 1,
+          lastOwner: colorado,
+          selection: null,
+        });
+        expectObjectSchema("DraftPickOwnership", futureBody);
+
+        const entryReq = createRequest({ method: "GET", url: "/draft/entry" });
+        const entryRes = createResponse();
+        await getEntryDraft(asRouteReq<EntryDraftReq>(entryReq), entryRes);
+        const entryBody =
+          getJsonBody<Array<{ seasons: Array<{ picks: unknown[] }> }>>(entryRes);
+        expect(entryBody[0].seasons[0].picks[0]).toMatchObject({
+          pickNumber: 7,
+          trades: expectedTrades,
+        });
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns 404 for unknown or malformed draft picks", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        for (const [season, round, originalTeamId] of [
+          ["2025", "1", "10"],
+          ["2025", "0", "10"],
+          ["next", "1", "10"],
+          ["2025", "1", "999"],
+        ]) {
+          const res = await requestDraftPickOwnership(
+            season,
+            round,
+            originalTeamId,
+          );
+          expect(res.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+          expect(res._getData()).toBe(ERROR_MESSAGES.DRAFT_PICK_NOT_FOUND);
+        }
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns future draft pick inventory for one team and rejects unknown teams", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await insertEntryDraftPicks(db.db, [
+          {
+            season: 2025,
+            pickNumber: 1,
+            round: 1,
+            draftedTeamId: "10",
+            ownerTeamId: "10",
+            playerName: "Player A",
+          },
+        ]);
+        const [tradeId] = await db.insertTradeBlocks([
+          {
+            season: 2025,
+            occurredAt: "2025-10-01T12:00:00.000Z",
+            fromTeamId: "10",
+            toTeamId: "1",
+            items: [nashvilleFirstRounder(2026)],
+          },
+        ]);
+
+        const res = await requestDraftInventory("/draft/inventory?teamId=1");
+        const body = getJsonBody<Array<Record<string, unknown>>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toHaveLength(1);
+        expect(body[0]).toMatchObject({
+          team: { id: "1", name: "Colorado Avalanche" },
+          seasons: [
+            {
+              season: 2026,
+              picks: [
+                { round: 1, originalTeam: { id: "1" }, trades: [] },
+                {
+                  round: 1,
+                  originalTeam: { id: "10", name: "Nashville Predators" },
+                  trades: [{ tradeId }],
+                },
+                { round: 2 },
+                { round: 3 },
+                { round: 4 },
+                { round: 5 },
+              ],
+              tradedAway: [],
+            },
+            { season: 2027 },
+            { season: 2028 },
+          ],
+        });
+        expectArraySchema("DraftInventoryTeam", body);
+
+        const invalidRes = await requestDraftInventory("/draft/inventory?teamId=999");
+        expect(invalidRes.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(invalidRes._getData()).toBe(ERROR_MESSAGES.INVALID_TEAM_ID);
+      } finally {
+        await db.cleanup();
+      }
+    });
   });
 };
@@ -606,5 +606,354 @@ export const registerGoalieRouteIntegrationTests = (): void => {
         await db.cleanup();
       }
     });
+
+    test("ranks every team's goalies together for teamId=all and keeps rates only for single-team seasons", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertGoalies([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-mover",
+            name: "Moving Goalie",
+            games: 8,
+            wins: 3,
+            saves: 200,
+            gaa: 2.5,
+            savePercent: 0.91,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-mover",
+            name: "Moving Goalie",
+            games: 12,
+            wins: 7,
+            saves: 300,
+            gaa: 2.1,
+            savePercent: 0.92,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-stay",
+            name: "Staying Goalie",
+            games: 30,
+            wins: 15,
+            saves: 800,
+            gaa: 2.4,
+            savePercent: 0.915,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "playoffs",
+            goalieId: "g-stay",
+            name: "Staying Goalie",
+            games: 3,
+            wins: 2,
+            saves: 90,
+            gaa: 1.8,
+            savePercent: 0.93,
+          },
+        ]);
+
+        const requestLeagueGoalies = async (
+          route: "season" | "combined",
+          reportType: string,
+        ) => {
+          const req = createRequest({
+            method: "GET",
+            url:
+              route === "season"
+                ? `/goalies/season/${reportType}/2024?teamId=all`
+                : `/goalies/combined/${reportType}?teamId=all`,
+            params:
+              route === "season"
+                ? { reportType, season: "2024" }
+                : { reportType },
+          });
+          const res = createResponse();
+          if (route === "season") {
+            await getGoaliesSeason(asRouteReq<SeasonRouteReq>(req), res);
+          } else {
+            await getGoaliesCombined(asRouteReq<CombinedRouteReq>(req), res);
+          }
+          return getJsonBody<Array<Record<string, unknown>>>(res);
+        };
+
+        const seasonBody = await requestLeagueGoalies("season", "regular");
+        expect(seasonBody).toHaveLength(2);
+        const mover = seasonBody.find((goalie) => goalie.id === "g-mover");
+        expect(mover).toMatchObject({
+          games: 20,
+          wins: 10,
+          saves: 500,
+          teamId: "2",
+          teamIds: ["2", "1"],
+        });
+        expect(mover).not.toHaveProperty("gaa");
+        expect(mover).not.toHaveProperty("savePercent");
+        expect(
+          seasonBody.find((goalie) => goalie.id === "g-stay"),
+        ).toMatchObject({
+          games: 30,
+          gaa: "2.40",
+          savePercent: "0.915",
+          teamId: "3",
+          teamIds: ["3"],
+        });
+        expectArraySchema("Goalie", seasonBody);
+
+        expect(await requestLeagueGoalies("season", "both")).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ id: "g-stay", games: 33, teamId: "3" }),
+          ]),
+        );
+
+        const combinedBody = await requestLeagueGoalies("combined", "regular");
+        expect(combinedBody).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              id: "g-mover",
+              games: 20,
+              teamId: "2",
+              teamIds: ["2", "1"],
+              seasons: [
+                expect.objectContaining({ season: 2024, teamId: "2" }),
+              ],
+            }),
+          ]),
+        );
+        expectArraySchema("CombinedGoalie", combinedBody);
+
+        expect(await requestLeagueGoalies("combined", "both")).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              id: "g-stay",
+              games: 33,
+              teamIds: ["3"],
+              seasons: [expect.objectContaining({ teamId: "3" })],
+            }),
+          ]),
+        );
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("sorts and pages goalie combined snapshot rows by formatted rates", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const snapshotPayload = [
+          ["g-1", "First Goalie", "0.910"],
+          ["g-2", "Second Goalie", undefined],
+          ["g-3", "Third Goalie", "0.925"],
+        ].map(([id, name, savePercent]) => ({
+          id,
+          name,
+          games: 40,
+          wins: 20,
+          saves: 1000,
+          shutouts: 2,
+          goals: 0,
+          assists: 0,
+          points: 0,
+          penalties: 0,
+          ppp: 0,
+          shp: 0,
+          savePercent,
+          score: 50,
+          scoreAdjustedByGames: 50,
+          seasons: [],
+        }));
+        await writeSnapshot(
+          db.snapshotDir,
+          "goalies/combined/regular/team-1",
+          snapshotPayload,
+        );
+
+        const req = createRequest({
+          method: "GET",
+          url: "/goalies/combined/regular?sort=savePercent&limit=2",
+          params: { reportType: "regular" },
+        });
+        const res = createResponse();
+
+        await getGoaliesCombined(asRouteReq<CombinedRouteReq>(req), res);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("snapshot");
+        expect(res.getHeader("x-total-count")).toBe("3");
+        expect(
+          getJsonBody<Array<{ id: string }>>(res).map((goalie) => goalie.id),
+        ).toEqual(["g-3", "g-1"]);
+
+        const metricsReq = createRequest({
+          method: "GET",
+          url: "/goalies/combined/regular?metrics=percentile&search=third",
+          params: { reportType: "regular" },
+        });
+        const metricsRes = createResponse();
+        await getGoaliesCombined(
+          asRouteReq<CombinedRouteReq>(metricsReq),
+          metricsRes,
+        );
+        const metricsBody =
+          getJsonBody<Array<{ percentiles: Record<string, number> }>>(
+            metricsRes,
+          );
+        expect(metricsBody).toEqual([
+          expect.objectContaining({
+            percentiles: {
+              wins: 50,
+              saves: 50,
+              shutouts: 50,
+              savePercent: 100,
+            },
+          }),
+        ]);
+        expectArraySchema("CombinedGoalie", metricsBody);
+
+        const plainReq = createRequest({
+          method: "GET",
+          url: "/goalies/combined/regular?search=third",
+          params: { reportType: "regular" },
+        });
+        const plainRes = createResponse();
+        await getGoaliesCombined(
+          asRouteReq<CombinedRouteReq>(plainReq),
+          plainRes,
+        );
+        expect(getJsonBody<Array<object>>(plainRes)[0]).not.toHaveProperty(
+          "percentiles",
+        );
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("rescores goalies with custom weights and echoes the effective weights", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertGoalies([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-winner",
+            name: "Winner Goalie",
+            games: 10,
+            wins: 10,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-workhorse",
+            name: "Workhorse Goalie",
+            games: 10,
+            saves: 10,
+          },
+        ]);
+        await writeSnapshot(
+          db.snapshotDir,
+          "goalies/combined/regular/team-1",
+          [],
+        );
+
+        const req = createRequest({
+          method: "GET",
+          url: "/goalies/combined/regular?weights=wins:3",
+          params: { reportType: "regular" },
+        });
+        const res = createResponse();
+        await getGoaliesCombined(asRouteReq<CombinedRouteReq>(req), res);
+
+        const body = getJsonBody<Array<{ id: string; score: number }>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(res.getHeader("x-score-weights")).toBe(
+          "wins:3,saves:1,shutouts:0.25,gaa:1,savePercent:1",
+        );
+        expect(body.map((goalie) => goalie.id)).toEqual([
+          "g-winner",
+          "g-workhorse",
+        ]);
+        expect(body[1].score).toBeCloseTo(33.33, 1);
+        expectArraySchema("CombinedGoalie", body);
+
+        const modelReq = createRequest({
+          method: "GET",
+          url: "/goalies/season/regular/2024?model=goalie-heavy",
+          params: { reportType: "regular", season: "2024" },
+        });
+        const modelRes = createResponse();
+        await getGoaliesSeason(asRouteReq<SeasonRouteReq>(modelReq), modelRes);
+        expect(modelRes.statusCode).toBe(HTTP_STATUS.OK);
+        expect(modelRes.getHeader("x-score-weights")).toBe(
+          "wins:0.5,saves:0.25,shutouts:0.25,gaa:1,savePercent:1",
+        );
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["season", "?weights=gaa:x", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      ["season", "?model=goalie", ERROR_MESSAGES.INVALID_SCORING_MODEL],
+      ["combined", "?weights=hits:1", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      ["combined", "?model=Banger", ERROR_MESSAGES.INVALID_SCORING_MODEL],
+      ["season", "?metrics=rank", ERROR_MESSAGES.INVALID_METRICS],
+      ["combined", "?metrics=zscore,", ERROR_MESSAGES.INVALID_METRICS],
+      ["season", "?include=gaa", ERROR_MESSAGES.INVALID_INCLUDE],
+      ["combined", "?include=", ERROR_MESSAGES.INVALID_INCLUDE],
+    ])(
+      "rejects invalid goalie %s scoring params %s",
+      async (route, query, message) => {
+        const req = createRequest({
+          method: "GET",
+          url: `/goalies/${route}/regular${query}`,
+          params: { reportType: "regular" },
+        });
+        const res = createResponse();
+
+        if (route === "season") {
+          await getGoaliesSeason(asRouteReq<SeasonRouteReq>(req), res);
+        } else {
+          await getGoaliesCombined(asRouteReq<CombinedRouteReq>(req), res);
+        }
+
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe(message);
+      },
+    );
+
+    test.each([
+      ["season", "?position=G"],
+      ["combined", "?sort=hits"],
+    ])("rejects invalid goalie %s list params %s", async (route, query) => {
+      const req = createRequest({
+        method: "GET",
+        url: `/goalies/${route}/regular${query}`,
+        params: { reportType: "regular" },
+      });
+      const res = createResponse();
+
+      if (route === "season") {
+        await getGoaliesSeason(asRouteReq<SeasonRouteReq>(req), res);
+      } else {
+        await getGoaliesCombined(asRouteReq<CombinedRouteReq>(req), res);
+      }
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(ERROR_MESSAGES.INVALID_STATS_QUERY);
+    });
   });
 };
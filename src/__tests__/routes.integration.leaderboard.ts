@@ -6,10 +6,11 @@ import {
   getPlayoffsLeaderboard,
   getRegularLeaderboard,
   getTransactionsLeaderboard,
+  getTransactionsTimeline,
 } from "../features/leaderboard/routes.js";
-import { HTTP_STATUS } from "../shared/http.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
 import { createIntegrationDb } from "./integration-db.js";
-import { expectArraySchema } from "./openapi-schema.js";
+import { expectArraySchema, expectObjectSchema } from "./openapi-schema.js";
 import {
   asRouteReq,
   getJsonBody,
@@ -19,8 +20,110 @@ import {
 type PlayoffsRouteReq = Parameters<typeof getPlayoffsLeaderboard>[0];
 type RegularRouteReq = Parameters<typeof getRegularLeaderboard>[0];
 type TransactionsRouteReq = Parameters<typeof getTransactionsLeaderboard>[0];
+type TransactionsTimelineRouteReq = Parameters<
+  typeof getTransactionsTimeline
+>[0];
 type LastModifiedRouteReq = Parameters<typeof getLastModified>[0];
 
+type ActivityPeriodBody = {
+  period: string;
+  start: string;
+  claims: number;
+  drops: number;
+  trades: number;
+  total: number;
+};
+
+type TransactionsTimelineBody = {
+  interval: string;
+  season: number | null;
+  league: {
+    totals: Record<string, number>;
+    peaks: Record<string, ActivityPeriodBody | null>;
+    periods: ActivityPeriodBody[];
+  };
+  teams: Array<{
+    teamId: string;
+    teamName: string;
+    totals: Record<string, number>;
+    activePeriods: number;
+    lastActivityAt: string | null;
+    periods: ActivityPeriodBody[];
+  }>;
+};
+
+const requestTransactionsTimeline = async (query = "") => {
+  const req = createRequest({
+    method: "GET",
+    url: `/leaderboard/transactions/timeline${query}`,
+  });
+  const res = createResponse();
+  await getTransactionsTimeline(
+    asRouteReq<TransactionsTimelineRouteReq>(req),
+    res,
+  );
+  return res;
+};
+
+// One 2023 claim, then a 2024 season with an October claim and drop, December
+// moves around the new year and two trades in the last week of February.
+const seedTransactionActivity = async (
+  db: Awaited<ReturnType<typeof createIntegrationDb>>,
+): Promise<void> => {
+  await db.insertClaimEvents([
+    {
+      season: 2023,
+      teamId: "1",
+      occurredAt: "2024-03-01T12:00:00.000Z",
+      items: [{ actionType: "claim", rawName: "Early Claim" }],
+    },
+    {
+      season: 2024,
+      teamId: "1",
+      occurredAt: "2024-10-20T12:00:00.000Z",
+      items: [
+        { actionType: "claim", rawName: "October Claim" },
+        { actionType: "drop", rawName: "October Drop" },
+      ],
+    },
+    {
+      season: 2024,
+      teamId: "2",
+      occurredAt: "2024-12-02T12:00:00.000Z",
+      items: [{ actionType: "claim", rawName: "December Claim" }],
+    },
+    {
+      season: 2024,
+      teamId: "3",
+      occurredAt: "2024-12-31T12:00:00.000Z",
+      items: [{ actionType: "drop", rawName: "New Year Drop" }],
+    },
+  ]);
+  await db.insertTradeBlocks([
+    {
+      season: 2024,
+      occurredAt: "2025-02-27T12:00:00.000Z",
+      fromTeamId: "3",
+      toTeamId: "4",
+      items: [{ rawName: "Deadline One" }],
+    },
+    {
+      season: 2024,
+      occurredAt: "2025-02-28T12:00:00.000Z",
+      fromTeamId: "1",
+      toTeamId: "2",
+      items: [{ rawName: "Deadline Two" }, { rawName: "Deadline Three" }],
+    },
+    {
+      season: 2024,
+      occurredAt: "2025-02-28T12:00:00.000Z",
+      fromTeamId: "2",
+      toTeamId: "1",
+      items: [{ rawName: "Deadline Four" }],
+    },
+  ]);
+};
+
 const insertClaimEventItem = async (
   db: Awaited<ReturnType<typeof createIntegrationDb>>["db"],
   row: {
@@ -825,6 +928,214 @@ export const registerLeaderboardRouteIntegrationTests = (): void => {
       }
     });
 
+    test("buckets transaction activity per month with zero-filled league periods and peaks", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedTransactionActivity(db);
+
+        const res = await requestTransactionsTimeline("?season=2024");
+        const body = getJsonBody<TransactionsTimelineBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body.interval).toBe("month");
+        expect(body.season).toBe(2024);
+        expect(body.league.totals).toEqual({
+          claims: 2,
+          drops: 2,
+          trades: 2,
+          total: 6,
+        });
+        expect(body.league.periods).toEqual([
+          {
+            period: "2024-10",
+            start: "2024-10-01",
+            claims: 1,
+            drops: 1,
+            trades: 0,
+            total: 2,
+          },
+          {
+            period: "2024-11",
+            start: "2024-11-01",
+            claims: 0,
+            drops: 0,
+            trades: 0,
+            total: 0,
+          },
+          {
+            period: "2024-12",
+            start: "2024-12-01",
+            claims: 1,
+            drops: 1,
+            trades: 0,
+            total: 2,
+          },
+          {
+            period: "2025-01",
+            start: "2025-01-01",
+            claims: 0,
+            drops: 0,
+            trades: 0,
+            total: 0,
+          },
+          {
+            period: "2025-02",
+            start: "2025-02-01",
+            claims: 0,
+            drops: 0,
+            trades: 2,
+            total: 2,
+          },
+        ]);
+        expect(body.league.peaks.claims?.period).toBe("2024-10");
+        expect(body.league.peaks.drops?.period).toBe("2024-10");
+        expect(body.league.peaks.trades?.period).toBe("2025-02");
+        expect(body.league.peaks.total?.period).toBe("2024-10");
+
+        expect(body.teams.slice(0, 4)).toEqual([
+          {
+            teamId: "1",
+            teamName: "Colorado Avalanche",
+            totals: { claims: 1, drops: 1, trades: 1, total: 3 },
+            activePeriods: 2,
+            lastActivityAt: "2025-02-28T12:00:00.000Z",
+            periods: [
+              {
+                period: "2024-10",
+                start: "2024-10-01",
+                claims: 1,
+                drops: 1,
+                trades: 0,
+                total: 2,
+              },
+              {
+                period: "2025-02",
+                start: "2025-02-01",
+                claims: 0,
+                drops: 0,
+                trades: 1,
+                total: 1,
+              },
+            ],
+          },
+          expect.objectContaining({
+            teamId: "3",
+            totals: { claims: 0, drops: 1, trades: 1, total: 2 },
+          }),
+          expect.objectContaining({
+            teamId: "2",
+            totals: { claims: 1, drops: 0, trades: 1, total: 2 },
+          }),
+          expect.objectContaining({
+            teamId: "4",
+            totals: { claims: 0, drops: 0, trades: 1, total: 1 },
+          }),
+        ]);
+        expect(body.teams[4]).toMatchObject({
+          totals: { total: 0 },
+          activePeriods: 0,
+          lastActivityAt: null,
+          periods: [],
+        });
+        expectObjectSchema("TransactionActivityTimeline", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("buckets transaction activity per ISO week across every season", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedTransactionActivity(db);
+
+        const res = await requestTransactionsTimeline("?interval=week");
+        const body = getJsonBody<TransactionsTimelineBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toMatchObject({ interval: "week", season: null });
+        expect(body.league.totals).toEqual({
+          claims: 3,
+          drops: 2,
+          trades: 2,
+          total: 7,
+        });
+        expect(body.league.periods).toHaveLength(53);
+        expect(body.league.periods[0]).toEqual({
+          period: "2024-W09",
+          start: "2024-02-26",
+          claims: 1,
+          drops: 0,
+          trades: 0,
+          total: 1,
+        });
+        expect(
+          body.league.periods.filter((period) => period.total > 0),
+        ).toEqual([
+          expect.objectContaining({ period: "2024-W09" }),
+          expect.objectContaining({
+            period: "2024-W42",
+            start: "2024-10-14",
+            total: 2,
+          }),
+          expect.objectContaining({
+            period: "2024-W49",
+            start: "2024-12-02",
+            claims: 1,
+          }),
+          expect.objectContaining({
+            period: "2025-W01",
+            start: "2024-12-30",
+            drops: 1,
+          }),
+          expect.objectContaining({
+            period: "2025-W09",
+            start: "2025-02-24",
+            trades: 2,
+          }),
+        ]);
+        expect(body.teams[0]).toMatchObject({
+          teamId: "1",
+          totals: { claims: 2, drops: 1, trades: 1, total: 4 },
+          activePeriods: 3,
+        });
+        expectObjectSchema("TransactionActivityTimeline", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns an empty transaction timeline from the live DB when no transaction rows exist", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const res = await requestTransactionsTimeline();
+        const body = getJsonBody<TransactionsTimelineBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body.league).toEqual({
+          totals: { claims: 0, drops: 0, trades: 0, total: 0 },
+          peaks: { claims: null, drops: null, trades: null, total: null },
+          periods: [],
+        });
+        expect(body.teams.every((team) => team.totals.total === 0)).toBe(true);
+        expectObjectSchema("TransactionActivityTimeline", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["?interval=day", ERROR_MESSAGES.INVALID_INTERVAL],
+      ["?season=2000", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+    ])(
+      "rejects invalid transaction timeline params %s",
+      async (query, message) => {
+        const res = await requestTransactionsTimeline(query);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe(message);
+      },
+    );
+
     test("serves cached last-modified responses with a real ETag/304 flow", async () => {
       const db = await createIntegrationDb();
 
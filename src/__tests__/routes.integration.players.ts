@@ -2,7 +2,9 @@ import { createRequest, createResponse } from "node-mocks-http";
 import {
   getPlayersCombined,
   getPlayersSeason,
+  getScoringModels,
 } from "../features/stats/routes.js";
+import type { CombinedPlayer } from "../features/stats/types.js";
 import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
 import { createIntegrationDb } from "./integration-db.js";
 import { expectArraySchema } from "./openapi-schema.js";
@@ -14,6 +16,7 @@ import {
 
 type SeasonRouteReq = Parameters<typeof getPlayersSeason>[0];
 type CombinedRouteReq = Parameters<typeof getPlayersCombined>[0];
+type ScoringModelsRouteReq = Parameters<typeof getScoringModels>[0];
 
 export const registerPlayerRouteIntegrationTests = (): void => {
   describe("player routes", () => {
@@ -288,6 +291,28 @@ export const registerPlayerRouteIntegrationTests = (): void => {
           }),
         ]);
         expectArraySchema("CombinedPlayer", body);
+
+        const ratesReq = createRequest({
+          method: "GET",
+          url: "/players/combined/regular?teamId=1&startFrom=2023&include=rates",
+          params: { reportType: "regular" },
+          headers: { host: "localhost" },
+        });
+        const ratesRes = createResponse();
+
+        await getPlayersCombined(
+          asRouteReq<CombinedRouteReq>(ratesReq),
+          ratesRes,
+        );
+
+        const ratesBody = getJsonBody<CombinedPlayer[]>(ratesRes);
+        expect(ratesBody[0].rates).toEqual(
+          expect.objectContaining({ goals: 0.444, points: 1, shp: 0.056 }),
+        );
+        expect(
+          ratesBody[0].seasons.map((season) => season.rates?.goals),
+        ).toEqual([0.375, 0.5]);
+        expectArraySchema("CombinedPlayer", ratesBody);
       } finally {
         await db.cleanup();
       }
@@ -587,5 +612,520 @@ export const registerPlayerRouteIntegrationTests = (): void => {
         await db.cleanup();
       }
     });
+
+    test("ranks every team's players together for teamId=all and merges mid-season movers", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-mover",
+            name: "Moving Skater",
+            position: "F",
+            games: 10,
+            goals: 4,
+            points: 4,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-mover",
+            name: "Moving Skater",
+            position: "F",
+            games: 15,
+            goals: 6,
+            points: 6,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-stay",
+            name: "Staying Skater",
+            position: "D",
+            games: 20,
+            goals: 3,
+            points: 3,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "playoffs",
+            playerId: "p-stay",
+            name: "Staying Skater",
+            position: "D",
+            games: 4,
+            goals: 2,
+            points: 2,
+          },
+        ]);
+
+        const requestLeagueSeason = async (reportType: string) => {
+          const req = createRequest({
+            method: "GET",
+            url: `/players/season/${reportType}/2024?teamId=all`,
+            params: { reportType, season: "2024" },
+          });
+          const res = createResponse();
+          await getPlayersSeason(asRouteReq<SeasonRouteReq>(req), res);
+          return res;
+        };
+
+        const res = await requestLeagueSeason("regular");
+        const body = getJsonBody<Array<Record<string, unknown>>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toHaveLength(2);
+        expect(body).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({
+              id: "p-mover",
+              games: 25,
+              goals: 10,
+              teamId: "2",
+              teamIds: ["2", "1"],
+            }),
+            expect.objectContaining({
+              id: "p-stay",
+              games: 20,
+              teamId: "3",
+              teamIds: ["3"],
+            }),
+          ]),
+        );
+        expectArraySchema("Player", body);
+
+        const bothRes = await requestLeagueSeason("both");
+        expect(getJsonBody<Array<Record<string, unknown>>>(bothRes)).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ id: "p-mover", games: 25 }),
+            expect.objectContaining({
+              id: "p-stay",
+              games: 24,
+              goals: 5,
+              teamIds: ["3"],
+            }),
+          ]),
+        );
+
+        const playoffsRes = await requestLeagueSeason("playoffs");
+        expect(playoffsRes.statusCode).toBe(HTTP_STATUS.OK);
+        expect(
+          getJsonBody<Array<Record<string, unknown>>>(playoffsRes),
+        ).toEqual([expect.objectContaining({ id: "p-stay", teamId: "3" })]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns league-wide combined players for teamId=all with per-season teams", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2023,
+            reportType: "regular",
+            playerId: "p-mover",
+            name: "Moving Skater",
+            position: "F",
+            games: 30,
+            goals: 9,
+            points: 9,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-mover",
+            name: "Moving Skater",
+            position: "F",
+            games: 10,
+            goals: 4,
+            points: 4,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-mover",
+            name: "Moving Skater",
+            position: "F",
+            games: 15,
+            goals: 6,
+            points: 6,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "playoffs",
+            playerId: "p-mover",
+            name: "Moving Skater",
+            position: "F",
+            games: 5,
+            goals: 1,
+            points: 1,
+          },
+        ]);
+
+        const requestLeagueCombined = async (reportType: string) => {
+          const req = createRequest({
+            method: "GET",
+            url: `/players/combined/${reportType}?teamId=all`,
+            params: { reportType },
+          });
+          const res = createResponse();
+          await getPlayersCombined(asRouteReq<CombinedRouteReq>(req), res);
+          return res;
+        };
+
+        const res = await requestLeagueCombined("regular");
+        const body = getJsonBody<Array<Record<string, unknown>>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(body).toEqual([
+          expect.objectContaining({
+            id: "p-mover",
+            games: 55,
+            goals: 19,
+            teamId: "1",
+            teamIds: ["1", "2"],
+            seasons: [
+              expect.objectContaining({
+                season: 2023,
+                games: 30,
+                teamId: "1",
+                teamIds: ["1"],
+              }),
+              expect.objectContaining({
+                season: 2024,
+                games: 25,
+                teamId: "2",
+                teamIds: ["2", "1"],
+              }),
+            ],
+          }),
+        ]);
+        expectArraySchema("CombinedPlayer", body);
+
+        const bothBody = getJsonBody<Array<Record<string, unknown>>>(
+          await requestLeagueCombined("both"),
+        );
+        expect(bothBody).toEqual([
+          expect.objectContaining({
+            games: 60,
+            teamId: "1",
+            teamIds: ["1", "2"],
+          }),
+        ]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("filters, sorts and pages player season rows after scoring the full pool", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers(
+          [
+            ["p-1", "Alpha Forward", "F", 40, 20],
+            ["p-2", "Bravo Forward", "F", 30, 25],
+            ["p-3", "Charlie Defense", "D", 40, 8],
+            ["p-4", "Delta Forward", "F", 5, 30],
+            ["p-5", "Echo Forward", "F", 35, 10],
+          ].map(([playerId, name, position, games, goals]) => ({
+            teamId: "1",
+            season: 2024,
+            reportType: "regular" as const,
+            playerId: String(playerId),
+            name: String(name),
+            position: String(position),
+            games: Number(games),
+            goals: Number(goals),
+            points: Number(goals),
+          })),
+        );
+
+        const requestSeason = async (query: string) => {
+          const req = createRequest({
+            method: "GET",
+            url: `/players/season/regular/2024?teamId=1${query}`,
+            params: { reportType: "regular", season: "2024" },
+          });
+          const res = createResponse();
+          await getPlayersSeason(asRouteReq<SeasonRouteReq>(req), res);
+          return res;
+        };
+
+        const fullBody = getJsonBody<Array<{ id: string; score: number }>>(
+          await requestSeason(""),
+        );
+        const res = await requestSeason(
+          "&position=F&minGames=10&sort=goals&limit=2&offset=1",
+        );
+        const body = getJsonBody<Array<{ id: string; score: number }>>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-total-count")).toBe("3");
+        expect(body.map((player) => player.id)).toEqual(["p-1", "p-5"]);
+        expect(body[0].score).toBe(
+          fullBody.find((player) => player.id === "p-1")?.score,
+        );
+        expectArraySchema("Player", body);
+
+        const searchRes = await requestSeason("&search=CHARLIE");
+        expect(searchRes.getHeader("x-total-count")).toBe("1");
+        expect(
+          getJsonBody<Array<{ id: string }>>(searchRes).map(
+            (player) => player.id,
+          ),
+        ).toEqual(["p-3"]);
+
+        const cachedRes = await requestSeason("&search=CHARLIE");
+        expect(cachedRes.getHeader("x-total-count")).toBe("1");
+
+        const metricsRes = await requestSeason(
+          "&metrics=percentile,zscore&position=D",
+        );
+        const [defense] =
+          getJsonBody<Array<Record<string, Record<string, number>>>>(
+            metricsRes,
+          );
+        expect(defense.percentiles.goals).toBe(0);
+        expect(defense.zScores.goals).toBeLessThan(0);
+        expect(defense.percentilesByPosition.goals).toBe(50);
+        expect(defense.zScoresByPosition.goals).toBe(0);
+        expectArraySchema("Player", [defense]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("rescores players with custom weights and echoes the effective weights", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-scorer",
+            name: "Scorer Forward",
+            position: "F",
+            games: 10,
+            goals: 10,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-hitter",
+            name: "Hitter Forward",
+            position: "F",
+            games: 10,
+            hits: 10,
+          },
+        ]);
+        await writeSnapshot(
+          db.snapshotDir,
+          "players/combined/regular/team-1",
+          [],
+        );
+
+        const requestCombined = async (query: string) => {
+          const req = createRequest({
+            method: "GET",
+            url: `/players/combined/regular${query}`,
+            params: { reportType: "regular" },
+          });
+          const res = createResponse();
+          await getPlayersCombined(asRouteReq<CombinedRouteReq>(req), res);
+          return res;
+        };
+
+        const defaultRes = await requestCombined("");
+        expect(defaultRes.getHeader("x-stats-data-source")).toBe("snapshot");
+        expect(defaultRes.getHeader("x-score-weights")).toBe(
+          "goals:1,assists:1,points:1,plusMinus:1,penalties:1,shots:1,ppp:1,shp:1,hits:1,blocks:1",
+        );
+
+        const res = await requestCombined("?weights=hits:2,goals:0.5");
+        const body = getJsonBody<
+          Array<{
+            id: string;
+            score: number;
+            seasons: Array<{ score: number }>;
+          }>
+        >(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(res.getHeader("x-score-weights")).toBe(
+          "goals:0.5,assists:1,points:1,plusMinus:1,penalties:1,shots:1,ppp:1,shp:1,hits:2,blocks:1",
+        );
+        expect(body.map((player) => [player.id, player.score])).toEqual([
+          ["p-hitter", 100],
+          ["p-scorer", 25],
+        ]);
+        expect(body[1].seasons[0].score).toBe(25);
+        expectArraySchema("CombinedPlayer", body);
+
+        const modelReq = createRequest({
+          method: "GET",
+          url: "/players/season/regular/2024?model=offense-only",
+          params: { reportType: "regular", season: "2024" },
+        });
+        const modelRes = createResponse();
+        await getPlayersSeason(asRouteReq<SeasonRouteReq>(modelReq), modelRes);
+        expect(modelRes.getHeader("x-score-weights")).toBe(
+          "goals:1,assists:1,points:1,plusMinus:0,penalties:0,shots:0.5,ppp:1,shp:0.5,hits:0,blocks:0",
+        );
+        expect(
+          getJsonBody<Array<{ id: string; score: number }>>(modelRes).map(
+            (player) => [player.id, player.score],
+          ),
+        ).toEqual([
+          ["p-scorer", 100],
+          ["p-hitter", 0],
+        ]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("lists the scoring models selectable with the model param", async () => {
+      const req = createRequest({ method: "GET", url: "/scoring/models" });
+      const res = createResponse();
+
+      await getScoringModels(asRouteReq<ScoringModelsRouteReq>(req), res);
+
+      const body = getJsonBody<Array<{ id: string }>>(res);
+      expect(res.statusCode).toBe(HTTP_STATUS.OK);
+      expect(body.map((model) => model.id)).toEqual([
+        "default",
+        "offense-only",
+        "banger",
+        "goalie-heavy",
+      ]);
+      expectArraySchema("ScoringModel", body);
+    });
+
+    test("serves per-model combined snapshots unless custom weights are layered on top", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-hitter",
+            name: "Hitter Forward",
+            position: "F",
+            games: 10,
+            hits: 10,
+          },
+        ]);
+        const snapshotPayload = [{ id: "p-banger-snapshot" }];
+        await writeSnapshot(
+          db.snapshotDir,
+          "players/combined/model-banger/regular/team-1",
+          snapshotPayload,
+        );
+
+        const requestCombined = async (query: string) => {
+          const req = createRequest({
+            method: "GET",
+            url: `/players/combined/regular${query}`,
+            params: { reportType: "regular" },
+          });
+          const res = createResponse();
+          await getPlayersCombined(asRouteReq<CombinedRouteReq>(req), res);
+          return res;
+        };
+
+        const snapshotRes = await requestCombined("?model=banger");
+        expect(snapshotRes.getHeader("x-stats-data-source")).toBe("snapshot");
+        expect(getJsonBody(snapshotRes)).toEqual(snapshotPayload);
+
+        const liveRes = await requestCombined("?model=banger&weights=goals:2");
+        expect(liveRes.getHeader("x-stats-data-source")).toBe("db");
+        expect(liveRes.getHeader("x-score-weights")).toBe(
+          "goals:2,assists:0.5,points:0.5,plusMinus:0.5,penalties:1,shots:0.5,ppp:0.25,shp:0.25,hits:1,blocks:1",
+        );
+        expect(
+          getJsonBody<Array<{ id: string }>>(liveRes).map(
+            (player) => player.id,
+          ),
+        ).toEqual(["p-hitter"]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["season", "?weights=goals", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      ["season", "?weights=wins:1", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      ["season", "?weights=constructor", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      ["season", "?model=unknown", ERROR_MESSAGES.INVALID_SCORING_MODEL],
+      ["season", "?metrics=percentile,rank", ERROR_MESSAGES.INVALID_METRICS],
+      ["combined", "?metrics=z-score", ERROR_MESSAGES.INVALID_METRICS],
+      ["season", "?include=rate", ERROR_MESSAGES.INVALID_INCLUDE],
+      ["combined", "?include=rates,scores", ERROR_MESSAGES.INVALID_INCLUDE],
+      ["combined", "?weights=goals:-1", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      ["combined", "?weights=goals:11", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      ["combined", "?weights=goals:1:2", ERROR_MESSAGES.INVALID_SCORE_WEIGHTS],
+      [
+        "combined",
+        "?model=banger,default",
+        ERROR_MESSAGES.INVALID_SCORING_MODEL,
+      ],
+    ])(
+      "rejects invalid player %s scoring params %s",
+      async (route, query, message) => {
+        const req = createRequest({
+          method: "GET",
+          url: `/players/${route}/regular${query}`,
+          params: { reportType: "regular" },
+        });
+        const res = createResponse();
+
+        if (route === "season") {
+          await getPlayersSeason(asRouteReq<SeasonRouteReq>(req), res);
+        } else {
+          await getPlayersCombined(asRouteReq<CombinedRouteReq>(req), res);
+        }
+
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe(message);
+      },
+    );
+
+    test.each([
+      ["season", "?position=G"],
+      ["season", "?sort=wins"],
+      ["combined", "?limit=0"],
+      ["combined", "?order=sideways"],
+    ])("rejects invalid player %s list params %s", async (route, query) => {
+      const req = createRequest({
+        method: "GET",
+        url: `/players/${route}/regular${query}`,
+        params: { reportType: "regular" },
+      });
+      const res = createResponse();
+
+      if (route === "season") {
+        await getPlayersSeason(asRouteReq<SeasonRouteReq>(req), res);
+      } else {
+        await getPlayersCombined(asRouteReq<CombinedRouteReq>(req), res);
+      }
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(ERROR_MESSAGES.INVALID_STATS_QUERY);
+    });
   });
 };
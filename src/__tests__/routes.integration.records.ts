@@ -0,0 +1,304 @@
+import { createRequest, createResponse } from "node-mocks-http";
+import { getRecords, getTeamRecords } from "../features/records/routes.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
+import { createIntegrationDb } from "./integration-db.js";
+import { expectObjectSchema } from "./openapi-schema.js";
+import {
+  asRouteReq,
+  getJsonBody,
+  writeSnapshot,
+} from "./routes.integration.helpers.js";
+
+type RecordsReq = Parameters<typeof getRecords>[0];
+type TeamRecordsReq = Parameters<typeof getTeamRecords>[0];
+type IntegrationDb = Awaited<ReturnType<typeof createIntegrationDb>>;
+
+type RecordCategory = {
+  group: string;
+  scope: string;
+  reportType: string;
+  stat: string;
+  value: number | null;
+  holders: Array<{ id: string; name: string; season: number | null }>;
+};
+
+type RecordsBody = {
+  team?: { id: string; name: string };
+  records: RecordCategory[];
+};
+
+const requestRecords = async () => {
+  const req = createRequest({ method: "GET", url: "/records" });
+  const res = createResponse();
+  await getRecords(asRouteReq<RecordsReq>(req), res);
+  return res;
+};
+
+const requestTeamRecords = async (teamId: string) => {
+  const req = createRequest({
+    method: "GET",
+    url: `/teams/${teamId}/records`,
+    params: { teamId },
+  });
+  const res = createResponse();
+  await getTeamRecords(asRouteReq<TeamRecordsReq>(req), res);
+  return res;
+};
+
+const findRecord = (
+  body: RecordsBody,
+  group: string,
+  scope: string,
+  reportType: string,
+  stat: string,
+): RecordCategory | undefined =>
+  body.records.find(
+    (record) =>
+      record.group === group &&
+      record.scope === scope &&
+      record.reportType === reportType &&
+      record.stat === stat,
+  );
+
+const seedRecordRows = async (db: IntegrationDb): Promise<void> => {
+  await db.insertPlayers([
+    {
+      teamId: "1",
+      season: 2020,
+      reportType: "regular",
+      playerId: "p-a",
+      name: "Aaron Alpha",
+      position: "F",
+      games: 40,
+      goals: 20,
+    },
+    {
+      teamId: "1",
+      season: 2021,
+      reportType: "regular",
+      playerId: "p-a",
+      name: "Aaron Alpha",
+      position: "F",
+      games: 50,
+      goals: 15,
+    },
+    {
+      teamId: "1",
+      season: 2021,
+      reportType: "playoffs",
+      playerId: "p-a",
+      name: "Aaron Alpha",
+      position: "F",
+      games: 5,
+      goals: 3,
+    },
+    {
+      teamId: "1",
+      season: 2020,
+      reportType: "regular",
+      playerId: "p-b",
+      name: "Bert Beta",
+      position: "D",
+      games: 30,
+      goals: 20,
+    },
+    {
+      teamId: "2",
+      season: 2021,
+      reportType: "regular",
+      playerId: "p-b",
+      name: "Bert Beta",
+      position: "D",
+      games: 30,
+      goals: 25,
+    },
+    {
+      teamId: "1",
+      season: 2022,
+      reportType: "regular",
+      playerId: "p-c",
+      name: "Carl Gamma",
+      position: "F",
+      games: 20,
+      goals: 12,
+    },
+    {
+      teamId: "2",
+      season: 2022,
+      reportType: "regular",
+      playerId: "p-c",
+      name: "Carl Gamma",
+      position: "F",
+      games: 30,
+      goals: 14,
+    },
+  ]);
+  await db.insertGoalies([
+    {
+      teamId: "1",
+      season: 2020,
+      reportType: "regular",
+      goalieId: "g-a",
+      name: "Gary Goalie",
+      games: 30,
+      wins: 18,
+      saves: 800,
+      shutouts: 2,
+    },
+    {
+      teamId: "1",
+      season: 2020,
+      reportType: "regular",
+      goalieId: "g-b",
+      name: "Gary Goalie",
+      games: 10,
+      wins: 4,
+      saves: 250,
+      shutouts: 2,
+    },
+  ]);
+};
+
+export const registerRecordsRouteIntegrationTests = (): void => {
+  describe("records routes", () => {
+    test("returns franchise records from the team's own rows with ties", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedRecordRows(db);
+
+        const res = await requestTeamRecords("1");
+        const body = getJsonBody<RecordsBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(body.team).toEqual({ id: "1", name: expect.any(String) });
+        expect(
+          findRecord(body, "skaters", "season", "regular", "goals"),
+        ).toEqual({
+          group: "skaters",
+          scope: "season",
+          reportType: "regular",
+          stat: "goals",
+          value: 20,
+          holders: [
+            { id: "p-a", name: "Aaron Alpha", season: 2020 },
+            { id: "p-b", name: "Bert Beta", season: 2020 },
+          ],
+        });
+        expect(
+          findRecord(body, "skaters", "career", "regular", "goals"),
+        ).toMatchObject({
+          value: 35,
+          holders: [{ id: "p-a", name: "Aaron Alpha", season: null }],
+        });
+        expect(
+          findRecord(body, "skaters", "career", "regular", "seasons"),
+        ).toMatchObject({ value: 2, holders: [{ id: "p-a" }] });
+        expect(
+          findRecord(body, "skaters", "season", "playoffs", "goals"),
+        ).toMatchObject({ value: 3, holders: [{ id: "p-a", season: 2021 }] });
+        expect(
+          findRecord(body, "skaters", "season", "regular", "plusMinus"),
+        ).toBeUndefined();
+        expect(
+          findRecord(body, "goalies", "season", "regular", "wins"),
+        ).toMatchObject({
+          value: 18,
+          holders: [{ id: "g-a", name: "Gary Goalie", season: 2020 }],
+        });
+        expect(
+          findRecord(body, "goalies", "season", "regular", "shutouts"),
+        ).toMatchObject({
+          value: 2,
+          holders: [{ id: "g-a" }, { id: "g-b" }],
+        });
+        expect(
+          findRecord(body, "goalies", "career", "playoffs", "wins"),
+        ).toMatchObject({ value: null, holders: [] });
+        expectObjectSchema("TeamRecords", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns league records that merge split seasons across teams", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedRecordRows(db);
+
+        const res = await requestRecords();
+        const body = getJsonBody<RecordsBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(body).not.toHaveProperty("team");
+        expect(
+          findRecord(body, "skaters", "season", "regular", "goals"),
+        ).toMatchObject({
+          value: 26,
+          holders: [{ id: "p-c", name: "Carl Gamma", season: 2022 }],
+        });
+        expect(
+          findRecord(body, "skaters", "career", "regular", "goals"),
+        ).toMatchObject({ value: 45, holders: [{ id: "p-b", season: null }] });
+        expect(
+          findRecord(body, "skaters", "career", "regular", "games"),
+        ).toMatchObject({
+          value: 90,
+          holders: [{ id: "p-a" }],
+        });
+        expect(
+          findRecord(body, "skaters", "career", "regular", "seasons"),
+        ).toMatchObject({
+          value: 2,
+          holders: [
+            { id: "p-a", season: null },
+            { id: "p-b", season: null },
+          ],
+        });
+        expect(
+          findRecord(body, "goalies", "career", "regular", "seasons"),
+        ).toMatchObject({ value: 1, holders: [{ id: "g-a" }, { id: "g-b" }] });
+        expectObjectSchema("LeagueRecords", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("serves league and franchise records from local snapshot storage", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const leaguePayload = { records: [] };
+        const teamPayload = {
+          team: { id: "1", name: "Snapshot" },
+          records: [],
+        };
+        await writeSnapshot(db.snapshotDir, "records/league", leaguePayload);
+        await writeSnapshot(db.snapshotDir, "records/team-1", teamPayload);
+
+        const leagueRes = await requestRecords();
+        expect(leagueRes.getHeader("x-stats-data-source")).toBe("snapshot");
+        expect(getJsonBody(leagueRes)).toEqual(leaguePayload);
+
+        const teamRes = await requestTeamRecords("1");
+        expect(teamRes.getHeader("x-stats-data-source")).toBe("snapshot");
+        expect(getJsonBody(teamRes)).toEqual(teamPayload);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("rejects unknown team ids", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const res = await requestTeamRecords("999");
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe(ERROR_MESSAGES.INVALID_TEAM_ID);
+      } finally {
+        await db.cleanup();
+      }
+    });
+  });
+};
@@ -0,0 +1,159 @@
+import { createRequest, createResponse } from "node-mocks-http";
+import { getSearch } from "../features/search/routes.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
+import { createIntegrationDb } from "./integration-db.js";
+import { expectArraySchema } from "./openapi-schema.js";
+import { asRouteReq, getJsonBody } from "./routes.integration.helpers.js";
+
+type RouteReq = Parameters<typeof getSearch>[0];
+
+type SearchBody = Array<{
+  id: string;
+  name: string;
+  position: string | null;
+  firstSeenSeason: number;
+  lastSeenSeason: number;
+  lastTeam: { id: string; name: string } | null;
+}>;
+
+const requestSearch = async (query: string) => {
+  const req = createRequest({ method: "GET", url: `/search${query}` });
+  const res = createResponse();
+  await getSearch(asRouteReq<RouteReq>(req), res);
+  return res;
+};
+
+export const registerSearchRouteIntegrationTests = (): void => {
+  describe("search routes", () => {
+    test("prefix-matches player and goalie names ignoring diacritics", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2012,
+            reportType: "regular",
+            playerId: "p-selanne",
+            name: "Teemu Selanne",
+            position: "F",
+            games: 40,
+          },
+          {
+            teamId: "5",
+            season: 2014,
+            reportType: "regular",
+            playerId: "p-selanne",
+            name: "Teemu Selänne",
+            position: "F",
+            games: 60,
+          },
+          {
+            teamId: "7",
+            season: 2014,
+            reportType: "regular",
+            playerId: "p-selanne",
+            name: "Teemu Selänne",
+            position: "F",
+            games: 20,
+          },
+          {
+            teamId: "7",
+            season: 2014,
+            reportType: "playoffs",
+            playerId: "p-selanne",
+            name: "Teemu Selänne",
+            position: "F",
+            games: 4,
+          },
+          {
+            teamId: "2",
+            season: 2020,
+            reportType: "regular",
+            playerId: "p-selin",
+            name: "Sami Selin",
+            position: "D",
+            games: 30,
+          },
+          {
+            teamId: "3",
+            season: 2020,
+            reportType: "regular",
+            playerId: "p-selin",
+            name: "Sami Selin",
+            position: "D",
+            games: 10,
+          },
+        ]);
+        await db.insertGoalies([
+          {
+            teamId: "4",
+            season: 2018,
+            reportType: "regular",
+            goalieId: "g-rask",
+            name: "Tuukka Rask",
+            games: 50,
+          },
+        ]);
+
+        const res = await requestSearch("?q=sel");
+        const body = getJsonBody<SearchBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(body.map((result) => result.id).sort()).toEqual([
+          "p-selanne",
+          "p-selin",
+        ]);
+        expect(body.find((result) => result.id === "p-selanne")).toEqual({
+          id: "p-selanne",
+          name: "Teemu Selänne",
+          position: "F",
+          firstSeenSeason: 2012,
+          lastSeenSeason: 2014,
+          lastTeam: { id: "7", name: expect.any(String) },
+        });
+        expect(
+          body.find((result) => result.id === "p-selin")?.lastTeam?.id,
+        ).toBe("2");
+        expectArraySchema("SearchResult", body);
+
+        const accented = getJsonBody<SearchBody>(
+          await requestSearch(`?q=${encodeURIComponent("te SELÄ")}`),
+        );
+        expect(accented.map((result) => result.id)).toEqual(["p-selanne"]);
+
+        const goalie = getJsonBody<SearchBody>(
+          await requestSearch(`?q=${encodeURIComponent('ras"* (tuu')}`),
+        );
+        expect(goalie).toEqual([
+          expect.objectContaining({
+            id: "g-rask",
+            position: "G",
+            lastTeam: expect.objectContaining({ id: "4" }),
+          }),
+        ]);
+
+        const limited = getJsonBody<SearchBody>(
+          await requestSearch("?q=sel&limit=1"),
+        );
+        expect(limited).toHaveLength(1);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["", ERROR_MESSAGES.INVALID_SEARCH_QUERY],
+      ["?q=%20a%20", ERROR_MESSAGES.INVALID_SEARCH_QUERY],
+      ["?q=--", ERROR_MESSAGES.INVALID_SEARCH_QUERY],
+      ["?q=sel&limit=0", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      ["?q=sel&limit=51", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      ["?q=sel&limit=x", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+    ])("rejects invalid search params %s", async (query, message) => {
+      const res = await requestSearch(query);
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(message);
+    });
+  });
+};
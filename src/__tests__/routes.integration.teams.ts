@@ -0,0 +1,629 @@
+import { createRequest, createResponse } from "node-mocks-http";
+import {
+  getTeamRoster,
+  getTeamRosterChanges,
+  getTeamTotals,
+} from "../features/teams/routes.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
+import { createIntegrationDb } from "./integration-db.js";
+import { expectObjectSchema } from "./openapi-schema.js";
+import { asRouteReq, getJsonBody } from "./routes.integration.helpers.js";
+
+type TeamRosterReq = Parameters<typeof getTeamRoster>[0];
+type TeamRosterChangesReq = Parameters<typeof getTeamRosterChanges>[0];
+type TeamTotalsReq = Parameters<typeof getTeamTotals>[0];
+
+type TotalsBody = {
+  team: { id: string; name: string };
+  season: number;
+  reportType: string;
+  teamCount: number;
+  playedGames: { total: number; skaters: number; goalies: number };
+  totals: Record<string, number | null>;
+  categories: Array<{
+    statKey: string;
+    value: number | null;
+    rank: number | null;
+    leagueAverage: number | null;
+  }>;
+};
+
+type RosterBody = {
+  team: { id: string; name: string };
+  season: number;
+  date: string;
+  players: Array<Record<string, unknown>>;
+};
+
+type RosterChangesBody = {
+  team: { id: string; name: string };
+  season: number;
+  added: number;
+  removed: number;
+  opening: Array<{ id: string }>;
+  changes: Array<Record<string, unknown>>;
+  closing: Array<{ id: string }>;
+};
+
+const requestTeamRoster = async (teamId: string, query = "") => {
+  const req = createRequest({
+    method: "GET",
+    url: `/teams/${teamId}/roster${query}`,
+    params: { teamId },
+  });
+  const res = createResponse();
+  await getTeamRoster(asRouteReq<TeamRosterReq>(req), res);
+  return res;
+};
+
+const requestTeamRosterChanges = async (teamId: string, query = "") => {
+  const req = createRequest({
+    method: "GET",
+    url: `/teams/${teamId}/roster-changes${query}`,
+    params: { teamId },
+  });
+  const res = createResponse();
+  await getTeamRosterChanges(asRouteReq<TeamRosterChangesReq>(req), res);
+  return res;
+};
+
+const requestTeamTotals = async (teamId: string, query = "") => {
+  const req = createRequest({
+    method: "GET",
+    url: `/teams/${teamId}/totals${query}`,
+    params: { teamId },
+  });
+  const res = createResponse();
+  await getTeamTotals(asRouteReq<TeamTotalsReq>(req), res);
+  return res;
+};
+
+const getCategory = (body: TotalsBody, statKey: string) =>
+  body.categories.find((category) => category.statKey === statKey);
+
+// Team 1 in 2024: Alpha, Delta and a second Bravo stay all season, Echo is
+// dropped in October, Charlie is claimed in November and Bravo is traded for
+// Foxtrot in December.
+const seedRosterSeason = async (
+  db: Awaited<ReturnType<typeof createIntegrationDb>>,
+): Promise<number> => {
+  await db.insertPlayers([
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-a",
+      name: "Alpha Forward",
+      position: "F",
+      games: 40,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-b0",
+      name: "Bravo Defense",
+      position: "F",
+      games: 2,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-b",
+      name: "Bravo Defense",
+      position: "D",
+      games: 20,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "playoffs",
+      playerId: "p-b",
+      name: "Bravo Defense",
+      position: "D",
+      games: 0,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-c",
+      name: "Charlie Claim",
+      position: "F",
+      games: 15,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-f",
+      name: "Foxtrot Trade",
+      position: "D",
+      games: 10,
+    },
+    {
+      teamId: "3",
+      season: 2023,
+      reportType: "regular",
+      playerId: "p-e",
+      name: "Echo Drop",
+      position: "F",
+      games: 5,
+    },
+  ]);
+  await db.insertGoalies([
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      goalieId: "g-d",
+      name: "Delta Goalie",
+      games: 30,
+    },
+  ]);
+  await db.insertClaimEvents([
+    {
+      season: 2023,
+      teamId: "1",
+      occurredAt: "2024-03-01T12:00:00.000Z",
+      items: [
+        { actionType: "claim", fantraxEntityId: "p-e", rawName: "Echo Drop" },
+      ],
+    },
+    {
+      season: 2024,
+      teamId: "1",
+      occurredAt: "2024-10-20T12:00:00.000Z",
+      items: [
+        { actionType: "drop", fantraxEntityId: "p-e", rawName: "Echo Drop" },
+      ],
+    },
+    {
+      season: 2024,
+      teamId: "1",
+      occurredAt: "2024-11-10T12:00:00.000Z",
+      items: [
+        {
+          actionType: "claim",
+          fantraxEntityId: "p-c",
+          rawName: "Charlie Claim",
+        },
+        { actionType: "claim", rawName: "Unknown Prospect", rawPosition: "F" },
+      ],
+    },
+    {
+      season: 2024,
+      teamId: "2",
+      occurredAt: "2024-10-25T12:00:00.000Z",
+      items: [
+        { actionType: "claim", fantraxEntityId: "p-e", rawName: "Echo Drop" },
+      ],
+    },
+  ]);
+  const [tradeId] = await db.insertTradeBlocks([
+    {
+      season: 2024,
+      occurredAt: "2024-12-01T12:00:00.000Z",
+      fromTeamId: "1",
+      toTeamId: "2",
+      items: [
+        { fantraxEntityId: "p-b", rawName: "Bravo Defense", rawPosition: "D" },
+      ],
+    },
+    {
+      season: 2024,
+      occurredAt: "2024-12-01T12:00:00.000Z",
+      fromTeamId: "2",
+      toTeamId: "1",
+      items: [
+        { fantraxEntityId: "p-f", rawName: "Foxtrot Trade", rawPosition: "D" },
+      ],
+    },
+  ]);
+  return tradeId;
+};
+
+export const registerTeamRouteIntegrationTests = (): void => {
+  describe("team routes", () => {
+    test("rebuilds a team's roster on a given date from stats rows, claims, drops and trades", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedRosterSeason(db);
+
+        const openingRes = await requestTeamRoster("1", "?date=2024-10-01");
+        const openingBody = getJsonBody<RosterBody>(openingRes);
+        expect(openingRes.statusCode).toBe(HTTP_STATUS.OK);
+        expect(openingBody).toEqual({
+          team: { id: "1", name: "Colorado Avalanche" },
+          season: 2024,
+          date: "2024-10-01",
+          players: [
+            {
+              id: "p-a",
+              name: "Alpha Forward",
+              position: "F",
+              acquiredAt: null,
+              acquiredBy: null,
+            },
+            {
+              id: "p-b",
+              name: "Bravo Defense",
+              position: "D",
+              acquiredAt: null,
+              acquiredBy: null,
+            },
+            {
+              id: "p-b0",
+              name: "Bravo Defense",
+              position: "F",
+              acquiredAt: null,
+              acquiredBy: null,
+            },
+            {
+              id: "g-d",
+              name: "Delta Goalie",
+              position: "G",
+              acquiredAt: null,
+              acquiredBy: null,
+            },
+            {
+              id: "p-e",
+              name: "Echo Drop",
+              position: "F",
+              acquiredAt: null,
+              acquiredBy: null,
+            },
+          ],
+        });
+        expectObjectSchema("TeamRoster", openingBody);
+
+        const claimDayRes = await requestTeamRoster("1", "?date=2024-11-10");
+        expect(
+          getJsonBody<RosterBody>(claimDayRes).players.map(
+            (player) => player.id,
+          ),
+        ).toEqual(["p-a", "p-b", "p-b0", "p-c", "g-d"]);
+
+        const lateRes = await requestTeamRoster("1", "?date=2025-03-01");
+        const lateBody = getJsonBody<RosterBody>(lateRes);
+        expect(lateBody.season).toBe(2024);
+        expect(lateBody.players).toEqual([
+          {
+            id: "p-a",
+            name: "Alpha Forward",
+            position: "F",
+            acquiredAt: null,
+            acquiredBy: null,
+          },
+          {
+            id: "p-b0",
+            name: "Bravo Defense",
+            position: "F",
+            acquiredAt: null,
+            acquiredBy: null,
+          },
+          {
+            id: "p-c",
+            name: "Charlie Claim",
+            position: "F",
+            acquiredAt: "2024-11-10T12:00:00.000Z",
+            acquiredBy: "claim",
+          },
+          {
+            id: "g-d",
+            name: "Delta Goalie",
+            position: "G",
+            acquiredAt: null,
+            acquiredBy: null,
+          },
+          {
+            id: "p-f",
+            name: "Foxtrot Trade",
+            position: "D",
+            acquiredAt: "2024-12-01T12:00:00.000Z",
+            acquiredBy: "trade",
+          },
+        ]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("lists a season's roster changes between the opening and closing rosters", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const tradeId = await seedRosterSeason(db);
+
+        const res = await requestTeamRosterChanges("1", "?season=2024");
+        const body = getJsonBody<RosterChangesBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body.team).toEqual({ id: "1", name: "Colorado Avalanche" });
+        expect(body).toMatchObject({ season: 2024, added: 3, removed: 2 });
+        expect(body.opening.map((player) => player.id)).toEqual([
+          "p-a",
+          "p-b",
+          "p-b0",
+          "g-d",
+          "p-e",
+        ]);
+        expect(body.closing.map((player) => player.id)).toEqual([
+          "p-a",
+          "p-b0",
+          "p-c",
+          "g-d",
+          "p-f",
+        ]);
+        expect(body.changes).toEqual([
+          expect.objectContaining({
+            type: "drop",
+            direction: "out",
+            occurredAt: "2024-10-20T12:00:00.000Z",
+            asset: expect.objectContaining({ id: "p-e" }),
+            tradeId: null,
+          }),
+          expect.objectContaining({
+            type: "claim",
+            direction: "in",
+            asset: expect.objectContaining({ id: "p-c" }),
+          }),
+          expect.objectContaining({
+            type: "claim",
+            direction: "in",
+            asset: expect.objectContaining({
+              id: null,
+              name: "Unknown Prospect",
+            }),
+          }),
+          expect.objectContaining({
+            type: "trade",
+            direction: "out",
+            toTeam: { id: "2", name: "Carolina Hurricanes" },
+            asset: expect.objectContaining({ id: "p-b" }),
+            tradeId,
+          }),
+          expect.objectContaining({
+            type: "trade",
+            direction: "in",
+            fromTeam: { id: "2", name: "Carolina Hurricanes" },
+            asset: expect.objectContaining({ id: "p-f" }),
+            tradeId,
+          }),
+        ]);
+        expectObjectSchema("TeamRosterChanges", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["roster", "999", "?date=2024-10-01", ERROR_MESSAGES.INVALID_TEAM_ID],
+      ["roster", "1", "", ERROR_MESSAGES.INVALID_DATE],
+      ["roster", "1", "?date=2024-02-30", ERROR_MESSAGES.INVALID_DATE],
+      ["roster", "1", "?date=2011-05-01", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["roster-changes", "999", "?season=2024", ERROR_MESSAGES.INVALID_TEAM_ID],
+      ["roster-changes", "1", "", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      [
+        "roster-changes",
+        "1",
+        "?season=2000",
+        ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+      ],
+    ])(
+      "rejects invalid %s params for team %s%s",
+      async (route, teamId, query, message) => {
+        const res =
+          route === "roster"
+            ? await requestTeamRoster(teamId, query)
+            : await requestTeamRosterChanges(teamId, query);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe(message);
+      },
+    );
+
+    test("sums a team's season totals and ranks every category against the league", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertPlayers([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-a",
+            name: "Alpha Forward",
+            position: "F",
+            games: 10,
+            goals: 10,
+            hits: 5,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-b",
+            name: "Bravo Defense",
+            position: "D",
+            games: 10,
+            goals: 2,
+            hits: 20,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "playoffs",
+            playerId: "p-a",
+            name: "Alpha Forward",
+            position: "F",
+            games: 2,
+            goals: 3,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-c",
+            name: "Charlie Hitter",
+            position: "F",
+            games: 20,
+            goals: 5,
+            hits: 30,
+          },
+          {
+            teamId: "3",
+            season: 2024,
+            reportType: "regular",
+            playerId: "p-d",
+            name: "Delta Sniper",
+            position: "F",
+            games: 5,
+            goals: 12,
+          },
+        ]);
+        await db.insertGoalies([
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-a",
+            name: "Alpha Goalie",
+            games: 10,
+            wins: 6,
+            saves: 250,
+            gaa: 2,
+            savePercent: 0.92,
+          },
+          {
+            teamId: "1",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-b",
+            name: "Bravo Goalie",
+            games: 5,
+            wins: 1,
+            saves: 100,
+            gaa: 3.2,
+            savePercent: 0.9,
+          },
+          {
+            teamId: "2",
+            season: 2024,
+            reportType: "regular",
+            goalieId: "g-c",
+            name: "Charlie Goalie",
+            games: 20,
+            wins: 10,
+            saves: 500,
+            gaa: 2.5,
+            savePercent: 0.91,
+          },
+        ]);
+
+        const res = await requestTeamTotals("1", "?season=2024");
+        const body = getJsonBody<TotalsBody>(res);
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body).toMatchObject({
+          team: { id: "1", name: "Colorado Avalanche" },
+          season: 2024,
+          reportType: "regular",
+          teamCount: 3,
+          playedGames: { total: 35, skaters: 20, goalies: 15 },
+          totals: {
+            goals: 12,
+            hits: 25,
+            wins: 7,
+            saves: 350,
+            gaa: 2.4,
+            savePercent: 0.914,
+          },
+        });
+        expect(getCategory(body, "goals")).toEqual({
+          statKey: "goals",
+          value: 12,
+          rank: 1,
+          leagueAverage: 9.667,
+        });
+        expect(getCategory(body, "hits")).toMatchObject({ rank: 2 });
+        expect(getCategory(body, "wins")).toMatchObject({ rank: 2 });
+        expect(getCategory(body, "gaa")).toMatchObject({
+          rank: 1,
+          leagueAverage: 2.45,
+        });
+        expect(body.categories.map((category) => category.statKey)).toEqual([
+          "goals",
+          "assists",
+          "points",
+          "plusMinus",
+          "penalties",
+          "shots",
+          "ppp",
+          "shp",
+          "hits",
+          "blocks",
+          "wins",
+          "gaa",
+          "saves",
+          "savePercent",
+          "shutouts",
+        ]);
+        expectObjectSchema("TeamTotals", body);
+
+        const goalielessBody = getJsonBody<TotalsBody>(
+          await requestTeamTotals("3", "?season=2024"),
+        );
+        expect(goalielessBody.totals.gaa).toBeNull();
+        expect(getCategory(goalielessBody, "gaa")).toMatchObject({
+          value: null,
+          rank: null,
+        });
+        expect(getCategory(goalielessBody, "goals")).toMatchObject({ rank: 1 });
+
+        const bothBody = getJsonBody<TotalsBody>(
+          await requestTeamTotals("1", "?season=2024&reportType=both"),
+        );
+        expect(bothBody.reportType).toBe("both");
+        expect(bothBody.totals.goals).toBe(15);
+        expect(getCategory(bothBody, "goals")?.rank).toBe(1);
+
+        const skatersOnlyBody = getJsonBody<TotalsBody>(
+          await requestTeamTotals("1", "?season=2024&reportType=playoffs"),
+        );
+        expect(skatersOnlyBody.playedGames).toEqual({
+          total: 2,
+          skaters: 2,
+          goalies: 0,
+        });
+        expect(getCategory(skatersOnlyBody, "gaa")).toEqual({
+          statKey: "gaa",
+          value: null,
+          rank: null,
+          leagueAverage: null,
+        });
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["999", "?season=2024", ERROR_MESSAGES.INVALID_TEAM_ID],
+      [
+        "1",
+        "?season=2024&reportType=finals",
+        ERROR_MESSAGES.INVALID_REPORT_TYPE,
+      ],
+      ["1", "", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["1", "?season=2000", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+    ])(
+      "rejects invalid totals params for team %s%s",
+      async (teamId, query, message) => {
+        const res = await requestTeamTotals(teamId, query);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+        expect(res._getData()).toBe(message);
+      },
+    );
+  });
+};
@@ -4,7 +4,11 @@ import { registerFinalsRouteIntegrationTests } from "./routes.integration.finals
 import { registerGoalieRouteIntegrationTests } from "./routes.integration.goalies.js";
 import { registerLeaderboardRouteIntegrationTests } from "./routes.integration.leaderboard.js";
 import { registerPlayerRouteIntegrationTests } from "./routes.integration.players.js";
+import { registerRecordsRouteIntegrationTests } from "./routes.integration.records.js";
+import { registerSearchRouteIntegrationTests } from "./routes.integration.search.js";
 import { registerSeasonRouteIntegrationTests } from "./routes.integration.seasons.js";
+import { registerTeamRouteIntegrationTests } from "./routes.integration.teams.js";
+import { registerTransactionRouteIntegrationTests } from "./routes.integration.transactions.js";
 
 describe("routes integration", () => {
   registerSeasonRouteIntegrationTests();
@@ -14,4 +18,8 @@ describe("routes integration", () => {
   registerCareerRouteIntegrationTests();
   registerLeaderboardRouteIntegrationTests();
   registerFinalsRouteIntegrationTests();
+  registerTransactionRouteIntegrationTests();
+  registerTeamRouteIntegrationTests();
+  registerSearchRouteIntegrationTests();
+  registerRecordsRouteIntegrationTests();
 });
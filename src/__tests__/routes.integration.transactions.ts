@@ -0,0 +1,973 @@
+import { createRequest, createResponse } from "node-mocks-http";
+import {
+  getLopsidedTrades,
+  getTrade,
+  getTradeAnalysis,
+  getTrades,
+  getTransactions,
+} from "../features/transactions/routes.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../shared/http.js";
+import { createIntegrationDb } from "./integration-db.js";
+import { expectArraySchema, expectObjectSchema } from "./openapi-schema.js";
+import { asRouteReq, getJsonBody } from "./routes.integration.helpers.js";
+
+type TransactionsReq = Parameters<typeof getTransactions>[0];
+type TradesReq = Parameters<typeof getTrades>[0];
+type TradeReq = Parameters<typeof getTrade>[0];
+type TradeAnalysisReq = Parameters<typeof getTradeAnalysis>[0];
+type LopsidedTradesReq = Parameters<typeof getLopsidedTrades>[0];
+
+type TradeBody = {
+  id: number;
+  season: number;
+  occurredAt: string;
+  teams: Array<{ id: string; name: string }>;
+  sides: Array<{
+    team: { id: string; name: string };
+    sent: Array<{ toTeam: { id: string }; asset: Record<string, unknown> }>;
+    received: Array<{ fromTeam: { id: string }; asset: Record<string, unknown> }>;
+  }>;
+};
+
+type TradeAnalysisBody = {
+  trade: { id: number; season: number };
+  winner: { id: string; name: string } | null;
+  margin: number;
+  sides: Array<{
+    team: { id: string };
+    verdict: string;
+    total: { games: number; points: number; score: number };
+    acquired: Array<{
+      fromTeam: { id: string };
+      asset: { id: string | null; name: string };
+      tradeSeason: { games: number; points: number; score: number };
+      laterSeasons: {
+        games: number;
+        points: number;
+        score: number;
+        seasons: number;
+      };
+      total: { games: number; points: number; score: number };
+    }>;
+  }>;
+};
+
+type LopsidedTradesBody = {
+  skip: number;
+  take: number;
+  total: number;
+  items: TradeAnalysisBody[];
+};
+
+type FeedBody = {
+  limit: number;
+  nextCursor: string | null;
+  items: Array<{
+    id: string;
+    type: string;
+    occurredAt: string;
+    fromTeam: { id: string; name: string } | null;
+    toTeam: { id: string; name: string } | null;
+    asset: Record<string, unknown>;
+  }>;
+};
+
+type IntegrationDb = Awaited<ReturnType<typeof createIntegrationDb>>;
+
+const requestTransactions = async (url: string) => {
+  const req = createRequest({ method: "GET", url });
+  const res = createResponse();
+  await getTransactions(asRouteReq<TransactionsReq>(req), res);
+  return res;
+};
+
+const requestTrades = async (url: string) => {
+  const req = createRequest({ method: "GET", url });
+  const res = createResponse();
+  await getTrades(asRouteReq<TradesReq>(req), res);
+  return res;
+};
+
+const requestTrade = async (id: string) => {
+  const req = createRequest({
+    method: "GET",
+    url: `/transactions/trades/${id}`,
+    params: { id },
+  });
+  const res = createResponse();
+  await getTrade(asRouteReq<TradeReq>(req), res);
+  return res;
+};
+
+const requestTradeAnalysis = async (id: string) => {
+  const req = createRequest({
+    method: "GET",
+    url: `/transactions/trades/${id}/analysis`,
+    params: { id },
+  });
+  const res = createResponse();
+  await getTradeAnalysis(asRouteReq<TradeAnalysisReq>(req), res);
+  return res;
+};
+
+const requestLopsidedTrades = async (url: string) => {
+  const req = createRequest({ method: "GET", url });
+  const res = createResponse();
+  await getLopsidedTrades(asRouteReq<LopsidedTradesReq>(req), res);
+  return res;
+};
+
+// A 2024 star-for-depth trade where the star keeps producing for the new team
+// the following season, plus 2025 trades of unresolved and non-player assets.
+const seedTradeOutcomes = async (db: IntegrationDb): Promise<number[]> => {
+  await db.insertPlayers([
+    {
+      teamId: "2",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-star",
+      name: "Star Center",
+      position: "F",
+      games: 30,
+      goals: 20,
+      assists: 20,
+      points: 40,
+      shots: 90,
+    },
+    {
+      teamId: "2",
+      season: 2024,
+      reportType: "playoffs",
+      playerId: "p-star",
+      name: "Star Center",
+      position: "F",
+      games: 5,
+      goals: 3,
+      assists: 3,
+      points: 6,
+      shots: 12,
+    },
+    {
+      teamId: "2",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-filler",
+      name: "Filler Forward",
+      games: 30,
+      goals: 1,
+      points: 1,
+    },
+    {
+      teamId: "2",
+      season: 2025,
+      reportType: "regular",
+      playerId: "p-star",
+      name: "Star Center",
+      position: "F",
+      games: 80,
+      goals: 45,
+      assists: 45,
+      points: 90,
+      shots: 250,
+    },
+    {
+      teamId: "2",
+      season: 2027,
+      reportType: "regular",
+      playerId: "p-star",
+      name: "Star Center",
+      position: "F",
+      games: 82,
+      goals: 50,
+      assists: 50,
+      points: 100,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-depth",
+      name: "Depth Winger",
+      position: "F",
+      games: 20,
+      goals: 1,
+      assists: 1,
+      points: 2,
+      shots: 10,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-top",
+      name: "Top Winger",
+      position: "F",
+      games: 60,
+      goals: 30,
+      assists: 30,
+      points: 60,
+      shots: 200,
+      hits: 50,
+      blocks: 20,
+      plusMinus: 15,
+      penalties: 20,
+      ppp: 20,
+      shp: 2,
+    },
+  ]);
+  await db.insertGoalies([
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      goalieId: "g-backup",
+      name: "Backup Goalie",
+      games: 10,
+      wins: 3,
+      saves: 250,
+      gaa: 2.4,
+      savePercent: 0.92,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "playoffs",
+      goalieId: "g-backup",
+      name: "Backup Goalie",
+      games: 1,
+      wins: 0,
+      saves: 20,
+      gaa: 4,
+      savePercent: 0.833,
+    },
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      goalieId: "g-starter",
+      name: "Starter Goalie",
+      games: 50,
+      wins: 30,
+      saves: 1400,
+      shutouts: 4,
+      gaa: 2.6,
+      savePercent: 0.91,
+    },
+  ]);
+
+  return db.insertTradeBlocks([
+    {
+      season: 2024,
+      occurredAt: "2025-01-15T12:00:00.000Z",
+      fromTeamId: "1",
+      toTeamId: "2",
+      items: [
+        { fantraxEntityId: "p-star", rawName: "Star Center", rawPosition: "F" },
+      ],
+    },
+    {
+      season: 2024,
+      occurredAt: "2025-01-15T12:00:00.000Z",
+      fromTeamId: "2",
+      toTeamId: "1",
+      items: [
+        {
+          fantraxEntityId: "p-depth",
+          rawName: "Depth Winger",
+          rawPosition: "F",
+        },
+        {
+          fantraxEntityId: "g-backup",
+          rawName: "Backup Goalie",
+          rawPosition: "G",
+        },
+        {
+          assetType: "draft_pick",
+          rawName: "2025 Draft Pick, Round 2 (Carolina Hurricanes)",
+          draftSeason: 2025,
+          draftRound: 2,
+          draftOriginalTeamId: "2",
+        },
+      ],
+    },
+    {
+      season: 2025,
+      occurredAt: "2025-12-01T12:00:00.000Z",
+      fromTeamId: "5",
+      toTeamId: "6",
+      items: [{ rawName: "Mystery Prospect", rawPosition: "D" }],
+    },
+    {
+      season: 2025,
+      occurredAt: "2025-12-01T12:00:00.000Z",
+      fromTeamId: "6",
+      toTeamId: "5",
+      items: [{ assetType: "other", rawName: "Cap space" }],
+    },
+    {
+      season: 2025,
+      occurredAt: "2025-11-01T12:00:00.000Z",
+      fromTeamId: "3",
+      toTeamId: "4",
+      items: [{ assetType: "other", rawName: "Future considerations" }],
+    },
+    {
+      season: 2025,
+      occurredAt: "2025-11-01T12:00:00.000Z",
+      fromTeamId: "7",
+      toTeamId: "8",
+      items: [{ assetType: "other", rawName: "Roster spot" }],
+    },
+  ]);
+};
+
+// One three-team deal and one unrelated two-team deal processed at the same moment,
+// plus an older trade from the previous season.
+const seedTrades = async (db: IntegrationDb): Promise<number[]> => {
+  await db.insertPlayers([
+    {
+      teamId: "2",
+      season: 2025,
+      reportType: "regular",
+      playerId: "p-star",
+      name: "Star Center",
+      position: "F",
+    },
+  ]);
+
+  return db.insertTradeBlocks([
+    {
+      season: 2025,
+      occurredAt: "2026-01-10T12:00:00.000Z",
+      fromTeamId: "1",
+      toTeamId: "2",
+      items: [
+        {
+          fantraxEntityId: "p-star",
+          rawName: "Star Center",
+          rawPosition: "F",
+        },
+      ],
+    },
+    {
+      season: 2025,
+      occurredAt: "2026-01-10T12:00:00.000Z",
+      fromTeamId: "2",
+      toTeamId: "3",
+      items: [
+        {
+          assetType: "draft_pick",
+          rawName: "2026 Draft Pick, Round 1 (Carolina Hurricanes)",
+          draftSeason: 2026,
+          draftRound: 1,
+          draftOriginalTeamId: "2",
+        },
+        { assetType: "other", rawName: "Retained salary" },
+      ],
+    },
+    {
+      season: 2025,
+      occurredAt: "2026-01-10T12:00:00.000Z",
+      fromTeamId: "3",
+      toTeamId: "1",
+      items: [{ rawName: "Depth Winger", rawPosition: "F" }],
+    },
+    {
+      season: 2025,
+      occurredAt: "2026-01-10T12:00:00.000Z",
+      fromTeamId: "5",
+      toTeamId: "6",
+      items: [{ assetType: "other", rawName: "Cap space" }],
+    },
+    {
+      season: 2024,
+      occurredAt: "2025-02-01T12:00:00.000Z",
+      fromTeamId: "1",
+      toTeamId: "5",
+      items: [{ rawName: "Old Defender", rawPosition: "D" }],
+    },
+  ]);
+};
+
+const seedTransactionFeed = async (db: IntegrationDb): Promise<void> => {
+  await db.insertPlayers([
+    {
+      teamId: "1",
+      season: 2024,
+      reportType: "regular",
+      playerId: "p-claimed",
+      name: "Claimed Skater",
+      position: "F",
+    },
+    {
+      teamId: "4",
+      season: 2025,
+      reportType: "regular",
+      playerId: "p-traded",
+      name: "Traded Skater",
+      position: "D",
+    },
+  ]);
+  await db.insertClaimEvents([
+    {
+      season: 2024,
+      teamId: "1",
+      occurredAt: "2024-11-02T17:00:00.000Z",
+      items: [
+        {
+          actionType: "claim",
+          fantraxEntityId: "p-claimed",
+          rawName: "Claimed Skater",
+          rawPosition: "F",
+        },
+        { actionType: "drop", rawName: "Unknown Skater", rawPosition: "D" },
+      ],
+    },
+  ]);
+  await db.insertTradeBlocks([
+    {
+      season: 2025,
+      occurredAt: "2026-01-10T12:00:00.000Z",
+      fromTeamId: "1",
+      toTeamId: "4",
+      items: [
+        {
+          fantraxEntityId: "p-traded",
+          rawName: "Traded Skater",
+          rawPosition: "D",
+        },
+        {
+          assetType: "draft_pick",
+          rawName: "2026 Draft Pick, Round 2 (Colorado Avalanche)",
+          draftSeason: 2026,
+          draftRound: 2,
+          draftOriginalTeamId: "1",
+        },
+      ],
+    },
+    {
+      season: 2025,
+      occurredAt: "2026-01-10T12:00:00.000Z",
+      fromTeamId: "4",
+      toTeamId: "1",
+      items: [{ assetType: "other", rawName: "Future considerations" }],
+    },
+  ]);
+};
+
+export const registerTransactionRouteIntegrationTests = (): void => {
+  describe("transaction routes", () => {
+    test("returns claims, drops and trades newest first with a consistent event shape", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedTransactionFeed(db);
+
+        const res = await requestTransactions("/transactions");
+        const body = getJsonBody<FeedBody>(res);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(res.getHeader("x-stats-data-source")).toBe("db");
+        expect(body.limit).toBe(50);
+        expect(body.nextCursor).toBeNull();
+        expect(body.items.map((item) => item.type)).toEqual([
+          "trade",
+          "trade",
+          "trade",
+          "claim",
+          "drop",
+        ]);
+        expect(body.items[0]).toEqual({
+          id: expect.stringMatching(/^trades:\d+$/u),
+          type: "trade",
+          season: 2025,
+          occurredAt: "2026-01-10T12:00:00.000Z",
+          fromTeam: { id: "1", name: "Colorado Avalanche" },
+          toTeam: { id: "4", name: "Vancouver Canucks" },
+          asset: {
+            type: "player",
+            id: "p-traded",
+            name: "Traded Skater",
+            position: "D",
+            draftPick: null,
+          },
+        });
+        expect(body.items[1].asset).toEqual({
+          type: "draft_pick",
+          id: null,
+          name: "2026 Draft Pick, Round 2 (Colorado Avalanche)",
+          position: null,
+          draftPick: {
+            season: 2026,
+            round: 2,
+            originalTeam: { id: "1", name: "Colorado Avalanche" },
+          },
+        });
+        expect(body.items[3]).toEqual(
+          expect.objectContaining({
+            type: "claim",
+            fromTeam: null,
+            toTeam: { id: "1", name: "Colorado Avalanche" },
+          }),
+        );
+        expect(body.items[4]).toEqual(
+          expect.objectContaining({
+            type: "drop",
+            fromTeam: { id: "1", name: "Colorado Avalanche" },
+            toTeam: null,
+            asset: expect.objectContaining({ id: null, name: "Unknown Skater" }),
+          }),
+        );
+        expectObjectSchema("TransactionFeedPage", body);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("applies season, team, type, date and player filters", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedTransactionFeed(db);
+
+        const bySeason = getJsonBody<FeedBody>(
+          await requestTransactions("/transactions?season=2024"),
+        );
+        const byTeam = getJsonBody<FeedBody>(
+          await requestTransactions("/transactions?teamId=4"),
+        );
+        const byType = getJsonBody<FeedBody>(
+          await requestTransactions("/transactions?type=claim,drop"),
+        );
+        const byDate = getJsonBody<FeedBody>(
+          await requestTransactions(
+            "/transactions?from=2024-11-02&to=2024-11-02",
+          ),
+        );
+        const byPlayer = getJsonBody<FeedBody>(
+          await requestTransactions("/transactions?playerId=p-traded"),
+        );
+
+        expect(bySeason.items.map((item) => item.type)).toEqual([
+          "claim",
+          "drop",
+        ]);
+        expect(byTeam.items).toHaveLength(3);
+        expect(byType.items.map((item) => item.type)).toEqual([
+          "claim",
+          "drop",
+        ]);
+        expect(byDate.items).toHaveLength(2);
+        expect(byPlayer.items.map((item) => item.asset.id)).toEqual([
+          "p-traded",
+        ]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("pages through the feed with an opaque cursor", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedTransactionFeed(db);
+
+        const firstPage = getJsonBody<FeedBody>(
+          await requestTransactions("/transactions?limit=2"),
+        );
+        const secondPage = getJsonBody<FeedBody>(
+          await requestTransactions(
+            `/transactions?limit=2&cursor=${firstPage.nextCursor}`,
+          ),
+        );
+        const lastPage = getJsonBody<FeedBody>(
+          await requestTransactions(
+            `/transactions?limit=2&cursor=${secondPage.nextCursor}`,
+          ),
+        );
+
+        expect(firstPage.items).toHaveLength(2);
+        expect(firstPage.nextCursor).toEqual(expect.any(String));
+        expect(secondPage.items.map((item) => item.type)).toEqual([
+          "trade",
+          "claim",
+        ]);
+        expect(lastPage.items.map((item) => item.type)).toEqual(["drop"]);
+        expect(lastPage.nextCursor).toBeNull();
+        expect(
+          new Set(
+            [...firstPage.items, ...secondPage.items, ...lastPage.items].map(
+              (item) => item.id,
+            ),
+          ).size,
+        ).toBe(5);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("keeps raw team ids when a draft pick names an unknown original team", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await db.insertTradeBlocks([
+          {
+            season: 2025,
+            occurredAt: "2026-02-01T12:00:00.000Z",
+            fromTeamId: "2",
+            toTeamId: "3",
+            items: [
+              {
+                assetType: "draft_pick",
+                rawName: "2027 Draft Pick, Round 1 (Legacy Team)",
+                draftSeason: 2027,
+                draftRound: 1,
+                draftOriginalTeamId: "legacy",
+              },
+            ],
+          },
+        ]);
+
+        const body = getJsonBody<FeedBody>(
+          await requestTransactions("/transactions"),
+        );
+
+        expect(body.items[0].asset.draftPick).toEqual({
+          season: 2027,
+          round: 1,
+          originalTeam: { id: "legacy", name: "legacy" },
+        });
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["/transactions?season=2000", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["/transactions?season=abc", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["/transactions?season=2099", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["/transactions?teamId=999", ERROR_MESSAGES.INVALID_TEAM_ID],
+      ["/transactions?type=waiver", ERROR_MESSAGES.INVALID_TRANSACTION_TYPE],
+      ["/transactions?from=2024-02-30", ERROR_MESSAGES.INVALID_DATE_RANGE],
+      ["/transactions?to=2024/02/01", ERROR_MESSAGES.INVALID_DATE_RANGE],
+      [
+        "/transactions?from=2025-01-02&to=2025-01-01",
+        ERROR_MESSAGES.INVALID_DATE_RANGE,
+      ],
+      ["/transactions?limit=0", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      ["/transactions?limit=201", ERROR_MESSAGES.INVALID_PAGING_PARAMS],
+      [
+        "/transactions?limit=99999999999999999999",
+        ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+      ],
+      ["/transactions?cursor=bm9wZQ", ERROR_MESSAGES.INVALID_CURSOR],
+    ])("rejects invalid query %s", async (url, message) => {
+      const res = await requestTransactions(url);
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(message);
+    });
+
+    test("rebuilds multi-team trades as one deal with every side's assets", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const [firstBlockId, , thirdBlockId, otherDealBlockId] =
+          await seedTrades(db);
+
+        const res = await requestTrade(String(firstBlockId));
+        const body = getJsonBody<TradeBody>(res);
+
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        expect(body.id).toBe(firstBlockId);
+        expect(body.season).toBe(2025);
+        expect(body.teams.map((team) => team.name)).toEqual([
+          "Calgary Flames",
+          "Carolina Hurricanes",
+          "Colorado Avalanche",
+        ]);
+        const colorado = body.sides.find((side) => side.team.id === "1");
+        expect(colorado?.sent).toEqual([
+          {
+            fromTeam: { id: "1", name: "Colorado Avalanche" },
+            toTeam: { id: "2", name: "Carolina Hurricanes" },
+            asset: {
+              type: "player",
+              id: "p-star",
+              name: "Star Center",
+              position: "F",
+              draftPick: null,
+            },
+          },
+        ]);
+        expect(colorado?.received.map((move) => move.asset.name)).toEqual([
+          "Depth Winger",
+        ]);
+        const carolina = body.sides.find((side) => side.team.id === "2");
+        expect(carolina?.sent.map((move) => move.asset.type)).toEqual([
+          "draft_pick",
+          "other",
+        ]);
+        expect(carolina?.sent[0].asset.draftPick).toEqual({
+          season: 2026,
+          round: 1,
+          originalTeam: { id: "2", name: "Carolina Hurricanes" },
+        });
+        expectObjectSchema("Trade", body);
+        expect(
+          getJsonBody<TradeBody>(await requestTrade(String(thirdBlockId))),
+        ).toEqual(body);
+
+        const otherDeal = getJsonBody<TradeBody>(
+          await requestTrade(String(otherDealBlockId)),
+        );
+        expect(otherDeal.teams.map((team) => team.name)).toEqual([
+          "Detroit Red Wings",
+          "Montreal Canadiens",
+        ]);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("lists trades newest first with season and team filters", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const [firstBlockId, , , otherDealBlockId, oldBlockId] =
+          await seedTrades(db);
+
+        const allRes = await requestTrades("/transactions/trades");
+        const all = getJsonBody<TradeBody[]>(allRes);
+        const bySeason = getJsonBody<TradeBody[]>(
+          await requestTrades("/transactions/trades?season=2024"),
+        );
+        const byTeam = getJsonBody<TradeBody[]>(
+          await requestTrades("/transactions/trades?teamId=5"),
+        );
+
+        expect(allRes.statusCode).toBe(HTTP_STATUS.OK);
+        expect(all.map((trade) => trade.id)).toEqual([
+          firstBlockId,
+          otherDealBlockId,
+          oldBlockId,
+        ]);
+        expect(bySeason.map((trade) => trade.id)).toEqual([oldBlockId]);
+        expect(byTeam.map((trade) => trade.id)).toEqual([
+          otherDealBlockId,
+          oldBlockId,
+        ]);
+        expectArraySchema("Trade", all);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns 404 for unknown and malformed trade ids", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedTrades(db);
+
+        for (const id of ["9999", "abc"]) {
+          const res = await requestTrade(id);
+
+          expect(res.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+          expect(res._getData()).toBe(ERROR_MESSAGES.TRADE_NOT_FOUND);
+        }
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      ["/transactions/trades?season=1999", ERROR_MESSAGES.SEASON_NOT_AVAILABLE],
+      ["/transactions/trades?teamId=0", ERROR_MESSAGES.INVALID_TEAM_ID],
+    ])("rejects invalid trade list query %s", async (url, message) => {
+      const res = await requestTrades(url);
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(message);
+    });
+
+    test("scores what each side received for the rest of the trade season and later seasons", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const [tradeId] = await seedTradeOutcomes(db);
+
+        const res = await requestTradeAnalysis(String(tradeId));
+
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        const body = getJsonBody<TradeAnalysisBody>(res);
+        expectObjectSchema("TradeAnalysis", body);
+        expect(body.trade.id).toBe(tradeId);
+        expect(body.winner?.id).toBe("2");
+
+        const [winnerSide, loserSide] = ["2", "1"].map(
+          (teamId) => body.sides.find((side) => side.team.id === teamId)!,
+        );
+        expect(winnerSide.verdict).toBe("won");
+        expect(loserSide.verdict).toBe("lost");
+        expect(body.margin).toBe(
+          Number((winnerSide.total.score - loserSide.total.score).toFixed(2)),
+        );
+
+        const [star] = winnerSide.acquired;
+        expect(star.asset).toMatchObject({ id: "p-star", name: "Star Center" });
+        expect(star.fromTeam.id).toBe("1");
+        // Scored against the whole league, so Top Winger's season for the
+        // other side keeps the star below the best score.
+        expect(star.tradeSeason).toEqual({ games: 35, points: 46, score: 28.1 });
+        expect(star.laterSeasons).toEqual({
+          games: 80,
+          points: 90,
+          score: 100,
+          seasons: 1,
+        });
+        expect(star.total).toEqual({ games: 115, points: 136, score: 128.1 });
+        expect(winnerSide.total).toEqual({
+          ...star.total,
+          skaterScore: 128.1,
+          goalieScore: 0,
+        });
+
+        expect(loserSide.acquired.map((entry) => entry.asset.id)).toEqual([
+          "p-depth",
+          "g-backup",
+        ]);
+        const [depth, backup] = loserSide.acquired;
+        expect(depth.tradeSeason).toMatchObject({ games: 20, points: 2 });
+        // GAA and save percentage are aggregated over the backup's regular and
+        // playoff rows and scored like the goalie routes.
+        expect(backup.tradeSeason).toEqual({ games: 11, points: 0, score: 66.09 });
+        expect(depth.tradeSeason.score).toBeLessThan(100);
+        expect(backup.tradeSeason.score).toBeLessThan(100);
+        expect(backup.laterSeasons.seasons).toBe(0);
+        expect(loserSide.total).toMatchObject({
+          games: 31,
+          skaterScore: depth.total.score,
+          goalieScore: backup.total.score,
+        });
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("calls trades without measurable production even", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const [, , evenTradeId] = await seedTradeOutcomes(db);
+
+        const res = await requestTradeAnalysis(String(evenTradeId));
+
+        expect(res.statusCode).toBe(HTTP_STATUS.OK);
+        const body = getJsonBody<TradeAnalysisBody>(res);
+        expect(body.winner).toBeNull();
+        expect(body.margin).toBe(0);
+        expect(body.sides.map((side) => side.verdict)).toEqual([
+          "even",
+          "even",
+        ]);
+        const prospect = body.sides.flatMap((side) => side.acquired)[0];
+        expect(prospect.asset).toMatchObject({
+          id: null,
+          name: "Mystery Prospect",
+        });
+        expect(prospect.total).toEqual({ games: 0, points: 0, score: 0 });
+        expect(body.sides[0].total).toEqual({
+          games: 0,
+          points: 0,
+          score: 0,
+          skaterScore: 0,
+          goalieScore: 0,
+        });
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("returns 404 analysis for unknown and malformed trade ids", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        await seedTradeOutcomes(db);
+
+        for (const id of ["9999", "abc"]) {
+          const res = await requestTradeAnalysis(id);
+
+          expect(res.statusCode).toBe(HTTP_STATUS.NOT_FOUND);
+          expect(res._getData()).toBe(ERROR_MESSAGES.TRADE_NOT_FOUND);
+        }
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test("ranks the most lopsided trades with season filter and paging", async () => {
+      const db = await createIntegrationDb();
+
+      try {
+        const [lopsidedTradeId, , evenTradeId, , olderTradeId, sameMomentTradeId] =
+          await seedTradeOutcomes(db);
+
+        const all = await requestLopsidedTrades("/transactions/trades/lopsided");
+        expect(all.statusCode).toBe(HTTP_STATUS.OK);
+        const allBody = getJsonBody<LopsidedTradesBody>(all);
+        expectObjectSchema("LopsidedTradesPage", allBody);
+        expect(allBody).toMatchObject({ skip: 0, take: 10, total: 4 });
+        expect(allBody.items.map((item) => item.trade.id)).toEqual([
+          lopsidedTradeId,
+          evenTradeId,
+          olderTradeId,
+          sameMomentTradeId,
+        ]);
+
+        const paged = getJsonBody<LopsidedTradesBody>(
+          await requestLopsidedTrades(
+            "/transactions/trades/lopsided?skip=1&take=1",
+          ),
+        );
+        expect(paged).toMatchObject({ skip: 1, take: 1, total: 4 });
+        expect(paged.items.map((item) => item.trade.id)).toEqual([
+          evenTradeId,
+        ]);
+
+        const bySeason = getJsonBody<LopsidedTradesBody>(
+          await requestLopsidedTrades(
+            "/transactions/trades/lopsided?season=2024",
+          ),
+        );
+        expect(bySeason.total).toBe(1);
+        expect(bySeason.items[0].trade.id).toBe(lopsidedTradeId);
+      } finally {
+        await db.cleanup();
+      }
+    });
+
+    test.each([
+      [
+        "/transactions/trades/lopsided?season=1999",
+        ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+      ],
+      [
+        "/transactions/trades/lopsided?skip=-1",
+        ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+      ],
+      [
+        "/transactions/trades/lopsided?take=101",
+        ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+      ],
+      [
+        "/transactions/trades/lopsided?take=abc",
+        ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+      ],
+    ])("rejects invalid lopsided trades query %s", async (url, message) => {
+      const res = await requestLopsidedTrades(url);
+
+      expect(res.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(res._getData()).toBe(message);
+    });
+  });
+};
@@ -1,10 +1,14 @@
 import {
   getGoalieCareerData,
   getPlayerCareerData,
+  getPlayerProgressionData,
 } from "../features/career/service.js";
 import {
+  getAllPlayerCareerRowsFromDb,
+  getEntityTransactionRowsFromDb,
   getGoalieCareerRowsFromDb,
   getPlayerCareerRowsFromDb,
+  getPlayerSeasonPoolRowsFromDb,
 } from "../db/queries.js";
 import { TEAMS } from "../config/index.js";
 import {
@@ -17,6 +21,16 @@ jest.mock("../db/queries");
 describe("services", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (
+      getEntityTransactionRowsFromDb as jest.MockedFunction<
+        typeof getEntityTransactionRowsFromDb
+      >
+    ).mockResolvedValue([]);
+    (
+      getPlayerSeasonPoolRowsFromDb as jest.MockedFunction<
+        typeof getPlayerSeasonPoolRowsFromDb
+      >
+    ).mockResolvedValue([]);
   });
 
   describe("career detail services", () => {
@@ -152,6 +166,180 @@ describe("services", () => {
         ]);
       });
 
+      test("adds per-game rates to every totals object when requested", async () => {
+        mockGetPlayerCareerRowsFromDb.mockResolvedValue([
+          createPlayerCareerRow({ games: 80, goals: 40, hits: 100 }),
+          createPlayerCareerRow({ season: 2023, games: 20, goals: 0, hits: 0 }),
+          createPlayerCareerRow({ report_type: "playoffs" }),
+        ]);
+
+        const plain = await getPlayerCareerData("p001");
+        expect(plain.totals.career).not.toHaveProperty("rates");
+
+        const result = await getPlayerCareerData("p001", true);
+
+        expect(result.totals.career.rates).toEqual(
+          expect.objectContaining({ goals: 0.4, hits: 1, assists: 0 }),
+        );
+        expect(result.totals.regular.rates?.goals).toBe(0.4);
+        expect(result.totals.playoffs.rates?.goals).toBe(0);
+        expect(result.totals.career.teams[0].rates?.goals).toBe(0.4);
+      });
+
+      test("attaches skater milestones newest first", async () => {
+        mockGetPlayerCareerRowsFromDb.mockResolvedValue([
+          createPlayerCareerRow({ season: 2024, games: 300, points: 160 }),
+          createPlayerCareerRow({ season: 2023, games: 250, points: 120 }),
+        ]);
+
+        const result = await getPlayerCareerData("p001");
+
+        expect(result.milestones).toEqual([
+          {
+            type: "points-250",
+            stat: "points",
+            threshold: 250,
+            season: 2024,
+            reportType: "regular",
+            team: { id: "1", name: TEAMS[0].presentName },
+          },
+          expect.objectContaining({ type: "games-500", season: 2024 }),
+          expect.objectContaining({ type: "points-100", season: 2023 }),
+        ]);
+      });
+
+      describe("progression", () => {
+        const progressionRows = [
+          createPlayerCareerRow({ season: 2022, games: 80, points: 10 }),
+          createPlayerCareerRow({ season: 2023, games: 40, points: 30 }),
+          createPlayerCareerRow({
+            team_id: "2",
+            season: 2023,
+            games: 40,
+            points: 30,
+          }),
+          createPlayerCareerRow({
+            season: 2023,
+            report_type: "playoffs",
+            games: 10,
+          }),
+          createPlayerCareerRow({ season: 2024, games: 10, points: 20 }),
+          createPlayerCareerRow({
+            player_id: "p002",
+            name: "Fading Skater",
+            position: "D",
+            season: 2022,
+            games: 80,
+            points: 60,
+          }),
+          createPlayerCareerRow({
+            player_id: "p002",
+            name: "Fading Skater",
+            position: "D",
+            season: 2023,
+            games: 80,
+            points: 10,
+          }),
+          createPlayerCareerRow({
+            player_id: "p003",
+            name: "Steady Skater",
+            season: 2022,
+            games: 80,
+            points: 30,
+          }),
+          createPlayerCareerRow({
+            player_id: "p003",
+            name: "Steady Skater",
+            season: 2023,
+            games: 80,
+            points: 30,
+          }),
+          ...[
+            { player_id: "p004", name: "Climbing Skater", points: [20, 45] },
+            { player_id: "p005", name: "Sliding Skater", points: [45, 20] },
+          ].flatMap(({ points, ...player }) =>
+            points.map((value, index) =>
+              createPlayerCareerRow({
+                ...player,
+                season: 2022 + index,
+                games: 80,
+                points: value,
+              }),
+            ),
+          ),
+        ];
+
+        test("adds back-to-back regular season changes to career detail", async () => {
+          mockGetPlayerCareerRowsFromDb.mockResolvedValue(
+            progressionRows.filter((row) => row.player_id === "p001"),
+          );
+          (
+            getPlayerSeasonPoolRowsFromDb as jest.MockedFunction<
+              typeof getPlayerSeasonPoolRowsFromDb
+            >
+          ).mockResolvedValue(
+            progressionRows.filter((row) => row.report_type === "regular"),
+          );
+
+          const result = await getPlayerCareerData("p001");
+
+          expect(getPlayerSeasonPoolRowsFromDb).toHaveBeenCalledWith("p001");
+          expect(getAllPlayerCareerRowsFromDb).not.toHaveBeenCalled();
+
+          // 2024 is under the minimum games, and 2022 has no previous season.
+          expect(result.progression).toHaveLength(1);
+          const [entry] = result.progression;
+          expect(entry).toMatchObject({
+            season: 2023,
+            previous: { season: 2022, games: 80 },
+            current: { season: 2023, games: 80 },
+            status: "breakout",
+          });
+          expect(entry.current.rates.points).toBe(0.75);
+          expect(entry.rateDeltas.points).toBe(0.625);
+          expect(entry.scoreDelta).toBe(
+            Number(
+              (
+                entry.current.scoreAdjustedByGames -
+                entry.previous.scoreAdjustedByGames
+              ).toFixed(2),
+            ),
+          );
+          expect(entry.scoreDelta).toBeGreaterThanOrEqual(10);
+        });
+
+        test("lists the season's biggest risers and fallers league-wide", async () => {
+          (
+            getAllPlayerCareerRowsFromDb as jest.MockedFunction<
+              typeof getAllPlayerCareerRowsFromDb
+            >
+          ).mockResolvedValue(progressionRows);
+
+          const result = await getPlayerProgressionData(2023);
+
+          expect(result.season).toBe(2023);
+          expect(result.risers).toEqual([
+            expect.objectContaining({
+              id: "p001",
+              name: "Career Skater",
+              position: "F",
+              status: "breakout",
+            }),
+            expect.objectContaining({ id: "p004" }),
+          ]);
+          expect(result.fallers).toEqual([
+            expect.objectContaining({
+              id: "p002",
+              name: "Fading Skater",
+              position: "D",
+              status: "decline",
+            }),
+            expect.objectContaining({ id: "p005" }),
+          ]);
+          expect((await getPlayerProgressionData(2022)).risers).toEqual([]);
+        });
+      });
+
       test("throws 404 metadata when player is not found", async () => {
         mockGetPlayerCareerRowsFromDb.mockResolvedValue([]);
 
@@ -326,7 +514,7 @@ describe("services", () => {
           typeof getGoalieCareerRowsFromDb
         >;
 
-      test("builds a goalie career response without aggregated rate stats", async () => {
+      test("builds a goalie career response with games-weighted rate stats", async () => {
         mockGetGoalieCareerRowsFromDb.mockResolvedValue([
           createGoalieCareerRow({
             games: 50,
@@ -383,23 +571,35 @@ describe("services", () => {
               penalties: 2,
               ppp: 0,
               shp: 0,
+              gaa: "2.23",
+              savePercent: "0.916",
             },
             regular: {
               seasonCount: { owned: 1, played: 1 },
               teamCount: { owned: 1, played: 1 },
               games: 50,
               wins: 30,
+              gaa: "2.25",
+              savePercent: "0.918",
             },
             playoffs: {
               seasonCount: { owned: 2, played: 1 },
               teamCount: { owned: 2, played: 1 },
               games: 8,
               wins: 5,
+              gaa: "2.10",
+              savePercent: "0.900",
             },
           },
         });
-        expect(result.totals.career).not.toHaveProperty("gaa");
-        expect(result.totals.career.teams[0]).not.toHaveProperty("gaa");
+        expect(result.totals.career.teams).toEqual([
+          expect.objectContaining({ teamId: "2", gaa: "2.23", savePercent: "0.916" }),
+          expect.objectContaining({
+            teamId: "77",
+            gaa: undefined,
+            savePercent: undefined,
+          }),
+        ]);
         expect(result.seasons).toEqual([
           expect.objectContaining({
             season: 2024,
@@ -464,6 +664,33 @@ describe("services", () => {
         expect(result.seasons[0].savePercent).toBeUndefined();
       });
 
+      test("adds per-game rates to goalie totals when requested", async () => {
+        mockGetGoalieCareerRowsFromDb.mockResolvedValue([
+          createGoalieCareerRow({ games: 40, wins: 30, saves: 1000 }),
+          createGoalieCareerRow({ season: 2023, games: 10, wins: 0, saves: 250 }),
+        ]);
+
+        const result = await getGoalieCareerData("g001", true);
+
+        expect(result.totals.career.rates).toEqual(
+          expect.objectContaining({ wins: 0.6, saves: 25, shutouts: 0 }),
+        );
+        expect(result.totals.career.teams[0].rates?.wins).toBe(0.6);
+        expect(result.totals.playoffs.rates?.wins).toBe(0);
+      });
+
+      test("attaches goalie milestones without skater point milestones", async () => {
+        mockGetGoalieCareerRowsFromDb.mockResolvedValue([
+          createGoalieCareerRow({ games: 60, wins: 120, points: 150 }),
+        ]);
+
+        const result = await getGoalieCareerData("g001");
+
+        expect(result.milestones.map((milestone) => milestone.type)).toEqual([
+          "goalie-wins-100",
+        ]);
+      });
+
       test("throws 404 metadata when goalie is not found", async () => {
         mockGetGoalieCareerRowsFromDb.mockResolvedValue([]);
 
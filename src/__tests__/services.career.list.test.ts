@@ -1,6 +1,7 @@
 import {
   getCareerGoaliesData,
   getCareerHighlightsData,
+  getCareerMilestonesData,
   getCareerPlayersData,
 } from "../features/career/service.js";
 import {
@@ -252,6 +253,127 @@ describe("services", () => {
       });
     });
 
+    describe("getCareerMilestonesData", () => {
+      const mockGetAllPlayerCareerRowsFromDb =
+        getAllPlayerCareerRowsFromDb as jest.MockedFunction<
+          typeof getAllPlayerCareerRowsFromDb
+        >;
+      const mockGetAllGoalieCareerRowsFromDb =
+        getAllGoalieCareerRowsFromDb as jest.MockedFunction<
+          typeof getAllGoalieCareerRowsFromDb
+        >;
+
+      test("detects the segment and team where each threshold is crossed", async () => {
+        const alpha = { player_id: "p001", name: "Alpha Skater" };
+        const centuryRow = {
+          season: 2021,
+          team_id: "5",
+          games: 80,
+          points: 100,
+        };
+        mockGetAllPlayerCareerRowsFromDb.mockResolvedValue([
+          createPlayerCareerRow({
+            ...alpha,
+            season: 2016,
+            team_id: "3",
+            games: 82,
+            points: 40,
+          }),
+          createPlayerCareerRow({ ...alpha, season: 2016, team_id: "4" }),
+          createPlayerCareerRow({
+            ...alpha,
+            season: 2015,
+            team_id: "2",
+            games: 20,
+            points: 30,
+          }),
+          createPlayerCareerRow({
+            ...alpha,
+            season: 2015,
+            team_id: "3",
+            games: 40,
+            points: 80,
+          }),
+          createPlayerCareerRow({
+            ...alpha,
+            season: 2014,
+            report_type: "playoffs",
+            games: 10,
+            points: 45,
+          }),
+          createPlayerCareerRow({
+            ...alpha,
+            season: 2014,
+            games: 60,
+            points: 60,
+          }),
+          createPlayerCareerRow({
+            ...centuryRow,
+            player_id: "p003",
+            name: "Beta Skater",
+          }),
+          createPlayerCareerRow({
+            ...centuryRow,
+            player_id: "p002",
+            name: "Beta Skater",
+          }),
+          createPlayerCareerRow({
+            ...centuryRow,
+            player_id: "p004",
+            name: "Aaron Skater",
+            position: "D",
+          }),
+        ]);
+        mockGetAllGoalieCareerRowsFromDb.mockResolvedValue(
+          Array.from({ length: 10 }, (_, index) =>
+            createGoalieCareerRow({
+              name: "Goalie One",
+              team_id: "4",
+              season: 2012 + index,
+              games: 50,
+              wins: 10,
+              points: 10,
+            }),
+          ),
+        );
+
+        const result = await getCareerMilestonesData();
+
+        expect(
+          result.map((item) => [item.id, item.type, item.season]),
+        ).toEqual([
+          ["p004", "points-100", 2021],
+          ["p002", "points-100", 2021],
+          ["p003", "points-100", 2021],
+          ["g001", "goalie-wins-100", 2021],
+          ["g001", "games-500", 2021],
+          ["g001", "seasons-owned-10", 2021],
+          ["p001", "points-250", 2016],
+          ["p001", "points-100", 2014],
+        ]);
+        expect(result[0]).toEqual({
+          id: "p004",
+          name: "Aaron Skater",
+          position: "D",
+          type: "points-100",
+          stat: "points",
+          threshold: 100,
+          season: 2021,
+          reportType: "regular",
+          team: { id: "5", name: expect.any(String) },
+        });
+        expect(result[3].position).toBe("G");
+        expect(result[6]).toMatchObject({
+          reportType: "regular",
+          team: { id: "3" },
+        });
+        expect(result[7]).toMatchObject({
+          reportType: "playoffs",
+          team: { id: "1" },
+        });
+      });
+    });
+
     describe("getCareerHighlightsData", () => {
       const mockGetAllPlayerCareerRowsFromDb =
         getAllPlayerCareerRowsFromDb as jest.MockedFunction<
@@ -1597,6 +1719,362 @@ describe("services", () => {
         ]);
       });
 
+      test("builds most-franchise-points highlights from regular-season points per team", async () => {
+        mockGetAllPlayerCareerRowsFromDb.mockResolvedValue([
+          createPlayerCareerRow({
+            player_id: "p-franchise",
+            name: "Franchise Skater",
+            team_id: "1",
+            season: 2022,
+            games: 60,
+            points: 100,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-franchise",
+            name: "Franchise Skater",
+            team_id: "1",
+            season: 2023,
+            games: 50,
+            points: 60,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-franchise",
+            name: "Franchise Skater",
+            team_id: "1",
+            season: 2023,
+            report_type: "playoffs",
+            games: 10,
+            points: 30,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-franchise",
+            name: "Franchise Skater",
+            team_id: "2",
+            season: 2024,
+            games: 82,
+            points: 160,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-short-franchise",
+            name: "Short Franchise",
+            team_id: "3",
+            season: 2024,
+            games: 82,
+            points: 149,
+          }),
+        ]);
+        mockGetAllGoalieCareerRowsFromDb.mockResolvedValue([
+          createGoalieCareerRow({
+            goalie_id: "g-franchise",
+            name: "Franchise Goalie",
+            team_id: "5",
+            season: 2024,
+            games: 60,
+            points: 150,
+          }),
+        ]);
+
+        const result = await getCareerHighlightsData("most-franchise-points");
+
+        expect(result).toEqual([
+          {
+            id: "p-franchise",
+            name: "Franchise Skater",
+            position: "F",
+            points: 160,
+            team: { id: "2", name: "Carolina Hurricanes" },
+          },
+          {
+            id: "p-franchise",
+            name: "Franchise Skater",
+            position: "F",
+            points: 160,
+            team: { id: "1", name: "Colorado Avalanche" },
+          },
+          {
+            id: "g-franchise",
+            name: "Franchise Goalie",
+            position: "G",
+            points: 150,
+            team: { id: "5", name: "Montreal Canadiens" },
+          },
+        ]);
+      });
+
+      test("builds most-playoff-points highlights from played playoff rows only", async () => {
+        mockGetAllPlayerCareerRowsFromDb.mockResolvedValue([
+          createPlayerCareerRow({
+            player_id: "p-playoff-b",
+            name: "Playoff Beta",
+            team_id: "7",
+            season: 2023,
+            report_type: "playoffs",
+            games: 12,
+            points: 22,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-playoff-a",
+            name: "Playoff Alpha",
+            position: "D",
+            team_id: "2",
+            season: 2023,
+            report_type: "playoffs",
+            games: 4,
+            points: 10,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-playoff-a",
+            name: "Playoff Alpha",
+            position: "D",
+            team_id: "1",
+            season: 2022,
+            report_type: "playoffs",
+            games: 5,
+            points: 12,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-playoff-a",
+            name: "Playoff Alpha",
+            position: "D",
+            team_id: "3",
+            season: 2024,
+            report_type: "playoffs",
+            games: 0,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-playoff-a",
+            name: "Playoff Alpha",
+            position: "D",
+            team_id: "3",
+            season: 2024,
+            games: 82,
+            points: 100,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-playoff-short",
+            name: "Playoff Short",
+            team_id: "4",
+            season: 2024,
+            report_type: "playoffs",
+            games: 20,
+            points: 19,
+          }),
+        ]);
+        mockGetAllGoalieCareerRowsFromDb.mockResolvedValue([]);
+
+        const result = await getCareerHighlightsData("most-playoff-points");
+
+        expect(result).toEqual([
+          {
+            id: "p-playoff-a",
+            name: "Playoff Alpha",
+            position: "D",
+            points: 22,
+            teams: [
+              { id: "1", name: "Colorado Avalanche" },
+              { id: "2", name: "Carolina Hurricanes" },
+            ],
+          },
+          {
+            id: "p-playoff-b",
+            name: "Playoff Beta",
+            position: "F",
+            points: 22,
+            teams: [{ id: "7", name: "Edmonton Oilers" }],
+          },
+        ]);
+      });
+
+      test("builds iron-man highlights from the longest consecutive regular-season run", async () => {
+        const createRunRows = (
+          playerId: string,
+          name: string,
+          teamId: string,
+          firstSeason: number,
+          lastSeason: number,
+        ) =>
+          Array.from({ length: lastSeason - firstSeason + 1 }, (_, index) =>
+            createPlayerCareerRow({
+              player_id: playerId,
+              name,
+              team_id: teamId,
+              season: firstSeason + index,
+              games: 40,
+            }),
+          );
+
+        mockGetAllPlayerCareerRowsFromDb.mockResolvedValue([
+          ...createRunRows("p-iron", "Iron Skater", "1", 2010, 2011),
+          ...createRunRows("p-iron", "Iron Skater", "1", 2013, 2016),
+          ...createRunRows("p-iron", "Iron Skater", "2", 2017, 2020),
+          createPlayerCareerRow({
+            player_id: "p-iron",
+            name: "Iron Skater",
+            team_id: "3",
+            season: 2021,
+            games: 0,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-iron",
+            name: "Iron Skater",
+            team_id: "2",
+            season: 2022,
+            report_type: "playoffs",
+            games: 5,
+          }),
+          ...createRunRows("p-iron-latest", "Another Iron", "3", 2000, 2007),
+          ...createRunRows("p-iron-latest", "Another Iron", "4", 2009, 2016),
+        ]);
+        mockGetAllGoalieCareerRowsFromDb.mockResolvedValue(
+          Array.from({ length: 7 }, (_, index) =>
+            createGoalieCareerRow({
+              goalie_id: "g-iron-short",
+              name: "Short Iron Goalie",
+              season: 2015 + index,
+              games: 30,
+            }),
+          ),
+        );
+
+        const result = await getCareerHighlightsData("iron-man");
+
+        expect(result).toEqual([
+          {
+            id: "p-iron-latest",
+            name: "Another Iron",
+            position: "F",
+            seasonCount: 8,
+            startSeason: 2009,
+            endSeason: 2016,
+            teams: [{ id: "4", name: "Vancouver Canucks" }],
+          },
+          {
+            id: "p-iron",
+            name: "Iron Skater",
+            position: "F",
+            seasonCount: 8,
+            startSeason: 2013,
+            endSeason: 2020,
+            teams: [
+              { id: "1", name: "Colorado Avalanche" },
+              { id: "2", name: "Carolina Hurricanes" },
+            ],
+          },
+        ]);
+      });
+
+      test("builds one-season-wonders from single-season franchise stints scored per season", async () => {
+        mockGetAllPlayerCareerRowsFromDb.mockResolvedValue([
+          createPlayerCareerRow({
+            player_id: "p-wonder",
+            name: "Wonder Skater",
+            team_id: "1",
+            season: 2023,
+            games: 82,
+            goals: 40,
+            assists: 50,
+            points: 90,
+            shots: 300,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-wonder",
+            name: "Wonder Skater",
+            team_id: "1",
+            season: 2024,
+            games: 10,
+            goals: 1,
+            points: 1,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-wonder",
+            name: "Wonder Skater",
+            team_id: "2",
+            season: 2024,
+            games: 70,
+            goals: 35,
+            assists: 40,
+            points: 75,
+            shots: 250,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-wonder",
+            name: "Wonder Skater",
+            team_id: "6",
+            season: 2024,
+            games: 0,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-split",
+            name: "Split Skater",
+            team_id: "7",
+            season: 2023,
+            games: 40,
+            goals: 20,
+            assists: 25,
+            points: 45,
+            shots: 150,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-split",
+            name: "Split Skater",
+            team_id: "4",
+            season: 2023,
+            games: 42,
+            goals: 20,
+            assists: 25,
+            points: 45,
+            shots: 150,
+          }),
+          createPlayerCareerRow({
+            player_id: "p-depth",
+            name: "Depth Skater",
+            team_id: "3",
+            season: 2023,
+            games: 60,
+            goals: 2,
+            points: 2,
+          }),
+        ]);
+        mockGetAllGoalieCareerRowsFromDb.mockResolvedValue([
+          createGoalieCareerRow({
+            goalie_id: "g-wonder",
+            name: "Wonder Goalie",
+            season: 2023,
+            games: 60,
+            wins: 40,
+          }),
+        ]);
+
+        const result = await getCareerHighlightsData("one-season-wonders");
+
+        expect(result).toEqual([
+          {
+            id: "p-split",
+            name: "Split Skater",
+            position: "F",
+            score: 100,
+            season: 2023,
+            team: { id: "7", name: "Edmonton Oilers" },
+          },
+          {
+            id: "p-split",
+            name: "Split Skater",
+            position: "F",
+            score: 100,
+            season: 2023,
+            team: { id: "4", name: "Vancouver Canucks" },
+          },
+          {
+            id: "p-wonder",
+            name: "Wonder Skater",
+            position: "F",
+            score: 100,
+            season: 2024,
+            team: { id: "2", name: "Carolina Hurricanes" },
+          },
+        ]);
+      });
+
       test("throws when a player highlight row is missing position", async () => {
         mockGetAllPlayerCareerRowsFromDb.mockResolvedValue([
           createPlayerCareerRow({
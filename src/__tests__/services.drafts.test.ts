@@ -1,17 +1,88 @@
 import {
   getEntryDraftPicksFromDb,
   getOpeningDraftPicksFromDb,
+  getTradeBlockItemRowsFromDb,
+  type TradeBlockItemDbRow,
 } from "../db/queries.js";
+import { TEAMS } from "../config/index.js";
 import {
+  getDraftInventoryData,
+  getDraftPickOwnershipData,
   getEntryDraftData,
   getOriginalDraftData,
 } from "../features/drafts/service.js";
 
 jest.mock("../db/queries");
 
+const createDraftPickTradeRow = (
+  overrides: Partial<TradeBlockItemDbRow>,
+): TradeBlockItemDbRow => ({
+  blockId: 1,
+  season: 2024,
+  occurredAt: "2025-01-10T12:00:00.000Z",
+  sourcePeriod: 1,
+  sequence: 0,
+  fromTeamId: "10",
+  toTeamId: "1",
+  assetType: "draft_pick",
+  entityId: null,
+  name: "2025 Draft Pick, Round 1 (Nashville Predators)",
+  position: null,
+  draftSeason: 2025,
+  draftRound: 1,
+  draftOriginalTeamId: "10",
+  ...overrides,
+});
+
+const DRAFT_PICK_TRADE_ROWS: TradeBlockItemDbRow[] = [
+  createDraftPickTradeRow({
+    blockId: 7,
+    occurredAt: "2025-02-01T12:00:00.000Z",
+    fromTeamId: "1",
+    toTeamId: "12",
+  }),
+  createDraftPickTradeRow({
+    blockId: 8,
+    occurredAt: "2025-02-01T12:00:00.000Z",
+    fromTeamId: "12",
+    toTeamId: "1",
+    assetType: "player",
+    entityId: "p001",
+    name: "Player Z",
+    position: "F",
+    draftSeason: null,
+    draftRound: null,
+    draftOriginalTeamId: null,
+  }),
+  createDraftPickTradeRow({ blockId: 3 }),
+  createDraftPickTradeRow({
+    blockId: 3,
+    sequence: 1,
+    name: "2025 Draft Pick, Round 2 (Unknown Team)",
+    draftRound: 2,
+    draftOriginalTeamId: null,
+  }),
+];
+
+const NASHVILLE_PICK_TRADES = [
+  {
+    tradeId: 3,
+    occurredAt: "2025-01-10T12:00:00.000Z",
+    fromTeam: { id: "10", name: "Nashville Predators" },
+    toTeam: { id: "1", name: "Colorado Avalanche" },
+  },
+  {
+    tradeId: 7,
+    occurredAt: "2025-02-01T12:00:00.000Z",
+    fromTeam: { id: "1", name: "Colorado Avalanche" },
+    toTeam: { id: "12", name: "Anaheim Ducks" },
+  },
+];
+
 describe("draft services", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (getTradeBlockItemRowsFromDb as jest.Mock).mockResolvedValue([]);
   });
 
   describe("getOriginalDraftData", () => {
@@ -116,6 +187,9 @@ describe("draft services", () => {
 
   describe("getEntryDraftData", () => {
     test("groups entry draft picks by drafted team and seasons", async () => {
+      (getTradeBlockItemRowsFromDb as jest.Mock).mockResolvedValue(
+        DRAFT_PICK_TRADE_ROWS,
+      );
       (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([
         {
           season: 2025,
@@ -195,6 +269,7 @@ describe("draft services", () => {
                   playedInLeague: true,
                   playedForDraftingTeam: false,
                   originalOwner: { id: "10", name: "Nashville Predators" },
+                  trades: NASHVILLE_PICK_TRADES,
                 },
               ],
             },
@@ -208,6 +283,7 @@ describe("draft services", () => {
                   playedInLeague: false,
                   playedForDraftingTeam: false,
                   originalOwner: { id: "12", name: "Anaheim Ducks" },
+                  trades: [],
                 },
               ],
             },
@@ -256,6 +332,7 @@ describe("draft services", () => {
                   playedInLeague: true,
                   playedForDraftingTeam: true,
                   originalOwner: { id: "19", name: "Toronto Maple Leafs" },
+                  trades: [],
                 },
               ],
             },
@@ -269,6 +346,7 @@ describe("draft services", () => {
                   playedInLeague: true,
                   playedForDraftingTeam: false,
                   originalOwner: { id: "1", name: "Colorado Avalanche" },
+                  trades: [],
                 },
                 {
                   round: 1,
@@ -277,6 +355,7 @@ describe("draft services", () => {
                   playedInLeague: true,
                   playedForDraftingTeam: true,
                   originalOwner: { id: "19", name: "Toronto Maple Leafs" },
+                  trades: [],
                 },
                 {
                   round: 2,
@@ -285,6 +364,7 @@ describe("draft services", () => {
                   playedInLeague: false,
                   playedForDraftingTeam: false,
                   originalOwner: { id: "19", name: "Toronto Maple Leafs" },
+                  trades: [],
                 },
               ],
             },
@@ -356,6 +436,7 @@ describe("draft services", () => {
                   playedInLeague: false,
                   playedForDraftingTeam: false,
                   originalOwner: { id: "12", name: "Anaheim Ducks" },
+                  trades: [],
                 },
               ],
             },
@@ -385,4 +466,206 @@ describe("draft services", () => {
       ]);
     });
   });
+
+  describe("getDraftPickOwnershipData", () => {
+    const usedPick = {
+      season: 2025,
+      round: 1,
+      pickNumber: 2,
+      draftedTeamId: "12",
+      originalOwnerTeamId: "10",
+      draftedPlayer: "Player B",
+      playedInLeague: true,
+      playedForDraftingTeam: false,
+    };
+
+    test("follows a used pick from its original team through every trade", async () => {
+      (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([
+        { ...usedPick, round: 2, pickNumber: 40 },
+        usedPick,
+      ]);
+      (getTradeBlockItemRowsFromDb as jest.Mock).mockResolvedValue(
+        DRAFT_PICK_TRADE_ROWS,
+      );
+
+      await expect(getDraftPickOwnershipData(2025, 1, "10")).resolves.toEqual({
+        season: 2025,
+        round: 1,
+        originalTeam: { id: "10", name: "Nashville Predators" },
+        timesTraded: 2,
+        trades: NASHVILLE_PICK_TRADES,
+        lastOwner: { id: "12", name: "Anaheim Ducks" },
+        selection: {
+          pickNumber: 2,
+          team: { id: "12", name: "Anaheim Ducks" },
+          draftedPlayer: "Player B",
+        },
+      });
+    });
+
+    test("returns a traded future pick without a selection", async () => {
+      (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([]);
+      (getTradeBlockItemRowsFromDb as jest.Mock).mockResolvedValue(
+        DRAFT_PICK_TRADE_ROWS,
+      );
+
+      await expect(getDraftPickOwnershipData(2025, 1, "10")).resolves.toMatchObject({
+        timesTraded: 2,
+        lastOwner: { id: "12", name: "Anaheim Ducks" },
+        selection: null,
+      });
+    });
+
+    test("orders trades processed at the same moment by trade id", async () => {
+      (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([]);
+      (getTradeBlockItemRowsFromDb as jest.Mock).mockResolvedValue([
+        createDraftPickTradeRow({ blockId: 21, fromTeamId: "12", toTeamId: "19" }),
+        createDraftPickTradeRow({ blockId: 20 }),
+      ]);
+
+      const result = await getDraftPickOwnershipData(2025, 1, "10");
+
+      expect(result.trades.map((trade) => trade.tradeId)).toEqual([20, 21]);
+      expect(result.lastOwner).toEqual({ id: "19", name: "Toronto Maple Leafs" });
+    });
+
+    test("keeps the original team as last owner for a pick that was never traded", async () => {
+      (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([
+        { ...usedPick, draftedTeamId: "10" },
+      ]);
+
+      await expect(getDraftPickOwnershipData(2025, 1, "10")).resolves.toMatchObject({
+        timesTraded: 0,
+        trades: [],
+        lastOwner: { id: "10", name: "Nashville Predators" },
+        selection: { team: { id: "10", name: "Nashville Predators" } },
+      });
+    });
+
+    test("throws a 404 error when the pick is neither drafted nor traded", async () => {
+      (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([usedPick]);
+
+      await expect(getDraftPickOwnershipData(2025, 2, "10")).rejects.toMatchObject({
+        statusCode: 404,
+        body: "Draft pick not found",
+      });
+    });
+  });
+
+  describe("getDraftInventoryData", () => {
+    const colorado = { id: "1", name: "Colorado Avalanche" };
+    const ownPick = (round: number) => ({
+      round,
+      originalTeam: colorado,
+      trades: [],
+    });
+    const inventoryTradeRows = [
+      createDraftPickTradeRow({
+        blockId: 30,
+        occurredAt: "2025-10-05T12:00:00.000Z",
+        season: 2025,
+        name: "2026 Draft Pick, Round 1 (Nashville Predators)",
+        draftSeason: 2026,
+      }),
+      createDraftPickTradeRow({
+        blockId: 31,
+        occurredAt: "2025-11-05T12:00:00.000Z",
+        season: 2025,
+        fromTeamId: "1",
+        toTeamId: "12",
+        name: "2029 Draft Pick, Round 2 (Colorado Avalanche)",
+        draftSeason: 2029,
+        draftRound: 2,
+        draftOriginalTeamId: "1",
+      }),
+    ];
+
+    test("lists own and acquired picks minus traded ones for each upcoming draft", async () => {
+      (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([
+        {
+          season: 2025,
+          round: 1,
+          pickNumber: 1,
+          draftedTeamId: "1",
+          originalOwnerTeamId: "1",
+          draftedPlayer: "Player A",
+          playedInLeague: false,
+          playedForDraftingTeam: false,
+        },
+      ]);
+      (getTradeBlockItemRowsFromDb as jest.Mock).mockResolvedValue(
+        inventoryTradeRows,
+      );
+
+      await expect(getDraftInventoryData("1")).resolves.toEqual([
+        {
+          team: colorado,
+          seasons: [
+            {
+              season: 2026,
+              picks: [
+                ownPick(1),
+                {
+                  round: 1,
+                  originalTeam: { id: "10", name: "Nashville Predators" },
+                  trades: [
+                    {
+                      tradeId: 30,
+                      occurredAt: "2025-10-05T12:00:00.000Z",
+                      fromTeam: { id: "10", name: "Nashville Predators" },
+                      toTeam: colorado,
+                    },
+                  ],
+                },
+                ownPick(2),
+                ownPick(3),
+                ownPick(4),
+                ownPick(5),
+              ],
+              tradedAway: [],
+            },
+            {
+              season: 2027,
+              picks: [1, 2, 3, 4, 5].map(ownPick),
+              tradedAway: [],
+            },
+            {
+              season: 2028,
+              picks: [1, 2, 3, 4, 5].map(ownPick),
+              tradedAway: [],
+            },
+            {
+              season: 2029,
+              picks: [1, 3, 4, 5].map(ownPick),
+              tradedAway: [
+                { round: 2, owner: { id: "12", name: "Anaheim Ducks" } },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+
+    test("returns every team alphabetically after the current season when no entry draft is imported", async () => {
+      (getEntryDraftPicksFromDb as jest.Mock).mockResolvedValue([]);
+      (getTradeBlockItemRowsFromDb as jest.Mock).mockResolvedValue(
+        inventoryTradeRows.slice(0, 1),
+      );
+
+      const result = await getDraftInventoryData();
+      const teamNames = result.map((entry) => entry.team.name);
+      const nashville = result.find((entry) => entry.team.id === "10")!;
+
+      expect(teamNames).toEqual(
+        TEAMS.map((team) => team.presentName).sort((a, b) => a.localeCompare(b)),
+      );
+      expect(nashville.seasons.map((season) => season.season)).toEqual([
+        2026, 2027, 2028,
+      ]);
+      expect(nashville.seasons[0]).toMatchObject({
+        picks: [2, 3, 4, 5].map((round) => ({ round })),
+        tradedAway: [{ round: 1, owner: colorado }],
+      });
+    });
+  });
 });
@@ -3,12 +3,15 @@ import {
   getRegularLeaderboardData,
   getTransactionLeaderboardData,
 } from "../features/leaderboard/service.js";
+import { getTransactionActivityTimelineData } from "../features/leaderboard/timeline.js";
 import {
   getPlayoffLeaderboard,
   getPlayoffSeasons,
   getRegularLeaderboard,
   getRegularSeasons,
   getTransactionLeaderboard,
+  getTradeBlockItemRowsFromDb,
+  getTransactionActivityRowsFromDb,
   getTransactionSeasons,
 } from "../db/queries.js";
 import { TEAMS } from "../config/index.js";
@@ -683,5 +686,56 @@ describe("services", () => {
         ]);
       });
     });
+
+    describe("getTransactionActivityTimelineData", () => {
+      const mockGetTransactionActivityRows =
+        getTransactionActivityRowsFromDb as jest.MockedFunction<
+          typeof getTransactionActivityRowsFromDb
+        >;
+      const mockGetTradeBlockItemRows =
+        getTradeBlockItemRowsFromDb as jest.MockedFunction<
+          typeof getTradeBlockItemRowsFromDb
+        >;
+
+      beforeEach(() => {
+        mockGetTradeBlockItemRows.mockResolvedValue([]);
+      });
+
+      test("lists only teams that existed in the season but keeps every row in league totals", async () => {
+        mockGetTransactionActivityRows.mockResolvedValue([
+          {
+            teamId: "32",
+            occurredAt: "2016-01-15T12:00:00.000Z",
+            claims: 1,
+            drops: 0,
+            trades: 0,
+          },
+          {
+            teamId: "1",
+            occurredAt: "2016-01-20T12:00:00.000Z",
+            claims: 0,
+            drops: 2,
+            trades: 0,
+          },
+        ]);
+
+        const result = await getTransactionActivityTimelineData("month", 2015);
+
+        expect(mockGetTransactionActivityRows).toHaveBeenCalledWith(2015);
+        expect(result.league.totals).toEqual({
+          claims: 1,
+          drops: 2,
+          trades: 0,
+          total: 3,
+        });
+        expect(result.league.peaks.trades).toBeNull();
+        expect(result.teams.map((team) => team.teamId)).not.toContain("32");
+        expect(result.teams.map((team) => team.teamId)).not.toContain("28");
+        expect(result.teams[0]).toMatchObject({
+          teamId: "1",
+          totals: { drops: 2, total: 2 },
+        });
+      });
+    });
   });
 });
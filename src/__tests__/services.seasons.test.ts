@@ -88,14 +88,17 @@ describe("services", () => {
 
         expect(getPlayersFromDb).toHaveBeenCalledWith("1", 2024, "regular");
         expect(getPlayersFromDb).toHaveBeenCalledWith("1", 2024, "playoffs");
-        expect(applyPlayerScores).toHaveBeenCalledWith([
-          expect.objectContaining({
-            name: "Test Player",
-            season: 2024,
-            games: 16,
-            points: 9,
-          }),
-        ]);
+        expect(applyPlayerScores).toHaveBeenCalledWith(
+          [
+            expect.objectContaining({
+              name: "Test Player",
+              season: 2024,
+              games: 16,
+              points: 9,
+            }),
+          ],
+          undefined,
+        );
       });
     });
 
@@ -129,16 +132,19 @@ describe("services", () => {
 
         await getGoaliesStatsSeason("both", 2024);
 
-        expect(applyGoalieScores).toHaveBeenCalledWith([
-          expect.objectContaining({
-            name: "Test Goalie",
-            season: 2024,
-            games: 12,
-            wins: 7,
-            gaa: undefined,
-            savePercent: undefined,
-          }),
-        ]);
+        expect(applyGoalieScores).toHaveBeenCalledWith(
+          [
+            expect.objectContaining({
+              name: "Test Goalie",
+              season: 2024,
+              games: 12,
+              wins: 7,
+              gaa: undefined,
+              savePercent: undefined,
+            }),
+          ],
+          undefined,
+        );
       });
     });
 
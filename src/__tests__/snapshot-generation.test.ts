@@ -14,6 +14,7 @@ describe("snapshot generation helpers", () => {
       "career-highlights",
       "leaderboard-playoffs",
       "leaderboard-regular",
+      "records",
       "stats",
       "transactions",
     ]);
@@ -31,6 +32,7 @@ describe("snapshot generation helpers", () => {
         "career-highlights",
         "leaderboard-playoffs",
         "leaderboard-regular",
+        "records",
         "stats",
         "transactions",
       ],
@@ -76,6 +78,7 @@ describe("snapshot generation helpers", () => {
         "career-highlights",
         "leaderboard-playoffs",
         "leaderboard-regular",
+        "records",
         "stats",
         "transactions",
       ],
@@ -139,7 +142,7 @@ describe("snapshot generation helpers", () => {
     expect(() =>
       resolveSnapshotGenerationConfig(["--scope=unknown"]),
     ).toThrow(
-      "Invalid --scope value: unknown. Valid values: all, career, career-highlights, leaderboard-playoffs, leaderboard-regular, stats, transactions.",
+      "Invalid --scope value: unknown. Valid values: all, career, career-highlights, leaderboard-playoffs, leaderboard-regular, records, stats, transactions.",
     );
   });
 
@@ -5,8 +5,10 @@ import {
   createSnapshotR2Client,
   getCareerGoaliesSnapshotKey,
   getCareerHighlightsSnapshotKey,
+  getCareerMilestonesSnapshotKey,
   getCareerPlayersSnapshotKey,
   getCombinedSnapshotKey,
+  getLeagueRecordsSnapshotKey,
   getPlayoffsLeaderboardSnapshotKey,
   getRegularLeaderboardSnapshotKey,
   getSnapshotBucketName,
@@ -16,6 +18,7 @@ import {
   getSnapshotManifestKey,
   getSnapshotObjectKey,
   getSnapshotPrefix,
+  getTeamRecordsSnapshotKey,
   getTransactionsLeaderboardSnapshotKey,
   isR2SnapshotConfigAvailable,
   loadSnapshot,
@@ -100,11 +103,14 @@ describe("snapshots", () => {
     expect(getCareerHighlightsSnapshotKey("most-teams-played")).toBe(
       "career/highlights/most-teams-played",
     );
+    expect(getCareerMilestonesSnapshotKey()).toBe("career/milestones");
     expect(getRegularLeaderboardSnapshotKey()).toBe("leaderboard/regular");
     expect(getPlayoffsLeaderboardSnapshotKey()).toBe("leaderboard/playoffs");
     expect(getTransactionsLeaderboardSnapshotKey()).toBe(
       "leaderboard/transactions",
     );
+    expect(getLeagueRecordsSnapshotKey()).toBe("records/league");
+    expect(getTeamRecordsSnapshotKey("7")).toBe("records/team-7");
     expect(getCombinedSnapshotKey("players", "both", "7")).toBe(
       "players/combined/both/team-7",
     );
@@ -7,6 +7,7 @@ import {
   buildTradeImportData,
   createTransactionEntityResolver,
   importTransactionsToDb,
+  loadTransactionOverrides,
   parseDraftPickAsset,
   parseTransactionDateToIso,
   resolveTransactionTeamId,
@@ -148,6 +149,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: "p-exact",
         matchStatus: "matched",
         matchStrategy: "exact_name_position",
+        matchConfidence: null,
       });
 
       await expect(
@@ -161,6 +163,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: "p-apostrophe",
         matchStatus: "matched",
         matchStrategy: "exact_name_position",
+        matchConfidence: null,
       });
 
       await expect(
@@ -174,6 +177,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: "p-jack-a",
         matchStatus: "matched",
         matchStrategy: "season_team_context",
+        matchConfidence: null,
       });
 
       await expect(
@@ -187,6 +191,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: null,
         matchStatus: "unresolved_ambiguous_entity",
         matchStrategy: "season_team_context",
+        matchConfidence: null,
       });
 
       await expect(
@@ -200,6 +205,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: "p-viel-current",
         matchStatus: "matched",
         matchStrategy: "season_team_context",
+        matchConfidence: null,
       });
 
       await expect(
@@ -213,6 +219,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: "p-viel-current",
         matchStatus: "matched",
         matchStrategy: "season_team_context",
+        matchConfidence: null,
       });
 
       await expect(
@@ -226,6 +233,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: null,
         matchStatus: "unresolved_missing_entity",
         matchStrategy: "exact_name_position",
+        matchConfidence: null,
       });
 
       await expect(
@@ -239,6 +247,7 @@ describe("transaction import helpers", () => {
         fantraxEntityId: "p-flex",
         matchStatus: "matched",
         matchStrategy: "exact_name_position",
+        matchConfidence: null,
       });
 
       await expect(
@@ -252,6 +261,113 @@ describe("transaction import helpers", () => {
         fantraxEntityId: null,
         matchStatus: "unresolved_missing_entity",
         matchStrategy: "exact_name_position",
+        matchConfidence: null,
+      });
+    } finally {
+      await context.cleanup();
+    }
+  });
+
+  test("falls back to fuzzy name matching with a stored confidence", async () => {
+    const context = await createIntegrationDb();
+
+    try {
+      await context.insertPlayers([
+        {
+          teamId: "7",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-marner",
+          name: "Mitchell Marner",
+          position: "F",
+        },
+        {
+          teamId: "7",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-stutzle-a",
+          name: "Tim Stützle",
+          position: "F",
+        },
+        {
+          teamId: "19",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-stutzle-b",
+          name: "Tim Stutzle",
+          position: "F",
+        },
+        {
+          teamId: "7",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-fox",
+          name: "Adam Fox",
+          position: "D",
+        },
+      ]);
+
+      const resolver = createTransactionEntityResolver(context.db);
+      const resolve = (name: string, rawPosition: string, season = 2025) =>
+        resolver.resolveEntity({
+          name,
+          rawPosition,
+          season,
+          teamIds: ["7"],
+        });
+
+      await expect(resolve("Mitch Marner", "F")).resolves.toEqual({
+        fantraxEntityId: "p-marner",
+        matchStatus: "matched",
+        matchStrategy: "fuzzy_name",
+        matchConfidence: 1,
+      });
+      await expect(resolve("Mitch Marnr", "F")).resolves.toEqual({
+        fantraxEntityId: "p-marner",
+        matchStatus: "matched",
+        matchStrategy: "fuzzy_name",
+        matchConfidence: 0.933,
+      });
+      await expect(resolve("Tim Stutzle Jr.", "F")).resolves.toEqual({
+        fantraxEntityId: null,
+        matchStatus: "unresolved_ambiguous_entity",
+        matchStrategy: "fuzzy_name",
+        matchConfidence: 1,
+      });
+      await expect(resolve("Mitch Marner", "D")).resolves.toEqual({
+        fantraxEntityId: null,
+        matchStatus: "unresolved_missing_entity",
+        matchStrategy: "exact_name_position",
+        matchConfidence: null,
+      });
+      await expect(resolve("Mitch Marnr", "F", 2024)).resolves.toEqual({
+        fantraxEntityId: null,
+        matchStatus: "unresolved_missing_entity",
+        matchStrategy: "exact_name_position",
+        matchConfidence: null,
+      });
+      await expect(resolve("Adam Cox", "D")).resolves.toEqual({
+        fantraxEntityId: null,
+        matchStatus: "unresolved_missing_entity",
+        matchStrategy: "exact_name_position",
+        matchConfidence: null,
+      });
+
+      const strictResolver = createTransactionEntityResolver(context.db, [], {
+        minConfidence: 0.99,
+        ambiguityMargin: 0.05,
+        minPartSimilarity: 0.8,
+      });
+      await expect(
+        strictResolver.resolveEntity({
+          name: "Mitch Marnr",
+          rawPosition: "F",
+          season: 2025,
+          teamIds: ["7"],
+        }),
+      ).resolves.toMatchObject({
+        fantraxEntityId: null,
+        matchStatus: "unresolved_missing_entity",
       });
     } finally {
       await context.cleanup();
@@ -649,6 +765,135 @@ describe("transaction import helpers", () => {
     }
   });
 
+  test("applies manual overrides from the versioned overrides file", async () => {
+    const context = await createIntegrationDb();
+    const csvDir = await fs.mkdtemp(path.join(os.tmpdir(), "ffhl-transactions-"));
+    const writeOverrides = (body: unknown): Promise<void> =>
+      fs.writeFile(
+        path.join(csvDir, "overrides.json"),
+        JSON.stringify(body),
+        "utf8",
+      );
+
+    try {
+      await context.insertPlayers([
+        {
+          teamId: "7",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-override",
+          name: "Mitch Marner",
+          position: "F",
+        },
+      ]);
+      await writeCsv(csvDir, "claims-2025-2026.csv", [
+        `"Player","Team","Position","Type","Team","Date (EDT)","Period"`,
+        `"M. Marner","TOR","F","Claim","Edmonton Oilers","Thu Mar 5, 2026, 12:38PM","150"`,
+        `"Nobody Known","TOR","F","Drop","Edmonton Oilers","Thu Mar 5, 2026, 12:38PM","150"`,
+        `"Mitch Marnr","TOR","F","Drop","Edmonton Oilers","Thu Mar 5, 2026, 12:38PM","150"`,
+      ]);
+
+      expect(loadTransactionOverrides(path.join(csvDir, "overrides.json"))).toEqual(
+        [],
+      );
+
+      await writeOverrides({
+        version: 1,
+        overrides: [
+          {
+            season: 2025,
+            occurredAt: "2026-03-05T12:38:00-04:00",
+            rawName: " M. Marner ",
+            fantraxId: "p-override",
+            note: "Abbreviated first name",
+          },
+        ],
+      });
+
+      const summary = await importTransactionsToDb({
+        db: context.db,
+        csvDir,
+      });
+
+      expect(summary).toMatchObject({
+        claimItems: 3,
+        unresolvedClaimItems: 1,
+        manualOverrideItems: 1,
+        fuzzyNameItems: 1,
+      });
+      const itemRows = await context.db.execute(
+        `SELECT raw_name, fantrax_entity_id, match_status, match_strategy, match_confidence
+         FROM claim_event_items
+         ORDER BY sequence ASC`,
+      );
+      expect(itemRows.rows).toEqual([
+        {
+          raw_name: "M. Marner",
+          fantrax_entity_id: "p-override",
+          match_status: "matched",
+          match_strategy: "manual_override",
+          match_confidence: null,
+        },
+        {
+          raw_name: "Nobody Known",
+          fantrax_entity_id: null,
+          match_status: "unresolved_missing_entity",
+          match_strategy: "exact_name_position",
+          match_confidence: null,
+        },
+        {
+          raw_name: "Mitch Marnr",
+          fantrax_entity_id: "p-override",
+          match_status: "matched",
+          match_strategy: "fuzzy_name",
+          match_confidence: 0.933,
+        },
+      ]);
+
+      await writeOverrides({
+        version: 1,
+        overrides: [
+          {
+            season: 2025,
+            occurredAt: "2026-03-05T16:38:00.000Z",
+            rawName: "Nobody Known",
+            fantraxId: "p-missing",
+          },
+        ],
+      });
+      await expect(
+        importTransactionsToDb({ db: context.db, csvDir }),
+      ).rejects.toThrow("Unknown Fantrax IDs in transaction overrides: p-missing");
+
+      const overridesPath = path.join(csvDir, "overrides.json");
+      await writeOverrides({ version: 2, overrides: [] });
+      expect(() => loadTransactionOverrides(overridesPath)).toThrow(
+        "Unsupported transaction overrides version",
+      );
+      await writeOverrides({ version: 1 });
+      expect(() => loadTransactionOverrides(overridesPath)).toThrow(
+        "missing an overrides list",
+      );
+      await writeOverrides({
+        version: 1,
+        overrides: [
+          {
+            season: 2025,
+            occurredAt: "not a date",
+            rawName: "Nobody Known",
+            fantraxId: "p-override",
+          },
+        ],
+      });
+      expect(() => loadTransactionOverrides(overridesPath)).toThrow(
+        "Invalid transaction override #0",
+      );
+    } finally {
+      await context.cleanup();
+      await fs.rm(csvDir, { recursive: true, force: true });
+    }
+  });
+
   test("incrementally reimports only current-season rows at or after the latest watermark", async () => {
     const context = await createIntegrationDb();
     const csvDir = await fs.mkdtemp(path.join(os.tmpdir(), "ffhl-transactions-"));
@@ -0,0 +1,134 @@
+import { getUnresolvedTransactionsData } from "../features/transactions/unresolved.js";
+import { createIntegrationDb } from "./integration-db.js";
+
+describe("unresolved transaction review queue", () => {
+  test("lists unresolved items oldest first with likely candidate entities", async () => {
+    const db = await createIntegrationDb();
+
+    try {
+      await db.insertPlayers([
+        {
+          teamId: "1",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-mitch",
+          name: "Mitch Marner",
+          position: "F",
+        },
+        {
+          teamId: "1",
+          season: 2023,
+          reportType: "regular",
+          playerId: "p-ty",
+          name: "Ty Marner",
+          position: "F",
+        },
+        {
+          teamId: "2",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-cale",
+          name: "Cale Marner",
+          position: "D",
+        },
+        {
+          teamId: "2",
+          season: 2022,
+          reportType: "regular",
+          playerId: "p-unknown-pos",
+          name: "Pat Marner",
+        },
+        {
+          teamId: "3",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-ep-f",
+          name: "Elias Pettersson",
+          position: "F",
+        },
+        {
+          teamId: "4",
+          season: 2025,
+          reportType: "regular",
+          playerId: "p-ep-d",
+          name: "Elias Pettersson",
+          position: "D",
+        },
+      ]);
+      await db.insertClaimEvents([
+        {
+          season: 2024,
+          teamId: "1",
+          occurredAt: "2024-11-02T17:00:00.000Z",
+          items: [
+            { actionType: "drop", rawName: "M. Marner", rawPosition: "F" },
+            {
+              actionType: "claim",
+              fantraxEntityId: "p-mitch",
+              rawName: "Mitch Marner",
+              rawPosition: "F",
+            },
+          ],
+        },
+      ]);
+      await db.insertTradeBlocks([
+        {
+          season: 2025,
+          occurredAt: "2026-01-10T12:00:00.000Z",
+          fromTeamId: "3",
+          toTeamId: "4",
+          items: [
+            {
+              rawName: "elias pettersson",
+              rawPosition: "F,D",
+              matchStatus: "unresolved_ambiguous_entity",
+            },
+            { rawName: "C Marner", rawPosition: null },
+            { assetType: "other", rawName: "Future considerations" },
+          ],
+        },
+      ]);
+
+      const body = await getUnresolvedTransactionsData();
+
+      expect(body.map((item) => item.id)).toEqual([
+        expect.stringMatching(/^claims:\d+$/u),
+        expect.stringMatching(/^trades:\d+$/u),
+        expect.stringMatching(/^trades:\d+$/u),
+      ]);
+      expect(body[0]).toMatchObject({
+        type: "drop",
+        season: 2024,
+        fromTeam: { id: "1" },
+        toTeam: null,
+        rawName: "M. Marner",
+        matchStatus: "unresolved_missing_entity",
+        candidates: [
+          { id: "p-mitch", exactName: false },
+          { id: "p-ty", exactName: false },
+        ],
+      });
+      expect(body[1]).toMatchObject({
+        type: "trade",
+        fromTeam: { id: "3" },
+        toTeam: { id: "4" },
+        matchStatus: "unresolved_ambiguous_entity",
+        candidates: [
+          { id: "p-ep-d", exactName: true },
+          { id: "p-ep-f", exactName: true },
+        ],
+      });
+      expect(body[2].candidates.map((candidate) => candidate.id)).toEqual([
+        "p-cale",
+        "p-mitch",
+        "p-ty",
+        "p-unknown-pos",
+      ]);
+
+      const bySeason = await getUnresolvedTransactionsData(2024);
+      expect(bySeason.map((item) => item.rawName)).toEqual(["M. Marner"]);
+    } finally {
+      await db.cleanup();
+    }
+  });
+});
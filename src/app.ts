@@ -9,6 +9,7 @@ import {
   getPlayersSeason,
   getGoaliesCombined,
   getGoaliesSeason,
+  getScoringModels,
 } from "./features/stats/routes.js";
 import {
   getCareerPlayer,
@@ -16,11 +17,18 @@ import {
   getCareerPlayers,
   getCareerGoalies,
   getCareerHighlights,
+  getCareerMilestones,
+  getCompareGoalies,
+  getComparePlayers,
+  getPlayersProgression,
+  getSimilarGoalies,
+  getSimilarPlayers,
 } from "./features/career/routes.js";
 import {
   getPlayoffsLeaderboard,
   getRegularLeaderboard,
   getTransactionsLeaderboard,
+  getTransactionsTimeline,
 } from "./features/leaderboard/routes.js";
 import { getFinalsLeaderboard } from "./features/finals/routes.js";
 import {
@@ -28,7 +36,26 @@ import {
   getSeasons,
   getTeams,
 } from "./features/meta/routes.js";
-import { getEntryDraft, getOriginalDraft } from "./features/drafts/routes.js";
+import {
+  getDraftInventory,
+  getDraftPickOwnership,
+  getEntryDraft,
+  getOriginalDraft,
+} from "./features/drafts/routes.js";
+import {
+  getLopsidedTrades,
+  getTrade,
+  getTradeAnalysis,
+  getTrades,
+  getTransactions,
+} from "./features/transactions/routes.js";
+import {
+  getTeamRoster,
+  getTeamRosterChanges,
+  getTeamTotals,
+} from "./features/teams/routes.js";
+import { getRecords, getTeamRecords } from "./features/records/routes.js";
+import { getSearch } from "./features/search/routes.js";
 import { getOpenApiSpec, getSwaggerUi } from "./openapi.js";
 import { HTTP_STATUS } from "./shared/http.js";
 import { sendNoStore } from "./shared/route-utils.js";
@@ -58,23 +85,44 @@ const routes = [
   get("/teams", protectedRoute(getTeams)),
   get("/seasons", protectedRoute(getSeasons)),
   get("/seasons/:reportType", protectedRoute(getSeasons)),
+  get("/search", protectedRoute(getSearch)),
+  get("/teams/:teamId/roster", protectedRoute(getTeamRoster)),
+  get("/teams/:teamId/roster-changes", protectedRoute(getTeamRosterChanges)),
+  get("/teams/:teamId/totals", protectedRoute(getTeamTotals)),
+  get("/teams/:teamId/records", protectedRoute(getTeamRecords)),
+  get("/records", protectedRoute(getRecords)),
   get("/draft/entry", protectedRoute(getEntryDraft)),
   get("/draft/original", protectedRoute(getOriginalDraft)),
+  get("/draft/inventory", protectedRoute(getDraftInventory)),
+  get("/draft/picks/:season/:round/:originalTeamId", protectedRoute(getDraftPickOwnership)),
   get("/players/season/:reportType/:season", protectedRoute(getPlayersSeason)),
   get("/players/season/:reportType", protectedRoute(getPlayersSeason)),
   get("/players/combined/:reportType", protectedRoute(getPlayersCombined)),
+  get("/players/progression", protectedRoute(getPlayersProgression)),
   get("/goalies/season/:reportType/:season", protectedRoute(getGoaliesSeason)),
   get("/goalies/season/:reportType", protectedRoute(getGoaliesSeason)),
   get("/goalies/combined/:reportType", protectedRoute(getGoaliesCombined)),
+  get("/scoring/models", protectedRoute(getScoringModels)),
   get("/career/players", protectedRoute(getCareerPlayers)),
   get("/career/goalies", protectedRoute(getCareerGoalies)),
   get("/career/highlights/:type", protectedRoute(getCareerHighlights)),
+  get("/career/milestones", protectedRoute(getCareerMilestones)),
   get("/career/player/:id", protectedRoute(getCareerPlayer)),
   get("/career/goalie/:id", protectedRoute(getCareerGoalie)),
+  get("/career/player/:id/similar", protectedRoute(getSimilarPlayers)),
+  get("/career/goalie/:id/similar", protectedRoute(getSimilarGoalies)),
+  get("/compare/players", protectedRoute(getComparePlayers)),
+  get("/compare/goalies", protectedRoute(getCompareGoalies)),
   get("/leaderboard/playoffs", protectedRoute(getPlayoffsLeaderboard)),
   get("/leaderboard/regular", protectedRoute(getRegularLeaderboard)),
   get("/leaderboard/transactions", protectedRoute(getTransactionsLeaderboard)),
+  get("/leaderboard/transactions/timeline", protectedRoute(getTransactionsTimeline)),
   get("/leaderboard/finals", protectedRoute(getFinalsLeaderboard)),
+  get("/transactions", protectedRoute(getTransactions)),
+  get("/transactions/trades", protectedRoute(getTrades)),
+  get("/transactions/trades/lopsided", protectedRoute(getLopsidedTrades)),
+  get("/transactions/trades/:id", protectedRoute(getTrade)),
+  get("/transactions/trades/:id/analysis", protectedRoute(getTradeAnalysis)),
   get("/openapi.json", getOpenApiSpec),
   get("/api-docs", getSwaggerUi),
   get("/*", notFound),
@@ -1,14 +1,23 @@
-import type { CareerHighlightType } from "../features/career/types.js";
+import type {
+  CareerHighlightType,
+  CareerMilestoneStat,
+  CareerMilestoneType,
+} from "../features/career/types.js";
+import type { TransactionActivityInterval } from "../features/leaderboard/types.js";
 import type {
   GoalieScoreField,
   GoalieScoreWeights,
   PlayerScoreField,
   PlayerScoreWeights,
+  ScoringModel,
 } from "../features/stats/types.js";
 import type { Report, Team } from "../shared/types/core.js";
 
 export const START_SEASON = 2012;
 export const CURRENT_SEASON = 2025;
+// Calendar month (1-12) a season starts in. Dates earlier in the year belong to
+// the season that started the previous year.
+export const SEASON_START_MONTH = 9;
 
 export const REPORT_TYPES = [
   "playoffs",
@@ -27,11 +36,31 @@ export const CAREER_HIGHLIGHT_TYPES = [
   "most-trades",
   "most-claims",
   "most-drops",
+  "most-franchise-points",
+  "most-playoff-points",
+  "iron-man",
+  "one-season-wonders",
 ] as const satisfies readonly CareerHighlightType[];
 
 export const DEFAULT_CAREER_HIGHLIGHT_SKIP = 0;
 export const DEFAULT_CAREER_HIGHLIGHT_TAKE = 10;
 export const MAX_CAREER_HIGHLIGHT_TAKE = 100;
+export const MAX_CAREER_COMPARE_IDS = 6;
+
+// Season-over-season player progression compares back-to-back regular seasons
+// where the player played at least PROGRESSION_MIN_GAMES. A games-adjusted
+// score gain or drop of at least these points is a breakout or decline.
+export const PROGRESSION_MIN_GAMES = 20;
+export const PROGRESSION_BREAKOUT_SCORE_DELTA = 10;
+export const PROGRESSION_DECLINE_SCORE_DELTA = 10;
+export const PROGRESSION_LIST_SIZE = 25;
+
+// Similar-player lookups only suggest candidates with at least
+// SIMILAR_MIN_GAMES regular season games in the chosen scope, so a handful of
+// games can't produce an extreme per-game profile.
+export const SIMILAR_MIN_GAMES = 10;
+export const DEFAULT_SIMILAR_LIMIT = 10;
+export const MAX_SIMILAR_LIMIT = 50;
 export const CAREER_HIGHLIGHT_CONFIG = {
   "most-teams-played": {
     kind: "team-count",
@@ -84,6 +113,26 @@ export const CAREER_HIGHLIGHT_CONFIG = {
     transactionType: "drop",
     minCount: 3,
   },
+  // Regular season points for one team.
+  "most-franchise-points": {
+    kind: "franchise-points",
+    minCount: 150,
+  },
+  "most-playoff-points": {
+    kind: "playoff-points",
+    minCount: 20,
+  },
+  // Consecutive seasons with regular season games, for any teams.
+  "iron-man": {
+    kind: "consecutive-regular-seasons",
+    minCount: 8,
+  },
+  // Skaters with a single regular season for a team, scored against that
+  // season's league pool.
+  "one-season-wonders": {
+    kind: "one-season-wonder",
+    minCount: 60,
+  },
 } as const satisfies Record<
   CareerHighlightType,
   | {
@@ -101,12 +150,117 @@ export const CAREER_HIGHLIGHT_CONFIG = {
         | "stanley-cups"
         | "reunion-count"
         | "stash-count"
-        | "regular-games-without-playoffs";
+        | "regular-games-without-playoffs"
+        | "franchise-points"
+        | "playoff-points"
+        | "consecutive-regular-seasons"
+        | "one-season-wonder";
       minCount: number;
     }
 >;
 
+// Career milestones fire in the season a running total first reaches the
+// threshold. Totals count regular season and playoff rows together; `appliesTo`
+// limits a milestone to skaters or goalies.
+export const CAREER_MILESTONE_TYPES = [
+  "points-100",
+  "points-250",
+  "points-500",
+  "goalie-wins-100",
+  "games-500",
+  "seasons-owned-10",
+] as const satisfies readonly CareerMilestoneType[];
+
+export const CAREER_MILESTONE_CONFIG = {
+  "points-100": { stat: "points", appliesTo: "players", threshold: 100 },
+  "points-250": { stat: "points", appliesTo: "players", threshold: 250 },
+  "points-500": { stat: "points", appliesTo: "players", threshold: 500 },
+  "goalie-wins-100": { stat: "wins", appliesTo: "goalies", threshold: 100 },
+  "games-500": { stat: "games", appliesTo: "all", threshold: 500 },
+  "seasons-owned-10": {
+    stat: "seasonsOwned",
+    appliesTo: "all",
+    threshold: 10,
+  },
+} as const satisfies Record<
+  CareerMilestoneType,
+  {
+    stat: CareerMilestoneStat;
+    appliesTo: "players" | "goalies" | "all";
+    threshold: number;
+  }
+>;
+
+export const DEFAULT_CAREER_MILESTONE_SKIP = 0;
+export const DEFAULT_CAREER_MILESTONE_TAKE = 50;
+export const MAX_CAREER_MILESTONE_TAKE = 200;
+
+export const MAX_STATS_LIST_LIMIT = 1000;
+
+// /search is a type-ahead lookup: queries need a few characters and return a
+// short list by default.
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+export const DEFAULT_TRANSACTION_FEED_LIMIT = 50;
+export const MAX_TRANSACTION_FEED_LIMIT = 200;
+
+// Bucket size for /leaderboard/transactions/timeline when ?interval is omitted.
+export const DEFAULT_TRANSACTION_ACTIVITY_INTERVAL: TransactionActivityInterval =
+  "month";
+
+export const DEFAULT_LOPSIDED_TRADES_SKIP = 0;
+export const DEFAULT_LOPSIDED_TRADES_TAKE = 10;
+export const MAX_LOPSIDED_TRADES_TAKE = 100;
+// Trade sides whose summed post-trade score is within this margin of the best
+// side are called even rather than won/lost.
+export const TRADE_VERDICT_EVEN_SCORE_MARGIN = 10;
+
+// Entry draft rounds every team owns a pick in, and how many upcoming drafts
+// past the latest imported one the pick inventory lists.
+export const ENTRY_DRAFT_ROUNDS = 5;
+export const FUTURE_DRAFT_SEASONS = 3;
+
+// Fantrax entities listed next to each unresolved transaction row for review.
+export const MAX_UNRESOLVED_TRANSACTION_CANDIDATES = 5;
+
+// Fuzzy name matching used by the transaction and draft importers when no exact
+// name match exists. The best candidate needs at least this similarity (0-1) and
+// must beat the runner-up by the margin, otherwise the row stays unresolved.
+export const FUZZY_NAME_MATCH_MIN_CONFIDENCE = 0.85;
+export const FUZZY_NAME_MATCH_AMBIGUITY_MARGIN = 0.05;
+// First name and surname must each reach this similarity on their own, so
+// "Adam Cox" never links to Adam Fox or "Mack Hughes" to Jack Hughes.
+export const FUZZY_NAME_MATCH_MIN_PART_SIMILARITY = 0.8;
+// Nickname -> full first name, applied to both sides before comparing names.
+export const NAME_ALIASES: Readonly<Record<string, string>> = {
+  alex: "alexander",
+  ben: "benjamin",
+  chris: "christopher",
+  dan: "daniel",
+  danny: "daniel",
+  jake: "jacob",
+  joe: "joseph",
+  johnny: "john",
+  jon: "jonathan",
+  josh: "joshua",
+  matt: "matthew",
+  mike: "michael",
+  mitch: "mitchell",
+  nate: "nathan",
+  nick: "nicholas",
+  pat: "patrick",
+  sam: "samuel",
+  tom: "thomas",
+  tony: "anthony",
+  will: "william",
+  zach: "zachary",
+};
+
 export const DEFAULT_TEAM_ID = "1";
+// Stats routes take this as teamId to rank the whole league together.
+export const LEAGUE_TEAM_ID = "all";
 
 export const TEAMS: ReadonlyArray<Team> = [
   {
@@ -291,8 +445,10 @@ export const GOALIE_SCORE_FIELDS: GoalieScoreField[] = [
   "shutouts",
 ];
 
-// Weights for score calculation (banger-leaning league). Adjust these values (0-1) to change weighting.
-export const PLAYER_SCORE_WEIGHTS: PlayerScoreWeights = {
+// Weights for score calculation (banger-leaning league). Each weight ranges from
+// 0 to MAX_SCORE_WEIGHT. When any weight is above 1, weighted averages are
+// divided by the largest weight (getWeightScale) so scores stay within 0-100.
+const PLAYER_SCORE_WEIGHTS: PlayerScoreWeights = {
   goals: 1,
   assists: 1,
   points: 1,
@@ -305,7 +461,7 @@ export const PLAYER_SCORE_WEIGHTS: PlayerScoreWeights = {
   blocks: 1,
 };
 
-export const GOALIE_SCORE_WEIGHTS: GoalieScoreWeights = {
+const GOALIE_SCORE_WEIGHTS: GoalieScoreWeights = {
   wins: 1,
   saves: 1,
   shutouts: 0.25,
@@ -313,18 +469,21 @@ export const GOALIE_SCORE_WEIGHTS: GoalieScoreWeights = {
   savePercent: 1,
 };
 
+// Upper bound for a single custom weight (e.g. ?weights=goals:2,hits:0.5)
+export const MAX_SCORE_WEIGHT = 10;
+
 // Dampening exponent for goalie base stats (wins, saves, shutouts)
 // Uses sqrt (0.5) to compress score ranges while preserving rank order
 // Example: with max 26 wins, 14 wins scores 73.4 instead of 53.8
-export const GOALIE_SCORING_DAMPENING_EXPONENT = 0.5;
+const GOALIE_SCORING_DAMPENING_EXPONENT = 0.5;
 
 // Advanced goalie stat scaling (used to avoid extreme 0/100 scores when values are close)
 // If a goalie's GAA is worse than the best GAA by this ratio or more, they get 0 for the GAA component.
 // Example: ratio 0.75 means a goalie with 75% worse GAA than the best maps to 0.
-export const GOALIE_GAA_MAX_DIFF_RATIO = 0.6;
+const GOALIE_GAA_MAX_DIFF_RATIO = 0.6;
 
 // Baseline save percentage for scoring (used to avoid extreme 0 scores)
-export const GOALIE_SAVE_PERCENT_BASELINE = 0.85; // .850
+const GOALIE_SAVE_PERCENT_BASELINE = 0.85; // .850
 
 // Minimum games required for games-adjusted scoring (players and goalies)
 export const MIN_GAMES_FOR_ADJUSTED_SCORE = 1;
@@ -342,10 +501,7 @@ export const FINALS_HOME_TIEBREAK_WEIGHT = 1.5;
 
 // Games-adjusted scores use stabilized per-game pace. Higher values pull short
 // samples more strongly toward the pool-average rate for that category.
-export const PLAYER_ADJUSTED_SCORE_PRIOR_GAMES: Record<
-  PlayerScoreField,
-  number
-> = {
+const PLAYER_ADJUSTED_SCORE_PRIOR_GAMES: Record<PlayerScoreField, number> = {
   goals: 8,
   assists: 8,
   points: 8,
@@ -358,11 +514,87 @@ export const PLAYER_ADJUSTED_SCORE_PRIOR_GAMES: Record<
   blocks: 6,
 };
 
-export const GOALIE_ADJUSTED_SCORE_PRIOR_GAMES: Record<
-  GoalieScoreField,
-  number
-> = {
+const GOALIE_ADJUSTED_SCORE_PRIOR_GAMES: Record<GoalieScoreField, number> = {
   wins: 8,
   saves: 5,
   shutouts: 30,
 };
+
+// Named scoring models selectable with ?model= on the stats routes. The default
+// model is built from the constants above; the others override parts of it.
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  id: "default",
+  description:
+    "Every player category counts fully and shutouts count a quarter.",
+  playerWeights: PLAYER_SCORE_WEIGHTS,
+  playerPriorGames: PLAYER_ADJUSTED_SCORE_PRIOR_GAMES,
+  goalieWeights: GOALIE_SCORE_WEIGHTS,
+  goaliePriorGames: GOALIE_ADJUSTED_SCORE_PRIOR_GAMES,
+  goalieDampeningExponent: GOALIE_SCORING_DAMPENING_EXPONENT,
+  goalieGaaMaxDiffRatio: GOALIE_GAA_MAX_DIFF_RATIO,
+  goalieSavePercentBaseline: GOALIE_SAVE_PERCENT_BASELINE,
+};
+
+export const SCORING_MODELS: ScoringModel[] = [
+  DEFAULT_SCORING_MODEL,
+  {
+    ...DEFAULT_SCORING_MODEL,
+    id: "offense-only",
+    description: "Players are scored on scoring categories only.",
+    playerWeights: {
+      goals: 1,
+      assists: 1,
+      points: 1,
+      plusMinus: 0,
+      penalties: 0,
+      shots: 0.5,
+      ppp: 1,
+      shp: 0.5,
+      hits: 0,
+      blocks: 0,
+    },
+  },
+  {
+    ...DEFAULT_SCORING_MODEL,
+    id: "banger",
+    description: "Players are scored mostly on hits, blocks and penalties.",
+    playerWeights: {
+      goals: 0.5,
+      assists: 0.5,
+      points: 0.5,
+      plusMinus: 0.5,
+      penalties: 1,
+      shots: 0.5,
+      ppp: 0.25,
+      shp: 0.25,
+      hits: 1,
+      blocks: 1,
+    },
+    playerPriorGames: {
+      ...PLAYER_ADJUSTED_SCORE_PRIOR_GAMES,
+      penalties: 10,
+      hits: 10,
+      blocks: 10,
+    },
+  },
+  {
+    ...DEFAULT_SCORING_MODEL,
+    id: "goalie-heavy",
+    description:
+      "Goalies are scored mostly on GAA and save percentage, with flatter volume stats.",
+    goalieWeights: {
+      wins: 0.5,
+      saves: 0.25,
+      shutouts: 0.25,
+      gaa: 1,
+      savePercent: 1,
+    },
+    goaliePriorGames: {
+      wins: 12,
+      saves: 8,
+      shutouts: 40,
+    },
+    goalieDampeningExponent: 0.35,
+    goalieGaaMaxDiffRatio: 0.8,
+  },
+];
@@ -9,6 +9,12 @@ import type {
   TransactionLeaderboardEntry,
   TransactionLeaderboardSeason,
 } from "../features/leaderboard/types.js";
+import type {
+  TransactionAssetType,
+  TransactionEventType,
+  TransactionFeedCursor,
+  UnresolvedTransactionMatchStatus,
+} from "../features/transactions/types.js";
 import type {
   FinalsCategoryDbEntry,
   FinalsMatchupDbEntry,
@@ -175,6 +181,46 @@ export const getGoaliesFromDb = async (
   return castRows<GoalieRow>(result.rows).map(mapGoalieRow);
 };
 
+// League-wide rows keep one row per team, so mid-season movers appear once
+// for every team they played for.
+export const getLeaguePlayersFromDb = async (
+  season: number,
+  reportType: CsvReport
+): Promise<Array<PlayerWithSeason & { teamId: string }>> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `SELECT player_id, name, position, games, goals, assists, points, plus_minus,
+                 penalties, shots, ppp, shp, hits, blocks, season, team_id
+          FROM players
+          WHERE season = ? AND report_type = ? AND games > 0
+          ORDER BY team_id, player_id`,
+    args: [season, reportType],
+  });
+  return castRows<PlayerRow & { team_id: string }>(result.rows).map((row) => ({
+    ...mapPlayerRow(row),
+    teamId: row.team_id,
+  }));
+};
+
+export const getLeagueGoaliesFromDb = async (
+  season: number,
+  reportType: CsvReport
+): Promise<Array<GoalieWithSeason & { teamId: string }>> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `SELECT goalie_id, name, games, wins, saves, shutouts, goals, assists, points,
+                 penalties, ppp, shp, gaa, save_percent, season, team_id
+          FROM goalies
+          WHERE season = ? AND report_type = ? AND games > 0
+          ORDER BY team_id, goalie_id`,
+    args: [season, reportType],
+  });
+  return castRows<GoalieRow & { team_id: string }>(result.rows).map((row) => ({
+    ...mapGoalieRow(row),
+    teamId: row.team_id,
+  }));
+};
+
 export const getPlayerCareerRowsFromDb = async (
   playerId: string,
 ): Promise<PlayerCareerRow[]> => {
@@ -269,6 +315,44 @@ export const getAllPlayerCareerRowsFromDb = async (): Promise<PlayerCareerRow[]>
   return castRows<PlayerCareerRow>(result.rows);
 };
 
+// Regular season rows of every player in the seasons the given player has a
+// regular season row in, so those seasons can be scored as league pools.
+export const getPlayerSeasonPoolRowsFromDb = async (
+  playerId: string,
+): Promise<PlayerCareerRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `SELECT p.player_id,
+                 COALESCE(fe.name, p.name) AS name,
+                 COALESCE(fe.position, p.position) AS position,
+                 p.team_id,
+                 p.season,
+                 p.report_type,
+                 p.games,
+                 p.goals,
+                 p.assists,
+                 p.points,
+                 p.plus_minus,
+                 p.penalties,
+                 p.shots,
+                 p.ppp,
+                 p.shp,
+                 p.hits,
+                 p.blocks
+          FROM players p
+          LEFT JOIN fantrax_entities fe ON fe.fantrax_id = p.player_id
+          WHERE p.report_type = 'regular'
+            AND p.season IN (
+              SELECT season
+              FROM players
+              WHERE player_id = ? AND report_type = 'regular'
+            )
+          ORDER BY p.season DESC, p.player_id ASC, p.team_id ASC`,
+    args: [playerId],
+  });
+  return castRows<PlayerCareerRow>(result.rows);
+};
+
 export const getAllGoalieCareerRowsFromDb = async (): Promise<GoalieCareerRow[]> => {
   const db = getDbClient();
   const result = await db.execute(
@@ -516,6 +600,19 @@ export const getAvailableSeasonsFromDb = async (
   return castRows<{ season: number }>(result.rows).map((r) => r.season);
 };
 
+export const getLeagueAvailableSeasonsFromDb = async (
+  reportType: CsvReport
+): Promise<number[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `SELECT DISTINCT season FROM players
+          WHERE report_type = ? AND games > 0
+          ORDER BY season`,
+    args: [reportType],
+  });
+  return castRows<{ season: number }>(result.rows).map((r) => r.season);
+};
+
 export const getLastModifiedFromDb = async (): Promise<string | null> => {
   const db = getDbClient();
   const result = await db.execute({
@@ -1032,6 +1129,671 @@ export const getTransactionSeasons = async (): Promise<
   }));
 };
 
+interface TransactionActivityRow {
+  team_id: string;
+  occurred_at: string;
+  claims: number;
+  drops: number;
+  trades: number;
+}
+
+export type TransactionActivityDbRow = {
+  teamId: string;
+  occurredAt: string;
+  claims: number;
+  drops: number;
+  trades: number;
+};
+
+// Counts per team and timestamp, using the same claim/drop item and trade
+// participation rules as the transaction leaderboard.
+export const getTransactionActivityRowsFromDb = async (
+  season?: number,
+): Promise<TransactionActivityDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `WITH activity AS (
+            SELECT
+              team_id,
+              season,
+              occurred_at,
+              CASE WHEN action_type = 'claim' THEN 1 ELSE 0 END AS claims,
+              CASE WHEN action_type = 'drop' THEN 1 ELSE 0 END AS drops,
+              0 AS trades
+            FROM claim_event_items
+            UNION ALL
+            SELECT team_id, season, occurred_at, 0, 0, 1
+            FROM (
+              SELECT tsb.season, tsb.occurred_at, tbi.from_team_id AS team_id
+              FROM trade_source_blocks tsb
+              JOIN trade_block_items tbi ON tbi.trade_source_block_id = tsb.id
+              UNION
+              SELECT tsb.season, tsb.occurred_at, tbi.to_team_id AS team_id
+              FROM trade_source_blocks tsb
+              JOIN trade_block_items tbi ON tbi.trade_source_block_id = tsb.id
+            )
+          )
+          SELECT
+            team_id,
+            occurred_at,
+            SUM(claims) AS claims,
+            SUM(drops) AS drops,
+            SUM(trades) AS trades
+          FROM activity
+          ${season === undefined ? "" : "WHERE season = ?"}
+          GROUP BY team_id, occurred_at
+          ORDER BY occurred_at ASC, team_id ASC`,
+    args: season === undefined ? [] : [season],
+  });
+  return castRows<TransactionActivityRow>(result.rows).map((row) => ({
+    teamId: row.team_id,
+    occurredAt: row.occurred_at,
+    claims: row.claims,
+    drops: row.drops,
+    trades: row.trades,
+  }));
+};
+
+interface TransactionFeedRow {
+  source: "claims" | "trades";
+  source_id: number;
+  event_type: TransactionEventType;
+  season: number;
+  occurred_at: string;
+  from_team_id: string | null;
+  to_team_id: string | null;
+  asset_type: TransactionAssetType;
+  fantrax_entity_id: string | null;
+  name: string;
+  position: string | null;
+  draft_season: number | null;
+  draft_round: number | null;
+  draft_original_team_id: string | null;
+}
+
+export type TransactionFeedDbRow = {
+  id: string;
+  type: TransactionEventType;
+  season: number;
+  occurredAt: string;
+  fromTeamId: string | null;
+  toTeamId: string | null;
+  assetType: TransactionAssetType;
+  entityId: string | null;
+  name: string;
+  position: string | null;
+  draftSeason: number | null;
+  draftRound: number | null;
+  draftOriginalTeamId: string | null;
+};
+
+export type TransactionFeedQuery = {
+  season?: number;
+  teamId?: string;
+  types?: readonly TransactionEventType[];
+  occurredFrom?: string;
+  occurredBefore?: string;
+  playerId?: string;
+  after?: TransactionFeedCursor;
+  limit: number;
+};
+
+// Claims/drops sort before trades at the same timestamp to keep cursor order stable.
+const TRANSACTION_FEED_CTE = `WITH transaction_feed AS (
+       SELECT
+         'claims' AS source,
+         0 AS source_rank,
+         cei.id AS source_id,
+         cei.action_type AS event_type,
+         cei.season,
+         cei.occurred_at,
+         CASE WHEN cei.action_type = 'drop' THEN cei.team_id END AS from_team_id,
+         CASE WHEN cei.action_type = 'claim' THEN cei.team_id END AS to_team_id,
+         'player' AS asset_type,
+         cei.fantrax_entity_id,
+         COALESCE(fe.name, cei.raw_name) AS name,
+         COALESCE(fe.position, cei.raw_position) AS position,
+         NULL AS draft_season,
+         NULL AS draft_round,
+         NULL AS draft_original_team_id,
+         NULL AS trade_source_block_id
+       FROM claim_event_items cei
+       LEFT JOIN fantrax_entities fe ON fe.fantrax_id = cei.fantrax_entity_id
+       UNION ALL
+       SELECT
+         'trades' AS source,
+         1 AS source_rank,
+         tbi.id AS source_id,
+         'trade' AS event_type,
+         tsb.season,
+         tsb.occurred_at,
+         tbi.from_team_id,
+         tbi.to_team_id,
+         tbi.asset_type,
+         tbi.fantrax_entity_id,
+         COALESCE(fe.name, tbi.raw_name) AS name,
+         COALESCE(fe.position, tbi.raw_position) AS position,
+         tbi.draft_season,
+         tbi.draft_round,
+         tbi.draft_original_team_id,
+         tbi.trade_source_block_id
+       FROM trade_block_items tbi
+       JOIN trade_source_blocks tsb ON tsb.id = tbi.trade_source_block_id
+       LEFT JOIN fantrax_entities fe ON fe.fantrax_id = tbi.fantrax_entity_id
+     )`;
+
+const mapTransactionFeedRow = (
+  row: TransactionFeedRow,
+): TransactionFeedDbRow => ({
+  id: `${row.source}:${row.source_id}`,
+  type: row.event_type,
+  season: row.season,
+  occurredAt: row.occurred_at,
+  fromTeamId: row.from_team_id,
+  toTeamId: row.to_team_id,
+  assetType: row.asset_type,
+  entityId: row.fantrax_entity_id,
+  name: row.name,
+  position: row.position,
+  draftSeason: row.draft_season,
+  draftRound: row.draft_round,
+  draftOriginalTeamId: row.draft_original_team_id,
+});
+
+export const getTransactionFeedRowsFromDb = async (
+  query: TransactionFeedQuery,
+): Promise<TransactionFeedDbRow[]> => {
+  const conditions: string[] = [];
+  const args: Array<string | number> = [];
+
+  if (query.season !== undefined) {
+    conditions.push("season = ?");
+    args.push(query.season);
+  }
+  if (query.teamId !== undefined) {
+    conditions.push("(from_team_id = ? OR to_team_id = ?)");
+    args.push(query.teamId, query.teamId);
+  }
+  if (query.types?.length) {
+    conditions.push(
+      `event_type IN (${query.types.map(() => "?").join(", ")})`,
+    );
+    args.push(...query.types);
+  }
+  if (query.occurredFrom !== undefined) {
+    conditions.push("occurred_at >= ?");
+    args.push(query.occurredFrom);
+  }
+  if (query.occurredBefore !== undefined) {
+    conditions.push("occurred_at < ?");
+    args.push(query.occurredBefore);
+  }
+  if (query.playerId !== undefined) {
+    conditions.push("fantrax_entity_id = ?");
+    args.push(query.playerId);
+  }
+  if (query.after) {
+    const afterRank = query.after.source === "claims" ? 0 : 1;
+    conditions.push(
+      `(occurred_at < ?
+        OR (occurred_at = ? AND (source_rank > ?
+          OR (source_rank = ? AND source_id > ?))))`,
+    );
+    args.push(
+      query.after.occurredAt,
+      query.after.occurredAt,
+      afterRank,
+      afterRank,
+      query.after.sourceId,
+    );
+  }
+
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `${TRANSACTION_FEED_CTE}
+     SELECT
+       source,
+       source_id,
+       event_type,
+       season,
+       occurred_at,
+       from_team_id,
+       to_team_id,
+       asset_type,
+       fantrax_entity_id,
+       name,
+       position,
+       draft_season,
+       draft_round,
+       draft_original_team_id
+     FROM transaction_feed
+     ${conditions.length ? `WHERE ${conditions.join("\n       AND ")}` : ""}
+     ORDER BY occurred_at DESC, source_rank ASC, source_id ASC
+     LIMIT ?`,
+    args: [...args, query.limit],
+  });
+  return castRows<TransactionFeedRow>(result.rows).map(mapTransactionFeedRow);
+};
+
+interface EntityTransactionRow extends TransactionFeedRow {
+  trade_source_block_id: number | null;
+}
+
+export type EntityTransactionDbRow = TransactionFeedDbRow & {
+  tradeBlockId: number | null;
+};
+
+const mapEntityTransactionRow = (
+  row: EntityTransactionRow,
+): EntityTransactionDbRow => ({
+  ...mapTransactionFeedRow(row),
+  tradeBlockId: row.trade_source_block_id,
+});
+
+export const getEntityTransactionRowsFromDb = async (
+  entityId: string,
+): Promise<EntityTransactionDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `${TRANSACTION_FEED_CTE}
+     SELECT
+       source,
+       source_id,
+       event_type,
+       season,
+       occurred_at,
+       from_team_id,
+       to_team_id,
+       asset_type,
+       fantrax_entity_id,
+       name,
+       position,
+       draft_season,
+       draft_round,
+       draft_original_team_id,
+       trade_source_block_id
+     FROM transaction_feed
+     WHERE fantrax_entity_id = ?
+     ORDER BY occurred_at ASC, source_rank ASC, source_id ASC`,
+    args: [entityId],
+  });
+  return castRows<EntityTransactionRow>(result.rows).map(
+    mapEntityTransactionRow,
+  );
+};
+
+// Player moves in and out of one team during a season, oldest first, for
+// rebuilding the roster over time.
+export const getTeamTransactionRowsFromDb = async (
+  teamId: string,
+  season: number,
+): Promise<EntityTransactionDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `${TRANSACTION_FEED_CTE}
+     SELECT
+       source,
+       source_id,
+       event_type,
+       season,
+       occurred_at,
+       from_team_id,
+       to_team_id,
+       asset_type,
+       fantrax_entity_id,
+       name,
+       position,
+       draft_season,
+       draft_round,
+       draft_original_team_id,
+       trade_source_block_id
+     FROM transaction_feed
+     WHERE season = ?
+       AND (from_team_id = ? OR to_team_id = ?)
+       AND asset_type = 'player'
+     ORDER BY occurred_at ASC, source_rank ASC, source_id ASC`,
+    args: [season, teamId, teamId],
+  });
+  return castRows<EntityTransactionRow>(result.rows).map(
+    mapEntityTransactionRow,
+  );
+};
+
+interface TeamSeasonRosterEntityRow {
+  entity_id: string;
+  name: string;
+  position: string | null;
+}
+
+export type TeamSeasonRosterEntityDbRow = {
+  entityId: string;
+  name: string;
+  position: string | null;
+};
+
+// Everyone with a stats row for the team in the season, regardless of games.
+export const getTeamSeasonRosterEntityRowsFromDb = async (
+  teamId: string,
+  season: number,
+): Promise<TeamSeasonRosterEntityDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `WITH members AS (
+            SELECT player_id AS entity_id
+            FROM players
+            WHERE team_id = ? AND season = ?
+            UNION
+            SELECT goalie_id AS entity_id
+            FROM goalies
+            WHERE team_id = ? AND season = ?
+          )
+          SELECT m.entity_id, fe.name, fe.position
+          FROM members m
+          JOIN fantrax_entities fe ON fe.fantrax_id = m.entity_id
+          ORDER BY fe.name ASC, m.entity_id ASC`,
+    args: [teamId, season, teamId, season],
+  });
+  return castRows<TeamSeasonRosterEntityRow>(result.rows).map((row) => ({
+    entityId: row.entity_id,
+    name: row.name,
+    position: row.position,
+  }));
+};
+
+interface UnresolvedTransactionItemRow {
+  source: "claims" | "trades";
+  source_id: number;
+  event_type: TransactionEventType;
+  season: number;
+  occurred_at: string;
+  from_team_id: string | null;
+  to_team_id: string | null;
+  raw_name: string;
+  raw_position: string | null;
+  match_status: UnresolvedTransactionMatchStatus;
+}
+
+export type UnresolvedTransactionItemDbRow = {
+  id: string;
+  type: TransactionEventType;
+  season: number;
+  occurredAt: string;
+  fromTeamId: string | null;
+  toTeamId: string | null;
+  rawName: string;
+  rawPosition: string | null;
+  matchStatus: UnresolvedTransactionMatchStatus;
+};
+
+export const getUnresolvedTransactionItemRowsFromDb = async (
+  season?: number,
+): Promise<UnresolvedTransactionItemDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `WITH unresolved_items AS (
+            SELECT
+              'claims' AS source,
+              0 AS source_rank,
+              id AS source_id,
+              action_type AS event_type,
+              season,
+              occurred_at,
+              CASE WHEN action_type = 'drop' THEN team_id END AS from_team_id,
+              CASE WHEN action_type = 'claim' THEN team_id END AS to_team_id,
+              raw_name,
+              raw_position,
+              match_status
+            FROM claim_event_items
+            WHERE match_status IN ('unresolved_missing_entity', 'unresolved_ambiguous_entity')
+            UNION ALL
+            SELECT
+              'trades' AS source,
+              1 AS source_rank,
+              tbi.id AS source_id,
+              'trade' AS event_type,
+              tsb.season,
+              tsb.occurred_at,
+              tbi.from_team_id,
+              tbi.to_team_id,
+              tbi.raw_name,
+              tbi.raw_position,
+              tbi.match_status
+            FROM trade_block_items tbi
+            JOIN trade_source_blocks tsb ON tsb.id = tbi.trade_source_block_id
+            WHERE tbi.match_status IN ('unresolved_missing_entity', 'unresolved_ambiguous_entity')
+          )
+          SELECT
+            source,
+            source_id,
+            event_type,
+            season,
+            occurred_at,
+            from_team_id,
+            to_team_id,
+            raw_name,
+            raw_position,
+            match_status
+          FROM unresolved_items
+          ${season === undefined ? "" : "WHERE season = ?"}
+          ORDER BY occurred_at ASC, source_rank ASC, source_id ASC`,
+    args: season === undefined ? [] : [season],
+  });
+  return castRows<UnresolvedTransactionItemRow>(result.rows).map((row) => ({
+    id: `${row.source}:${row.source_id}`,
+    type: row.event_type,
+    season: row.season,
+    occurredAt: row.occurred_at,
+    fromTeamId: row.from_team_id,
+    toTeamId: row.to_team_id,
+    rawName: row.raw_name,
+    rawPosition: row.raw_position,
+    matchStatus: row.match_status,
+  }));
+};
+
+interface FantraxEntityRow {
+  fantrax_id: string;
+  name: string;
+  position: string | null;
+  first_seen_season: number;
+  last_seen_season: number;
+}
+
+export type FantraxEntityDbRow = {
+  id: string;
+  name: string;
+  position: string | null;
+  firstSeenSeason: number;
+  lastSeenSeason: number;
+};
+
+export const getFantraxEntityRowsFromDb = async (): Promise<
+  FantraxEntityDbRow[]
+> => {
+  const db = getDbClient();
+  const result = await db.execute(
+    `SELECT fantrax_id, name, position, first_seen_season, last_seen_season
+     FROM fantrax_entities`,
+  );
+  return castRows<FantraxEntityRow>(result.rows).map((row) => ({
+    id: row.fantrax_id,
+    name: row.name,
+    position: row.position,
+    firstSeenSeason: row.first_seen_season,
+    lastSeenSeason: row.last_seen_season,
+  }));
+};
+
+interface FantraxEntitySearchRow extends FantraxEntityRow {
+  last_team_id: string | null;
+}
+
+export type FantraxEntitySearchDbRow = FantraxEntityDbRow & {
+  lastTeamId: string | null;
+};
+
+// Matches an FTS5 query against entity names, best match first. Within a
+// season the playoff row is the latest one; otherwise the team with the most
+// games counts as the player's most recent team.
+export const searchFantraxEntitiesFromDb = async (
+  matchQuery: string,
+  limit: number,
+): Promise<FantraxEntitySearchDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `WITH matches AS (
+            SELECT fantrax_id, rank
+            FROM fantrax_entities_fts
+            WHERE fantrax_entities_fts MATCH ?
+          )
+          SELECT
+            fe.fantrax_id,
+            fe.name,
+            fe.position,
+            fe.first_seen_season,
+            fe.last_seen_season,
+            (
+              SELECT team_id
+              FROM (
+                SELECT team_id, season, report_type, games
+                FROM players
+                WHERE player_id = fe.fantrax_id
+                UNION ALL
+                SELECT team_id, season, report_type, games
+                FROM goalies
+                WHERE goalie_id = fe.fantrax_id
+              )
+              ORDER BY season DESC,
+                       CASE report_type WHEN 'playoffs' THEN 0 ELSE 1 END ASC,
+                       games DESC,
+                       team_id ASC
+              LIMIT 1
+            ) AS last_team_id
+          FROM matches m
+          JOIN fantrax_entities fe ON fe.fantrax_id = m.fantrax_id
+          ORDER BY m.rank ASC, fe.last_seen_season DESC, fe.name ASC
+          LIMIT ?`,
+    args: [matchQuery, limit],
+  });
+  return castRows<FantraxEntitySearchRow>(result.rows).map((row) => ({
+    id: row.fantrax_id,
+    name: row.name,
+    position: row.position,
+    firstSeenSeason: row.first_seen_season,
+    lastSeenSeason: row.last_seen_season,
+    lastTeamId: row.last_team_id,
+  }));
+};
+
+interface TradeBlockItemRow {
+  trade_source_block_id: number;
+  season: number;
+  occurred_at: string;
+  source_period: number;
+  sequence: number;
+  from_team_id: string;
+  to_team_id: string;
+  asset_type: TransactionAssetType;
+  fantrax_entity_id: string | null;
+  name: string;
+  position: string | null;
+  draft_season: number | null;
+  draft_round: number | null;
+  draft_original_team_id: string | null;
+}
+
+export type TradeBlockItemDbRow = {
+  blockId: number;
+  season: number;
+  occurredAt: string;
+  sourcePeriod: number;
+  sequence: number;
+  fromTeamId: string;
+  toTeamId: string;
+  assetType: TransactionAssetType;
+  entityId: string | null;
+  name: string;
+  position: string | null;
+  draftSeason: number | null;
+  draftRound: number | null;
+  draftOriginalTeamId: string | null;
+};
+
+const mapTradeBlockItemRow = (
+  row: TradeBlockItemRow,
+): TradeBlockItemDbRow => ({
+  blockId: row.trade_source_block_id,
+  season: row.season,
+  occurredAt: row.occurred_at,
+  sourcePeriod: row.source_period,
+  sequence: row.sequence,
+  fromTeamId: row.from_team_id,
+  toTeamId: row.to_team_id,
+  assetType: row.asset_type,
+  entityId: row.fantrax_entity_id,
+  name: row.name,
+  position: row.position,
+  draftSeason: row.draft_season,
+  draftRound: row.draft_round,
+  draftOriginalTeamId: row.draft_original_team_id,
+});
+
+const TRADE_BLOCK_ITEMS_SELECT = `SELECT
+       tsb.id AS trade_source_block_id,
+       tsb.season,
+       tsb.occurred_at,
+       tsb.source_period,
+       tbi.sequence,
+       tbi.from_team_id,
+       tbi.to_team_id,
+       tbi.asset_type,
+       tbi.fantrax_entity_id,
+       COALESCE(fe.name, tbi.raw_name) AS name,
+       COALESCE(fe.position, tbi.raw_position) AS position,
+       tbi.draft_season,
+       tbi.draft_round,
+       tbi.draft_original_team_id
+     FROM trade_source_blocks tsb
+     JOIN trade_block_items tbi ON tbi.trade_source_block_id = tsb.id
+     LEFT JOIN fantrax_entities fe ON fe.fantrax_id = tbi.fantrax_entity_id`;
+
+const TRADE_BLOCK_ITEMS_ORDER = `ORDER BY tsb.occurred_at DESC, tsb.id ASC, tbi.sequence ASC`;
+
+export const getTradeBlockItemRowsFromDb = async (
+  season?: number,
+): Promise<TradeBlockItemDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `${TRADE_BLOCK_ITEMS_SELECT}
+     ${season === undefined ? "" : "WHERE tsb.season = ?"}
+     ${TRADE_BLOCK_ITEMS_ORDER}`,
+    args: season === undefined ? [] : [season],
+  });
+  return castRows<TradeBlockItemRow>(result.rows).map(mapTradeBlockItemRow);
+};
+
+// Returns every block processed together with any of the given blocks, so the
+// caller can rebuild the full (possibly multi-team) trades around them.
+export const getTradeBlockItemRowsForBlocksFromDb = async (
+  blockIds: readonly number[],
+): Promise<TradeBlockItemDbRow[]> => {
+  const db = getDbClient();
+  const result = await db.execute({
+    sql: `${TRADE_BLOCK_ITEMS_SELECT}
+     WHERE EXISTS (
+       SELECT 1
+       FROM trade_source_blocks anchor
+       WHERE anchor.season = tsb.season
+         AND anchor.occurred_at = tsb.occurred_at
+         AND anchor.source_period = tsb.source_period
+         AND anchor.id IN (${blockIds.map(() => "?").join(", ")})
+     )
+     ${TRADE_BLOCK_ITEMS_ORDER}`,
+    args: [...blockIds],
+  });
+  return castRows<TradeBlockItemRow>(result.rows).map(mapTradeBlockItemRow);
+};
+
 type FinalsMatchupRow = {
   season: number;
   home_tiebreak_won: number;
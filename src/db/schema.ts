@@ -1,6 +1,6 @@
 import type { Client } from "@libsql/client";
 
-const DB_SCHEMA_VERSION = "10";
+const DB_SCHEMA_VERSION = "13";
 const FANTRAX_ENTITIES_SCHEMA_VERSION = 5;
 
 const SCHEMA_SQL = [
@@ -65,6 +65,7 @@ const SCHEMA_SQL = [
     owner_team_id TEXT NOT NULL,
     player_name TEXT,
     fantrax_entity_id TEXT,
+    match_confidence REAL,
     UNIQUE(season, pick_number)
   )`,
   `CREATE TABLE IF NOT EXISTS opening_draft_picks (
@@ -75,6 +76,7 @@ const SCHEMA_SQL = [
     owner_team_id TEXT NOT NULL,
     player_name TEXT NOT NULL,
     fantrax_entity_id TEXT,
+    match_confidence REAL,
     UNIQUE(pick_number)
   )`,
   `CREATE INDEX IF NOT EXISTS idx_players_lookup ON players(team_id, season, report_type)`,
@@ -89,6 +91,12 @@ const SCHEMA_SQL = [
     ON fantrax_entities(name)`,
   `CREATE INDEX IF NOT EXISTS idx_fantrax_entities_position
     ON fantrax_entities(position)`,
+  `CREATE VIRTUAL TABLE IF NOT EXISTS fantrax_entities_fts USING fts5(
+    fantrax_id UNINDEXED,
+    name,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+  )`,
   `CREATE INDEX IF NOT EXISTS idx_entry_draft_picks_season
     ON entry_draft_picks(season, pick_number)`,
   `CREATE INDEX IF NOT EXISTS idx_entry_draft_picks_drafted_team
@@ -203,6 +211,7 @@ const SCHEMA_SQL = [
     raw_position      TEXT,
     match_status      TEXT NOT NULL,
     match_strategy    TEXT NOT NULL,
+    match_confidence  REAL,
     UNIQUE(claim_event_id, sequence),
     FOREIGN KEY (claim_event_id) REFERENCES claim_events(id) ON DELETE CASCADE,
     FOREIGN KEY (fantrax_entity_id) REFERENCES fantrax_entities(fantrax_id),
@@ -219,6 +228,8 @@ const SCHEMA_SQL = [
       match_strategy IN (
         'exact_name_position',
         'season_team_context',
+        'manual_override',
+        'fuzzy_name',
         'not_applicable'
       )
     )
@@ -251,6 +262,7 @@ const SCHEMA_SQL = [
     raw_position          TEXT,
     match_status          TEXT NOT NULL,
     match_strategy        TEXT NOT NULL,
+    match_confidence      REAL,
     draft_season          INTEGER,
     draft_round           INTEGER,
     draft_original_team_id TEXT,
@@ -271,6 +283,8 @@ const SCHEMA_SQL = [
       match_strategy IN (
         'exact_name_position',
         'season_team_context',
+        'manual_override',
+        'fuzzy_name',
         'not_applicable'
       )
     )
@@ -385,7 +399,25 @@ const FANTRAX_ENTITIES_BACKFILL_SQL = [
       END`,
 ] as const;
 
+const FANTRAX_ENTITIES_FTS_REBUILD_SQL = [
+  "DELETE FROM fantrax_entities_fts",
+  `INSERT INTO fantrax_entities_fts (fantrax_id, name)
+    SELECT fantrax_id, name FROM fantrax_entities`,
+] as const;
+
+// SQLite cannot alter CHECK constraints, so item tables created before a match
+// strategy existed are rebuilt from the current CREATE TABLE statement.
+const TRANSACTION_MATCH_STRATEGIES = [
+  "exact_name_position",
+  "season_team_context",
+  "manual_override",
+  "fuzzy_name",
+  "not_applicable",
+] as const;
+const TRANSACTION_ITEM_TABLES = ["claim_event_items", "trade_block_items"] as const;
+
 type DbExecutor = Pick<Client, "execute">;
+type DbMigrator = Pick<Client, "execute" | "batch">;
 type TableInfoRow = {
   name?: string | number | bigint | null;
 };
@@ -403,6 +435,18 @@ const getImportMetadataValue = async (
   return row?.value === undefined ? null : String(row.value);
 };
 
+const getTableRowCount = async (
+  db: DbExecutor,
+  tableName: string,
+): Promise<number> => {
+  const result = await db.execute(`SELECT COUNT(*) AS count FROM ${tableName}`);
+  const row = result.rows[0] as unknown as {
+    count: number | string | bigint;
+  };
+
+  return Number(row.count);
+};
+
 const shouldBackfillFantraxEntities = async (
   db: DbExecutor,
 ): Promise<boolean> => {
@@ -414,12 +458,7 @@ const shouldBackfillFantraxEntities = async (
     return true;
   }
 
-  const result = await db.execute("SELECT COUNT(*) AS count FROM fantrax_entities");
-  const row = result.rows[0] as unknown as {
-    count: number | string | bigint;
-  };
-
-  return Number(row.count) === 0;
+  return (await getTableRowCount(db, "fantrax_entities")) === 0;
 };
 
 const getTableColumnNames = async (
@@ -462,11 +501,92 @@ const ensureClaimEventItemColumns = async (db: DbExecutor): Promise<void> => {
   );
 };
 
+const getTableSql = async (
+  db: DbExecutor,
+  tableName: string,
+): Promise<string> => {
+  const result = await db.execute({
+    sql: "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+    args: [tableName],
+  });
+  const row = result.rows[0] as { sql?: string } | undefined;
+
+  return row?.sql ?? "";
+};
+
+/** @internal Test-only export. */
+export const getSchemaCreateTableSql = (tableName: string): string => {
+  const createSql = SCHEMA_SQL.find((sql) =>
+    sql.startsWith(`CREATE TABLE IF NOT EXISTS ${tableName} (`),
+  );
+  if (createSql === undefined) {
+    throw new Error(`No CREATE TABLE statement in the schema for ${tableName}`);
+  }
+
+  return createSql;
+};
+
+const rebuildTransactionItemMatchStrategyChecks = async (
+  db: DbMigrator,
+): Promise<void> => {
+  let rebuilt = false;
+
+  for (const tableName of TRANSACTION_ITEM_TABLES) {
+    const tableSql = await getTableSql(db, tableName);
+    if (
+      !tableSql.includes("match_strategy IN (") ||
+      TRANSACTION_MATCH_STRATEGIES.every((strategy) =>
+        tableSql.includes(`'${strategy}'`),
+      )
+    ) {
+      continue;
+    }
+
+    const createSql = getSchemaCreateTableSql(tableName);
+    const columns = [...(await getTableColumnNames(db, tableName))].join(", ");
+    const rebuildTableName = `${tableName}_rebuild`;
+
+    // One write batch, so a failure part-way never leaves the table dropped.
+    await db.batch(
+      [
+        createSql.replace(`${tableName} (`, `${rebuildTableName} (`),
+        `INSERT INTO ${rebuildTableName} (${columns}) SELECT ${columns} FROM ${tableName}`,
+        `DROP TABLE ${tableName}`,
+        `ALTER TABLE ${rebuildTableName} RENAME TO ${tableName}`,
+      ],
+      "write",
+    );
+    rebuilt = true;
+  }
+
+  if (rebuilt) {
+    for (const sql of SCHEMA_SQL) {
+      if (sql.startsWith("CREATE INDEX")) {
+        await db.execute(sql);
+      }
+    }
+  }
+};
+
+const ensureTransactionItemMatchConfidenceColumns = async (
+  db: DbExecutor,
+): Promise<void> => {
+  for (const tableName of TRANSACTION_ITEM_TABLES) {
+    const columnNames = await getTableColumnNames(db, tableName);
+    if (!columnNames.has("match_confidence")) {
+      await db.execute(`ALTER TABLE ${tableName} ADD COLUMN match_confidence REAL`);
+    }
+  }
+};
+
 const ensureDraftPickEntityColumns = async (db: DbExecutor): Promise<void> => {
   const entryColumnNames = await getTableColumnNames(db, "entry_draft_picks");
   if (!entryColumnNames.has("fantrax_entity_id")) {
     await db.execute("ALTER TABLE entry_draft_picks ADD COLUMN fantrax_entity_id TEXT");
   }
+  if (!entryColumnNames.has("match_confidence")) {
+    await db.execute("ALTER TABLE entry_draft_picks ADD COLUMN match_confidence REAL");
+  }
 
   await db.execute(
     `CREATE INDEX IF NOT EXISTS idx_entry_draft_picks_entity
@@ -477,6 +597,9 @@ const ensureDraftPickEntityColumns = async (db: DbExecutor): Promise<void> => {
   if (!openingColumnNames.has("fantrax_entity_id")) {
     await db.execute("ALTER TABLE opening_draft_picks ADD COLUMN fantrax_entity_id TEXT");
   }
+  if (!openingColumnNames.has("match_confidence")) {
+    await db.execute("ALTER TABLE opening_draft_picks ADD COLUMN match_confidence REAL");
+  }
 
   await db.execute(
     `CREATE INDEX IF NOT EXISTS idx_opening_draft_picks_entity
@@ -484,20 +607,35 @@ const ensureDraftPickEntityColumns = async (db: DbExecutor): Promise<void> => {
   );
 };
 
-export const migrateDb = async (db: DbExecutor): Promise<void> => {
+export const migrateDb = async (db: DbMigrator): Promise<void> => {
   for (const sql of SCHEMA_SQL) {
     await db.execute(sql);
   }
 
+  await rebuildTransactionItemMatchStrategyChecks(db);
+  await ensureTransactionItemMatchConfidenceColumns(db);
   await ensureClaimEventItemColumns(db);
   await ensureDraftPickEntityColumns(db);
 
-  if (await shouldBackfillFantraxEntities(db)) {
+  const backfillEntities = await shouldBackfillFantraxEntities(db);
+  if (backfillEntities) {
     for (const sql of FANTRAX_ENTITIES_BACKFILL_SQL) {
       await db.execute(sql);
     }
   }
 
+  // The entity upserts keep the search index in sync after this, so it only
+  // needs a rebuild when it is new or the entities were backfilled.
+  if (
+    backfillEntities ||
+    (await getTableRowCount(db, "fantrax_entities_fts")) !==
+      (await getTableRowCount(db, "fantrax_entities"))
+  ) {
+    for (const sql of FANTRAX_ENTITIES_FTS_REBUILD_SQL) {
+      await db.execute(sql);
+    }
+  }
+
   await db.execute({
     sql: "INSERT OR REPLACE INTO import_metadata (key, value) VALUES (?, ?)",
     args: ["schema_version", DB_SCHEMA_VERSION],
@@ -1,37 +1,65 @@
-import type { RouteHandler } from "../../shared/router.js";
+import type { RouteHandler, RouteRequest } from "../../shared/router.js";
 import {
   getCareerGoaliesData,
   getCareerHighlightsData,
+  getCareerMilestonesData,
   getCareerPlayersData,
+  getGoalieComparisonData,
   getGoalieCareerData,
   getPlayerCareerData,
+  getPlayerComparisonData,
+  getPlayerProgressionData,
+  getSimilarGoaliesData,
+  getSimilarPlayersData,
 } from "./service.js";
 import {
   CAREER_HIGHLIGHT_CONFIG,
   CAREER_HIGHLIGHT_TYPES,
+  CAREER_MILESTONE_TYPES,
   DEFAULT_CAREER_HIGHLIGHT_SKIP,
   DEFAULT_CAREER_HIGHLIGHT_TAKE,
+  DEFAULT_CAREER_MILESTONE_SKIP,
+  DEFAULT_CAREER_MILESTONE_TAKE,
+  DEFAULT_SIMILAR_LIMIT,
+  MAX_CAREER_COMPARE_IDS,
   MAX_CAREER_HIGHLIGHT_TAKE,
+  MAX_CAREER_MILESTONE_TAKE,
+  MAX_SIMILAR_LIMIT,
 } from "../../config/index.js";
 import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
 import {
   getCareerGoaliesSnapshotKey,
   getCareerHighlightsSnapshotKey,
+  getCareerMilestonesSnapshotKey,
   getCareerPlayersSnapshotKey,
 } from "../../infra/snapshots/store.js";
 import {
   getQueryParam,
   loadSnapshotOrFallback,
+  parseIntegerParam,
+  parseSeasonFilter,
   sendNoStore,
   withErrorHandlingCached,
 } from "../../shared/route-utils.js";
-import type { CareerHighlightType } from "./types.js";
+import { reportTypeAvailable } from "../../shared/seasons.js";
+import type { Report } from "../../shared/types/index.js";
+import type {
+  CareerCompareOptions,
+  CareerHighlightType,
+  CareerMilestoneType,
+  CareerMilestonesPage,
+} from "./types.js";
 
 const isCareerHighlightType = (
   value: string,
 ): value is CareerHighlightType =>
   CAREER_HIGHLIGHT_TYPES.includes(value as CareerHighlightType);
 
+const isCareerMilestoneType = (
+  value: string,
+): value is CareerMilestoneType =>
+  CAREER_MILESTONE_TYPES.includes(value as CareerMilestoneType);
+
 const parsePagingParam = (
   value: string | undefined,
 ): number | null | undefined => {
@@ -42,16 +70,131 @@ const parsePagingParam = (
   return Number.isSafeInteger(parsed) ? parsed : null;
 };
 
+// Only `rates` can be included for now; it adds per-game rates to the totals.
+const parseIncludeRates = (value: string | undefined): boolean | null => {
+  if (value === undefined) return false;
+  return value === "rates" ? true : null;
+};
+
+// Comparing needs at least two distinct ids.
+const parseCompareIds = (value: string | undefined): string[] | null => {
+  if (value === undefined) return null;
+
+  const ids = [...new Set(value.split(",").map((id) => id.trim()))];
+  return ids.length >= 2 &&
+    ids.length <= MAX_CAREER_COMPARE_IDS &&
+    ids.every((id) => id !== "")
+    ? ids
+    : null;
+};
+
+type SimilarParams =
+  | { season: number | undefined; limit: number }
+  | { error: string };
+
+// Without a season the whole regular season career is compared.
+const parseSimilarParams = (req: RouteRequest): SimilarParams => {
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null) return { error: ERROR_MESSAGES.SEASON_NOT_AVAILABLE };
+
+  const limit = parseIntegerParam(getQueryParam(req, "limit"));
+  if (
+    limit === null ||
+    (limit !== undefined && (limit < 1 || limit > MAX_SIMILAR_LIMIT))
+  ) {
+    return { error: ERROR_MESSAGES.INVALID_PAGING_PARAMS };
+  }
+
+  return { season, limit: limit ?? DEFAULT_SIMILAR_LIMIT };
+};
+
+type CompareParams =
+  | { ids: string[]; options: CareerCompareOptions }
+  | { error: string };
+
+const parseCompareParams = (req: RouteRequest): CompareParams => {
+  const ids = parseCompareIds(getQueryParam(req, "ids"));
+  if (!ids) return { error: ERROR_MESSAGES.INVALID_COMPARE_IDS };
+
+  const reportType = (getQueryParam(req, "reportType") ?? "regular") as Report;
+  if (!reportTypeAvailable(reportType)) {
+    return { error: ERROR_MESSAGES.INVALID_REPORT_TYPE };
+  }
+
+  const startFrom = parseSeasonFilter(getQueryParam(req, "startFrom"));
+  const endAt = parseSeasonFilter(getQueryParam(req, "endAt"));
+  if (startFrom === null || endAt === null) {
+    return { error: ERROR_MESSAGES.SEASON_NOT_AVAILABLE };
+  }
+  if (startFrom !== undefined && endAt !== undefined && startFrom > endAt) {
+    return { error: ERROR_MESSAGES.INVALID_SEASON_RANGE };
+  }
+
+  return { ids, options: { reportType, startFrom, endAt } };
+};
+
 export const getCareerPlayer: RouteHandler<{ id: string }> = async (req, res) => {
+  const includeRates = parseIncludeRates(getQueryParam(req, "include"));
+  if (includeRates === null) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_INCLUDE);
+    return;
+  }
+
   await withErrorHandlingCached(req, res, async () => ({
-    data: await getPlayerCareerData(req.params.id),
+    data: await getPlayerCareerData(req.params.id, includeRates),
     dataSource: "db",
   }));
 };
 
 export const getCareerGoalie: RouteHandler<{ id: string }> = async (req, res) => {
+  const includeRates = parseIncludeRates(getQueryParam(req, "include"));
+  if (includeRates === null) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_INCLUDE);
+    return;
+  }
+
   await withErrorHandlingCached(req, res, async () => ({
-    data: await getGoalieCareerData(req.params.id),
+    data: await getGoalieCareerData(req.params.id, includeRates),
+    dataSource: "db",
+  }));
+};
+
+export const getSimilarPlayers: RouteHandler<{ id: string }> = async (
+  req,
+  res,
+) => {
+  const params = parseSimilarParams(req);
+  if ("error" in params) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, params.error);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getSimilarPlayersData(
+      req.params.id,
+      params.season,
+      params.limit,
+    ),
+    dataSource: "db",
+  }));
+};
+
+export const getSimilarGoalies: RouteHandler<{ id: string }> = async (
+  req,
+  res,
+) => {
+  const params = parseSimilarParams(req);
+  if ("error" in params) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, params.error);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getSimilarGoaliesData(
+      req.params.id,
+      params.season,
+      params.limit,
+    ),
     dataSource: "db",
   }));
 };
@@ -125,3 +268,106 @@ export const getCareerHighlights: RouteHandler<{ type: string }> = async (
     };
   });
 };
+
+export const getComparePlayers: RouteHandler = async (req, res) => {
+  const params = parseCompareParams(req);
+  if ("error" in params) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, params.error);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getPlayerComparisonData(params.ids, params.options),
+    dataSource: "db",
+  }));
+};
+
+export const getCompareGoalies: RouteHandler = async (req, res) => {
+  const params = parseCompareParams(req);
+  if ("error" in params) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, params.error);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getGoalieComparisonData(params.ids, params.options),
+    dataSource: "db",
+  }));
+};
+
+export const getPlayersProgression: RouteHandler = async (req, res) => {
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null || season === undefined) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getPlayerProgressionData(season),
+    dataSource: "db",
+  }));
+};
+
+export const getCareerMilestones: RouteHandler = async (req, res) => {
+  const rawType = getQueryParam(req, "type");
+  if (rawType !== undefined && !isCareerMilestoneType(rawType)) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_CAREER_MILESTONE_TYPE,
+    );
+    return;
+  }
+
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  const skip = parsePagingParam(getQueryParam(req, "skip"));
+  const take = parsePagingParam(getQueryParam(req, "take"));
+  if (
+    skip === null ||
+    take === null ||
+    (take !== undefined && take > MAX_CAREER_MILESTONE_TAKE)
+  ) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+    );
+    return;
+  }
+
+  const resolvedSkip = skip ?? DEFAULT_CAREER_MILESTONE_SKIP;
+  const resolvedTake = take ?? DEFAULT_CAREER_MILESTONE_TAKE;
+
+  await withErrorHandlingCached(req, res, async () => {
+    const result = await loadSnapshotOrFallback(
+      getCareerMilestonesSnapshotKey(),
+      () => getCareerMilestonesData(),
+    );
+    const milestones = result.data.filter(
+      (item) =>
+        (rawType === undefined || item.type === rawType) &&
+        (season === undefined || item.season === season),
+    );
+    const page: CareerMilestonesPage = {
+      skip: resolvedSkip,
+      take: resolvedTake,
+      total: milestones.length,
+      items: milestones.slice(resolvedSkip, resolvedSkip + resolvedTake),
+    };
+
+    return { data: page, dataSource: result.dataSource };
+  });
+};
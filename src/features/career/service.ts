@@ -1,17 +1,33 @@
 import type {
+  CareerCompareOptions,
+  CareerCompareScore,
+  CareerFranchisePointsHighlightItem,
+  CareerGoalieComparisonResponse,
   CareerGoalieListItem,
   CareerGoalieResponse,
   CareerGoalieSeasonRow,
+  CareerGoalieTotals,
   CareerHighlightTeam,
   CareerHighlightType,
+  CareerIronManHighlightItem,
+  CareerMilestone,
+  CareerMilestoneFeedItem,
+  CareerMilestoneStat,
+  CareerOneSeasonWonderHighlightItem,
+  CareerPlayerComparisonResponse,
   CareerPlayerListItem,
   CareerPlayerResponse,
   CareerPlayerSeasonRow,
+  CareerPlayerTotals,
+  CareerPlayoffPointsHighlightItem,
   CareerRegularGrinderHighlightItem,
   CareerReunionHighlightItem,
   CareerReunionHighlightReunion,
   CareerReunionType,
   CareerSameTeamHighlightItem,
+  CareerSimilarItem,
+  CareerSimilarProfile,
+  CareerSimilarResponse,
   CareerStanleyCupHighlightCup,
   CareerStanleyCupHighlightItem,
   CareerStashHighlightItem,
@@ -19,9 +35,23 @@ import type {
   CareerTransactionHighlightItem,
   CareerTransactionHighlightTeam,
   CountSplit,
+  PlayerProgressionEntry,
+  PlayerProgressionResponse,
+  PlayerProgressionSeason,
+  PlayerProgressionStatus,
 } from "./types.js";
 import type { CsvReport } from "../../shared/types/core.js";
-import { CAREER_HIGHLIGHT_CONFIG, TEAMS } from "../../config/index.js";
+import {
+  CAREER_HIGHLIGHT_CONFIG,
+  CAREER_MILESTONE_CONFIG,
+  CAREER_MILESTONE_TYPES,
+  PROGRESSION_BREAKOUT_SCORE_DELTA,
+  PROGRESSION_DECLINE_SCORE_DELTA,
+  PROGRESSION_LIST_SIZE,
+  PROGRESSION_MIN_GAMES,
+  SIMILAR_MIN_GAMES,
+  TEAMS,
+} from "../../config/index.js";
 import {
   getAllGoalieCareerRowsFromDb,
   getAllPlayerCareerRowsFromDb,
@@ -29,6 +59,7 @@ import {
   getDropTransactionHighlightRowsFromDb,
   getGoalieCareerRowsFromDb,
   getPlayerCareerRowsFromDb,
+  getPlayerSeasonPoolRowsFromDb,
   getPlayoffSeasons,
   getReunionTransactionHighlightRowsFromDb,
   getTradeTransactionHighlightRowsFromDb,
@@ -38,9 +69,19 @@ import {
   type PlayerCareerRow,
 } from "../../db/queries.js";
 import {
+  aggregateGoalieGaa,
+  aggregateGoalieSavePercent,
   formatOptionalGoalieGaa,
   formatOptionalGoalieSavePercent,
 } from "../../shared/goalie-rates.js";
+import {
+  GOALIE_RATE_FIELDS,
+  PLAYER_RATE_FIELDS,
+  getPerGameRates,
+} from "../stats/rates.js";
+import { applyGoalieScores, applyPlayerScores } from "../stats/scoring.js";
+import type { Goalie, Player } from "../stats/types.js";
+import { getEntityTransactionTimelineData } from "../transactions/service.js";
 
 type CareerScope = "career" | CsvReport;
 
@@ -58,6 +99,7 @@ type CareerHighlightRow = {
   season: number;
   reportType: CsvReport;
   games: number;
+  points: number;
 };
 
 type CareerTransactionHighlightRow = {
@@ -311,6 +353,20 @@ const buildPlayerTotalsForScope = (
   };
 };
 
+// Career totals carry the same formatted rate strings as the season rows.
+const formatAggregatedGoalieRates = (
+  rows: readonly CareerGoalieSeasonRow[],
+): Pick<CareerGoalieTotals, "gaa" | "savePercent"> => {
+  const games = rows.reduce((sum, row) => sum + row.games, 0);
+  return {
+    gaa: formatOptionalGoalieGaa(aggregateGoalieGaa(rows), games),
+    savePercent: formatOptionalGoalieSavePercent(
+      aggregateGoalieSavePercent(rows),
+      games,
+    ),
+  };
+};
+
 const buildGoalieTotalsForScope = (
   rows: readonly CareerGoalieSeasonRow[],
   scope: CareerScope,
@@ -344,6 +400,7 @@ const buildGoalieTotalsForScope = (
         penalties: teamRows.reduce((sum, row) => sum + row.penalties, 0),
         ppp: teamRows.reduce((sum, row) => sum + row.ppp, 0),
         shp: teamRows.reduce((sum, row) => sum + row.shp, 0),
+        ...formatAggregatedGoalieRates(teamRows),
       })),
     ),
     games: scopedRows.reduce((sum, row) => sum + row.games, 0),
@@ -356,6 +413,7 @@ const buildGoalieTotalsForScope = (
     penalties: scopedRows.reduce((sum, row) => sum + row.penalties, 0),
     ppp: scopedRows.reduce((sum, row) => sum + row.ppp, 0),
     shp: scopedRows.reduce((sum, row) => sum + row.shp, 0),
+    ...formatAggregatedGoalieRates(scopedRows),
   };
 };
 
@@ -468,6 +526,7 @@ const mapPlayerCareerHighlightRows = (
     season: row.season,
     reportType: row.report_type,
     games: row.games,
+    points: row.points,
   }));
 
 const mapGoalieCareerHighlightRows = (
@@ -482,6 +541,7 @@ const mapGoalieCareerHighlightRows = (
     season: row.season,
     reportType: row.report_type,
     games: row.games,
+    points: row.points,
   }));
 
 const groupCareerHighlightRows = (
@@ -898,6 +958,151 @@ const buildCareerTransactionHighlightItem = (
   };
 };
 
+const buildCareerFranchisePointsHighlightItems = (
+  rows: readonly CareerHighlightRow[],
+  minPoints: number,
+): CareerFranchisePointsHighlightItem[] => {
+  const pointsByTeam = new Map<string, number>();
+  for (const row of rows) {
+    if (row.reportType !== "regular") continue;
+
+    pointsByTeam.set(
+      row.teamId,
+      (pointsByTeam.get(row.teamId) ?? 0) + row.points,
+    );
+  }
+
+  const maxPoints = Math.max(0, ...pointsByTeam.values());
+  if (maxPoints < minPoints) {
+    return [];
+  }
+
+  return [...pointsByTeam.entries()]
+    .filter(([, points]) => points === maxPoints)
+    .map(([teamId]) => ({
+      id: rows[0].id,
+      name: rows[0].name,
+      position: rows[0].position,
+      points: maxPoints,
+      team: {
+        id: teamId,
+        name: getTeamName(teamId),
+      },
+    }))
+    .sort((left, right) => left.team.name.localeCompare(right.team.name));
+};
+
+const buildCareerPlayoffPointsHighlightItem = (
+  rows: readonly CareerHighlightRow[],
+  minPoints: number,
+): CareerPlayoffPointsHighlightItem | null => {
+  const playoffPlayedRows = rows.filter(
+    (row) => row.reportType === "playoffs" && row.games > 0,
+  );
+  const points = playoffPlayedRows.reduce((sum, row) => sum + row.points, 0);
+  if (points < minPoints) {
+    return null;
+  }
+
+  return {
+    id: rows[0].id,
+    name: rows[0].name,
+    position: rows[0].position,
+    points,
+    teams: buildCareerHighlightTeams(playoffPlayedRows),
+  };
+};
+
+// The longest run of back-to-back seasons with regular season games. Equal
+// runs resolve to the latest one.
+const buildCareerIronManHighlightItem = (
+  rows: readonly CareerHighlightRow[],
+  minSeasonCount: number,
+): CareerIronManHighlightItem | null => {
+  const regularPlayedRows = rows.filter(
+    (row) => row.reportType === "regular" && row.games > 0,
+  );
+  const seasons = [...new Set(regularPlayedRows.map((row) => row.season))].sort(
+    (left, right) => left - right,
+  );
+
+  let streak = { startSeason: 0, endSeason: -1 };
+  let startSeason = 0;
+  seasons.forEach((season, index) => {
+    if (index === 0 || season !== seasons[index - 1] + 1) {
+      startSeason = season;
+    }
+    if (season - startSeason >= streak.endSeason - streak.startSeason) {
+      streak = { startSeason, endSeason: season };
+    }
+  });
+
+  const seasonCount = streak.endSeason - streak.startSeason + 1;
+  if (seasonCount < minSeasonCount) {
+    return null;
+  }
+
+  return {
+    id: rows[0].id,
+    name: rows[0].name,
+    position: rows[0].position,
+    seasonCount,
+    ...streak,
+    teams: buildCareerHighlightTeams(
+      regularPlayedRows.filter(
+        (row) =>
+          row.season >= streak.startSeason && row.season <= streak.endSeason,
+      ),
+    ),
+  };
+};
+
+const buildCareerOneSeasonWonderHighlightItems = (
+  rows: readonly CareerHighlightRow[],
+  seasonScores: ReadonlyMap<string, ReadonlyMap<number, Player>>,
+  minScore: number,
+): CareerOneSeasonWonderHighlightItem[] => {
+  if (rows[0].source !== "player") {
+    return [];
+  }
+
+  const seasonsByTeam = new Map<string, Set<number>>();
+  for (const row of rows) {
+    if (row.reportType !== "regular" || row.games <= 0) continue;
+
+    const seasons = seasonsByTeam.get(row.teamId);
+    if (seasons) {
+      seasons.add(row.season);
+    } else {
+      seasonsByTeam.set(row.teamId, new Set([row.season]));
+    }
+  }
+
+  return [...seasonsByTeam.entries()]
+    .flatMap(([teamId, seasons]): CareerOneSeasonWonderHighlightItem[] => {
+      if (seasons.size !== 1) return [];
+
+      const [season] = seasons;
+      const score = seasonScores.get(rows[0].id)?.get(season)?.score;
+      if (score === undefined || score < minScore) return [];
+
+      return [
+        {
+          id: rows[0].id,
+          name: rows[0].name,
+          position: rows[0].position,
+          score,
+          season,
+          team: {
+            id: teamId,
+            name: getTeamName(teamId),
+          },
+        },
+      ];
+    })
+    .sort((left, right) => left.team.name.localeCompare(right.team.name));
+};
+
 const sortCareerTeamCountHighlightItems = (
   items: readonly CareerTeamCountHighlightItem[],
 ): CareerTeamCountHighlightItem[] =>
@@ -990,6 +1195,52 @@ const sortCareerTransactionHighlightItems = (
         compareCareerHighlightIdentity(left, right),
     );
 
+const sortCareerFranchisePointsHighlightItems = (
+  items: readonly CareerFranchisePointsHighlightItem[],
+): CareerFranchisePointsHighlightItem[] =>
+  items
+    .slice()
+    .sort(
+      (left, right) =>
+        right.points - left.points ||
+        compareCareerHighlightIdentity(left, right) ||
+        left.team.name.localeCompare(right.team.name),
+    );
+
+const sortCareerPlayoffPointsHighlightItems = (
+  items: readonly CareerPlayoffPointsHighlightItem[],
+): CareerPlayoffPointsHighlightItem[] =>
+  items
+    .slice()
+    .sort(
+      (left, right) =>
+        right.points - left.points ||
+        compareCareerHighlightIdentity(left, right),
+    );
+
+const sortCareerIronManHighlightItems = (
+  items: readonly CareerIronManHighlightItem[],
+): CareerIronManHighlightItem[] =>
+  items
+    .slice()
+    .sort(
+      (left, right) =>
+        right.seasonCount - left.seasonCount ||
+        compareCareerHighlightIdentity(left, right),
+    );
+
+const sortCareerOneSeasonWonderHighlightItems = (
+  items: readonly CareerOneSeasonWonderHighlightItem[],
+): CareerOneSeasonWonderHighlightItem[] =>
+  items
+    .slice()
+    .sort(
+      (left, right) =>
+        right.score - left.score ||
+        compareCareerHighlightIdentity(left, right) ||
+        left.team.name.localeCompare(right.team.name),
+    );
+
 const CAREER_TRANSACTION_HIGHLIGHT_LOADERS = {
   claim: getClaimTransactionHighlightRowsFromDb,
   drop: getDropTransactionHighlightRowsFromDb,
@@ -1007,8 +1258,31 @@ const getCareerReunionHighlightRows = async (): Promise<
   CareerReunionHighlightRow[]
 > => mapCareerReunionHighlightRows(await getReunionTransactionHighlightRowsFromDb());
 
+const withPlayerTotalsRates = (
+  totals: CareerPlayerTotals,
+): CareerPlayerTotals => ({
+  ...totals,
+  teams: totals.teams.map((team) => ({
+    ...team,
+    rates: getPerGameRates(team, PLAYER_RATE_FIELDS),
+  })),
+  rates: getPerGameRates(totals, PLAYER_RATE_FIELDS),
+});
+
+const withGoalieTotalsRates = (
+  totals: CareerGoalieTotals,
+): CareerGoalieTotals => ({
+  ...totals,
+  teams: totals.teams.map((team) => ({
+    ...team,
+    rates: getPerGameRates(team, GOALIE_RATE_FIELDS),
+  })),
+  rates: getPerGameRates(totals, GOALIE_RATE_FIELDS),
+});
+
 export const getPlayerCareerData = async (
   playerId: string,
+  includeRates = false,
 ): Promise<CareerPlayerResponse> => {
   const rows = await getPlayerCareerRowsFromDb(playerId);
   if (!rows.length) {
@@ -1016,22 +1290,34 @@ export const getPlayerCareerData = async (
   }
 
   const seasons = mapPlayerCareerSeasonRows(rows);
+  const withRates = (totals: CareerPlayerTotals) =>
+    includeRates ? withPlayerTotalsRates(totals) : totals;
+  const progression = getPlayerProgressionById(
+    await getPlayerSeasonPoolRowsFromDb(playerId),
+  );
   return {
     id: playerId,
     name: rows[0].name,
     position: requirePlayerPosition(rows.find((row) => row.position)?.position),
     summary: buildCareerSummary(seasons),
     totals: {
-      career: buildPlayerTotalsForScope(seasons, "career"),
-      regular: buildPlayerTotalsForScope(seasons, "regular"),
-      playoffs: buildPlayerTotalsForScope(seasons, "playoffs"),
+      career: withRates(buildPlayerTotalsForScope(seasons, "career")),
+      regular: withRates(buildPlayerTotalsForScope(seasons, "regular")),
+      playoffs: withRates(buildPlayerTotalsForScope(seasons, "playoffs")),
     },
     seasons,
+    progression: progression.get(playerId) ?? [],
+    milestones: detectCareerMilestones(
+      "players",
+      rows.map(toPlayerMilestoneRow),
+    ),
+    transactions: await getEntityTransactionTimelineData(playerId),
   };
 };
 
 export const getGoalieCareerData = async (
   goalieId: string,
+  includeRates = false,
 ): Promise<CareerGoalieResponse> => {
   const rows = await getGoalieCareerRowsFromDb(goalieId);
   if (!rows.length) {
@@ -1039,19 +1325,686 @@ export const getGoalieCareerData = async (
   }
 
   const seasons = mapGoalieCareerSeasonRows(rows);
+  const withRates = (totals: CareerGoalieTotals) =>
+    includeRates ? withGoalieTotalsRates(totals) : totals;
   return {
     id: goalieId,
     name: rows[0].name,
     summary: buildCareerSummary(seasons),
     totals: {
-      career: buildGoalieTotalsForScope(seasons, "career"),
-      regular: buildGoalieTotalsForScope(seasons, "regular"),
-      playoffs: buildGoalieTotalsForScope(seasons, "playoffs"),
+      career: withRates(buildGoalieTotalsForScope(seasons, "career")),
+      regular: withRates(buildGoalieTotalsForScope(seasons, "regular")),
+      playoffs: withRates(buildGoalieTotalsForScope(seasons, "playoffs")),
     },
     seasons,
+    milestones: detectCareerMilestones(
+      "goalies",
+      rows.map(toGoalieMilestoneRow),
+    ),
+    transactions: await getEntityTransactionTimelineData(goalieId),
   };
 };
 
+const isRowInComparison = (
+  row: { report_type: CsvReport; season: number },
+  { reportType, startFrom, endAt }: CareerCompareOptions,
+): boolean =>
+  (reportType === "both" || row.report_type === reportType) &&
+  (startFrom === undefined || row.season >= startFrom) &&
+  (endAt === undefined || row.season <= endAt);
+
+// Totals carry every stat field the scoring functions read.
+const toScoringPlayer = (id: string, totals: CareerPlayerTotals): Player => ({
+  ...totals,
+  id,
+  name: id,
+  score: 0,
+  scoreAdjustedByGames: 0,
+});
+
+// Scores stay on the counting stats, so the aggregated rates are left out.
+const toScoringGoalie = (
+  id: string,
+  { gaa: _gaa, savePercent: _savePercent, ...totals }: CareerGoalieTotals,
+): Goalie => ({
+  ...totals,
+  id,
+  name: id,
+  score: 0,
+  scoreAdjustedByGames: 0,
+});
+
+const createCompareScore = (
+  setValue: number,
+  leagueValue: number | undefined,
+): CareerCompareScore => ({ set: setValue, league: leagueValue ?? 0 });
+
+const getLeaguePlayerScores = async (
+  options: CareerCompareOptions,
+): Promise<Map<string, Player>> => {
+  const rows = (await getAllPlayerCareerRowsFromDb()).filter((row) =>
+    isRowInComparison(row, options),
+  );
+  const grouped = groupCareerRowsById(
+    rows.map((row) => ({ ...row, id: row.player_id })),
+  );
+  const pool = applyPlayerScores(
+    [...grouped.entries()].map(([id, playerRows]) =>
+      toScoringPlayer(
+        id,
+        buildPlayerTotalsForScope(mapPlayerCareerSeasonRows(playerRows), "career"),
+      ),
+    ),
+  );
+  return new Map(pool.map((player) => [player.id, player]));
+};
+
+const getLeagueGoalieScores = async (
+  options: CareerCompareOptions,
+): Promise<Map<string, Goalie>> => {
+  const rows = (await getAllGoalieCareerRowsFromDb()).filter((row) =>
+    isRowInComparison(row, options),
+  );
+  const grouped = groupCareerRowsById(
+    rows.map((row) => ({ ...row, id: row.goalie_id })),
+  );
+  const pool = applyGoalieScores(
+    [...grouped.entries()].map(([id, goalieRows]) =>
+      toScoringGoalie(
+        id,
+        buildGoalieTotalsForScope(mapGoalieCareerSeasonRows(goalieRows), "career"),
+      ),
+    ),
+  );
+  return new Map(pool.map((goalie) => [goalie.id, goalie]));
+};
+
+export const getPlayerComparisonData = async (
+  playerIds: readonly string[],
+  options: CareerCompareOptions,
+): Promise<CareerPlayerComparisonResponse> => {
+  const [careerRows, league] = await Promise.all([
+    Promise.all(playerIds.map((id) => getPlayerCareerRowsFromDb(id))),
+    getLeaguePlayerScores(options),
+  ]);
+  if (careerRows.some((rows) => !rows.length)) {
+    throw createNotFoundError("Player not found");
+  }
+
+  const players = careerRows.map((rows, index) => {
+    const seasons = mapPlayerCareerSeasonRows(
+      rows.filter((row) => isRowInComparison(row, options)),
+    );
+    return {
+      id: playerIds[index],
+      name: rows[0].name,
+      position: requirePlayerPosition(rows.find((row) => row.position)?.position),
+      totals: withPlayerTotalsRates(buildPlayerTotalsForScope(seasons, "career")),
+      seasons,
+    };
+  });
+  const scored = applyPlayerScores(
+    players.map((player) => toScoringPlayer(player.id, player.totals)),
+  );
+
+  return {
+    reportType: options.reportType,
+    startFrom: options.startFrom ?? null,
+    endAt: options.endAt ?? null,
+    players: players.map(({ totals, seasons, ...player }, index) => ({
+      ...player,
+      score: createCompareScore(
+        scored[index].score,
+        league.get(player.id)?.score,
+      ),
+      scoreAdjustedByGames: createCompareScore(
+        scored[index].scoreAdjustedByGames,
+        league.get(player.id)?.scoreAdjustedByGames,
+      ),
+      totals,
+      seasons,
+    })),
+  };
+};
+
+export const getGoalieComparisonData = async (
+  goalieIds: readonly string[],
+  options: CareerCompareOptions,
+): Promise<CareerGoalieComparisonResponse> => {
+  const [careerRows, league] = await Promise.all([
+    Promise.all(goalieIds.map((id) => getGoalieCareerRowsFromDb(id))),
+    getLeagueGoalieScores(options),
+  ]);
+  if (careerRows.some((rows) => !rows.length)) {
+    throw createNotFoundError("Goalie not found");
+  }
+
+  const goalies = careerRows.map((rows, index) => {
+    const seasons = mapGoalieCareerSeasonRows(
+      rows.filter((row) => isRowInComparison(row, options)),
+    );
+    return {
+      id: goalieIds[index],
+      name: rows[0].name,
+      totals: withGoalieTotalsRates(buildGoalieTotalsForScope(seasons, "career")),
+      seasons,
+    };
+  });
+  const scored = applyGoalieScores(
+    goalies.map((goalie) => toScoringGoalie(goalie.id, goalie.totals)),
+  );
+
+  return {
+    reportType: options.reportType,
+    startFrom: options.startFrom ?? null,
+    endAt: options.endAt ?? null,
+    goalies: goalies.map(({ totals, seasons, ...goalie }, index) => ({
+      ...goalie,
+      score: createCompareScore(
+        scored[index].score,
+        league.get(goalie.id)?.score,
+      ),
+      scoreAdjustedByGames: createCompareScore(
+        scored[index].scoreAdjustedByGames,
+        league.get(goalie.id)?.scoreAdjustedByGames,
+      ),
+      totals,
+      seasons,
+    })),
+  };
+};
+
+const isRowInSimilarScope = (
+  row: { season: number },
+  season: number | undefined,
+): boolean => season === undefined || row.season === season;
+
+const toSimilarProfile = (
+  id: string,
+  name: string,
+  position: string,
+  totals: CareerPlayerTotals | CareerGoalieTotals,
+  fields: readonly string[],
+): CareerSimilarProfile => ({
+  id,
+  name,
+  position,
+  games: totals.games,
+  rates: getPerGameRates(totals, fields),
+});
+
+// Every per-game rate is min-max normalized over the candidate pool so that
+// high-volume categories like shots or saves don't drown out the rest.
+// Similarity is 100 minus the root mean square distance between the
+// normalized profiles, as a percentage.
+const rankSimilarProfiles = (
+  target: CareerSimilarProfile,
+  candidates: readonly CareerSimilarProfile[],
+  fields: readonly string[],
+  limit: number,
+): CareerSimilarItem[] => {
+  const ranges = fields.map((field) => {
+    const values = [target, ...candidates].map(
+      (profile) => profile.rates[field],
+    );
+    const min = Math.min(...values);
+    return { field, min, spread: Math.max(...values) - min };
+  });
+  const normalize = (
+    profile: CareerSimilarProfile,
+    { field, min, spread }: (typeof ranges)[number],
+  ): number => (spread > 0 ? (profile.rates[field] - min) / spread : 0);
+
+  return candidates
+    .filter(
+      (candidate) =>
+        candidate.id !== target.id && candidate.position === target.position,
+    )
+    .map((candidate) => {
+      const squared = ranges.reduce(
+        (sum, range) =>
+          sum + (normalize(candidate, range) - normalize(target, range)) ** 2,
+        0,
+      );
+      return {
+        ...candidate,
+        similarity: Number(
+          (100 * (1 - Math.sqrt(squared / ranges.length))).toFixed(2),
+        ),
+      };
+    })
+    .sort(
+      (left, right) =>
+        right.similarity - left.similarity ||
+        compareCareerHighlightIdentity(left, right),
+    )
+    .slice(0, limit);
+};
+
+// A target without regular season games in the scope has no profile to
+// compare, so it gets no suggestions.
+const buildCareerSimilarResponse = (
+  target: CareerSimilarProfile,
+  profiles: readonly CareerSimilarProfile[],
+  season: number | undefined,
+  fields: readonly string[],
+  limit: number,
+): CareerSimilarResponse => ({
+  ...target,
+  season: season ?? null,
+  similar:
+    target.games > 0
+      ? rankSimilarProfiles(
+          target,
+          profiles.filter((profile) => profile.games >= SIMILAR_MIN_GAMES),
+          fields,
+          limit,
+        )
+      : [],
+});
+
+export const getSimilarPlayersData = async (
+  playerId: string,
+  season: number | undefined,
+  limit: number,
+): Promise<CareerSimilarResponse> => {
+  const grouped = groupCareerRowsById(
+    (await getAllPlayerCareerRowsFromDb()).map((row) => ({
+      ...row,
+      id: row.player_id,
+    })),
+  );
+  const targetRows = grouped.get(playerId);
+  if (!targetRows) {
+    throw createNotFoundError("Player not found");
+  }
+
+  const toProfile = (
+    id: string,
+    rows: readonly (PlayerCareerRow & { id: string })[],
+  ): CareerSimilarProfile =>
+    toSimilarProfile(
+      id,
+      rows[0].name,
+      requirePlayerPosition(rows.find((row) => row.position)?.position),
+      buildPlayerTotalsForScope(
+        mapPlayerCareerSeasonRows(
+          rows.filter((row) => isRowInSimilarScope(row, season)),
+        ),
+        "regular",
+      ),
+      PLAYER_RATE_FIELDS,
+    );
+  return buildCareerSimilarResponse(
+    toProfile(playerId, targetRows),
+    [...grouped.entries()].map(([id, rows]) => toProfile(id, rows)),
+    season,
+    PLAYER_RATE_FIELDS,
+    limit,
+  );
+};
+
+export const getSimilarGoaliesData = async (
+  goalieId: string,
+  season: number | undefined,
+  limit: number,
+): Promise<CareerSimilarResponse> => {
+  const grouped = groupCareerRowsById(
+    (await getAllGoalieCareerRowsFromDb()).map((row) => ({
+      ...row,
+      id: row.goalie_id,
+    })),
+  );
+  const targetRows = grouped.get(goalieId);
+  if (!targetRows) {
+    throw createNotFoundError("Goalie not found");
+  }
+
+  const toProfile = (
+    id: string,
+    rows: readonly (GoalieCareerRow & { id: string })[],
+  ): CareerSimilarProfile =>
+    toSimilarProfile(
+      id,
+      rows[0].name,
+      "G",
+      buildGoalieTotalsForScope(
+        mapGoalieCareerSeasonRows(
+          rows.filter((row) => isRowInSimilarScope(row, season)),
+        ),
+        "regular",
+      ),
+      GOALIE_RATE_FIELDS,
+    );
+  return buildCareerSimilarResponse(
+    toProfile(goalieId, targetRows),
+    [...grouped.entries()].map(([id, rows]) => toProfile(id, rows)),
+    season,
+    GOALIE_RATE_FIELDS,
+    limit,
+  );
+};
+
+// Every regular season is scored as its own league pool so scores stay
+// comparable from one season to the next.
+const scoreRegularSeasons = (
+  rows: readonly PlayerCareerRow[],
+): Map<string, Map<number, Player>> => {
+  const bySeason = new Map<number, Array<PlayerCareerRow & { id: string }>>();
+  for (const row of rows) {
+    if (row.report_type !== "regular") continue;
+    const list = bySeason.get(row.season);
+    const seasonRow = { ...row, id: row.player_id };
+    if (list) {
+      list.push(seasonRow);
+    } else {
+      bySeason.set(row.season, [seasonRow]);
+    }
+  }
+
+  const byPlayer = new Map<string, Map<number, Player>>();
+  for (const [season, seasonRows] of bySeason) {
+    const pool = applyPlayerScores(
+      [...groupCareerRowsById(seasonRows).entries()].map(([id, playerRows]) =>
+        toScoringPlayer(
+          id,
+          buildPlayerTotalsForScope(mapPlayerCareerSeasonRows(playerRows), "regular"),
+        ),
+      ),
+    );
+    for (const player of pool) {
+      const seasons = byPlayer.get(player.id) ?? new Map();
+      seasons.set(season, player);
+      byPlayer.set(player.id, seasons);
+    }
+  }
+  return byPlayer;
+};
+
+const getPlayerProgressionSeasons = (
+  rows: readonly PlayerCareerRow[],
+): Map<string, Map<number, PlayerProgressionSeason>> =>
+  new Map(
+    [...scoreRegularSeasons(rows).entries()].map(([id, seasons]) => [
+      id,
+      new Map(
+        [...seasons.entries()].map(([season, player]) => [
+          season,
+          {
+            season,
+            games: player.games,
+            scoreAdjustedByGames: player.scoreAdjustedByGames,
+            rates: getPerGameRates(player, PLAYER_RATE_FIELDS),
+          },
+        ]),
+      ),
+    ]),
+  );
+
+const getProgressionStatus = (scoreDelta: number): PlayerProgressionStatus => {
+  if (scoreDelta >= PROGRESSION_BREAKOUT_SCORE_DELTA) return "breakout";
+  if (scoreDelta <= -PROGRESSION_DECLINE_SCORE_DELTA) return "decline";
+  return "steady";
+};
+
+// Back-to-back seasons only, newest first.
+const buildPlayerProgression = (
+  seasons: ReadonlyMap<number, PlayerProgressionSeason>,
+): PlayerProgressionEntry[] =>
+  [...seasons.values()]
+    .sort((left, right) => right.season - left.season)
+    .flatMap((current) => {
+      const previous = seasons.get(current.season - 1);
+      if (
+        !previous ||
+        previous.games < PROGRESSION_MIN_GAMES ||
+        current.games < PROGRESSION_MIN_GAMES
+      ) {
+        return [];
+      }
+
+      const scoreDelta = Number(
+        (current.scoreAdjustedByGames - previous.scoreAdjustedByGames).toFixed(2),
+      );
+      return [
+        {
+          season: current.season,
+          previous,
+          current,
+          scoreDelta,
+          rateDeltas: Object.fromEntries(
+            PLAYER_RATE_FIELDS.map((field) => [
+              field,
+              Number((current.rates[field] - previous.rates[field]).toFixed(3)),
+            ]),
+          ),
+          status: getProgressionStatus(scoreDelta),
+        },
+      ];
+    });
+
+const getPlayerProgressionById = (
+  rows: readonly PlayerCareerRow[],
+): Map<string, PlayerProgressionEntry[]> =>
+  new Map(
+    [...getPlayerProgressionSeasons(rows).entries()].map(([id, seasons]) => [
+      id,
+      buildPlayerProgression(seasons),
+    ]),
+  );
+
+export const getPlayerProgressionData = async (
+  season: number,
+): Promise<PlayerProgressionResponse> => {
+  const rows = await getAllPlayerCareerRowsFromDb();
+  const grouped = groupCareerRowsById(
+    rows.map((row) => ({ ...row, id: row.player_id })),
+  );
+  const progressionById = getPlayerProgressionById(rows);
+  const items = [...grouped.entries()].flatMap(([id, playerRows]) => {
+    const entry = progressionById
+      .get(id)
+      ?.find((item) => item.season === season);
+    if (!entry) return [];
+
+    return [
+      {
+        id,
+        name: playerRows[0].name,
+        position: requirePlayerPosition(
+          playerRows.find((row) => row.position)?.position,
+        ),
+        ...entry,
+      },
+    ];
+  });
+  const sortedItems = sortCareerListItems(items);
+
+  return {
+    season,
+    risers: sortedItems
+      .filter((item) => item.scoreDelta > 0)
+      .sort((left, right) => right.scoreDelta - left.scoreDelta)
+      .slice(0, PROGRESSION_LIST_SIZE),
+    fallers: sortedItems
+      .filter((item) => item.scoreDelta < 0)
+      .sort((left, right) => left.scoreDelta - right.scoreDelta)
+      .slice(0, PROGRESSION_LIST_SIZE),
+  };
+};
+
+type MilestoneRow = {
+  teamId: string;
+  season: number;
+  reportType: CsvReport;
+  games: number;
+  points: number;
+  wins: number;
+};
+
+type MilestoneSegment = {
+  season: number;
+  reportType: CsvReport;
+  teamId: string;
+  // First segment of a season, which counts toward seasons owned.
+  newSeason: boolean;
+  totals: Record<Exclude<CareerMilestoneStat, "seasonsOwned">, number>;
+};
+
+const toPlayerMilestoneRow = (row: PlayerCareerRow): MilestoneRow => ({
+  teamId: row.team_id,
+  season: row.season,
+  reportType: row.report_type,
+  games: row.games,
+  points: row.points,
+  wins: 0,
+});
+
+const toGoalieMilestoneRow = (row: GoalieCareerRow): MilestoneRow => ({
+  teamId: row.team_id,
+  season: row.season,
+  reportType: row.report_type,
+  games: row.games,
+  points: row.points,
+  wins: row.wins,
+});
+
+// One segment per season and report type, oldest first with the regular
+// season before the playoffs. Ties on games credit the lowest team id.
+const buildMilestoneSegments = (
+  rows: readonly MilestoneRow[],
+): MilestoneSegment[] => {
+  const grouped = new Map<string, MilestoneRow[]>();
+  const sortedRows = rows
+    .slice()
+    .sort(
+      (left, right) =>
+        left.season - right.season ||
+        compareReportType(left.reportType, right.reportType) ||
+        left.teamId.localeCompare(right.teamId),
+    );
+  for (const row of sortedRows) {
+    const key = `${row.season}:${row.reportType}`;
+    const list = grouped.get(key);
+    if (list) {
+      list.push(row);
+    } else {
+      grouped.set(key, [row]);
+    }
+  }
+
+  let previousSeason: number | null = null;
+  return [...grouped.values()].map((segmentRows) => {
+    const { season, reportType } = segmentRows[0];
+    const newSeason = season !== previousSeason;
+    previousSeason = season;
+
+    return {
+      season,
+      reportType,
+      teamId: segmentRows.reduce((top, row) =>
+        row.games > top.games ? row : top,
+      ).teamId,
+      newSeason,
+      totals: {
+        games: segmentRows.reduce((sum, row) => sum + row.games, 0),
+        points: segmentRows.reduce((sum, row) => sum + row.points, 0),
+        wins: segmentRows.reduce((sum, row) => sum + row.wins, 0),
+      },
+    };
+  });
+};
+
+// Newest first; milestones reached in the same segment keep config order.
+const compareCareerMilestones = (
+  left: CareerMilestone,
+  right: CareerMilestone,
+): number =>
+  right.season - left.season ||
+  compareReportType(right.reportType, left.reportType) ||
+  CAREER_MILESTONE_TYPES.indexOf(left.type) -
+    CAREER_MILESTONE_TYPES.indexOf(right.type);
+
+const detectCareerMilestones = (
+  kind: "players" | "goalies",
+  rows: readonly MilestoneRow[],
+): CareerMilestone[] => {
+  const segments = buildMilestoneSegments(rows);
+
+  return CAREER_MILESTONE_TYPES.flatMap((type): CareerMilestone[] => {
+    const config = CAREER_MILESTONE_CONFIG[type];
+    if (config.appliesTo !== "all" && config.appliesTo !== kind) return [];
+
+    let total = 0;
+    const reached = segments.find((segment) => {
+      total +=
+        config.stat === "seasonsOwned"
+          ? Number(segment.newSeason)
+          : segment.totals[config.stat];
+      return total >= config.threshold;
+    });
+    if (!reached) return [];
+
+    return [
+      {
+        type,
+        stat: config.stat,
+        threshold: config.threshold,
+        season: reached.season,
+        reportType: reached.reportType,
+        team: { id: reached.teamId, name: getTeamName(reached.teamId) },
+      },
+    ];
+  }).sort(compareCareerMilestones);
+};
+
+export const getCareerMilestonesData = async (): Promise<
+  CareerMilestoneFeedItem[]
+> => {
+  const [playerRows, goalieRows] = await Promise.all([
+    getAllPlayerCareerRowsFromDb(),
+    getAllGoalieCareerRowsFromDb(),
+  ]);
+  const players = groupCareerRowsById(
+    playerRows.map((row) => ({ ...row, id: row.player_id })),
+  );
+  const goalies = groupCareerRowsById(
+    goalieRows.map((row) => ({ ...row, id: row.goalie_id })),
+  );
+
+  const items: CareerMilestoneFeedItem[] = [
+    ...[...players.values()].flatMap((rows) =>
+      detectCareerMilestones("players", rows.map(toPlayerMilestoneRow)).map(
+        (milestone) => ({
+          id: rows[0].player_id,
+          name: rows[0].name,
+          position: requirePlayerPosition(
+            rows.find((row) => row.position)?.position,
+          ),
+          ...milestone,
+        }),
+      ),
+    ),
+    ...[...goalies.values()].flatMap((rows) =>
+      detectCareerMilestones("goalies", rows.map(toGoalieMilestoneRow)).map(
+        (milestone) => ({
+          id: rows[0].goalie_id,
+          name: rows[0].name,
+          position: "G",
+          ...milestone,
+        }),
+      ),
+    ),
+  ];
+
+  return items.sort(
+    (left, right) =>
+      compareCareerMilestones(left, right) ||
+      left.name.localeCompare(right.name) ||
+      left.id.localeCompare(right.id),
+  );
+};
+
 export const getCareerPlayersData = async (): Promise<CareerPlayerListItem[]> => {
   const rows = await getAllPlayerCareerRowsFromDb();
   const grouped = groupCareerRowsById(
@@ -1086,6 +2039,10 @@ export const getCareerHighlightsData = async (
   | CareerStashHighlightItem[]
   | CareerRegularGrinderHighlightItem[]
   | CareerTransactionHighlightItem[]
+  | CareerFranchisePointsHighlightItem[]
+  | CareerPlayoffPointsHighlightItem[]
+  | CareerIronManHighlightItem[]
+  | CareerOneSeasonWonderHighlightItem[]
 > => {
   const config = CAREER_HIGHLIGHT_CONFIG[type];
 
@@ -1178,6 +2135,48 @@ export const getCareerHighlightsData = async (
     );
   }
 
+  if (config.kind === "franchise-points") {
+    return sortCareerFranchisePointsHighlightItems(
+      [...grouped.values()].flatMap((rows) =>
+        buildCareerFranchisePointsHighlightItems(rows, config.minCount),
+      ),
+    );
+  }
+
+  if (config.kind === "playoff-points") {
+    return sortCareerPlayoffPointsHighlightItems(
+      [...grouped.values()]
+        .map((rows) =>
+          buildCareerPlayoffPointsHighlightItem(rows, config.minCount),
+        )
+        .filter(
+          (item): item is CareerPlayoffPointsHighlightItem => item !== null,
+        ),
+    );
+  }
+
+  if (config.kind === "consecutive-regular-seasons") {
+    return sortCareerIronManHighlightItems(
+      [...grouped.values()]
+        .map((rows) => buildCareerIronManHighlightItem(rows, config.minCount))
+        .filter((item): item is CareerIronManHighlightItem => item !== null),
+    );
+  }
+
+  if (config.kind === "one-season-wonder") {
+    const seasonScores = scoreRegularSeasons(playerRows);
+
+    return sortCareerOneSeasonWonderHighlightItems(
+      [...grouped.values()].flatMap((rows) =>
+        buildCareerOneSeasonWonderHighlightItems(
+          rows,
+          seasonScores,
+          config.minCount,
+        ),
+      ),
+    );
+  }
+
   return sortCareerRegularGrinderHighlightItems(
     [...grouped.values()]
       .map((rows) =>
@@ -1,4 +1,5 @@
-import type { CsvReport } from "../../shared/types/core.js";
+import type { CsvReport, Report } from "../../shared/types/core.js";
+import type { TransactionTimelineEvent } from "../transactions/types.js";
 
 export type CountSplit = {
   owned: number;
@@ -74,6 +75,7 @@ export type CareerPlayerTeamTotals = {
   shp: number;
   hits: number;
   blocks: number;
+  rates?: Record<string, number>;
 };
 
 export type CareerGoalieTeamTotals = {
@@ -90,6 +92,11 @@ export type CareerGoalieTeamTotals = {
   penalties: number;
   ppp: number;
   shp: number;
+  // Aggregated from the season rows, see docs/SCORING.md. Omitted without any
+  // played row carrying the rate.
+  gaa?: string;
+  savePercent?: string;
+  rates?: Record<string, number>;
 };
 
 export type CareerPlayerTotals = {
@@ -107,6 +114,7 @@ export type CareerPlayerTotals = {
   shp: number;
   hits: number;
   blocks: number;
+  rates?: Record<string, number>;
 };
 
 export type CareerGoalieTotals = {
@@ -123,6 +131,40 @@ export type CareerGoalieTotals = {
   penalties: number;
   ppp: number;
   shp: number;
+  gaa?: string;
+  savePercent?: string;
+  rates?: Record<string, number>;
+};
+
+export type PlayerProgressionStatus = "breakout" | "decline" | "steady";
+
+// Regular-season production summed over every team the player played for.
+export type PlayerProgressionSeason = {
+  season: number;
+  games: number;
+  scoreAdjustedByGames: number;
+  rates: Record<string, number>;
+};
+
+export type PlayerProgressionEntry = {
+  season: number;
+  previous: PlayerProgressionSeason;
+  current: PlayerProgressionSeason;
+  scoreDelta: number;
+  rateDeltas: Record<string, number>;
+  status: PlayerProgressionStatus;
+};
+
+export type PlayerProgressionListItem = PlayerProgressionEntry & {
+  id: string;
+  name: string;
+  position: string;
+};
+
+export type PlayerProgressionResponse = {
+  season: number;
+  risers: PlayerProgressionListItem[];
+  fallers: PlayerProgressionListItem[];
 };
 
 export type CareerPlayerResponse = {
@@ -136,6 +178,9 @@ export type CareerPlayerResponse = {
     playoffs: CareerPlayerTotals;
   };
   seasons: CareerPlayerSeasonRow[];
+  progression: PlayerProgressionEntry[];
+  milestones: CareerMilestone[];
+  transactions: TransactionTimelineEvent[];
 };
 
 export type CareerGoalieResponse = {
@@ -148,6 +193,74 @@ export type CareerGoalieResponse = {
     playoffs: CareerGoalieTotals;
   };
   seasons: CareerGoalieSeasonRow[];
+  milestones: CareerMilestone[];
+  transactions: TransactionTimelineEvent[];
+};
+
+export type CareerCompareOptions = {
+  reportType: Report;
+  startFrom?: number;
+  endAt?: number;
+};
+
+// Normalized 0-100 score against the compared entities and against every
+// entity in the league over the same report type and season range.
+export type CareerCompareScore = {
+  set: number;
+  league: number;
+};
+
+export type CareerPlayerComparisonItem = {
+  id: string;
+  name: string;
+  position: string;
+  score: CareerCompareScore;
+  scoreAdjustedByGames: CareerCompareScore;
+  totals: CareerPlayerTotals;
+  seasons: CareerPlayerSeasonRow[];
+};
+
+export type CareerGoalieComparisonItem = {
+  id: string;
+  name: string;
+  score: CareerCompareScore;
+  scoreAdjustedByGames: CareerCompareScore;
+  totals: CareerGoalieTotals;
+  seasons: CareerGoalieSeasonRow[];
+};
+
+export type CareerPlayerComparisonResponse = {
+  reportType: Report;
+  startFrom: number | null;
+  endAt: number | null;
+  players: CareerPlayerComparisonItem[];
+};
+
+export type CareerGoalieComparisonResponse = {
+  reportType: Report;
+  startFrom: number | null;
+  endAt: number | null;
+  goalies: CareerGoalieComparisonItem[];
+};
+
+// Regular season per-game rates over the career, or over a single season.
+export type CareerSimilarProfile = {
+  id: string;
+  name: string;
+  position: string;
+  games: number;
+  rates: Record<string, number>;
+};
+
+export type CareerSimilarItem = CareerSimilarProfile & {
+  // 0-100, where 100 is an identical normalized per-game profile.
+  similarity: number;
+};
+
+export type CareerSimilarResponse = CareerSimilarProfile & {
+  // Null for the career scope.
+  season: number | null;
+  similar: CareerSimilarItem[];
 };
 
 export type CareerPlayerListItem = {
@@ -192,7 +305,45 @@ export type CareerHighlightType =
   | "regular-grinder-without-playoffs"
   | "most-trades"
   | "most-claims"
-  | "most-drops";
+  | "most-drops"
+  | "most-franchise-points"
+  | "most-playoff-points"
+  | "iron-man"
+  | "one-season-wonders";
+
+export type CareerMilestoneType =
+  | "points-100"
+  | "points-250"
+  | "points-500"
+  | "goalie-wins-100"
+  | "games-500"
+  | "seasons-owned-10";
+
+export type CareerMilestoneStat = "points" | "wins" | "games" | "seasonsOwned";
+
+// The season, report and team where the running total reached the threshold.
+// A season split between teams credits the team with the most games in it.
+export type CareerMilestone = {
+  type: CareerMilestoneType;
+  stat: CareerMilestoneStat;
+  threshold: number;
+  season: number;
+  reportType: CsvReport;
+  team: CareerHighlightTeam;
+};
+
+export type CareerMilestoneFeedItem = CareerMilestone & {
+  id: string;
+  name: string;
+  position: string;
+};
+
+export type CareerMilestonesPage = {
+  skip: number;
+  take: number;
+  total: number;
+  items: CareerMilestoneFeedItem[];
+};
 
 export type CareerHighlightTeam = {
   id: string;
@@ -272,6 +423,42 @@ export type CareerTransactionHighlightItem = {
   teams: CareerTransactionHighlightTeam[];
 };
 
+export type CareerFranchisePointsHighlightItem = {
+  id: string;
+  name: string;
+  position: string;
+  points: number;
+  team: CareerHighlightTeam;
+};
+
+export type CareerPlayoffPointsHighlightItem = {
+  id: string;
+  name: string;
+  position: string;
+  points: number;
+  teams: CareerHighlightTeam[];
+};
+
+export type CareerIronManHighlightItem = {
+  id: string;
+  name: string;
+  position: string;
+  seasonCount: number;
+  startSeason: number;
+  endSeason: number;
+  teams: CareerHighlightTeam[];
+};
+
+export type CareerOneSeasonWonderHighlightItem = {
+  id: string;
+  name: string;
+  position: string;
+  // League-pool regular season score for the whole season.
+  score: number;
+  season: number;
+  team: CareerHighlightTeam;
+};
+
 export type CareerTeamCountHighlightPage = {
   type: "most-teams-played" | "most-teams-owned";
   minAllowed: number;
@@ -335,6 +522,42 @@ export type CareerTransactionHighlightPage = {
   items: CareerTransactionHighlightItem[];
 };
 
+export type CareerFranchisePointsHighlightPage = {
+  type: "most-franchise-points";
+  minAllowed: number;
+  skip: number;
+  take: number;
+  total: number;
+  items: CareerFranchisePointsHighlightItem[];
+};
+
+export type CareerPlayoffPointsHighlightPage = {
+  type: "most-playoff-points";
+  minAllowed: number;
+  skip: number;
+  take: number;
+  total: number;
+  items: CareerPlayoffPointsHighlightItem[];
+};
+
+export type CareerIronManHighlightPage = {
+  type: "iron-man";
+  minAllowed: number;
+  skip: number;
+  take: number;
+  total: number;
+  items: CareerIronManHighlightItem[];
+};
+
+export type CareerOneSeasonWonderHighlightPage = {
+  type: "one-season-wonders";
+  minAllowed: number;
+  skip: number;
+  take: number;
+  total: number;
+  items: CareerOneSeasonWonderHighlightItem[];
+};
+
 export type CareerHighlightsPage =
   | CareerTeamCountHighlightPage
   | CareerSameTeamHighlightPage
@@ -342,4 +565,8 @@ export type CareerHighlightsPage =
   | CareerReunionHighlightPage
   | CareerStashHighlightPage
   | CareerRegularGrinderHighlightPage
-  | CareerTransactionHighlightPage;
+  | CareerTransactionHighlightPage
+  | CareerFranchisePointsHighlightPage
+  | CareerPlayoffPointsHighlightPage
+  | CareerIronManHighlightPage
+  | CareerOneSeasonWonderHighlightPage;
@@ -4,6 +4,12 @@ import path from "path";
 import type { Client, InStatement } from "@libsql/client";
 
 import { TEAMS } from "../../config/index.js";
+import {
+  createFuzzyNameMatcher,
+  type FuzzyNameMatcher,
+  type FuzzyNameMatchOptions,
+  type NameMatchCandidate,
+} from "../../shared/name-matching.js";
 
 const ENTRY_DRAFT_FILE_PATTERN = /^entry-draft-\d{4}\.json$/u;
 const OPENING_DRAFT_FILE_NAME = "opening-draft.json";
@@ -63,11 +69,18 @@ type OpeningDraftEntityMapping = {
   fantraxEntityId: string;
   fantraxEntityName: string;
 };
+// Mapping-file links store a null confidence; fuzzy name links store the score.
+type DraftPickEntityLink = {
+  fantraxEntityId: string | null;
+  matchConfidence: number | null;
+};
 type EntryDraftStoredRow = EntryDraftImportRow & {
   fantraxEntityId: string | null;
+  matchConfidence: number | null;
 };
 type OpeningDraftStoredRow = OpeningDraftImportRow & {
   fantraxEntityId: string | null;
+  matchConfidence: number | null;
 };
 type EntryDraftDbRow = EntryDraftStoredRow;
 type OpeningDraftDbRow = OpeningDraftStoredRow;
@@ -435,6 +448,52 @@ const getOpeningDraftEntityMapping = (
   return mapping;
 };
 
+type DraftEntityCandidate = NameMatchCandidate & {
+  lastSeenSeason: number;
+};
+
+const loadDraftEntityMatcher = async (
+  db: Pick<Client, "execute">,
+  options?: FuzzyNameMatchOptions,
+): Promise<FuzzyNameMatcher<DraftEntityCandidate>> => {
+  const result = await db.execute(
+    "SELECT fantrax_id, name, last_seen_season FROM fantrax_entities",
+  );
+
+  return createFuzzyNameMatcher(
+    result.rows.map((row) => ({
+      id: String(row.fantrax_id),
+      name: String(row.name),
+      lastSeenSeason: Number(row.last_seen_season),
+    })),
+    options,
+  );
+};
+
+// Draft sources carry no position, so fuzzy links only check that the entity
+// was still seen in or after the entry draft season. Opening draft picks have
+// no season and accept any entity. Anything else stays unlinked for review.
+const resolveDraftPickEntityLink = (
+  mapping: EntryDraftEntityMapping | OpeningDraftEntityMapping | undefined,
+  pick: { playerName: string | null; season?: number },
+  matcher: FuzzyNameMatcher<DraftEntityCandidate>,
+): DraftPickEntityLink => {
+  if (mapping) {
+    return { fantraxEntityId: mapping.fantraxEntityId, matchConfidence: null };
+  }
+
+  const match =
+    pick.playerName === null
+      ? null
+      : matcher.match(
+          pick.playerName,
+          (candidate) => candidate.lastSeenSeason >= (pick.season ?? 0),
+        );
+  return match?.status === "matched"
+    ? { fantraxEntityId: match.id, matchConfidence: match.confidence }
+    : { fantraxEntityId: null, matchConfidence: null };
+};
+
 const buildEntryDraftStatements = (
   entryDrafts: ReadonlyArray<{ season: number; picks: EntryDraftStoredRow[] }>,
 ): InStatement[] => {
@@ -456,8 +515,8 @@ const buildEntryDraftStatements = (
       statements.push({
         sql: `INSERT INTO entry_draft_picks (
                 season, pick_number, round, drafted_team_id, owner_team_id, player_name,
-                fantrax_entity_id
-              ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                fantrax_entity_id, match_confidence
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
         args: [
           pick.season,
           pick.pickNumber,
@@ -466,6 +525,7 @@ const buildEntryDraftStatements = (
           pick.ownerTeamId,
           pick.playerName,
           pick.fantraxEntityId,
+          pick.matchConfidence,
         ],
       });
     }
@@ -480,8 +540,9 @@ const buildOpeningDraftStatements = (
   { sql: "DELETE FROM opening_draft_picks" },
   ...openingDraft.map<InStatement>((pick) => ({
     sql: `INSERT INTO opening_draft_picks (
-            pick_number, round, drafted_team_id, owner_team_id, player_name, fantrax_entity_id
-          ) VALUES (?, ?, ?, ?, ?, ?)`,
+            pick_number, round, drafted_team_id, owner_team_id, player_name, fantrax_entity_id,
+            match_confidence
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
     args: [
       pick.pickNumber,
       pick.round,
@@ -489,6 +550,7 @@ const buildOpeningDraftStatements = (
       pick.ownerTeamId,
       pick.playerName,
       pick.fantraxEntityId,
+      pick.matchConfidence,
     ],
   })),
 ];
@@ -501,13 +563,13 @@ const loadEntryDraftRowsFromDb = async (
     season === undefined
       ? await db.execute(
           `SELECT season, pick_number, round, drafted_team_id, owner_team_id, player_name,
-                  fantrax_entity_id
+                  fantrax_entity_id, match_confidence
            FROM entry_draft_picks
            ORDER BY season ASC, pick_number ASC`,
         )
       : await db.execute({
           sql: `SELECT season, pick_number, round, drafted_team_id, owner_team_id, player_name,
-                       fantrax_entity_id
+                       fantrax_entity_id, match_confidence
                 FROM entry_draft_picks
                 WHERE season = ?
                 ORDER BY season ASC, pick_number ASC`,
@@ -523,6 +585,8 @@ const loadEntryDraftRowsFromDb = async (
     playerName: row.player_name === null ? null : String(row.player_name),
     fantraxEntityId:
       row.fantrax_entity_id === null ? null : String(row.fantrax_entity_id),
+    matchConfidence:
+      row.match_confidence === null ? null : Number(row.match_confidence),
   }));
 };
 
@@ -530,7 +594,8 @@ const loadOpeningDraftRowsFromDb = async (
   db: Pick<Client, "execute">,
 ): Promise<OpeningDraftDbRow[]> => {
   const result = await db.execute(
-    `SELECT pick_number, round, drafted_team_id, owner_team_id, player_name, fantrax_entity_id
+    `SELECT pick_number, round, drafted_team_id, owner_team_id, player_name, fantrax_entity_id,
+            match_confidence
      FROM opening_draft_picks
      ORDER BY pick_number ASC`,
   );
@@ -543,6 +608,8 @@ const loadOpeningDraftRowsFromDb = async (
     playerName: String(row.player_name),
     fantraxEntityId:
       row.fantrax_entity_id === null ? null : String(row.fantrax_entity_id),
+    matchConfidence:
+      row.match_confidence === null ? null : Number(row.match_confidence),
   }));
 };
 
@@ -553,6 +620,7 @@ export const importDraftPicksToDb = async (args: {
   importedAt?: string;
   season?: number;
   openingOnly?: boolean;
+  fuzzyNameMatch?: FuzzyNameMatchOptions;
 }): Promise<DraftImportSummary> => {
   if (args.openingOnly && args.season !== undefined) {
     throw new Error("Use either season or openingOnly, not both.");
@@ -586,6 +654,7 @@ export const importDraftPicksToDb = async (args: {
     return summary;
   }
 
+  const matcher = await loadDraftEntityMatcher(args.db, args.fuzzyNameMatch);
   const storedEntryDrafts = entryDrafts.map((draft) => ({
     season: draft.season,
     picks: draft.picks.map<EntryDraftStoredRow>((pick) => {
@@ -593,8 +662,8 @@ export const importDraftPicksToDb = async (args: {
 
       return {
         ...pick,
+        ...resolveDraftPickEntityLink(mapping, pick, matcher),
         playerName: mapping?.fantraxEntityName ?? pick.playerName,
-        fantraxEntityId: mapping?.fantraxEntityId ?? null,
       };
     }),
   }));
@@ -603,8 +672,8 @@ export const importDraftPicksToDb = async (args: {
 
     return {
       ...pick,
+      ...resolveDraftPickEntityLink(mapping, pick, matcher),
       playerName: mapping?.fantraxEntityName ?? pick.playerName,
-      fantraxEntityId: mapping?.fantraxEntityId ?? null,
     };
   });
 
@@ -629,18 +698,24 @@ export const applyDraftEntityMappingsToDb = async (args: {
   importedAt?: string;
   season?: number;
   openingOnly?: boolean;
+  fuzzyNameMatch?: FuzzyNameMatchOptions;
 }): Promise<DraftEntityBackfillSummary> => {
   if (args.openingOnly && args.season !== undefined) {
     throw new Error("Use either season or openingOnly, not both.");
   }
 
   const draftsDir = path.resolve(args.draftsDir ?? getDefaultDraftsDir());
-  const [{ entryMappingsByKey, openingMappingsByKey }, entryRows, openingRows] =
-    await Promise.all([
-      loadDraftEntityMappings(draftsDir),
-      args.openingOnly ? Promise.resolve([]) : loadEntryDraftRowsFromDb(args.db, args.season),
-      args.season !== undefined ? Promise.resolve([]) : loadOpeningDraftRowsFromDb(args.db),
-    ]);
+  const [
+    { entryMappingsByKey, openingMappingsByKey },
+    entryRows,
+    openingRows,
+    matcher,
+  ] = await Promise.all([
+    loadDraftEntityMappings(draftsDir),
+    args.openingOnly ? Promise.resolve([]) : loadEntryDraftRowsFromDb(args.db, args.season),
+    args.season !== undefined ? Promise.resolve([]) : loadOpeningDraftRowsFromDb(args.db),
+    loadDraftEntityMatcher(args.db, args.fuzzyNameMatch),
+  ]);
   const statements: InStatement[] = [];
   const summary: DraftEntityBackfillSummary = {
     draftsDir,
@@ -649,12 +724,20 @@ export const applyDraftEntityMappingsToDb = async (args: {
     dryRun: args.dryRun ?? false,
   };
 
+  // Without a mapping, fuzzy matching only fills picks that are still unlinked.
   for (const row of entryRows) {
     const mapping = getEntryDraftEntityMapping(entryMappingsByKey, row);
+    if (mapping === undefined && row.fantraxEntityId !== null) {
+      continue;
+    }
+
+    const link = resolveDraftPickEntityLink(mapping, row, matcher);
+    const playerName = mapping?.fantraxEntityName ?? row.playerName;
     if (
-      mapping === undefined ||
-      (row.fantraxEntityId === mapping.fantraxEntityId &&
-        row.playerName === mapping.fantraxEntityName)
+      link.fantraxEntityId === null ||
+      (row.fantraxEntityId === link.fantraxEntityId &&
+        row.playerName === playerName &&
+        row.matchConfidence === link.matchConfidence)
     ) {
       continue;
     }
@@ -663,11 +746,12 @@ export const applyDraftEntityMappingsToDb = async (args: {
 
     statements.push({
       sql: `UPDATE entry_draft_picks
-            SET fantrax_entity_id = ?, player_name = ?
+            SET fantrax_entity_id = ?, player_name = ?, match_confidence = ?
             WHERE season = ? AND pick_number = ? AND drafted_team_id = ?`,
       args: [
-        mapping.fantraxEntityId,
-        mapping.fantraxEntityName,
+        link.fantraxEntityId,
+        playerName,
+        link.matchConfidence,
         row.season,
         row.pickNumber,
         row.draftedTeamId,
@@ -677,10 +761,17 @@ export const applyDraftEntityMappingsToDb = async (args: {
 
   for (const row of openingRows) {
     const mapping = getOpeningDraftEntityMapping(openingMappingsByKey, row);
+    if (mapping === undefined && row.fantraxEntityId !== null) {
+      continue;
+    }
+
+    const link = resolveDraftPickEntityLink(mapping, row, matcher);
+    const playerName = mapping?.fantraxEntityName ?? row.playerName;
     if (
-      mapping === undefined ||
-      (row.fantraxEntityId === mapping.fantraxEntityId &&
-        row.playerName === mapping.fantraxEntityName)
+      link.fantraxEntityId === null ||
+      (row.fantraxEntityId === link.fantraxEntityId &&
+        row.playerName === playerName &&
+        row.matchConfidence === link.matchConfidence)
     ) {
       continue;
     }
@@ -689,11 +780,12 @@ export const applyDraftEntityMappingsToDb = async (args: {
 
     statements.push({
       sql: `UPDATE opening_draft_picks
-            SET fantrax_entity_id = ?, player_name = ?
+            SET fantrax_entity_id = ?, player_name = ?, match_confidence = ?
             WHERE pick_number = ? AND drafted_team_id = ?`,
       args: [
-        mapping.fantraxEntityId,
-        mapping.fantraxEntityName,
+        link.fantraxEntityId,
+        playerName,
+        link.matchConfidence,
         row.pickNumber,
         row.draftedTeamId,
       ],
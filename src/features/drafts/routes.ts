@@ -1,6 +1,24 @@
 import type { RouteHandler } from "../../shared/router.js";
-import { withErrorHandlingCached } from "../../shared/route-utils.js";
-import { getEntryDraftData, getOriginalDraftData } from "./service.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
+import { isConfiguredTeamId } from "../../shared/teams.js";
+import {
+  getQueryParam,
+  sendNoStore,
+  withErrorHandlingCached,
+} from "../../shared/route-utils.js";
+import {
+  getDraftInventoryData,
+  getDraftPickOwnershipData,
+  getEntryDraftData,
+  getOriginalDraftData,
+} from "./service.js";
+
+const parsePositiveIntegerParam = (value: string): number | null => {
+  if (!/^\d+$/u.test(value)) return null;
+
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null;
+};
 
 export const getEntryDraft: RouteHandler = async (req, res) => {
   await withErrorHandlingCached(req, res, async () => ({
@@ -15,3 +33,35 @@ export const getOriginalDraft: RouteHandler = async (req, res) => {
     dataSource: "db",
   }));
 };
+
+export const getDraftPickOwnership: RouteHandler<{
+  season: string;
+  round: string;
+  originalTeamId: string;
+}> = async (req, res) => {
+  const season = parsePositiveIntegerParam(req.params.season);
+  const round = parsePositiveIntegerParam(req.params.round);
+  const { originalTeamId } = req.params;
+  if (season === null || round === null || !isConfiguredTeamId(originalTeamId)) {
+    sendNoStore(res, HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.DRAFT_PICK_NOT_FOUND);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getDraftPickOwnershipData(season, round, originalTeamId),
+    dataSource: "db",
+  }));
+};
+
+export const getDraftInventory: RouteHandler = async (req, res) => {
+  const teamId = getQueryParam(req, "teamId");
+  if (teamId !== undefined && !isConfiguredTeamId(teamId)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_TEAM_ID);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getDraftInventoryData(teamId),
+    dataSource: "db",
+  }));
+};
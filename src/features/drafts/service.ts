@@ -1,15 +1,29 @@
-import { TEAMS } from "../../config/index.js";
+import {
+  CURRENT_SEASON,
+  ENTRY_DRAFT_ROUNDS,
+  FUTURE_DRAFT_SEASONS,
+  TEAMS,
+} from "../../config/index.js";
 import {
   getEntryDraftPicksFromDb,
   getOpeningDraftPicksFromDb,
   type EntryDraftPickDbRow,
 } from "../../db/queries.js";
+import { ERROR_MESSAGES } from "../../shared/http.js";
+import { getTradesData } from "../transactions/service.js";
 
 export type DraftTeamRef = {
   id: string;
   name: string;
 };
 
+export type DraftPickTrade = {
+  tradeId: number;
+  occurredAt: string;
+  fromTeam: DraftTeamRef;
+  toTeam: DraftTeamRef;
+};
+
 export type DraftPick = {
   round: number;
   pickNumber: number;
@@ -17,13 +31,30 @@ export type DraftPick = {
   playedInLeague: boolean;
   playedForDraftingTeam: boolean;
   originalOwner: DraftTeamRef;
+  trades: DraftPickTrade[];
 };
 
 export type OpeningDraftPick = Omit<
   DraftPick,
-  "draftedPlayer" | "playedInLeague" | "playedForDraftingTeam"
+  "draftedPlayer" | "playedInLeague" | "playedForDraftingTeam" | "trades"
 > & { draftedPlayer: string };
 
+export type DraftPickSelection = {
+  pickNumber: number;
+  team: DraftTeamRef;
+  draftedPlayer: string | null;
+};
+
+export type DraftPickOwnership = {
+  season: number;
+  round: number;
+  originalTeam: DraftTeamRef;
+  timesTraded: number;
+  trades: DraftPickTrade[];
+  lastOwner: DraftTeamRef;
+  selection: DraftPickSelection | null;
+};
+
 export type OpeningDraftTeamGroup = {
   team: DraftTeamRef;
   picks: OpeningDraftPick[];
@@ -75,15 +106,93 @@ export type EntryDraftTeamGroup = {
   seasons: EntryDraftSeasonGroup[];
 };
 
+export type DraftInventoryPick = {
+  round: number;
+  originalTeam: DraftTeamRef;
+  trades: DraftPickTrade[];
+};
+
+export type DraftInventoryTradedPick = {
+  round: number;
+  owner: DraftTeamRef;
+};
+
+export type DraftInventorySeason = {
+  season: number;
+  picks: DraftInventoryPick[];
+  tradedAway: DraftInventoryTradedPick[];
+};
+
+export type DraftInventoryTeam = {
+  team: DraftTeamRef;
+  seasons: DraftInventorySeason[];
+};
+
 const TEAM_NAME_BY_ID = new Map(
   TEAMS.map((team) => [team.id, team.presentName] as const),
 );
 
+type DraftPickNotFoundError = Error & {
+  statusCode: number;
+  body: string;
+};
+
 const toDraftTeamRef = (teamId: string): DraftTeamRef => ({
   id: teamId,
   name: TEAM_NAME_BY_ID.get(teamId) ?? teamId,
 });
 
+const toDraftPickKey = (
+  season: number,
+  round: number,
+  originalTeamId: string,
+): string => `${season}|${round}|${originalTeamId}`;
+
+const compareDraftPickTrades = (
+  left: DraftPickTrade,
+  right: DraftPickTrade,
+): number =>
+  left.occurredAt.localeCompare(right.occurredAt) ||
+  left.tradeId - right.tradeId;
+
+// Every traded pick's moves, oldest first, keyed by season, round and the team
+// the pick originally belonged to. Picks whose original team could not be
+// resolved at import time cannot be tied to a draft slot and are left out.
+const loadDraftPickTrades = async (): Promise<Map<string, DraftPickTrade[]>> => {
+  const tradesByPick = new Map<string, DraftPickTrade[]>();
+
+  for (const trade of await getTradesData()) {
+    for (const move of trade.sides.flatMap((side) => side.sent)) {
+      const draftPick = move.asset.draftPick;
+      if (!draftPick?.originalTeam) continue;
+
+      const key = toDraftPickKey(
+        draftPick.season,
+        draftPick.round,
+        draftPick.originalTeam.id,
+      );
+      const pickTrade: DraftPickTrade = {
+        tradeId: trade.id,
+        occurredAt: trade.occurredAt,
+        fromTeam: move.fromTeam,
+        toTeam: move.toTeam,
+      };
+      const list = tradesByPick.get(key);
+      if (list) {
+        list.push(pickTrade);
+      } else {
+        tradesByPick.set(key, [pickTrade]);
+      }
+    }
+  }
+
+  for (const list of tradesByPick.values()) {
+    list.sort(compareDraftPickTrades);
+  }
+
+  return tradesByPick;
+};
+
 const compareDraftPicks = (
   left: { pickNumber: number },
   right: { pickNumber: number },
@@ -109,13 +218,20 @@ type EntryDraftSeasonGroupInternal = {
   picks: DraftPick[];
 };
 
-const mapEntryDraftPick = (row: EntryDraftPickDbRow): DraftPick => ({
+const mapEntryDraftPick = (
+  row: EntryDraftPickDbRow,
+  tradesByPick: ReadonlyMap<string, DraftPickTrade[]>,
+): DraftPick => ({
   round: row.round,
   pickNumber: row.pickNumber,
   draftedPlayer: row.draftedPlayer,
   playedInLeague: row.playedInLeague,
   playedForDraftingTeam: row.playedForDraftingTeam,
   originalOwner: toDraftTeamRef(row.originalOwnerTeamId),
+  trades:
+    tradesByPick.get(
+      toDraftPickKey(row.season, row.round, row.originalOwnerTeamId),
+    ) ?? [],
 });
 
 const mapOpeningDraftPick = (row: {
@@ -142,6 +258,7 @@ const toDraftPickResponse = (pick: DraftPick): DraftPick => ({
   playedInLeague: pick.playedInLeague,
   playedForDraftingTeam: pick.playedForDraftingTeam,
   originalOwner: pick.originalOwner,
+  trades: pick.trades,
 });
 
 const roundDraftAverage = (value: number): number =>
@@ -254,7 +371,10 @@ export const getOriginalDraftData = async (): Promise<OpeningDraftTeamGroup[]> =
 };
 
 export const getEntryDraftData = async (): Promise<EntryDraftTeamGroup[]> => {
-  const rows = await getEntryDraftPicksFromDb();
+  const [rows, tradesByPick] = await Promise.all([
+    getEntryDraftPicksFromDb(),
+    loadDraftPickTrades(),
+  ]);
   const teams = new Map<
     string,
     {
@@ -271,7 +391,7 @@ export const getEntryDraftData = async (): Promise<EntryDraftTeamGroup[]> => {
         team: toDraftTeamRef(row.draftedTeamId),
         seasons: new Map<number, DraftPick[]>(),
       };
-    const pick = mapEntryDraftPick(row);
+    const pick = mapEntryDraftPick(row, tradesByPick);
     const seasonPicks = team.seasons.get(row.season);
 
     if (seasonPicks) {
@@ -305,3 +425,138 @@ export const getEntryDraftData = async (): Promise<EntryDraftTeamGroup[]> => {
     })
     .sort(compareDraftTeamGroups);
 };
+
+export const getDraftPickOwnershipData = async (
+  season: number,
+  round: number,
+  originalTeamId: string,
+): Promise<DraftPickOwnership> => {
+  const [rows, tradesByPick] = await Promise.all([
+    getEntryDraftPicksFromDb(),
+    loadDraftPickTrades(),
+  ]);
+  const trades =
+    tradesByPick.get(toDraftPickKey(season, round, originalTeamId)) ?? [];
+  const selectionRow = rows.find(
+    (row) =>
+      row.season === season &&
+      row.round === round &&
+      row.originalOwnerTeamId === originalTeamId,
+  );
+
+  if (!selectionRow && trades.length === 0) {
+    const error: DraftPickNotFoundError = Object.assign(
+      new Error(ERROR_MESSAGES.DRAFT_PICK_NOT_FOUND),
+      { statusCode: 404, body: ERROR_MESSAGES.DRAFT_PICK_NOT_FOUND },
+    );
+    throw error;
+  }
+
+  const originalTeam = toDraftTeamRef(originalTeamId);
+
+  return {
+    season,
+    round,
+    originalTeam,
+    timesTraded: trades.length,
+    trades,
+    lastOwner:
+      trades.length > 0 ? trades[trades.length - 1].toTeam : originalTeam,
+    selection: selectionRow
+      ? {
+          pickNumber: selectionRow.pickNumber,
+          team: toDraftTeamRef(selectionRow.draftedTeamId),
+          draftedPlayer: selectionRow.draftedPlayer,
+        }
+      : null,
+  };
+};
+
+const compareDraftInventoryPicks = (
+  left: DraftInventoryPick,
+  right: DraftInventoryPick,
+): number =>
+  left.round - right.round ||
+  left.originalTeam.name.localeCompare(right.originalTeam.name);
+
+// Upcoming drafts start after the latest imported entry draft and run for
+// FUTURE_DRAFT_SEASONS years, stretched to cover any later pick already traded.
+const getFutureDraftSeasons = (
+  rows: readonly EntryDraftPickDbRow[],
+  tradesByPick: ReadonlyMap<string, DraftPickTrade[]>,
+): number[] => {
+  const firstSeason =
+    Math.max(CURRENT_SEASON, ...rows.map((row) => row.season)) + 1;
+  const tradedSeasons = [...tradesByPick.keys()].map((key) =>
+    Number(key.split("|")[0]),
+  );
+  const lastSeason = Math.max(
+    firstSeason + FUTURE_DRAFT_SEASONS - 1,
+    ...tradedSeasons,
+  );
+
+  return Array.from(
+    { length: lastSeason - firstSeason + 1 },
+    (_, index) => firstSeason + index,
+  );
+};
+
+export const getDraftInventoryData = async (
+  teamId?: string,
+): Promise<DraftInventoryTeam[]> => {
+  const [rows, tradesByPick] = await Promise.all([
+    getEntryDraftPicksFromDb(),
+    loadDraftPickTrades(),
+  ]);
+  const seasons = getFutureDraftSeasons(rows, tradesByPick);
+  const teams = TEAMS.filter((team) => teamId === undefined || team.id === teamId)
+    .map((team) => ({
+      team: toDraftTeamRef(team.id),
+      seasons: new Map(
+        seasons.map((season): [number, DraftInventorySeason] => [
+          season,
+          { season, picks: [], tradedAway: [] },
+        ]),
+      ),
+    }));
+  const teamsById = new Map(teams.map((entry) => [entry.team.id, entry]));
+
+  for (const season of seasons) {
+    for (let round = 1; round <= ENTRY_DRAFT_ROUNDS; round++) {
+      for (const originalTeam of TEAMS) {
+        const trades =
+          tradesByPick.get(toDraftPickKey(season, round, originalTeam.id)) ?? [];
+        const ownerId =
+          trades.length > 0 ? trades[trades.length - 1].toTeam.id : originalTeam.id;
+
+        // Only the requested team has buckets when the inventory is filtered.
+        const ownerSeason = teamsById.get(ownerId)?.seasons.get(season);
+        ownerSeason?.picks.push({
+          round,
+          originalTeam: toDraftTeamRef(originalTeam.id),
+          trades,
+        });
+        if (ownerId !== originalTeam.id) {
+          const originalSeason = teamsById
+            .get(originalTeam.id)
+            ?.seasons.get(season);
+          originalSeason?.tradedAway.push({
+            round,
+            owner: toDraftTeamRef(ownerId),
+          });
+        }
+      }
+    }
+  }
+
+  return teams
+    .map((entry) => ({
+      team: entry.team,
+      seasons: [...entry.seasons.values()].map((season) => ({
+        season: season.season,
+        picks: season.picks.sort(compareDraftInventoryPicks),
+        tradedAway: season.tradedAway,
+      })),
+    }))
+    .sort(compareDraftTeamGroups);
+};
@@ -38,6 +38,14 @@ ON CONFLICT(fantrax_id) DO UPDATE SET
     ELSE fantrax_entities.position
   END`;
 
+// The upsert may keep the stored name, so the search index copies the row back
+// from fantrax_entities instead of using the incoming name.
+const FANTRAX_ENTITY_SEARCH_SYNC_SQL = [
+  "DELETE FROM fantrax_entities_fts WHERE fantrax_id = ?",
+  `INSERT INTO fantrax_entities_fts (fantrax_id, name)
+SELECT fantrax_id, name FROM fantrax_entities WHERE fantrax_id = ?`,
+] as const;
+
 const mergeFantraxEntity = (
   existing: FantraxEntity | undefined,
   incoming: FantraxEntity,
@@ -107,13 +115,19 @@ export const collectFantraxEntitiesFromStats = (args: {
 export const buildFantraxEntityUpsertStatements = (
   entities: readonly FantraxEntity[],
 ): InStatement[] =>
-  entities.map((entity) => ({
-    sql: FANTRAX_ENTITY_UPSERT_SQL,
-    args: [
-      entity.fantraxId,
-      entity.name,
-      entity.position,
-      entity.firstSeenSeason,
-      entity.lastSeenSeason,
-    ],
-  }));
+  entities.flatMap((entity) => [
+    {
+      sql: FANTRAX_ENTITY_UPSERT_SQL,
+      args: [
+        entity.fantraxId,
+        entity.name,
+        entity.position,
+        entity.firstSeenSeason,
+        entity.lastSeenSeason,
+      ],
+    },
+    ...FANTRAX_ENTITY_SEARCH_SYNC_SQL.map((sql) => ({
+      sql,
+      args: [entity.fantraxId],
+    })),
+  ]);
@@ -9,10 +9,27 @@ import {
   getRegularLeaderboardSnapshotKey,
   getTransactionsLeaderboardSnapshotKey,
 } from "../../infra/snapshots/store.js";
+import { getTransactionActivityTimelineData } from "./timeline.js";
+import { DEFAULT_TRANSACTION_ACTIVITY_INTERVAL } from "../../config/index.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
 import {
+  getQueryParam,
   loadSnapshotOrFallback,
+  parseSeasonFilter,
+  sendNoStore,
   withErrorHandlingCached,
 } from "../../shared/route-utils.js";
+import type { TransactionActivityInterval } from "./types.js";
+
+const TRANSACTION_ACTIVITY_INTERVALS = [
+  "week",
+  "month",
+] as const satisfies readonly TransactionActivityInterval[];
+
+const isTransactionActivityInterval = (
+  value: string,
+): value is TransactionActivityInterval =>
+  TRANSACTION_ACTIVITY_INTERVALS.includes(value as TransactionActivityInterval);
 
 export const getPlayoffsLeaderboard: RouteHandler = async (
   req,
@@ -46,3 +63,27 @@ export const getTransactionsLeaderboard: RouteHandler = async (
     ),
   );
 };
+
+export const getTransactionsTimeline: RouteHandler = async (req, res) => {
+  const interval =
+    getQueryParam(req, "interval") ?? DEFAULT_TRANSACTION_ACTIVITY_INTERVAL;
+  if (!isTransactionActivityInterval(interval)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_INTERVAL);
+    return;
+  }
+
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTransactionActivityTimelineData(interval, season),
+    dataSource: "db",
+  }));
+};
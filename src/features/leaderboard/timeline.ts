@@ -0,0 +1,216 @@
+import { TEAMS } from "../../config/index.js";
+import {
+  getTransactionActivityRowsFromDb,
+  type TransactionActivityDbRow,
+} from "../../db/queries.js";
+import { getTradesData } from "../transactions/service.js";
+import type {
+  TransactionActivityCounts,
+  TransactionActivityInterval,
+  TransactionActivityPeaks,
+  TransactionActivityPeriod,
+  TransactionActivityTeam,
+  TransactionActivityTimeline,
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PeriodBounds = {
+  period: string;
+  start: Date;
+};
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const padTwo = (value: number): string => String(value).padStart(2, "0");
+
+// ISO weeks start on Monday and belong to the year of their Thursday.
+const getWeekBounds = (date: Date): PeriodBounds => {
+  const dayStart = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+  );
+  const start = new Date(dayStart - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+  const thursday = new Date(start.getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week =
+    Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+
+  return { period: `${year}-W${padTwo(week)}`, start };
+};
+
+const getMonthBounds = (date: Date): PeriodBounds => ({
+  period: `${date.getUTCFullYear()}-${padTwo(date.getUTCMonth() + 1)}`,
+  start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+});
+
+const getPeriodBounds = (
+  interval: TransactionActivityInterval,
+  date: Date,
+): PeriodBounds =>
+  interval === "week" ? getWeekBounds(date) : getMonthBounds(date);
+
+const getNextPeriodStart = (
+  interval: TransactionActivityInterval,
+  start: Date,
+): Date =>
+  interval === "week"
+    ? new Date(start.getTime() + 7 * DAY_MS)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+
+const emptyCounts = (): TransactionActivityCounts => ({
+  claims: 0,
+  drops: 0,
+  trades: 0,
+  total: 0,
+});
+
+const addCounts = (
+  target: TransactionActivityCounts,
+  row: Pick<TransactionActivityDbRow, "claims" | "drops" | "trades">,
+): void => {
+  target.claims += row.claims;
+  target.drops += row.drops;
+  target.trades += row.trades;
+  target.total += row.claims + row.drops + row.trades;
+};
+
+const getOrCreatePeriod = (
+  periods: Map<string, TransactionActivityPeriod>,
+  bounds: PeriodBounds,
+): TransactionActivityPeriod => {
+  const existing = periods.get(bounds.period);
+  if (existing) return existing;
+
+  const period = {
+    period: bounds.period,
+    start: toDateString(bounds.start),
+    ...emptyCounts(),
+  };
+  periods.set(bounds.period, period);
+  return period;
+};
+
+// The busiest period per category; earlier periods win ties.
+const findPeaks = (
+  periods: readonly TransactionActivityPeriod[],
+): TransactionActivityPeaks => {
+  const findPeak = (key: keyof TransactionActivityCounts) =>
+    periods.reduce<TransactionActivityPeriod | null>(
+      (peak, period) => (period[key] > (peak?.[key] ?? 0) ? period : peak),
+      null,
+    );
+
+  return {
+    claims: findPeak("claims"),
+    drops: findPeak("drops"),
+    trades: findPeak("trades"),
+    total: findPeak("total"),
+  };
+};
+
+// The league series covers every period between the first and the last
+// activity, with quiet periods as zero rows. Team series only list periods
+// the team was active in.
+const buildLeaguePeriods = (
+  interval: TransactionActivityInterval,
+  periods: Map<string, TransactionActivityPeriod>,
+  rows: readonly TransactionActivityDbRow[],
+): TransactionActivityPeriod[] => {
+  if (rows.length === 0) return [];
+
+  const first = getPeriodBounds(interval, new Date(rows[0].occurredAt));
+  const last = getPeriodBounds(
+    interval,
+    new Date(rows[rows.length - 1].occurredAt),
+  );
+  const series: TransactionActivityPeriod[] = [];
+
+  for (
+    let start = first.start;
+    start.getTime() <= last.start.getTime();
+    start = getNextPeriodStart(interval, start)
+  ) {
+    series.push(getOrCreatePeriod(periods, getPeriodBounds(interval, start)));
+  }
+
+  return series;
+};
+
+const compareActivityTeams = (
+  left: TransactionActivityTeam,
+  right: TransactionActivityTeam,
+): number =>
+  right.totals.total - left.totals.total ||
+  left.teamName.localeCompare(right.teamName);
+
+export const getTransactionActivityTimelineData = async (
+  interval: TransactionActivityInterval,
+  season?: number,
+): Promise<TransactionActivityTimeline> => {
+  const [rows, trades] = await Promise.all([
+    getTransactionActivityRowsFromDb(season),
+    getTradesData(season),
+  ]);
+  const leaguePeriods = new Map<string, TransactionActivityPeriod>();
+  const leagueTotals = emptyCounts();
+  const teams = new Map(
+    TEAMS.filter(
+      (team) => season === undefined || (team.firstSeason ?? season) <= season,
+    ).map((team) => [
+      team.id,
+      {
+        teamId: team.id,
+        teamName: team.presentName,
+        totals: emptyCounts(),
+        lastActivityAt: null as string | null,
+        periods: new Map<string, TransactionActivityPeriod>(),
+      },
+    ]),
+  );
+
+  // Every team in a trade counts it, so the league series counts each rebuilt
+  // deal once instead of summing the team rows.
+  for (const trade of trades) {
+    const bounds = getPeriodBounds(interval, new Date(trade.occurredAt));
+    const counts = { claims: 0, drops: 0, trades: 1 };
+    addCounts(leagueTotals, counts);
+    addCounts(getOrCreatePeriod(leaguePeriods, bounds), counts);
+  }
+
+  for (const row of rows) {
+    const bounds = getPeriodBounds(interval, new Date(row.occurredAt));
+    const leagueCounts = { claims: row.claims, drops: row.drops, trades: 0 };
+    addCounts(leagueTotals, leagueCounts);
+    addCounts(getOrCreatePeriod(leaguePeriods, bounds), leagueCounts);
+
+    const team = teams.get(row.teamId);
+    if (!team) continue;
+    addCounts(team.totals, row);
+    addCounts(getOrCreatePeriod(team.periods, bounds), row);
+    team.lastActivityAt = row.occurredAt;
+  }
+
+  const periods = buildLeaguePeriods(interval, leaguePeriods, rows);
+
+  return {
+    interval,
+    season: season ?? null,
+    league: {
+      totals: leagueTotals,
+      peaks: findPeaks(periods),
+      periods,
+    },
+    teams: [...teams.values()]
+      .map((team) => ({
+        teamId: team.teamId,
+        teamName: team.teamName,
+        totals: team.totals,
+        activePeriods: team.periods.size,
+        lastActivityAt: team.lastActivityAt,
+        periods: [...team.periods.values()],
+      }))
+      .sort(compareActivityTeams),
+  };
+};
@@ -78,3 +78,46 @@ export type TransactionLeaderboardEntry = {
   seasons: TransactionLeaderboardSeason[];
   tieRank: boolean;
 };
+
+export type TransactionActivityInterval = "week" | "month";
+
+export type TransactionActivityCounts = {
+  claims: number;
+  drops: number;
+  trades: number;
+  total: number;
+};
+
+export type TransactionActivityPeriod = TransactionActivityCounts & {
+  // ISO week ("2025-W07") or month ("2025-02").
+  period: string;
+  // First day of the period, YYYY-MM-DD.
+  start: string;
+};
+
+export type TransactionActivityPeaks = {
+  claims: TransactionActivityPeriod | null;
+  drops: TransactionActivityPeriod | null;
+  trades: TransactionActivityPeriod | null;
+  total: TransactionActivityPeriod | null;
+};
+
+export type TransactionActivityTeam = {
+  teamId: string;
+  teamName: string;
+  totals: TransactionActivityCounts;
+  activePeriods: number;
+  lastActivityAt: string | null;
+  periods: TransactionActivityPeriod[];
+};
+
+export type TransactionActivityTimeline = {
+  interval: TransactionActivityInterval;
+  season: number | null;
+  league: {
+    totals: TransactionActivityCounts;
+    peaks: TransactionActivityPeaks;
+    periods: TransactionActivityPeriod[];
+  };
+  teams: TransactionActivityTeam[];
+};
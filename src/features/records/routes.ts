@@ -0,0 +1,38 @@
+import type { RouteHandler } from "../../shared/router.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
+import {
+  getLeagueRecordsSnapshotKey,
+  getTeamRecordsSnapshotKey,
+} from "../../infra/snapshots/store.js";
+import {
+  loadSnapshotOrFallback,
+  sendNoStore,
+  withErrorHandlingCached,
+} from "../../shared/route-utils.js";
+import { isConfiguredTeamId } from "../../shared/teams.js";
+import { getLeagueRecordsData, getTeamRecordsData } from "./service.js";
+
+export const getRecords: RouteHandler = async (req, res) => {
+  await withErrorHandlingCached(req, res, () =>
+    loadSnapshotOrFallback(getLeagueRecordsSnapshotKey(), () =>
+      getLeagueRecordsData(),
+    ),
+  );
+};
+
+export const getTeamRecords: RouteHandler<{ teamId: string }> = async (
+  req,
+  res,
+) => {
+  const { teamId } = req.params;
+  if (!isConfiguredTeamId(teamId)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_TEAM_ID);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, () =>
+    loadSnapshotOrFallback(getTeamRecordsSnapshotKey(teamId), () =>
+      getTeamRecordsData(teamId),
+    ),
+  );
+};
@@ -0,0 +1,226 @@
+import {
+  GOALIE_SCORE_FIELDS,
+  PLAYER_SCORE_FIELDS,
+} from "../../config/index.js";
+import {
+  getAllGoalieCareerRowsFromDb,
+  getAllPlayerCareerRowsFromDb,
+  type GoalieCareerRow,
+  type PlayerCareerRow,
+} from "../../db/queries.js";
+import type { CsvReport } from "../../shared/types/core.js";
+import { toTeamRef } from "../../shared/teams.js";
+import type {
+  LeagueRecords,
+  RecordCategory,
+  RecordGroup,
+  RecordHolder,
+  RecordScope,
+  RecordSkaterStat,
+  RecordStat,
+  TeamRecords,
+} from "./types.js";
+
+type RecordStats = Partial<Record<RecordStat, number>>;
+
+type RecordRow = {
+  id: string;
+  name: string;
+  teamId: string;
+  season: number;
+  reportType: CsvReport;
+  stats: RecordStats & { games: number };
+};
+
+type RecordEntry = RecordHolder & {
+  stats: RecordStats;
+};
+
+const RECORD_REPORT_TYPES: readonly CsvReport[] = ["regular", "playoffs"];
+
+const RECORD_SCOPES: readonly RecordScope[] = ["season", "career"];
+
+// Every record is the highest total, penalties included. Plus-minus is left
+// out because it is the only score field that can go below zero.
+const RECORD_STATS: Record<RecordGroup, readonly RecordStat[]> = {
+  skaters: [
+    "games",
+    ...PLAYER_SCORE_FIELDS.filter(
+      (field): field is RecordSkaterStat => field !== "plusMinus",
+    ),
+  ],
+  goalies: ["games", ...GOALIE_SCORE_FIELDS],
+};
+
+const toPlayerRecordRow = (row: PlayerCareerRow): RecordRow => ({
+  id: row.player_id,
+  name: row.name,
+  teamId: row.team_id,
+  season: row.season,
+  reportType: row.report_type,
+  stats: {
+    games: row.games,
+    goals: row.goals,
+    assists: row.assists,
+    points: row.points,
+    penalties: row.penalties,
+    shots: row.shots,
+    ppp: row.ppp,
+    shp: row.shp,
+    hits: row.hits,
+    blocks: row.blocks,
+  },
+});
+
+const toGoalieRecordRow = (row: GoalieCareerRow): RecordRow => ({
+  id: row.goalie_id,
+  name: row.name,
+  teamId: row.team_id,
+  season: row.season,
+  reportType: row.report_type,
+  stats: {
+    games: row.games,
+    wins: row.wins,
+    saves: row.saves,
+    shutouts: row.shutouts,
+  },
+});
+
+// Sums a holder's rows per season (a season split between teams counts as
+// one league season) or over the whole career. Career entries also count the
+// seasons with at least one game played.
+const buildRecordEntries = (
+  rows: readonly RecordRow[],
+  reportType: CsvReport,
+  scope: RecordScope,
+): RecordEntry[] => {
+  const grouped = new Map<string, RecordRow[]>();
+  for (const row of rows) {
+    if (row.reportType !== reportType) continue;
+
+    const key = scope === "season" ? `${row.id}:${row.season}` : row.id;
+    const list = grouped.get(key);
+    if (list) {
+      list.push(row);
+    } else {
+      grouped.set(key, [row]);
+    }
+  }
+
+  return [...grouped.values()].map((groupRows) => {
+    const stats: RecordStats = {};
+    for (const row of groupRows) {
+      for (const [stat, value] of Object.entries(row.stats)) {
+        const key = stat as RecordStat;
+        stats[key] = (stats[key] ?? 0) + value;
+      }
+    }
+    if (scope === "career") {
+      stats.seasons = new Set(
+        groupRows
+          .filter((row) => row.stats.games > 0)
+          .map((row) => row.season),
+      ).size;
+    }
+
+    return {
+      id: groupRows[0].id,
+      name: groupRows[0].name,
+      season: scope === "season" ? groupRows[0].season : null,
+      stats,
+    };
+  });
+};
+
+const compareRecordHolders = (
+  left: RecordHolder,
+  right: RecordHolder,
+): number =>
+  (left.season ?? 0) - (right.season ?? 0) ||
+  left.name.localeCompare(right.name) ||
+  left.id.localeCompare(right.id);
+
+const buildRecordCategory = (
+  group: RecordGroup,
+  scope: RecordScope,
+  reportType: CsvReport,
+  stat: RecordStat,
+  entries: readonly RecordEntry[],
+): RecordCategory => {
+  const best = entries
+    .map((entry) => entry.stats[stat])
+    .filter((total): total is number => total !== undefined)
+    .reduce((max, total) => Math.max(max, total), 0);
+  const value = best > 0 ? best : null;
+
+  return {
+    group,
+    scope,
+    reportType,
+    stat,
+    value,
+    holders: entries
+      .filter((entry) => entry.stats[stat] === value)
+      .map(({ id, name, season }) => ({ id, name, season }))
+      .sort(compareRecordHolders),
+  };
+};
+
+const buildGroupRecords = (
+  group: RecordGroup,
+  rows: readonly RecordRow[],
+): RecordCategory[] =>
+  RECORD_SCOPES.flatMap((scope) =>
+    RECORD_REPORT_TYPES.flatMap((reportType) => {
+      const entries = buildRecordEntries(rows, reportType, scope);
+      const stats =
+        scope === "career"
+          ? [...RECORD_STATS[group], "seasons" as const]
+          : RECORD_STATS[group];
+
+      return stats.map((stat) =>
+        buildRecordCategory(group, scope, reportType, stat, entries),
+      );
+    }),
+  );
+
+const loadRecordRows = async (): Promise<{
+  players: RecordRow[];
+  goalies: RecordRow[];
+}> => {
+  const [playerRows, goalieRows] = await Promise.all([
+    getAllPlayerCareerRowsFromDb(),
+    getAllGoalieCareerRowsFromDb(),
+  ]);
+  return {
+    players: playerRows.map(toPlayerRecordRow),
+    goalies: goalieRows.map(toGoalieRecordRow),
+  };
+};
+
+export const getLeagueRecordsData = async (): Promise<LeagueRecords> => {
+  const { players, goalies } = await loadRecordRows();
+
+  return {
+    records: [
+      ...buildGroupRecords("skaters", players),
+      ...buildGroupRecords("goalies", goalies),
+    ],
+  };
+};
+
+// Franchise records only count what a player did for the team.
+export const getTeamRecordsData = async (
+  teamId: string,
+): Promise<TeamRecords> => {
+  const { players, goalies } = await loadRecordRows();
+  const isTeamRow = (row: RecordRow): boolean => row.teamId === teamId;
+
+  return {
+    team: toTeamRef(teamId),
+    records: [
+      ...buildGroupRecords("skaters", players.filter(isTeamRow)),
+      ...buildGroupRecords("goalies", goalies.filter(isTeamRow)),
+    ],
+  };
+};
@@ -0,0 +1,44 @@
+import type { CsvReport } from "../../shared/types/core.js";
+import type { GoalieScoreField, PlayerScoreField } from "../stats/types.js";
+import type { TransactionTeamRef } from "../transactions/types.js";
+
+export type RecordGroup = "skaters" | "goalies";
+
+// A single season's total, or the sum over every season.
+export type RecordScope = "season" | "career";
+
+// Plus-minus has no record since it can go below zero.
+export type RecordSkaterStat = Exclude<PlayerScoreField, "plusMinus">;
+
+export type RecordStat =
+  | "games"
+  | "seasons"
+  | RecordSkaterStat
+  | GoalieScoreField;
+
+export type RecordHolder = {
+  id: string;
+  name: string;
+  // Null for career records.
+  season: number | null;
+};
+
+export type RecordCategory = {
+  group: RecordGroup;
+  scope: RecordScope;
+  reportType: CsvReport;
+  stat: RecordStat;
+  // Null, with no holders, until someone has a value above zero.
+  value: number | null;
+  // Every holder tied at the record value.
+  holders: RecordHolder[];
+};
+
+export type LeagueRecords = {
+  records: RecordCategory[];
+};
+
+export type TeamRecords = {
+  team: TransactionTeamRef;
+  records: RecordCategory[];
+};
@@ -0,0 +1,48 @@
+import type { RouteHandler } from "../../shared/router.js";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  MIN_SEARCH_QUERY_LENGTH,
+} from "../../config/index.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
+import {
+  getQueryParam,
+  parseIntegerParam,
+  sendNoStore,
+  withErrorHandlingCached,
+} from "../../shared/route-utils.js";
+import { buildSearchMatchQuery, getSearchData } from "./service.js";
+
+export const getSearch: RouteHandler = async (req, res) => {
+  const query = getQueryParam(req, "q")?.trim() ?? "";
+  const matchQuery =
+    query.length >= MIN_SEARCH_QUERY_LENGTH
+      ? buildSearchMatchQuery(query)
+      : null;
+  if (!matchQuery) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_SEARCH_QUERY,
+    );
+    return;
+  }
+
+  const limit = parseIntegerParam(getQueryParam(req, "limit"));
+  if (
+    limit === null ||
+    (limit !== undefined && (limit < 1 || limit > MAX_SEARCH_LIMIT))
+  ) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+    );
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getSearchData(matchQuery, limit ?? DEFAULT_SEARCH_LIMIT),
+    dataSource: "db",
+  }));
+};
@@ -0,0 +1,25 @@
+import { searchFantraxEntitiesFromDb } from "../../db/queries.js";
+import { toOptionalTeamRef } from "../../shared/teams.js";
+import type { SearchResult } from "./types.js";
+
+// Turns free text into an FTS5 query where every word must prefix-match a
+// name token. Quoting each word keeps FTS5 operators in the input inert.
+export const buildSearchMatchQuery = (query: string): string | null => {
+  const words = query.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `"${word}"*`).join(" ") : null;
+};
+
+export const getSearchData = async (
+  matchQuery: string,
+  limit: number,
+): Promise<SearchResult[]> => {
+  const rows = await searchFantraxEntitiesFromDb(matchQuery, limit);
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    position: row.position,
+    firstSeenSeason: row.firstSeenSeason,
+    lastSeenSeason: row.lastSeenSeason,
+    lastTeam: toOptionalTeamRef(row.lastTeamId),
+  }));
+};
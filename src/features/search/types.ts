@@ -0,0 +1,11 @@
+import type { TransactionTeamRef } from "../transactions/types.js";
+
+export type SearchResult = {
+  id: string;
+  name: string;
+  // "G" for goalies; null for skaters imported without a position.
+  position: string | null;
+  firstSeenSeason: number;
+  lastSeenSeason: number;
+  lastTeam: TransactionTeamRef | null;
+};
@@ -6,6 +6,7 @@ import type {
   Player,
   PlayerWithSeason,
   RawData,
+  ScoringModel,
 } from "./types.js";
 import {
   applyGoalieScores,
@@ -149,6 +150,7 @@ export const mapCombinedPlayerData = (rawData: RawData[]): CombinedPlayer[] => {
 
 export const mapCombinedPlayerDataFromPlayersWithSeason = (
   playersWithSeason: PlayerWithSeason[],
+  model?: ScoringModel,
 ): CombinedPlayer[] => {
   // Compute per-season scores so that each season entry in the combined
   // response reflects the same scoring model as the single-season endpoints.
@@ -172,8 +174,8 @@ export const mapCombinedPlayerDataFromPlayersWithSeason = (
   }
 
   for (const [season, players] of playersBySeason) {
-    applyPlayerScores(players);
-    applyPlayerScoresByPosition(players);
+    applyPlayerScores(players, model);
+    applyPlayerScoresByPosition(players, model);
     for (const player of players) {
       seasonScoreLookup.set(`${player.id}-${season}`, {
         score: player.score,
@@ -335,6 +337,7 @@ export const mapCombinedGoalieData = (rawData: RawData[]): CombinedGoalie[] => {
 
 export const mapCombinedGoalieDataFromGoaliesWithSeason = (
   goaliesWithSeason: GoalieWithSeason[],
+  model?: ScoringModel,
 ): CombinedGoalie[] => {
   // Compute per-season scores for goalies so that each season entry in the
   // combined response matches the single-season goalie scoring model.
@@ -355,7 +358,7 @@ export const mapCombinedGoalieDataFromGoaliesWithSeason = (
   }
 
   for (const [season, goalies] of goaliesBySeason) {
-    applyGoalieScores(goalies);
+    applyGoalieScores(goalies, model);
     for (const goalie of goalies) {
       seasonScoreLookup.set(`${goalie.id}-${season}`, {
         score: goalie.score,
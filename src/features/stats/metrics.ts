@@ -0,0 +1,125 @@
+import type { Goalie, Player, StatMetric } from "./types.js";
+import {
+  GOALIE_SCORE_FIELDS,
+  PLAYER_SCORE_FIELDS,
+} from "../../config/settings.js";
+
+type MetricRow = Player | Goalie;
+
+type FieldMetrics = {
+  percentiles: Record<string, number>;
+  zScores: Record<string, number>;
+};
+
+const GOALIE_METRIC_FIELDS = [...GOALIE_SCORE_FIELDS, "gaa", "savePercent"];
+
+// Fields where a lower value is better. Their percentiles and z-scores are
+// flipped so that higher always means better.
+const LOWER_IS_BETTER_FIELDS = new Set(["gaa"]);
+
+const toTwoDecimals = (value: number): number => Number(value.toFixed(2));
+
+// Goalie rates are strings and may be missing; those rows sit out that field.
+const getFieldValue = (row: MetricRow, field: string): number | undefined => {
+  const raw = (row as unknown as Record<string, unknown>)[field];
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+// First index in a sorted array whose value is >= target (or > when strict).
+const lowerBound = (
+  sorted: number[],
+  target: number,
+  strict: boolean,
+): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < target || (strict && sorted[mid] === target)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+const computeFieldMetrics = (
+  rows: readonly MetricRow[],
+  fields: readonly string[],
+): FieldMetrics[] => {
+  const results: FieldMetrics[] = rows.map(() => ({
+    percentiles: {},
+    zScores: {},
+  }));
+
+  for (const field of fields) {
+    const direction = LOWER_IS_BETTER_FIELDS.has(field) ? -1 : 1;
+    const entries = rows.flatMap((row, index) => {
+      const value = getFieldValue(row, field);
+      return value === undefined ? [] : [{ index, value: value * direction }];
+    });
+    if (!entries.length) continue;
+
+    const sorted = entries.map((entry) => entry.value).sort((a, b) => a - b);
+    const count = sorted.length;
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / count;
+    const deviation = Math.sqrt(
+      sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count,
+    );
+
+    for (const { index, value } of entries) {
+      // Mid-rank percentile: rows beaten, with ties counted as half a win.
+      const below = lowerBound(sorted, value, false);
+      const equal = lowerBound(sorted, value, true) - below;
+      const percentile =
+        count > 1 ? ((below + (equal - 1) / 2) / (count - 1)) * 100 : 50;
+
+      results[index].percentiles[field] = toTwoDecimals(percentile);
+      results[index].zScores[field] =
+        deviation > 0 ? toTwoDecimals((value - mean) / deviation) : 0;
+    }
+  }
+
+  return results;
+};
+
+// Returns copies so cached snapshot rows are never mutated. Skaters also get
+// metrics within their position.
+export const applyStatMetrics = <T extends MetricRow>(
+  data: readonly T[],
+  kind: "players" | "goalies",
+  metrics: readonly StatMetric[],
+): T[] => {
+  const pool = computeFieldMetrics(
+    data,
+    kind === "players" ? PLAYER_SCORE_FIELDS : GOALIE_METRIC_FIELDS,
+  );
+  const byPosition = new Map<T, FieldMetrics>();
+  if (kind === "players") {
+    for (const position of ["F", "D"]) {
+      const group = data.filter((row) => row.position === position);
+      computeFieldMetrics(group, PLAYER_SCORE_FIELDS).forEach((result, index) =>
+        byPosition.set(group[index], result),
+      );
+    }
+  }
+
+  return data.map((row, index) => {
+    const result: T = { ...row };
+    const positionMetrics = byPosition.get(row);
+    if (metrics.includes("percentile")) {
+      result.percentiles = pool[index].percentiles;
+      if (positionMetrics) {
+        result.percentilesByPosition = positionMetrics.percentiles;
+      }
+    }
+    if (metrics.includes("zscore")) {
+      result.zScores = pool[index].zScores;
+      if (positionMetrics) result.zScoresByPosition = positionMetrics.zScores;
+    }
+    return result;
+  });
+};
@@ -0,0 +1,56 @@
+import type { Goalie, Player } from "./types.js";
+import { PLAYER_SCORE_FIELDS } from "../../config/settings.js";
+
+export const PLAYER_RATE_FIELDS: readonly string[] = PLAYER_SCORE_FIELDS;
+
+export const GOALIE_RATE_FIELDS: readonly string[] = [
+  "wins",
+  "saves",
+  "shutouts",
+  "goals",
+  "assists",
+  "points",
+  "penalties",
+  "ppp",
+  "shp",
+];
+
+type RateRow = {
+  games: number;
+  rates?: Record<string, number>;
+  seasons?: RateRow[];
+};
+
+// Per-game rate for each counting stat, rounded to three decimals. Rows
+// without games get zero rates instead of dividing by zero.
+export const getPerGameRates = (
+  row: { games: number },
+  fields: readonly string[],
+): Record<string, number> => {
+  const values = row as unknown as Record<string, number>;
+  return Object.fromEntries(
+    fields.map((field) => [
+      field,
+      row.games > 0 ? Number((values[field] / row.games).toFixed(3)) : 0,
+    ]),
+  );
+};
+
+// Combined rows carry summed totals, so their rates are weighted by the games
+// played in each season instead of averaging the season rates.
+const withRates = <T extends RateRow>(row: T, fields: readonly string[]): T => {
+  const result: T = { ...row, rates: getPerGameRates(row, fields) };
+  if (row.seasons) {
+    result.seasons = row.seasons.map((season) => withRates(season, fields));
+  }
+  return result;
+};
+
+// Returns copies so cached snapshot rows are never mutated.
+export const applyStatRates = <T extends Player | Goalie>(
+  data: readonly T[],
+  kind: "players" | "goalies",
+): T[] => {
+  const fields = kind === "players" ? PLAYER_RATE_FIELDS : GOALIE_RATE_FIELDS;
+  return data.map((row) => withRates(row, fields));
+};
@@ -7,8 +7,9 @@ import {
 } from "./service.js";
 import {
   getTeamStartSeason,
-  resolveTeamId,
+  resolveStatsTeamId,
 } from "../../shared/teams.js";
+import { LEAGUE_TEAM_ID, SCORING_MODELS } from "../../config/index.js";
 import {
   parseSeasonParam,
   reportTypeAvailable,
@@ -17,15 +18,108 @@ import {
 import { getCombinedSnapshotKey } from "../../infra/snapshots/store.js";
 import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
 import {
+  applyStatsListQuery,
   getQueryParam,
   loadSnapshotOrFallback,
+  parseStatsListQuery,
+  parseStatsScoringQuery,
   sendNoStore,
   withErrorHandlingCached,
+  type HandlerResult,
+  type StatsListQuery,
+  type StatsScoringQuery,
 } from "../../shared/route-utils.js";
 import type { Report } from "../../shared/types/index.js";
+import { applyStatMetrics } from "./metrics.js";
+import { applyStatRates } from "./rates.js";
+import type { Goalie, Player } from "./types.js";
+
+const PLAYER_LIST_OPTIONS = {
+  positions: ["F", "D"],
+  sortFields: [
+    "name",
+    "games",
+    "goals",
+    "assists",
+    "points",
+    "plusMinus",
+    "penalties",
+    "shots",
+    "ppp",
+    "shp",
+    "hits",
+    "blocks",
+    "score",
+    "scoreAdjustedByGames",
+    "scoreByPosition",
+    "scoreByPositionAdjustedByGames",
+  ] satisfies ReadonlyArray<keyof Player>,
+};
+
+const GOALIE_LIST_OPTIONS = {
+  positions: [],
+  sortFields: [
+    "name",
+    "games",
+    "wins",
+    "saves",
+    "shutouts",
+    "gaa",
+    "savePercent",
+    "goals",
+    "assists",
+    "points",
+    "penalties",
+    "ppp",
+    "shp",
+    "score",
+    "scoreAdjustedByGames",
+  ] satisfies ReadonlyArray<keyof Goalie>,
+};
+
+type StatsResponseOptions = Pick<
+  StatsScoringQuery,
+  "scoreWeights" | "metrics" | "include"
+> & {
+  kind: "players" | "goalies";
+  listQuery: StatsListQuery;
+};
+
+// Snapshots hold the model's own weights over the team's full history, so any
+// other weights or start season reads live data. League rows are never
+// snapshotted.
+const getCombinedStatsSnapshotKey = (
+  kind: "players" | "goalies",
+  report: Report,
+  teamId: string,
+  startFrom: number | undefined,
+  { model, usesModelWeights }: StatsScoringQuery,
+): string | undefined =>
+  teamId !== LEAGUE_TEAM_ID &&
+  usesModelWeights &&
+  (startFrom === undefined || startFrom === getTeamStartSeason(teamId))
+    ? getCombinedSnapshotKey(kind, report, teamId, model.id)
+    : undefined;
+
+// Metrics are computed over the whole scored pool before filtering and paging.
+// Rates only depend on the row itself, so they are added to the page alone.
+const applyListQuery = async <T extends Player | Goalie>(
+  { kind, listQuery, scoreWeights, metrics, include }: StatsResponseOptions,
+  load: () => Promise<HandlerResult<T[]>>,
+): Promise<HandlerResult> => {
+  const { data, dataSource } = await load();
+  const rows = metrics ? applyStatMetrics(data, kind, metrics) : data;
+  const { items, total } = applyStatsListQuery(rows, listQuery);
+  return {
+    data: include?.includes("rates") ? applyStatRates(items, kind) : items,
+    dataSource,
+    total,
+    scoreWeights,
+  };
+};
 
 export const getPlayersSeason: RouteHandler = async (req, res) => {
-  const teamId = resolveTeamId(getQueryParam(req, "teamId"));
+  const teamId = resolveStatsTeamId(getQueryParam(req, "teamId"));
   const season = parseSeasonParam(req.params.season);
   if (!reportTypeAvailable(req.params.reportType as Report)) {
     sendNoStore(
@@ -36,6 +130,20 @@ export const getPlayersSeason: RouteHandler = async (req, res) => {
     return;
   }
   const report = req.params.reportType as Report;
+  const listQuery = parseStatsListQuery(req, PLAYER_LIST_OPTIONS);
+  if (!listQuery) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_STATS_QUERY,
+    );
+    return;
+  }
+  const scoring = parseStatsScoringQuery(req, "playerWeights");
+  if ("error" in scoring) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, scoring.error);
+    return;
+  }
 
   if (!(await seasonAvailable(season, teamId, report))) {
     sendNoStore(
@@ -46,14 +154,16 @@ export const getPlayersSeason: RouteHandler = async (req, res) => {
     return;
   }
 
-  await withErrorHandlingCached(req, res, async () => ({
-    data: await getPlayersStatsSeason(report, season, teamId),
-    dataSource: "db",
-  }));
+  await withErrorHandlingCached(req, res, () =>
+    applyListQuery<Player | Goalie>({ kind: "players", listQuery, ...scoring }, async () => ({
+      data: await getPlayersStatsSeason(report, season, teamId, scoring.model),
+      dataSource: "db",
+    })),
+  );
 };
 
 export const getPlayersCombined: RouteHandler = async (req, res) => {
-  const teamId = resolveTeamId(getQueryParam(req, "teamId"));
+  const teamId = resolveStatsTeamId(getQueryParam(req, "teamId"));
   const startFrom = parseSeasonParam(getQueryParam(req, "startFrom"));
   if (!reportTypeAvailable(req.params.reportType as Report)) {
     sendNoStore(
@@ -64,20 +174,39 @@ export const getPlayersCombined: RouteHandler = async (req, res) => {
     return;
   }
   const report = req.params.reportType as Report;
-  const defaultStartFrom = getTeamStartSeason(teamId);
+  const listQuery = parseStatsListQuery(req, PLAYER_LIST_OPTIONS);
+  if (!listQuery) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_STATS_QUERY,
+    );
+    return;
+  }
+  const scoring = parseStatsScoringQuery(req, "playerWeights");
+  if ("error" in scoring) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, scoring.error);
+    return;
+  }
 
   await withErrorHandlingCached(req, res, () =>
-    loadSnapshotOrFallback(
-      startFrom === undefined || startFrom === defaultStartFrom
-        ? getCombinedSnapshotKey("players", report, teamId)
-        : undefined,
-      () => getPlayersStatsCombined(report, teamId, startFrom),
+    applyListQuery<Player | Goalie>({ kind: "players", listQuery, ...scoring }, () =>
+      loadSnapshotOrFallback(
+        getCombinedStatsSnapshotKey(
+          "players",
+          report,
+          teamId,
+          startFrom,
+          scoring,
+        ),
+        () => getPlayersStatsCombined(report, teamId, startFrom, scoring.model),
+      ),
     ),
   );
 };
 
 export const getGoaliesSeason: RouteHandler = async (req, res) => {
-  const teamId = resolveTeamId(getQueryParam(req, "teamId"));
+  const teamId = resolveStatsTeamId(getQueryParam(req, "teamId"));
   const season = parseSeasonParam(req.params.season);
   if (!reportTypeAvailable(req.params.reportType as Report)) {
     sendNoStore(
@@ -88,6 +217,20 @@ export const getGoaliesSeason: RouteHandler = async (req, res) => {
     return;
   }
   const report = req.params.reportType as Report;
+  const listQuery = parseStatsListQuery(req, GOALIE_LIST_OPTIONS);
+  if (!listQuery) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_STATS_QUERY,
+    );
+    return;
+  }
+  const scoring = parseStatsScoringQuery(req, "goalieWeights");
+  if ("error" in scoring) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, scoring.error);
+    return;
+  }
 
   if (!(await seasonAvailable(season, teamId, report))) {
     sendNoStore(
@@ -98,14 +241,16 @@ export const getGoaliesSeason: RouteHandler = async (req, res) => {
     return;
   }
 
-  await withErrorHandlingCached(req, res, async () => ({
-    data: await getGoaliesStatsSeason(report, season, teamId),
-    dataSource: "db",
-  }));
+  await withErrorHandlingCached(req, res, () =>
+    applyListQuery<Player | Goalie>({ kind: "goalies", listQuery, ...scoring }, async () => ({
+      data: await getGoaliesStatsSeason(report, season, teamId, scoring.model),
+      dataSource: "db",
+    })),
+  );
 };
 
 export const getGoaliesCombined: RouteHandler = async (req, res) => {
-  const teamId = resolveTeamId(getQueryParam(req, "teamId"));
+  const teamId = resolveStatsTeamId(getQueryParam(req, "teamId"));
   const startFrom = parseSeasonParam(getQueryParam(req, "startFrom"));
   if (!reportTypeAvailable(req.params.reportType as Report)) {
     sendNoStore(
@@ -116,14 +261,40 @@ export const getGoaliesCombined: RouteHandler = async (req, res) => {
     return;
   }
   const report = req.params.reportType as Report;
-  const defaultStartFrom = getTeamStartSeason(teamId);
+  const listQuery = parseStatsListQuery(req, GOALIE_LIST_OPTIONS);
+  if (!listQuery) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_STATS_QUERY,
+    );
+    return;
+  }
+  const scoring = parseStatsScoringQuery(req, "goalieWeights");
+  if ("error" in scoring) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, scoring.error);
+    return;
+  }
 
   await withErrorHandlingCached(req, res, () =>
-    loadSnapshotOrFallback(
-      startFrom === undefined || startFrom === defaultStartFrom
-        ? getCombinedSnapshotKey("goalies", report, teamId)
-        : undefined,
-      () => getGoaliesStatsCombined(report, teamId, startFrom),
+    applyListQuery<Player | Goalie>({ kind: "goalies", listQuery, ...scoring }, () =>
+      loadSnapshotOrFallback(
+        getCombinedStatsSnapshotKey(
+          "goalies",
+          report,
+          teamId,
+          startFrom,
+          scoring,
+        ),
+        () => getGoaliesStatsCombined(report, teamId, startFrom, scoring.model),
+      ),
     ),
   );
 };
+
+export const getScoringModels: RouteHandler = async (req, res) => {
+  await withErrorHandlingCached(req, res, async () => ({
+    data: SCORING_MODELS,
+    dataSource: "db",
+  }));
+};
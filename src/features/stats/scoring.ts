@@ -1,15 +1,14 @@
-import type { Goalie, GoalieScoreField, Player } from "./types.js";
+import type {
+  Goalie,
+  GoalieScoreField,
+  Player,
+  ScoringModel,
+} from "./types.js";
 import {
-  GOALIE_ADJUSTED_SCORE_PRIOR_GAMES,
-  GOALIE_GAA_MAX_DIFF_RATIO,
-  GOALIE_SAVE_PERCENT_BASELINE,
+  DEFAULT_SCORING_MODEL,
   GOALIE_SCORE_FIELDS,
-  GOALIE_SCORE_WEIGHTS,
-  GOALIE_SCORING_DAMPENING_EXPONENT,
   MIN_GAMES_FOR_ADJUSTED_SCORE,
-  PLAYER_ADJUSTED_SCORE_PRIOR_GAMES,
   PLAYER_SCORE_FIELDS,
-  PLAYER_SCORE_WEIGHTS,
 } from "../../config/settings.js";
 
 const defaultSortPlayers = (a: Player, b: Player): number =>
@@ -20,6 +19,10 @@ const defaultSortGoalies = (a: Goalie, b: Goalie): number =>
 
 const toTwoDecimals = (value: number): number => Number(value.toFixed(2));
 
+// Weights above 1 would push weighted averages past 100 before the best-in-set
+// normalization, so averages are divided by the largest weight instead.
+const getWeightScale = (weights: number[]): number => Math.max(1, ...weights);
+
 // Normalize a numeric field so that the highest positive value becomes 100
 // and all other positive values are scaled proportionally into the 0-100 range.
 // Used for both total scores (score) and games-adjusted scores (scoreAdjustedByGames).
@@ -104,7 +107,8 @@ const applyScoresInternal = <
 
   const maxByField = getMaxByField(items, fields);
   const minByField = getMinByField(items, fields);
-  const fieldCount = fields.length;
+  const divisor =
+    fields.length * getWeightScale(fields.map((field) => weights[field]));
   const rawScores: number[] = [];
 
   for (const item of items) {
@@ -139,7 +143,7 @@ const applyScoresInternal = <
       total += relative * weight;
     }
 
-    const average = total / fieldCount;
+    const average = total / divisor;
     item.score = toTwoDecimals(Math.min(Math.max(average, 0), 100));
     rawScores.push(item.score);
   }
@@ -294,7 +298,8 @@ const applyStabilizedAdjustedScores = <
     priorGamesByField,
     negativeField,
   );
-  const fieldCount = fields.length;
+  const divisor =
+    fields.length * getWeightScale(fields.map((field) => weights[field]));
 
   for (const item of items) {
     if (item.games < MIN_GAMES_FOR_ADJUSTED_SCORE) {
@@ -335,7 +340,7 @@ const applyStabilizedAdjustedScores = <
     }
 
     item[outputField] = toTwoDecimals(
-      Math.min(Math.max(total / fieldCount, 0), 100),
+      Math.min(Math.max(total / divisor, 0), 100),
     ) as T[S];
   }
 
@@ -354,29 +359,39 @@ export const sortItemsByStatField = (
   return data;
 };
 
-const applyPlayerScoresByGames = (players: Player[]): void => {
+const applyPlayerScoresByGames = (
+  players: Player[],
+  model: ScoringModel,
+): void => {
   applyStabilizedAdjustedScores(
     players,
     PLAYER_SCORE_FIELDS,
-    PLAYER_SCORE_WEIGHTS,
-    PLAYER_ADJUSTED_SCORE_PRIOR_GAMES,
+    model.playerWeights,
+    model.playerPriorGames,
     "scoreAdjustedByGames",
     "plusMinus",
   );
 };
 
-export const applyPlayerScores = (players: Player[]): Player[] => {
-  applyScoresInternal(players, PLAYER_SCORE_FIELDS, PLAYER_SCORE_WEIGHTS);
-  applyPlayerScoresByGames(players);
+export const applyPlayerScores = (
+  players: Player[],
+  model: ScoringModel = DEFAULT_SCORING_MODEL,
+): Player[] => {
+  applyScoresInternal(players, PLAYER_SCORE_FIELDS, model.playerWeights);
+  applyPlayerScoresByGames(players, model);
   return players;
 };
 
-const applyPositionScoresForGroup = (players: Player[]): void => {
+const applyPositionScoresForGroup = (
+  players: Player[],
+  model: ScoringModel,
+): void => {
   if (!players.length) return;
 
   const fields = PLAYER_SCORE_FIELDS;
-  const weights = PLAYER_SCORE_WEIGHTS;
-  const fieldCount = fields.length;
+  const weights = model.playerWeights;
+  const divisor =
+    fields.length * getWeightScale(fields.map((field) => weights[field]));
 
   // Calculate max/min for the position group
   const maxByField = getMaxByField(players, fields);
@@ -416,7 +431,7 @@ const applyPositionScoresForGroup = (players: Player[]): void => {
       total += relative * weight;
     }
 
-    const average = total / fieldCount;
+    const average = total / divisor;
     player.scoreByPosition = toTwoDecimals(Math.min(Math.max(average, 0), 100));
   }
 
@@ -425,13 +440,16 @@ const applyPositionScoresForGroup = (players: Player[]): void => {
     players,
     fields,
     weights,
-    PLAYER_ADJUSTED_SCORE_PRIOR_GAMES,
+    model.playerPriorGames,
     "scoreByPositionAdjustedByGames",
     "plusMinus",
   );
 };
 
-export const applyPlayerScoresByPosition = (players: Player[]): Player[] => {
+export const applyPlayerScoresByPosition = (
+  players: Player[],
+  model: ScoringModel = DEFAULT_SCORING_MODEL,
+): Player[] => {
   if (!players.length) return players;
 
   // Group players by position
@@ -439,15 +457,21 @@ export const applyPlayerScoresByPosition = (players: Player[]): Player[] => {
   const defensemen = players.filter((player) => player.position === "D");
 
   // Apply position-based scoring to each group
-  applyPositionScoresForGroup(forwards);
-  applyPositionScoresForGroup(defensemen);
+  applyPositionScoresForGroup(forwards, model);
+  applyPositionScoresForGroup(defensemen, model);
 
   return players;
 };
 
-export const applyGoalieScores = (goalies: Goalie[]): Goalie[] => {
+export const applyGoalieScores = (
+  goalies: Goalie[],
+  model: ScoringModel = DEFAULT_SCORING_MODEL,
+): Goalie[] => {
   if (!goalies.length) return goalies;
 
+  const weights = model.goalieWeights;
+  const weightScale = getWeightScale(Object.values(weights));
+
   const baseFields: GoalieScoreField[] = GOALIE_SCORE_FIELDS;
 
   const maxByBase = getMaxByField(goalies, baseFields);
@@ -490,8 +514,8 @@ export const applyGoalieScores = (goalies: Goalie[]): Goalie[] => {
         const raw = Number(goalie[field]);
         const value = Math.max(0, raw);
         const relative =
-          Math.pow(value / max, GOALIE_SCORING_DAMPENING_EXPONENT) * 100;
-        const weight = GOALIE_SCORE_WEIGHTS[field];
+          Math.pow(value / max, model.goalieDampeningExponent) * 100;
+        const weight = weights[field];
 
         goalie.scores[field] = toTwoDecimals(
           Math.min(Math.max(relative, 0), 100),
@@ -506,7 +530,7 @@ export const applyGoalieScores = (goalies: Goalie[]): Goalie[] => {
       const raw = Number(goalie.savePercent);
       if (Number.isFinite(raw) && raw > 0) {
         const best = maxSavePercent;
-        const baseline = GOALIE_SAVE_PERCENT_BASELINE;
+        const baseline = model.goalieSavePercentBaseline;
 
         let relative = 0;
         if (best > baseline) {
@@ -517,7 +541,7 @@ export const applyGoalieScores = (goalies: Goalie[]): Goalie[] => {
             relative = Math.min(Math.max(ratio, 0), 1) * 100;
           }
         }
-        const weight = GOALIE_SCORE_WEIGHTS.savePercent;
+        const weight = weights.savePercent;
         total += relative * weight;
         count += 1;
 
@@ -534,15 +558,15 @@ export const applyGoalieScores = (goalies: Goalie[]): Goalie[] => {
         const diff = raw - best;
 
         let relative = 100;
-        if (diff > 0 && GOALIE_GAA_MAX_DIFF_RATIO > 0 && best > 0) {
+        if (diff > 0 && model.goalieGaaMaxDiffRatio > 0 && best > 0) {
           const ratio = diff / best; // how much worse than best, as a fraction
           relative =
-            ratio >= GOALIE_GAA_MAX_DIFF_RATIO
+            ratio >= model.goalieGaaMaxDiffRatio
               ? 0
-              : (1 - ratio / GOALIE_GAA_MAX_DIFF_RATIO) * 100;
+              : (1 - ratio / model.goalieGaaMaxDiffRatio) * 100;
         }
 
-        const weight = GOALIE_SCORE_WEIGHTS.gaa;
+        const weight = weights.gaa;
         total += relative * weight;
         count += 1;
 
@@ -557,7 +581,7 @@ export const applyGoalieScores = (goalies: Goalie[]): Goalie[] => {
       continue;
     }
 
-    const average = total / count;
+    const average = total / (count * weightScale);
     goalie.score = toTwoDecimals(Math.min(Math.max(average, 0), 100));
   }
 
@@ -565,8 +589,8 @@ export const applyGoalieScores = (goalies: Goalie[]): Goalie[] => {
   applyStabilizedAdjustedScores(
     goalies,
     baseFields,
-    GOALIE_SCORE_WEIGHTS,
-    GOALIE_ADJUSTED_SCORE_PRIOR_GAMES,
+    weights,
+    model.goaliePriorGames,
     "scoreAdjustedByGames",
   );
 
@@ -8,15 +8,67 @@ import {
   mapCombinedPlayerDataFromPlayersWithSeason,
   mapCombinedGoalieDataFromGoaliesWithSeason,
 } from "./mapping.js";
-import { DEFAULT_TEAM_ID } from "../../config/index.js";
-import { getPlayersFromDb, getGoaliesFromDb } from "../../db/queries.js";
+import { DEFAULT_TEAM_ID, LEAGUE_TEAM_ID } from "../../config/index.js";
+import {
+  getPlayersFromDb,
+  getGoaliesFromDb,
+  getLeaguePlayersFromDb,
+  getLeagueGoaliesFromDb,
+} from "../../db/queries.js";
 import { availableSeasons } from "../../shared/seasons.js";
 import type {
+  CombinedGoalie,
+  CombinedPlayer,
   GoalieWithSeason,
   PlayerWithSeason,
+  ScoringModel,
 } from "./types.js";
 import type { CsvReport, Report } from "../../shared/types/index.js";
 
+const isLeagueTeamId = (teamId: string): boolean => teamId === LEAGUE_TEAM_ID;
+
+const getSeasonKey = (row: { id: string; season?: number }): string =>
+  `${row.id}-${row.season}`;
+
+const getEntityKey = (row: { id: string }): string => row.id;
+
+const hasLeagueTeam = <T extends { teamId?: string }>(
+  row: T,
+): row is T & { teamId: string } => row.teamId !== undefined;
+
+// League-wide rows name every team the entity played for, most games first,
+// with the top one as teamId. Sources are the unmerged one-per-team rows.
+const creditLeagueTeams = <
+  T extends CombinedPlayer | CombinedGoalie | PlayerWithSeason | GoalieWithSeason,
+>(
+  rows: T[],
+  sources: ReadonlyArray<PlayerWithSeason | GoalieWithSeason>,
+  getKey: (row: { id: string; season?: number }) => string,
+): T[] => {
+  const teamGamesByRow = rows.map(() => new Map<string, number>());
+  const teamGamesByKey = new Map(
+    rows.map((row, index) => [getKey(row), teamGamesByRow[index]]),
+  );
+
+  for (const source of sources.filter(hasLeagueTeam)) {
+    const teamGames = teamGamesByKey.get(getKey(source));
+    teamGames?.set(
+      source.teamId,
+      (teamGames.get(source.teamId) ?? 0) + source.games,
+    );
+  }
+
+  rows.forEach((row, index) => {
+    const teamIds = [...teamGamesByRow[index]]
+      .sort(([, leftGames], [, rightGames]) => rightGames - leftGames)
+      .map(([teamId]) => teamId);
+    row.teamId = teamIds[0];
+    row.teamIds = teamIds;
+  });
+
+  return rows;
+};
+
 // Parser wants seasons as an array even in one-season cases
 const getSeasonParam = async (
   teamId: string,
@@ -36,7 +88,11 @@ const getPlayersForSeasons = async (
 ): Promise<PlayerWithSeason[]> => {
   if (!seasons.length) return [];
   const results = await Promise.all(
-    seasons.map((season) => getPlayersFromDb(teamId, season, report)),
+    seasons.map((season) =>
+      isLeagueTeamId(teamId)
+        ? getLeaguePlayersFromDb(season, report)
+        : getPlayersFromDb(teamId, season, report),
+    ),
   );
   return results.flat();
 };
@@ -48,7 +104,11 @@ const getGoaliesForSeasons = async (
 ): Promise<GoalieWithSeason[]> => {
   if (!seasons.length) return [];
   const results = await Promise.all(
-    seasons.map((season) => getGoaliesFromDb(teamId, season, report)),
+    seasons.map((season) =>
+      isLeagueTeamId(teamId)
+        ? getLeagueGoaliesFromDb(season, report)
+        : getGoaliesFromDb(teamId, season, report),
+    ),
   );
   return results.flat();
 };
@@ -142,10 +202,32 @@ const mergeGoaliesSameSeason = (goalies: GoalieWithSeason[]): GoalieWithSeason[]
   return [...merged.values()];
 };
 
+// Mid-season movers are merged into one row per season. Goalies who stayed
+// with one team keep their rate stats.
+const mergeLeaguePlayers = (players: PlayerWithSeason[]): PlayerWithSeason[] =>
+  creditLeagueTeams(mergePlayersSameSeason(players), players, getSeasonKey);
+
+const mergeLeagueGoalies = (goalies: GoalieWithSeason[]): GoalieWithSeason[] => {
+  const goaliesByKey = new Map<string, GoalieWithSeason[]>();
+  for (const goalie of goalies) {
+    const key = getSeasonKey(goalie);
+    goaliesByKey.set(key, [...(goaliesByKey.get(key) ?? []), goalie]);
+  }
+
+  return creditLeagueTeams(
+    [...goaliesByKey.values()].flatMap((group) =>
+      group.length > 1 ? mergeGoaliesSameSeason(group) : group,
+    ),
+    goalies,
+    getSeasonKey,
+  );
+};
+
 export const getPlayersStatsSeason = async (
   report: Report,
   season?: number,
   teamId: string = DEFAULT_TEAM_ID,
+  model?: ScoringModel,
 ) => {
   const seasons = await getSeasonParam(teamId, report, season);
   if (report === "both") {
@@ -154,15 +236,20 @@ export const getPlayersStatsSeason = async (
       ["regular", "playoffs"],
       seasons,
     );
-    const merged = mergePlayersSameSeason(players);
-    const scoredData = applyPlayerScores(merged);
-    applyPlayerScoresByPosition(scoredData);
+    const merged = isLeagueTeamId(teamId)
+      ? mergeLeaguePlayers(players)
+      : mergePlayersSameSeason(players);
+    const scoredData = applyPlayerScores(merged, model);
+    applyPlayerScoresByPosition(scoredData, model);
     return sortItemsByStatField(scoredData, "players");
   }
 
   const players = await getPlayersForSeasons(teamId, report, seasons);
-  const scoredData = applyPlayerScores(players);
-  applyPlayerScoresByPosition(scoredData);
+  const scoredData = applyPlayerScores(
+    isLeagueTeamId(teamId) ? mergeLeaguePlayers(players) : players,
+    model,
+  );
+  applyPlayerScoresByPosition(scoredData, model);
   return sortItemsByStatField(scoredData, "players");
 };
 
@@ -170,6 +257,7 @@ export const getGoaliesStatsSeason = async (
   report: Report,
   season?: number,
   teamId: string = DEFAULT_TEAM_ID,
+  model?: ScoringModel,
 ) => {
   const seasons = await getSeasonParam(teamId, report, season);
   if (report === "both") {
@@ -179,19 +267,59 @@ export const getGoaliesStatsSeason = async (
       seasons,
     );
     const merged = mergeGoaliesSameSeason(goalies);
-    const scoredData = applyGoalieScores(merged);
+    const scoredData = applyGoalieScores(
+      isLeagueTeamId(teamId)
+        ? creditLeagueTeams(merged, goalies, getSeasonKey)
+        : merged,
+      model,
+    );
     return sortItemsByStatField(scoredData, "goalies");
   }
 
   const goalies = await getGoaliesForSeasons(teamId, report, seasons);
-  const scoredData = applyGoalieScores(goalies);
+  const scoredData = applyGoalieScores(
+    isLeagueTeamId(teamId) ? mergeLeagueGoalies(goalies) : goalies,
+    model,
+  );
   return sortItemsByStatField(scoredData, "goalies");
 };
 
+// Combined league rows credit teams over every season, while each seasons[]
+// entry keeps the teams of that season.
+const scoreLeagueCombinedPlayers = (
+  seasonRows: PlayerWithSeason[],
+  sources: PlayerWithSeason[],
+  model?: ScoringModel,
+) => {
+  const combined = creditLeagueTeams(
+    mapCombinedPlayerDataFromPlayersWithSeason(seasonRows, model),
+    sources,
+    getEntityKey,
+  );
+  const scored = applyPlayerScores(combined, model);
+  applyPlayerScoresByPosition(scored, model);
+  return sortItemsByStatField(scored, "players");
+};
+
+const scoreLeagueCombinedGoalies = (
+  seasonRows: GoalieWithSeason[],
+  sources: GoalieWithSeason[],
+  model?: ScoringModel,
+) => {
+  const combined = creditLeagueTeams(
+    mapCombinedGoalieDataFromGoaliesWithSeason(seasonRows, model),
+    sources,
+    getEntityKey,
+  );
+  const scored = applyGoalieScores(combined, model);
+  return sortItemsByStatField(scored, "goalies");
+};
+
 const getPlayersCombinedForReport = async (
   teamId: string,
   report: CsvReport,
   startFrom?: number,
+  model?: ScoringModel,
 ) => {
   let seasons = await availableSeasons(teamId, report);
   if (startFrom !== undefined) {
@@ -199,9 +327,17 @@ const getPlayersCombinedForReport = async (
   }
 
   const players = await getPlayersForSeasons(teamId, report, seasons);
-  const combined = mapCombinedPlayerDataFromPlayersWithSeason(players);
-  const scored = applyPlayerScores(combined);
-  applyPlayerScoresByPosition(scored);
+  if (isLeagueTeamId(teamId)) {
+    return scoreLeagueCombinedPlayers(
+      mergeLeaguePlayers(players),
+      players,
+      model,
+    );
+  }
+
+  const combined = mapCombinedPlayerDataFromPlayersWithSeason(players, model);
+  const scored = applyPlayerScores(combined, model);
+  applyPlayerScoresByPosition(scored, model);
   return sortItemsByStatField(scored, "players");
 };
 
@@ -209,6 +345,7 @@ const getGoaliesCombinedForReport = async (
   teamId: string,
   report: CsvReport,
   startFrom?: number,
+  model?: ScoringModel,
 ) => {
   let seasons = await availableSeasons(teamId, report);
   if (startFrom !== undefined) {
@@ -216,14 +353,23 @@ const getGoaliesCombinedForReport = async (
   }
 
   const goalies = await getGoaliesForSeasons(teamId, report, seasons);
-  const combined = mapCombinedGoalieDataFromGoaliesWithSeason(goalies);
-  const scored = applyGoalieScores(combined);
+  if (isLeagueTeamId(teamId)) {
+    return scoreLeagueCombinedGoalies(
+      mergeLeagueGoalies(goalies),
+      goalies,
+      model,
+    );
+  }
+
+  const combined = mapCombinedGoalieDataFromGoaliesWithSeason(goalies, model);
+  const scored = applyGoalieScores(combined, model);
   return sortItemsByStatField(scored, "goalies");
 };
 
 const getPlayersStatsCombinedBoth = async (
   teamId: string,
   startFrom?: number,
+  model?: ScoringModel,
 ) => {
   let seasons = await availableSeasons(teamId, "both");
   if (startFrom !== undefined) {
@@ -235,16 +381,28 @@ const getPlayersStatsCombinedBoth = async (
     ["regular", "playoffs"],
     seasons,
   );
+  if (isLeagueTeamId(teamId)) {
+    return scoreLeagueCombinedPlayers(
+      mergeLeaguePlayers(players),
+      players,
+      model,
+    );
+  }
+
   const mergedBySeason = mergePlayersSameSeason(players);
-  const combined = mapCombinedPlayerDataFromPlayersWithSeason(mergedBySeason);
-  const scored = applyPlayerScores(combined);
-  applyPlayerScoresByPosition(scored);
+  const combined = mapCombinedPlayerDataFromPlayersWithSeason(
+    mergedBySeason,
+    model,
+  );
+  const scored = applyPlayerScores(combined, model);
+  applyPlayerScoresByPosition(scored, model);
   return sortItemsByStatField(scored, "players");
 };
 
 const getGoaliesStatsCombinedBoth = async (
   teamId: string,
   startFrom?: number,
+  model?: ScoringModel,
 ) => {
   let seasons = await availableSeasons(teamId, "both");
   if (startFrom !== undefined) {
@@ -257,8 +415,19 @@ const getGoaliesStatsCombinedBoth = async (
     seasons,
   );
   const mergedBySeason = mergeGoaliesSameSeason(goalies);
-  const combined = mapCombinedGoalieDataFromGoaliesWithSeason(mergedBySeason);
-  const scored = applyGoalieScores(combined);
+  if (isLeagueTeamId(teamId)) {
+    return scoreLeagueCombinedGoalies(
+      creditLeagueTeams(mergedBySeason, goalies, getSeasonKey),
+      goalies,
+      model,
+    );
+  }
+
+  const combined = mapCombinedGoalieDataFromGoaliesWithSeason(
+    mergedBySeason,
+    model,
+  );
+  const scored = applyGoalieScores(combined, model);
   return sortItemsByStatField(scored, "goalies");
 };
 
@@ -266,16 +435,18 @@ export const getPlayersStatsCombined = async (
   report: Report,
   teamId: string = DEFAULT_TEAM_ID,
   startFrom?: number,
+  model?: ScoringModel,
 ) =>
   report === "both"
-    ? getPlayersStatsCombinedBoth(teamId, startFrom)
-    : getPlayersCombinedForReport(teamId, report, startFrom);
+    ? getPlayersStatsCombinedBoth(teamId, startFrom, model)
+    : getPlayersCombinedForReport(teamId, report, startFrom, model);
 
 export const getGoaliesStatsCombined = async (
   report: Report,
   teamId: string = DEFAULT_TEAM_ID,
   startFrom?: number,
+  model?: ScoringModel,
 ) =>
   report === "both"
-    ? getGoaliesStatsCombinedBoth(teamId, startFrom)
-    : getGoaliesCombinedForReport(teamId, report, startFrom);
+    ? getGoaliesStatsCombinedBoth(teamId, startFrom, model)
+    : getGoaliesCombinedForReport(teamId, report, startFrom, model);
@@ -15,6 +15,18 @@ interface Common {
   scoreByPosition?: number;
   scoreByPositionAdjustedByGames?: number;
   scoresByPosition?: Record<string, number>;
+  // Only with ?metrics=: percentile rank (0-100) and z-score per scoring field
+  // within the scored pool, and for skaters within their position.
+  percentiles?: Record<string, number>;
+  zScores?: Record<string, number>;
+  percentilesByPosition?: Record<string, number>;
+  zScoresByPosition?: Record<string, number>;
+  // Only with ?include=rates: per-game rate for every counting stat.
+  rates?: Record<string, number>;
+  // Only on league-wide rows: the team with the most games and every team
+  // the player appeared for, most games first.
+  teamId?: string;
+  teamIds?: string[];
 }
 
 export interface Player extends Common {
@@ -130,3 +142,19 @@ export type GoalieScoreWeights = Record<
   GoalieScoreField | GoalieOptionalScoreField,
   number
 >;
+
+export type StatMetric = "percentile" | "zscore";
+
+export type StatInclude = "rates";
+
+export type ScoringModel = {
+  id: string;
+  description: string;
+  playerWeights: PlayerScoreWeights;
+  playerPriorGames: Record<PlayerScoreField, number>;
+  goalieWeights: GoalieScoreWeights;
+  goaliePriorGames: Record<GoalieScoreField, number>;
+  goalieDampeningExponent: number;
+  goalieGaaMaxDiffRatio: number;
+  goalieSavePercentBaseline: number;
+};
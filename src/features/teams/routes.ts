@@ -0,0 +1,120 @@
+import type { RouteHandler } from "../../shared/router.js";
+import { CURRENT_SEASON, START_SEASON } from "../../config/index.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
+import {
+  getSeasonForDate,
+  reportTypeAvailable,
+  seasonAvailable,
+} from "../../shared/seasons.js";
+import { isConfiguredTeamId } from "../../shared/teams.js";
+import {
+  getQueryParam,
+  parseDateParam,
+  parseSeasonFilter,
+  sendNoStore,
+  withErrorHandlingCached,
+} from "../../shared/route-utils.js";
+import type { Report } from "../../shared/types/index.js";
+import {
+  getTeamRosterChangesData,
+  getTeamRosterData,
+  getTeamTotalsData,
+} from "./service.js";
+
+export const getTeamRoster: RouteHandler<{ teamId: string }> = async (
+  req,
+  res,
+) => {
+  const { teamId } = req.params;
+  if (!isConfiguredTeamId(teamId)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_TEAM_ID);
+    return;
+  }
+
+  const date = parseDateParam(getQueryParam(req, "date"));
+  if (!date) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_DATE);
+    return;
+  }
+
+  const season = getSeasonForDate(date);
+  if (season < START_SEASON || season > CURRENT_SEASON) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTeamRosterData(teamId, date),
+    dataSource: "db",
+  }));
+};
+
+export const getTeamRosterChanges: RouteHandler<{ teamId: string }> = async (
+  req,
+  res,
+) => {
+  const { teamId } = req.params;
+  if (!isConfiguredTeamId(teamId)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_TEAM_ID);
+    return;
+  }
+
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null || season === undefined) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTeamRosterChangesData(teamId, season),
+    dataSource: "db",
+  }));
+};
+
+export const getTeamTotals: RouteHandler<{ teamId: string }> = async (
+  req,
+  res,
+) => {
+  const { teamId } = req.params;
+  if (!isConfiguredTeamId(teamId)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_TEAM_ID);
+    return;
+  }
+
+  const reportType = (getQueryParam(req, "reportType") ?? "regular") as Report;
+  if (!reportTypeAvailable(reportType)) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_REPORT_TYPE,
+    );
+    return;
+  }
+
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (
+    season === null ||
+    season === undefined ||
+    !(await seasonAvailable(season, teamId, reportType))
+  ) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTeamTotalsData(teamId, season, reportType),
+    dataSource: "db",
+  }));
+};
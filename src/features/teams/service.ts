@@ -0,0 +1,277 @@
+import { PLAYER_SCORE_FIELDS } from "../../config/index.js";
+import {
+  getLeagueGoaliesFromDb,
+  getLeaguePlayersFromDb,
+  getTeamSeasonRosterEntityRowsFromDb,
+  getTeamTransactionRowsFromDb,
+} from "../../db/queries.js";
+import {
+  aggregateGoalieGaa,
+  aggregateGoalieSavePercent,
+} from "../../shared/goalie-rates.js";
+import { getSeasonForDate } from "../../shared/seasons.js";
+import { toTeamRef } from "../../shared/teams.js";
+import type { CsvReport, Report } from "../../shared/types/core.js";
+import {
+  FINALS_STAT_KEYS,
+  type FinalsPlayedGames,
+  type FinalsTeamTotals,
+} from "../finals/types.js";
+import type { GoalieWithSeason, PlayerWithSeason } from "../stats/types.js";
+import { toTransactionTimelineEvents } from "../transactions/service.js";
+import type {
+  RosterChange,
+  RosterPlayer,
+  TeamCategoryRank,
+  TeamRoster,
+  TeamRosterChanges,
+  TeamTotals,
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RosterEntity = {
+  id: string;
+  name: string;
+  position: string | null;
+  // Has a stats row for the team in the season.
+  member: boolean;
+  changes: RosterChange[];
+};
+
+type TeamSeasonRosterState = {
+  entities: RosterEntity[];
+  changes: RosterChange[];
+};
+
+const compareRosterPlayers = (left: RosterPlayer, right: RosterPlayer): number =>
+  left.name.localeCompare(right.name) || left.id.localeCompare(right.id);
+
+const loadTeamSeasonRosterState = async (
+  teamId: string,
+  season: number,
+): Promise<TeamSeasonRosterState> => {
+  const [members, transactionRows] = await Promise.all([
+    getTeamSeasonRosterEntityRowsFromDb(teamId, season),
+    getTeamTransactionRowsFromDb(teamId, season),
+  ]);
+  const changes = (await toTransactionTimelineEvents(transactionRows)).map(
+    (event): RosterChange => ({
+      ...event,
+      direction: event.toTeam?.id === teamId ? "in" : "out",
+    }),
+  );
+  const entities = new Map<string, RosterEntity>(
+    members.map((member) => [
+      member.entityId,
+      {
+        id: member.entityId,
+        name: member.name,
+        position: member.position,
+        member: true,
+        changes: [],
+      },
+    ]),
+  );
+
+  for (const change of changes) {
+    const { id } = change.asset;
+    if (id === null) continue;
+
+    const entity =
+      entities.get(id) ??
+      {
+        id,
+        name: change.asset.name,
+        position: change.asset.position,
+        member: false,
+        changes: [],
+      };
+    entity.changes.push(change);
+    entities.set(id, entity);
+  }
+
+  return { entities: [...entities.values()], changes };
+};
+
+// Replays the season's moves up to `before` (exclusive, every move when
+// omitted). Players with no move yet were on the roster from the start when
+// their first move takes them out, or when they have stats rows but no moves.
+const buildRoster = (
+  entities: readonly RosterEntity[],
+  before?: string,
+): RosterPlayer[] => {
+  const players: RosterPlayer[] = [];
+
+  for (const entity of entities) {
+    const applied =
+      before === undefined
+        ? entity.changes
+        : entity.changes.filter((change) => change.occurredAt < before);
+    const last = applied[applied.length - 1];
+    const onRoster = last
+      ? last.direction === "in"
+      : entity.changes.length > 0
+        ? entity.changes[0].direction === "out"
+        : entity.member;
+    if (!onRoster) continue;
+
+    players.push({
+      id: entity.id,
+      name: entity.name,
+      position: entity.position,
+      acquiredAt: last ? last.occurredAt : null,
+      acquiredBy: last ? (last.type === "claim" ? "claim" : "trade") : null,
+    });
+  }
+
+  return players.sort(compareRosterPlayers);
+};
+
+export const getTeamRosterData = async (
+  teamId: string,
+  date: string,
+): Promise<TeamRoster> => {
+  const season = getSeasonForDate(date);
+  const { entities } = await loadTeamSeasonRosterState(teamId, season);
+
+  return {
+    team: toTeamRef(teamId),
+    season,
+    date,
+    players: buildRoster(
+      entities,
+      new Date(Date.parse(`${date}T00:00:00.000Z`) + DAY_MS).toISOString(),
+    ),
+  };
+};
+
+export const getTeamRosterChangesData = async (
+  teamId: string,
+  season: number,
+): Promise<TeamRosterChanges> => {
+  const { entities, changes } = await loadTeamSeasonRosterState(
+    teamId,
+    season,
+  );
+
+  return {
+    team: toTeamRef(teamId),
+    season,
+    added: changes.filter((change) => change.direction === "in").length,
+    removed: changes.filter((change) => change.direction === "out").length,
+    opening: buildRoster(entities, ""),
+    changes,
+    closing: buildRoster(entities),
+  };
+};
+
+type TeamSeasonTotals = {
+  teamId: string;
+  playedGames: FinalsPlayedGames;
+  totals: FinalsTeamTotals;
+};
+
+// Lower is better only for GAA among the head-to-head categories.
+const LOWER_IS_BETTER_CATEGORIES = new Set(["gaa"]);
+
+const sumRows = <T>(rows: readonly T[], getValue: (row: T) => number): number =>
+  rows.reduce((sum, row) => sum + getValue(row), 0);
+
+const buildTeamSeasonTotals = (
+  teamId: string,
+  players: readonly PlayerWithSeason[],
+  goalies: readonly GoalieWithSeason[],
+): TeamSeasonTotals => {
+  const skaterGames = sumRows(players, (player) => player.games);
+  const goalieGames = sumRows(goalies, (goalie) => goalie.games);
+  const skaterTotals = Object.fromEntries(
+    PLAYER_SCORE_FIELDS.map((field) => [
+      field,
+      sumRows(players, (player) => player[field]),
+    ]),
+  ) as Record<(typeof PLAYER_SCORE_FIELDS)[number], number>;
+
+  return {
+    teamId,
+    playedGames: {
+      total: skaterGames + goalieGames,
+      skaters: skaterGames,
+      goalies: goalieGames,
+    },
+    totals: {
+      ...skaterTotals,
+      wins: sumRows(goalies, (goalie) => goalie.wins),
+      saves: sumRows(goalies, (goalie) => goalie.saves),
+      shutouts: sumRows(goalies, (goalie) => goalie.shutouts),
+      gaa: aggregateGoalieGaa(goalies),
+      savePercent: aggregateGoalieSavePercent(goalies),
+    },
+  };
+};
+
+const rankTeamCategories = (
+  team: TeamSeasonTotals,
+  league: readonly TeamSeasonTotals[],
+): TeamCategoryRank[] =>
+  FINALS_STAT_KEYS.map((statKey) => {
+    const value = team.totals[statKey];
+    const values = league
+      .map((other) => other.totals[statKey])
+      .filter((other): other is number => other !== null);
+    const lowerIsBetter = LOWER_IS_BETTER_CATEGORIES.has(statKey);
+    const leagueAverage = values.length
+      ? Number((sumRows(values, (other) => other) / values.length).toFixed(3))
+      : null;
+    if (value === null) {
+      return { statKey, value, rank: null, leagueAverage };
+    }
+
+    const better = values.filter((other) =>
+      lowerIsBetter ? other < value : other > value,
+    );
+    return { statKey, value, rank: better.length + 1, leagueAverage };
+  });
+
+export const getTeamTotalsData = async (
+  teamId: string,
+  season: number,
+  reportType: Report,
+): Promise<TeamTotals> => {
+  const reports: CsvReport[] =
+    reportType === "both" ? ["regular", "playoffs"] : [reportType];
+  const [playerRows, goalieRows] = await Promise.all([
+    Promise.all(
+      reports.map((report) => getLeaguePlayersFromDb(season, report)),
+    ),
+    Promise.all(
+      reports.map((report) => getLeagueGoaliesFromDb(season, report)),
+    ),
+  ]);
+  const players = playerRows.flat();
+  const goalies = goalieRows.flat();
+
+  const buildTotals = (id: string): TeamSeasonTotals =>
+    buildTeamSeasonTotals(
+      id,
+      players.filter((player) => player.teamId === id),
+      goalies.filter((goalie) => goalie.teamId === id),
+    );
+  const team = buildTotals(teamId);
+  const otherTeamIds = new Set(
+    [...players, ...goalies]
+      .map((row) => row.teamId)
+      .filter((id) => id !== teamId),
+  );
+  const league = [team, ...[...otherTeamIds].map(buildTotals)];
+
+  return {
+    team: toTeamRef(teamId),
+    season,
+    reportType,
+    teamCount: league.length,
+    playedGames: team.playedGames,
+    totals: team.totals,
+    categories: rankTeamCategories(team, league),
+  };
+};
@@ -0,0 +1,64 @@
+import type { Report } from "../../shared/types/core.js";
+import type {
+  FinalsPlayedGames,
+  FinalsStatKey,
+  FinalsTeamTotals,
+} from "../finals/types.js";
+import type {
+  TransactionTeamRef,
+  TransactionTimelineEvent,
+} from "../transactions/types.js";
+
+export type RosterAcquisitionType = "claim" | "trade";
+
+export type RosterPlayer = {
+  id: string;
+  name: string;
+  position: string | null;
+  // Null when the player was already on the roster when the season started.
+  acquiredAt: string | null;
+  acquiredBy: RosterAcquisitionType | null;
+};
+
+export type TeamRoster = {
+  team: TransactionTeamRef;
+  season: number;
+  date: string;
+  players: RosterPlayer[];
+};
+
+export type RosterChangeDirection = "in" | "out";
+
+export type RosterChange = TransactionTimelineEvent & {
+  direction: RosterChangeDirection;
+};
+
+export type TeamRosterChanges = {
+  team: TransactionTeamRef;
+  season: number;
+  added: number;
+  removed: number;
+  opening: RosterPlayer[];
+  changes: RosterChange[];
+  closing: RosterPlayer[];
+};
+
+// One head-to-head category compared with every team that season. Rank 1 is
+// the best; tied teams share a rank. Null when the team has no value, such as
+// GAA without a goalie rate.
+export type TeamCategoryRank = {
+  statKey: FinalsStatKey;
+  value: number | null;
+  rank: number | null;
+  leagueAverage: number | null;
+};
+
+export type TeamTotals = {
+  team: TransactionTeamRef;
+  season: number;
+  reportType: Report;
+  teamCount: number;
+  playedGames: FinalsPlayedGames;
+  totals: FinalsTeamTotals;
+  categories: TeamCategoryRank[];
+};
@@ -0,0 +1,348 @@
+import { TRADE_VERDICT_EVEN_SCORE_MARGIN } from "../../config/index.js";
+import {
+  getAllGoalieCareerRowsFromDb,
+  getAllPlayerCareerRowsFromDb,
+  type GoalieCareerRow,
+  type PlayerCareerRow,
+} from "../../db/queries.js";
+import {
+  aggregateGoalieGaa,
+  aggregateGoalieSavePercent,
+  formatOptionalGoalieGaa,
+  formatOptionalGoalieSavePercent,
+  type GoalieRateRow,
+} from "../../shared/goalie-rates.js";
+import { applyGoalieScores, applyPlayerScores } from "../stats/scoring.js";
+import type { Goalie, Player } from "../stats/types.js";
+import { getTradeData, getTradesData } from "./service.js";
+import type {
+  Trade,
+  TradeAcquiredPlayer,
+  TradeAnalysis,
+  TradeProductionLine,
+  TradeSideAnalysis,
+  TradeSideTotal,
+  TradeVerdict,
+  TransactionAsset,
+} from "./types.js";
+
+// Regular season and playoff rows merged per entity and team, like
+// `/players/season/both`. Every team's rows of a season are scored in one
+// league-wide pool per position group, so sides of a trade are comparable.
+// Goalie stints keep their rows' rates so GAA and save percentage are
+// aggregated like the career totals before scoring.
+type GoalieStint = {
+  goalie: Goalie;
+  rateRows: GoalieRateRow[];
+};
+
+type SeasonPool = {
+  players: Map<string, Player>;
+  goalies: Map<string, GoalieStint>;
+  scored: boolean;
+};
+
+type SeasonPools = Map<number, SeasonPool>;
+
+type PoolGroup = "players" | "goalies";
+
+const toStintKey = (entityId: string, teamId: string): string =>
+  `${entityId}|${teamId}`;
+
+const roundScore = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const emptyLine = (): TradeProductionLine => ({ games: 0, points: 0, score: 0 });
+
+const getOrCreatePool = (pools: SeasonPools, season: number): SeasonPool => {
+  const existing = pools.get(season);
+  if (existing) return existing;
+
+  const pool: SeasonPool = {
+    players: new Map(),
+    goalies: new Map(),
+    scored: false,
+  };
+  pools.set(season, pool);
+  return pool;
+};
+
+const addPlayerRow = (pools: SeasonPools, row: PlayerCareerRow): void => {
+  const pool = getOrCreatePool(pools, row.season);
+  const key = toStintKey(row.player_id, row.team_id);
+  const existing = pool.players.get(key);
+
+  if (!existing) {
+    pool.players.set(key, {
+      id: row.player_id,
+      name: row.name,
+      position: row.position ?? undefined,
+      games: row.games,
+      goals: row.goals,
+      assists: row.assists,
+      points: row.points,
+      plusMinus: row.plus_minus,
+      penalties: row.penalties,
+      shots: row.shots,
+      ppp: row.ppp,
+      shp: row.shp,
+      hits: row.hits,
+      blocks: row.blocks,
+      score: 0,
+      scoreAdjustedByGames: 0,
+    });
+    return;
+  }
+
+  existing.games += row.games;
+  existing.goals += row.goals;
+  existing.assists += row.assists;
+  existing.points += row.points;
+  existing.plusMinus += row.plus_minus;
+  existing.penalties += row.penalties;
+  existing.shots += row.shots;
+  existing.ppp += row.ppp;
+  existing.shp += row.shp;
+  existing.hits += row.hits;
+  existing.blocks += row.blocks;
+};
+
+const addGoalieRow = (pools: SeasonPools, row: GoalieCareerRow): void => {
+  const pool = getOrCreatePool(pools, row.season);
+  const key = toStintKey(row.goalie_id, row.team_id);
+  const rateRow: GoalieRateRow = {
+    games: row.games,
+    saves: row.saves,
+    gaa: formatOptionalGoalieGaa(row.gaa, row.games),
+    savePercent: formatOptionalGoalieSavePercent(row.save_percent, row.games),
+  };
+  const stint = pool.goalies.get(key);
+
+  if (!stint) {
+    pool.goalies.set(key, {
+      goalie: {
+        id: row.goalie_id,
+        name: row.name,
+        games: row.games,
+        wins: row.wins,
+        saves: row.saves,
+        shutouts: row.shutouts,
+        goals: row.goals,
+        assists: row.assists,
+        points: row.points,
+        penalties: row.penalties,
+        ppp: row.ppp,
+        shp: row.shp,
+        score: 0,
+        scoreAdjustedByGames: 0,
+      },
+      rateRows: [rateRow],
+    });
+    return;
+  }
+
+  const existing = stint.goalie;
+  stint.rateRows.push(rateRow);
+  existing.games += row.games;
+  existing.wins += row.wins;
+  existing.saves += row.saves;
+  existing.shutouts += row.shutouts;
+  existing.goals += row.goals;
+  existing.assists += row.assists;
+  existing.points += row.points;
+  existing.penalties += row.penalties;
+  existing.ppp += row.ppp;
+  existing.shp += row.shp;
+};
+
+const loadSeasonPools = async (): Promise<SeasonPools> => {
+  const [playerRows, goalieRows] = await Promise.all([
+    getAllPlayerCareerRowsFromDb(),
+    getAllGoalieCareerRowsFromDb(),
+  ]);
+  const pools: SeasonPools = new Map();
+
+  for (const row of playerRows) addPlayerRow(pools, row);
+  for (const row of goalieRows) addGoalieRow(pools, row);
+
+  return pools;
+};
+
+const getScoredEntry = (
+  pools: SeasonPools,
+  group: PoolGroup,
+  entityId: string,
+  teamId: string,
+  season: number,
+): Player | Goalie | undefined => {
+  const pool = pools.get(season);
+  if (!pool) return undefined;
+
+  if (!pool.scored) {
+    applyPlayerScores([...pool.players.values()]);
+    applyGoalieScores(
+      [...pool.goalies.values()].map(({ goalie, rateRows }) => {
+        goalie.gaa = formatOptionalGoalieGaa(
+          aggregateGoalieGaa(rateRows),
+          goalie.games,
+        );
+        goalie.savePercent = formatOptionalGoalieSavePercent(
+          aggregateGoalieSavePercent(rateRows),
+          goalie.games,
+        );
+        return goalie;
+      }),
+    );
+    pool.scored = true;
+  }
+
+  const key = toStintKey(entityId, teamId);
+  return group === "goalies"
+    ? pool.goalies.get(key)?.goalie
+    : pool.players.get(key);
+};
+
+const getPoolGroup = (asset: TransactionAsset): PoolGroup =>
+  asset.position === "G" ? "goalies" : "players";
+
+const addToLine = (
+  line: TradeProductionLine,
+  entry: Pick<Player | Goalie, "games" | "points" | "score">,
+): void => {
+  line.games += entry.games;
+  line.points += entry.points;
+  line.score = roundScore(line.score + entry.score);
+};
+
+// Production counts the trade season plus every consecutive later season the
+// player stayed on the receiving roster.
+const buildAcquiredPlayer = (
+  pools: SeasonPools,
+  trade: Trade,
+  move: Trade["sides"][number]["received"][number],
+): TradeAcquiredPlayer => {
+  const tradeSeason = emptyLine();
+  const laterSeasons = { ...emptyLine(), seasons: 0 };
+
+  if (move.asset.id) {
+    for (let season = trade.season; ; season++) {
+      const entry = getScoredEntry(
+        pools,
+        getPoolGroup(move.asset),
+        move.asset.id,
+        move.toTeam.id,
+        season,
+      );
+      if (!entry) break;
+
+      if (season === trade.season) {
+        addToLine(tradeSeason, entry);
+      } else {
+        addToLine(laterSeasons, entry);
+        laterSeasons.seasons++;
+      }
+    }
+  }
+
+  return {
+    fromTeam: move.fromTeam,
+    asset: move.asset,
+    tradeSeason,
+    laterSeasons,
+    total: {
+      games: tradeSeason.games + laterSeasons.games,
+      points: tradeSeason.points + laterSeasons.points,
+      score: roundScore(tradeSeason.score + laterSeasons.score),
+    },
+  };
+};
+
+const getVerdict = (
+  score: number,
+  bestScore: number,
+  otherScores: readonly number[],
+): TradeVerdict => {
+  if (bestScore - score >= TRADE_VERDICT_EVEN_SCORE_MARGIN) return "lost";
+  return otherScores.every(
+    (other) => score - other >= TRADE_VERDICT_EVEN_SCORE_MARGIN,
+  )
+    ? "won"
+    : "even";
+};
+
+// Skater and goalie scores are each relative to the best of their group in the
+// league that season, so the side total adds them on the same 0-100 scale and
+// also reports them apart.
+const buildSideTotal = (
+  acquired: readonly TradeAcquiredPlayer[],
+): TradeSideTotal => {
+  const total = { ...emptyLine(), skaterScore: 0, goalieScore: 0 };
+  for (const player of acquired) {
+    addToLine(total, player.total);
+    if (getPoolGroup(player.asset) === "goalies") {
+      total.goalieScore = roundScore(total.goalieScore + player.total.score);
+    } else {
+      total.skaterScore = roundScore(total.skaterScore + player.total.score);
+    }
+  }
+  return total;
+};
+
+const analyzeTrade = (pools: SeasonPools, trade: Trade): TradeAnalysis => {
+  const sides = trade.sides.map((side) => {
+    const acquired = side.received
+      .filter((move) => move.asset.type === "player")
+      .map((move) => buildAcquiredPlayer(pools, trade, move));
+
+    return { team: side.team, acquired, total: buildSideTotal(acquired) };
+  });
+
+  const scores = sides.map((side) => side.total.score);
+  const bestScore = Math.max(...scores);
+  const analyzedSides = sides.map(
+    (side, index): TradeSideAnalysis => ({
+      team: side.team,
+      verdict: getVerdict(
+        side.total.score,
+        bestScore,
+        scores.filter((_, otherIndex) => otherIndex !== index),
+      ),
+      total: side.total,
+      acquired: side.acquired,
+    }),
+  );
+
+  return {
+    trade,
+    winner:
+      analyzedSides.find((side) => side.verdict === "won")?.team ?? null,
+    margin: roundScore(bestScore - Math.min(...scores)),
+    sides: analyzedSides,
+  };
+};
+
+const compareLopsidedTrades = (
+  left: TradeAnalysis,
+  right: TradeAnalysis,
+): number =>
+  right.margin - left.margin ||
+  right.trade.occurredAt.localeCompare(left.trade.occurredAt) ||
+  left.trade.id - right.trade.id;
+
+export const getTradeAnalysisData = async (
+  id: number,
+): Promise<TradeAnalysis> => {
+  const trade = await getTradeData(id);
+  return analyzeTrade(await loadSeasonPools(), trade);
+};
+
+export const getLopsidedTradesData = async (): Promise<TradeAnalysis[]> => {
+  const [trades, pools] = await Promise.all([
+    getTradesData(),
+    loadSeasonPools(),
+  ]);
+
+  return trades
+    .map((trade) => analyzeTrade(pools, trade))
+    .sort(compareLopsidedTrades);
+};
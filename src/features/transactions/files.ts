@@ -7,6 +7,9 @@ export const DEFAULT_TRANSACTIONS_OUT_DIR = path.resolve(
   "transactions",
 );
 
+// Reviewed entity links for transaction rows the importer cannot match on its own.
+export const TRANSACTION_OVERRIDES_FILE_NAME = "overrides.json";
+
 export const TRANSACTION_TYPES = ["claims", "trades"] as const;
 
 export type TransactionType = (typeof TRANSACTION_TYPES)[number];
@@ -0,0 +1,225 @@
+import type { RouteHandler } from "../../shared/router.js";
+import {
+  decodeTransactionFeedCursor,
+  getTradeData,
+  getTradesData,
+  getTransactionFeedData,
+} from "./service.js";
+import { getLopsidedTradesData, getTradeAnalysisData } from "./analysis.js";
+import {
+  DEFAULT_LOPSIDED_TRADES_SKIP,
+  DEFAULT_LOPSIDED_TRADES_TAKE,
+  DEFAULT_TRANSACTION_FEED_LIMIT,
+  MAX_LOPSIDED_TRADES_TAKE,
+  MAX_TRANSACTION_FEED_LIMIT,
+} from "../../config/index.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "../../shared/http.js";
+import { getLopsidedTradesSnapshotKey } from "../../infra/snapshots/store.js";
+import { isConfiguredTeamId } from "../../shared/teams.js";
+import {
+  getQueryParam,
+  loadSnapshotOrFallback,
+  parseDateParam,
+  parseIntegerParam,
+  parseSeasonFilter,
+  sendNoStore,
+  withErrorHandlingCached,
+} from "../../shared/route-utils.js";
+import type { LopsidedTradesPage, TransactionEventType } from "./types.js";
+
+const TRANSACTION_EVENT_TYPES = [
+  "claim",
+  "drop",
+  "trade",
+] as const satisfies readonly TransactionEventType[];
+
+const isTransactionEventType = (
+  value: string,
+): value is TransactionEventType =>
+  TRANSACTION_EVENT_TYPES.includes(value as TransactionEventType);
+
+const parseTypesParam = (
+  value: string | undefined,
+): TransactionEventType[] | null | undefined => {
+  if (value === undefined) return undefined;
+
+  const types = value.split(",").map((entry) => entry.trim());
+  return types.every(isTransactionEventType) ? [...new Set(types)] : null;
+};
+
+export const getTransactions: RouteHandler = async (req, res) => {
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  const teamId = getQueryParam(req, "teamId");
+  if (teamId !== undefined && !isConfiguredTeamId(teamId)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_TEAM_ID);
+    return;
+  }
+
+  const types = parseTypesParam(getQueryParam(req, "type"));
+  if (types === null) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_TRANSACTION_TYPE,
+    );
+    return;
+  }
+
+  const from = parseDateParam(getQueryParam(req, "from"));
+  const to = parseDateParam(getQueryParam(req, "to"));
+  if (from === null || to === null || (from && to && from > to)) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_DATE_RANGE,
+    );
+    return;
+  }
+
+  const limit = parseIntegerParam(getQueryParam(req, "limit"));
+  if (
+    limit === null ||
+    (limit !== undefined && (limit < 1 || limit > MAX_TRANSACTION_FEED_LIMIT))
+  ) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+    );
+    return;
+  }
+
+  const rawCursor = getQueryParam(req, "cursor");
+  const cursor =
+    rawCursor === undefined ? undefined : decodeTransactionFeedCursor(rawCursor);
+  if (cursor === null) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_CURSOR);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTransactionFeedData(
+      {
+        season,
+        teamId,
+        types,
+        from,
+        to,
+        playerId: getQueryParam(req, "playerId"),
+      },
+      limit ?? DEFAULT_TRANSACTION_FEED_LIMIT,
+      cursor,
+    ),
+    dataSource: "db",
+  }));
+};
+
+export const getTrades: RouteHandler = async (req, res) => {
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  const teamId = getQueryParam(req, "teamId");
+  if (teamId !== undefined && !isConfiguredTeamId(teamId)) {
+    sendNoStore(res, HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_TEAM_ID);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTradesData(season, teamId),
+    dataSource: "db",
+  }));
+};
+
+export const getTrade: RouteHandler<{ id: string }> = async (req, res) => {
+  const id = parseIntegerParam(req.params.id);
+  if (typeof id !== "number") {
+    sendNoStore(res, HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.TRADE_NOT_FOUND);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTradeData(id),
+    dataSource: "db",
+  }));
+};
+
+export const getTradeAnalysis: RouteHandler<{ id: string }> = async (
+  req,
+  res,
+) => {
+  const id = parseIntegerParam(req.params.id);
+  if (typeof id !== "number") {
+    sendNoStore(res, HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.TRADE_NOT_FOUND);
+    return;
+  }
+
+  await withErrorHandlingCached(req, res, async () => ({
+    data: await getTradeAnalysisData(id),
+    dataSource: "db",
+  }));
+};
+
+export const getLopsidedTrades: RouteHandler = async (req, res) => {
+  const season = parseSeasonFilter(getQueryParam(req, "season"));
+  if (season === null) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.SEASON_NOT_AVAILABLE,
+    );
+    return;
+  }
+
+  const skip = parseIntegerParam(getQueryParam(req, "skip"));
+  const take = parseIntegerParam(getQueryParam(req, "take"));
+  if (
+    skip === null ||
+    take === null ||
+    (take !== undefined && take > MAX_LOPSIDED_TRADES_TAKE)
+  ) {
+    sendNoStore(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVALID_PAGING_PARAMS,
+    );
+    return;
+  }
+
+  const resolvedSkip = skip ?? DEFAULT_LOPSIDED_TRADES_SKIP;
+  const resolvedTake = take ?? DEFAULT_LOPSIDED_TRADES_TAKE;
+
+  await withErrorHandlingCached(req, res, async () => {
+    const result = await loadSnapshotOrFallback(
+      getLopsidedTradesSnapshotKey(),
+      () => getLopsidedTradesData(),
+    );
+    const analyses =
+      season === undefined
+        ? result.data
+        : result.data.filter((analysis) => analysis.trade.season === season);
+    const page: LopsidedTradesPage = {
+      skip: resolvedSkip,
+      take: resolvedTake,
+      total: analyses.length,
+      items: analyses.slice(resolvedSkip, resolvedSkip + resolvedTake),
+    };
+
+    return { data: page, dataSource: result.dataSource };
+  });
+};
@@ -0,0 +1,296 @@
+import {
+  getEntityTransactionRowsFromDb,
+  getTradeBlockItemRowsForBlocksFromDb,
+  getTradeBlockItemRowsFromDb,
+  getTransactionFeedRowsFromDb,
+  type EntityTransactionDbRow,
+  type TradeBlockItemDbRow,
+  type TransactionFeedDbRow,
+} from "../../db/queries.js";
+import { ERROR_MESSAGES } from "../../shared/http.js";
+import { toOptionalTeamRef, toTeamRef } from "../../shared/teams.js";
+import type {
+  Trade,
+  TradeAssetMove,
+  TradeSide,
+  TransactionAsset,
+  TransactionEvent,
+  TransactionFeedCursor,
+  TransactionFeedFilters,
+  TransactionFeedPage,
+  TransactionTeamRef,
+  TransactionTimelineEvent,
+} from "./types.js";
+
+type TransactionNotFoundError = Error & {
+  statusCode: number;
+  body: string;
+};
+
+const EVENT_ID_PATTERN = /^(?<source>claims|trades):(?<sourceId>\d+)$/u;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createNotFoundError = (message: string): TransactionNotFoundError =>
+  Object.assign(new Error(message), {
+    statusCode: 404,
+    body: message,
+  });
+
+const mapTransactionAsset = (
+  row: Pick<
+    TransactionFeedDbRow,
+    | "assetType"
+    | "entityId"
+    | "name"
+    | "position"
+    | "draftSeason"
+    | "draftRound"
+    | "draftOriginalTeamId"
+  >,
+): TransactionAsset => ({
+  type: row.assetType,
+  id: row.entityId,
+  name: row.name,
+  position: row.position,
+  draftPick:
+    row.draftSeason !== null && row.draftRound !== null
+      ? {
+          season: row.draftSeason,
+          round: row.draftRound,
+          originalTeam: toOptionalTeamRef(row.draftOriginalTeamId),
+        }
+      : null,
+});
+
+const mapTransactionEvent = (row: TransactionFeedDbRow): TransactionEvent => ({
+  id: row.id,
+  type: row.type,
+  season: row.season,
+  occurredAt: row.occurredAt,
+  fromTeam: toOptionalTeamRef(row.fromTeamId),
+  toTeam: toOptionalTeamRef(row.toTeamId),
+  asset: mapTransactionAsset(row),
+});
+
+const encodeTransactionFeedCursor = (
+  event: Pick<TransactionEvent, "occurredAt" | "id">,
+): string =>
+  Buffer.from(`${event.occurredAt}|${event.id}`, "utf8").toString(
+    "base64url",
+  );
+
+export const decodeTransactionFeedCursor = (
+  value: string,
+): TransactionFeedCursor | null => {
+  const [occurredAt, id, ...rest] = Buffer.from(value, "base64url")
+    .toString("utf8")
+    .split("|");
+  const idMatch = EVENT_ID_PATTERN.exec(id ?? "");
+
+  if (
+    rest.length > 0 ||
+    !occurredAt ||
+    !idMatch?.groups ||
+    Number.isNaN(Date.parse(occurredAt))
+  ) {
+    return null;
+  }
+
+  return {
+    occurredAt,
+    source: idMatch.groups.source === "claims" ? "claims" : "trades",
+    sourceId: Number(idMatch.groups.sourceId),
+  };
+};
+
+// Date filters are whole UTC days: `from` is inclusive and so is `to`.
+const toDayStart = (date: string): string => new Date(date).toISOString();
+
+const toNextDayStart = (date: string): string =>
+  new Date(Date.parse(date) + DAY_MS).toISOString();
+
+export const getTransactionFeedData = async (
+  filters: TransactionFeedFilters,
+  limit: number,
+  cursor?: TransactionFeedCursor,
+): Promise<TransactionFeedPage> => {
+  const rows = await getTransactionFeedRowsFromDb({
+    season: filters.season,
+    teamId: filters.teamId,
+    types: filters.types,
+    occurredFrom: filters.from ? toDayStart(filters.from) : undefined,
+    occurredBefore: filters.to ? toNextDayStart(filters.to) : undefined,
+    playerId: filters.playerId,
+    after: cursor,
+    limit: limit + 1,
+  });
+  const items = rows.slice(0, limit).map(mapTransactionEvent);
+  const last = items.at(-1);
+
+  return {
+    limit,
+    nextCursor:
+      rows.length > limit && last ? encodeTransactionFeedCursor(last) : null,
+    items,
+  };
+};
+
+const compareTeamRefs = (
+  left: TransactionTeamRef,
+  right: TransactionTeamRef,
+): number => left.name.localeCompare(right.name);
+
+const compareTrades = (left: Trade, right: Trade): number =>
+  right.occurredAt.localeCompare(left.occurredAt) || left.id - right.id;
+
+// Blocks processed in the same period at the same moment belong to one trade
+// when they share a team, so multi-team deals come back as a single trade.
+const groupTradeBlocks = (
+  rows: readonly TradeBlockItemDbRow[],
+): TradeBlockItemDbRow[][] => {
+  const rowsByMoment = new Map<string, TradeBlockItemDbRow[]>();
+  for (const row of rows) {
+    const key = `${row.season}|${row.occurredAt}|${row.sourcePeriod}`;
+    const list = rowsByMoment.get(key);
+    if (list) {
+      list.push(row);
+    } else {
+      rowsByMoment.set(key, [row]);
+    }
+  }
+
+  const groups: TradeBlockItemDbRow[][] = [];
+  for (const momentRows of rowsByMoment.values()) {
+    const parentByTeam = new Map<string, string>();
+    const findRoot = (teamId: string): string => {
+      const parent = parentByTeam.get(teamId) ?? teamId;
+      if (parent === teamId) return teamId;
+      const root = findRoot(parent);
+      parentByTeam.set(teamId, root);
+      return root;
+    };
+
+    for (const row of momentRows) {
+      const fromRoot = findRoot(row.fromTeamId);
+      const toRoot = findRoot(row.toTeamId);
+      if (fromRoot !== toRoot) {
+        parentByTeam.set(toRoot, fromRoot);
+      }
+    }
+
+    const rowsByRoot = new Map<string, TradeBlockItemDbRow[]>();
+    for (const row of momentRows) {
+      const root = findRoot(row.fromTeamId);
+      const list = rowsByRoot.get(root);
+      if (list) {
+        list.push(row);
+      } else {
+        rowsByRoot.set(root, [row]);
+      }
+    }
+    groups.push(...rowsByRoot.values());
+  }
+
+  return groups;
+};
+
+const buildTrade = (rows: readonly TradeBlockItemDbRow[]): Trade => {
+  const orderedRows = rows
+    .slice()
+    .sort((a, b) => a.blockId - b.blockId || a.sequence - b.sequence);
+  const moves = orderedRows.map(
+    (row): TradeAssetMove => ({
+      fromTeam: toTeamRef(row.fromTeamId),
+      toTeam: toTeamRef(row.toTeamId),
+      asset: mapTransactionAsset(row),
+    }),
+  );
+  const teams = [
+    ...new Set(orderedRows.flatMap((row) => [row.fromTeamId, row.toTeamId])),
+  ]
+    .map(toTeamRef)
+    .sort(compareTeamRefs);
+  const sides = teams.map(
+    (team): TradeSide => ({
+      team,
+      sent: moves.filter((move) => move.fromTeam.id === team.id),
+      received: moves.filter((move) => move.toTeam.id === team.id),
+    }),
+  );
+
+  return {
+    id: orderedRows[0].blockId,
+    season: orderedRows[0].season,
+    occurredAt: orderedRows[0].occurredAt,
+    teams,
+    sides,
+  };
+};
+
+const buildTrades = (rows: readonly TradeBlockItemDbRow[]): Trade[] =>
+  groupTradeBlocks(rows).map(buildTrade).sort(compareTrades);
+
+export const getTradesData = async (
+  season?: number,
+  teamId?: string,
+): Promise<Trade[]> => {
+  const trades = buildTrades(await getTradeBlockItemRowsFromDb(season));
+  return teamId === undefined
+    ? trades
+    : trades.filter((trade) => trade.teams.some((team) => team.id === teamId));
+};
+
+// Regroups the given blocks with the rest of their moment, keyed by every
+// member block id of the rebuilt deals.
+const getTradeGroupsByBlockId = async (
+  blockIds: readonly number[],
+): Promise<Map<number, TradeBlockItemDbRow[]>> => {
+  if (blockIds.length === 0) return new Map();
+
+  const groups = groupTradeBlocks(
+    await getTradeBlockItemRowsForBlocksFromDb(blockIds),
+  );
+  return new Map(
+    groups.flatMap((group) => group.map((row) => [row.blockId, group] as const)),
+  );
+};
+
+// Any member block id of a multi-block trade returns the whole deal.
+export const getTradeData = async (id: number): Promise<Trade> => {
+  const group = (await getTradeGroupsByBlockId([id])).get(id);
+  if (!group) {
+    throw createNotFoundError(ERROR_MESSAGES.TRADE_NOT_FOUND);
+  }
+  return buildTrade(group);
+};
+
+// Maps feed rows to timeline events that point trade moves at their rebuilt
+// deal, whose id is its lowest block id. Claims have no trade block and so no
+// trade id.
+export const toTransactionTimelineEvents = async (
+  rows: readonly EntityTransactionDbRow[],
+): Promise<TransactionTimelineEvent[]> => {
+  const groupByBlockId = await getTradeGroupsByBlockId([
+    ...new Set(
+      rows.flatMap((row) =>
+        row.tradeBlockId === null ? [] : [row.tradeBlockId],
+      ),
+    ),
+  ]);
+  const tradeIdByBlockId = new Map<number | null, number>(
+    [...groupByBlockId].map(([blockId, group]) => [
+      blockId,
+      Math.min(...group.map((row) => row.blockId)),
+    ]),
+  );
+
+  return rows.map((row) => ({
+    ...mapTransactionEvent(row),
+    tradeId: tradeIdByBlockId.get(row.tradeBlockId) ?? null,
+  }));
+};
+
+export const getEntityTransactionTimelineData = async (
+  entityId: string,
+): Promise<TransactionTimelineEvent[]> =>
+  toTransactionTimelineEvents(await getEntityTransactionRowsFromDb(entityId));
@@ -0,0 +1,147 @@
+export type TransactionEventType = "claim" | "drop" | "trade";
+
+export type TransactionAssetType = "player" | "draft_pick" | "other";
+
+export type TransactionTeamRef = {
+  id: string;
+  name: string;
+};
+
+export type TransactionDraftPickAsset = {
+  season: number;
+  round: number;
+  originalTeam: TransactionTeamRef | null;
+};
+
+export type TransactionAsset = {
+  type: TransactionAssetType;
+  id: string | null;
+  name: string;
+  position: string | null;
+  draftPick: TransactionDraftPickAsset | null;
+};
+
+export type TransactionEvent = {
+  id: string;
+  type: TransactionEventType;
+  season: number;
+  occurredAt: string;
+  fromTeam: TransactionTeamRef | null;
+  toTeam: TransactionTeamRef | null;
+  asset: TransactionAsset;
+};
+
+// Career timelines link trade events to the reconstructed deal they belong to.
+export type TransactionTimelineEvent = TransactionEvent & {
+  tradeId: number | null;
+};
+
+export type TransactionFeedFilters = {
+  season?: number;
+  teamId?: string;
+  types?: readonly TransactionEventType[];
+  from?: string;
+  to?: string;
+  playerId?: string;
+};
+
+export type TransactionFeedCursor = {
+  occurredAt: string;
+  source: "claims" | "trades";
+  sourceId: number;
+};
+
+export type TransactionFeedPage = {
+  limit: number;
+  nextCursor: string | null;
+  items: TransactionEvent[];
+};
+
+export type TradeAssetMove = {
+  fromTeam: TransactionTeamRef;
+  toTeam: TransactionTeamRef;
+  asset: TransactionAsset;
+};
+
+export type TradeSide = {
+  team: TransactionTeamRef;
+  sent: TradeAssetMove[];
+  received: TradeAssetMove[];
+};
+
+export type Trade = {
+  id: number;
+  season: number;
+  occurredAt: string;
+  teams: TransactionTeamRef[];
+  sides: TradeSide[];
+};
+
+export type TradeVerdict = "won" | "lost" | "even";
+
+export type TradeProductionLine = {
+  games: number;
+  points: number;
+  score: number;
+};
+
+export type TradeAcquiredPlayer = {
+  fromTeam: TransactionTeamRef;
+  asset: TransactionAsset;
+  tradeSeason: TradeProductionLine;
+  laterSeasons: TradeProductionLine & { seasons: number };
+  total: TradeProductionLine;
+};
+
+// `score` is `skaterScore` plus `goalieScore`.
+export type TradeSideTotal = TradeProductionLine & {
+  skaterScore: number;
+  goalieScore: number;
+};
+
+export type TradeSideAnalysis = {
+  team: TransactionTeamRef;
+  verdict: TradeVerdict;
+  total: TradeSideTotal;
+  acquired: TradeAcquiredPlayer[];
+};
+
+export type TradeAnalysis = {
+  trade: Trade;
+  winner: TransactionTeamRef | null;
+  margin: number;
+  sides: TradeSideAnalysis[];
+};
+
+export type LopsidedTradesPage = {
+  skip: number;
+  take: number;
+  total: number;
+  items: TradeAnalysis[];
+};
+
+export type UnresolvedTransactionMatchStatus =
+  | "unresolved_missing_entity"
+  | "unresolved_ambiguous_entity";
+
+export type TransactionEntityCandidate = {
+  id: string;
+  name: string;
+  position: string | null;
+  firstSeenSeason: number;
+  lastSeenSeason: number;
+  exactName: boolean;
+};
+
+export type UnresolvedTransactionItem = {
+  id: string;
+  type: TransactionEventType;
+  season: number;
+  occurredAt: string;
+  fromTeam: TransactionTeamRef | null;
+  toTeam: TransactionTeamRef | null;
+  rawName: string;
+  rawPosition: string | null;
+  matchStatus: UnresolvedTransactionMatchStatus;
+  candidates: TransactionEntityCandidate[];
+};
@@ -0,0 +1,90 @@
+import { MAX_UNRESOLVED_TRANSACTION_CANDIDATES } from "../../config/index.js";
+import {
+  getFantraxEntityRowsFromDb,
+  getUnresolvedTransactionItemRowsFromDb,
+  type FantraxEntityDbRow,
+  type UnresolvedTransactionItemDbRow,
+} from "../../db/queries.js";
+import { toOptionalTeamRef } from "../../shared/teams.js";
+import type {
+  TransactionEntityCandidate,
+  UnresolvedTransactionItem,
+} from "./types.js";
+
+// Looser than the importer on purpose: reviewers want near misses (case,
+// apostrophes, same surname at the same position) listed next to the row.
+const normalizeReviewName = (value: string): string =>
+  value
+    .replace(/['’]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+const getLastNameToken = (normalizedName: string): string =>
+  normalizedName.slice(normalizedName.lastIndexOf(" ") + 1);
+
+const parseRawPositions = (rawPosition: string | null): string[] =>
+  (rawPosition ?? "")
+    .split(",")
+    .map((position) => position.trim())
+    .filter(Boolean);
+
+const compareCandidates = (
+  left: TransactionEntityCandidate,
+  right: TransactionEntityCandidate,
+): number =>
+  Number(right.exactName) - Number(left.exactName) ||
+  right.lastSeenSeason - left.lastSeenSeason ||
+  left.name.localeCompare(right.name) ||
+  left.id.localeCompare(right.id);
+
+const findCandidates = (
+  entities: readonly FantraxEntityDbRow[],
+  row: UnresolvedTransactionItemDbRow,
+): TransactionEntityCandidate[] => {
+  const rawName = normalizeReviewName(row.rawName);
+  const rawLastName = getLastNameToken(rawName);
+  const rawPositions = parseRawPositions(row.rawPosition);
+  const candidates: TransactionEntityCandidate[] = [];
+
+  for (const entity of entities) {
+    const name = normalizeReviewName(entity.name);
+    const exactName = name === rawName;
+    const positionMatches =
+      rawPositions.length === 0 ||
+      (entity.position !== null && rawPositions.includes(entity.position));
+
+    if (
+      exactName ||
+      (positionMatches && getLastNameToken(name) === rawLastName)
+    ) {
+      candidates.push({ ...entity, exactName });
+    }
+  }
+
+  return candidates
+    .sort(compareCandidates)
+    .slice(0, MAX_UNRESOLVED_TRANSACTION_CANDIDATES);
+};
+
+export const getUnresolvedTransactionsData = async (
+  season?: number,
+): Promise<UnresolvedTransactionItem[]> => {
+  const [rows, entities] = await Promise.all([
+    getUnresolvedTransactionItemRowsFromDb(season),
+    getFantraxEntityRowsFromDb(),
+  ]);
+
+  return rows.map((row) => ({
+    id: row.id,
+    type: row.type,
+    season: row.season,
+    occurredAt: row.occurredAt,
+    fromTeam: toOptionalTeamRef(row.fromTeamId),
+    toTeam: toOptionalTeamRef(row.toTeamId),
+    rawName: row.rawName,
+    rawPosition: row.rawPosition,
+    matchStatus: row.matchStatus,
+    candidates: findCandidates(entities, row),
+  }));
+};
@@ -4,6 +4,7 @@ import type { RequestHandler } from "./types.js";
 
 const ALLOW_METHODS = "GET,HEAD,POST,PUT,PATCH,DELETE,OPTIONS";
 const ALLOW_HEADERS = "Authorization, Content-Type, X-Requested-With, x-api-key";
+const EXPOSE_HEADERS = "X-Total-Count, X-Score-Weights";
 
 const setCorsHeaders = (
   _req: IncomingMessage,
@@ -12,6 +13,7 @@ const setCorsHeaders = (
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", ALLOW_METHODS);
   res.setHeader("Access-Control-Allow-Headers", ALLOW_HEADERS);
+  res.setHeader("Access-Control-Expose-Headers", EXPOSE_HEADERS);
 };
 
 export const withCors = (handler: RequestHandler): RequestHandler =>
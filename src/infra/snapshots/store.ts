@@ -1,6 +1,7 @@
 import fs from "fs/promises";
 import path from "path";
 import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { DEFAULT_SCORING_MODEL } from "../../config/index.js";
 import type { CareerHighlightType } from "../../features/career/types.js";
 import type { Report } from "../../shared/types/core.js";
 
@@ -181,6 +182,8 @@ export const getCareerHighlightsSnapshotKey = (
   type: CareerHighlightType,
 ): string => `career/highlights/${type}`;
 
+export const getCareerMilestonesSnapshotKey = (): string => "career/milestones";
+
 export const getRegularLeaderboardSnapshotKey = (): string =>
   "leaderboard/regular";
 
@@ -190,11 +193,25 @@ export const getPlayoffsLeaderboardSnapshotKey = (): string =>
 export const getTransactionsLeaderboardSnapshotKey = (): string =>
   "leaderboard/transactions";
 
+export const getLeagueRecordsSnapshotKey = (): string => "records/league";
+
+export const getTeamRecordsSnapshotKey = (teamId: string): string =>
+  `records/team-${teamId}`;
+
+export const getLopsidedTradesSnapshotKey = (): string =>
+  "transactions/trades/lopsided";
+
+// Default-model snapshots keep their original keys; other scoring models get
+// their own directory.
 export const getCombinedSnapshotKey = (
   kind: "players" | "goalies",
   report: Report,
   teamId: string,
-): string => `${kind}/combined/${report}/team-${teamId}`;
+  modelId: string = DEFAULT_SCORING_MODEL.id,
+): string =>
+  modelId === DEFAULT_SCORING_MODEL.id
+    ? `${kind}/combined/${report}/team-${teamId}`
+    : `${kind}/combined/model-${modelId}/${report}/team-${teamId}`;
 
 export const getSnapshotManifestKey = (): string => "manifest";
 
@@ -16,3 +16,40 @@ export const formatOptionalGoalieSavePercent = (
   value: number | null,
   games: number,
 ): string | undefined => formatOptionalGoalieRate(value, 3, games);
+
+export type GoalieRateRow = {
+  games: number;
+  saves: number;
+  gaa?: string;
+  savePercent?: string;
+};
+
+// Games-weighted GAA over the rows that have one.
+export const aggregateGoalieGaa = (
+  rows: readonly GoalieRateRow[],
+): number | null => {
+  let games = 0;
+  let goalsAgainst = 0;
+  for (const row of rows) {
+    if (row.gaa === undefined || row.games <= 0) continue;
+    games += row.games;
+    goalsAgainst += Number(row.gaa) * row.games;
+  }
+  return games > 0 ? Number((goalsAgainst / games).toFixed(2)) : null;
+};
+
+// Saves over shots faced, recovering each row's shots from its saves and
+// save percentage.
+export const aggregateGoalieSavePercent = (
+  rows: readonly GoalieRateRow[],
+): number | null => {
+  let saves = 0;
+  let shots = 0;
+  for (const row of rows) {
+    const savePercent = Number(row.savePercent);
+    if (!(savePercent > 0) || row.saves <= 0) continue;
+    saves += row.saves;
+    shots += row.saves / savePercent;
+  }
+  return shots > 0 ? Number((saves / shots).toFixed(3)) : null;
+};
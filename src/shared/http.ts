@@ -9,8 +9,25 @@ export const HTTP_STATUS = {
 export const ERROR_MESSAGES = {
   INVALID_REPORT_TYPE: "Invalid report type",
   INVALID_CAREER_HIGHLIGHT_TYPE: "Invalid career highlight type",
+  INVALID_CAREER_MILESTONE_TYPE: "Invalid career milestone type",
   INVALID_PAGING_PARAMS: "Invalid paging params",
+  INVALID_TEAM_ID: "Invalid team id",
+  INVALID_TRANSACTION_TYPE: "Invalid transaction type",
+  INVALID_DATE_RANGE: "Invalid date range",
+  INVALID_DATE: "Invalid date",
+  INVALID_CURSOR: "Invalid cursor",
+  INVALID_INTERVAL: "Invalid interval",
+  INVALID_STATS_QUERY: "Invalid stats query params",
+  INVALID_SCORE_WEIGHTS: "Invalid score weights",
+  INVALID_SCORING_MODEL: "Invalid scoring model",
+  INVALID_METRICS: "Invalid metrics",
+  INVALID_INCLUDE: "Invalid include",
+  INVALID_COMPARE_IDS: "Invalid compare ids",
+  INVALID_SEASON_RANGE: "Invalid season range",
+  INVALID_SEARCH_QUERY: "Invalid search query",
   SEASON_NOT_AVAILABLE: "Stats for given season are not available",
   PLAYER_NOT_FOUND: "Player not found",
   GOALIE_NOT_FOUND: "Goalie not found",
+  TRADE_NOT_FOUND: "Trade not found",
+  DRAFT_PICK_NOT_FOUND: "Draft pick not found",
 };
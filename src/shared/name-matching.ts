@@ -0,0 +1,205 @@
+import {
+  FUZZY_NAME_MATCH_AMBIGUITY_MARGIN,
+  FUZZY_NAME_MATCH_MIN_CONFIDENCE,
+  FUZZY_NAME_MATCH_MIN_PART_SIMILARITY,
+  NAME_ALIASES,
+} from "../config/settings.js";
+
+export type FuzzyNameMatchOptions = {
+  minConfidence: number;
+  ambiguityMargin: number;
+  // First name and surname are compared on their own as well, so a near
+  // whole-name hit with a different first name or surname is not a match.
+  minPartSimilarity: number;
+};
+
+export type NameMatchCandidate = {
+  id: string;
+  name: string;
+};
+
+export type FuzzyNameMatch =
+  | { status: "matched"; id: string; confidence: number }
+  | { status: "ambiguous"; confidence: number }
+  | { status: "missing" };
+
+export type FuzzyNameMatcher<T extends NameMatchCandidate> = {
+  match: (name: string, accept?: (candidate: T) => boolean) => FuzzyNameMatch;
+};
+
+const DEFAULT_FUZZY_NAME_MATCH_OPTIONS: FuzzyNameMatchOptions = {
+  minConfidence: FUZZY_NAME_MATCH_MIN_CONFIDENCE,
+  ambiguityMargin: FUZZY_NAME_MATCH_AMBIGUITY_MARGIN,
+  minPartSimilarity: FUZZY_NAME_MATCH_MIN_PART_SIMILARITY,
+};
+
+const NAME_SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv"]);
+
+export type PersonNameParts = {
+  first: string;
+  last: string;
+};
+
+const foldNameTokens = (value: string): string[] =>
+  value
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/['’.]/g, " ")
+    .split(/\s+/u)
+    .filter((token) => token && !NAME_SUFFIXES.has(token))
+    .map((token) => token.replace(/-/g, " "));
+
+const expandFirstName = (value: string): string =>
+  value
+    .split(" ")
+    .map((token) => NAME_ALIASES[token] ?? token)
+    .join(" ");
+
+const toNameParts = (
+  first: string,
+  last: readonly string[],
+): PersonNameParts => ({ first: expandFirstName(first), last: last.join(" ") });
+
+// "Last, First" splits at the comma. Without a comma the name is read both as
+// "First Last" and as "Last First", so reordered source names still match.
+const readPersonName = (value: string): PersonNameParts[] => {
+  const commaIndex = value.indexOf(",");
+  if (commaIndex !== -1) {
+    return [
+      toNameParts(
+        foldNameTokens(value.slice(commaIndex + 1)).join(" "),
+        foldNameTokens(value.slice(0, commaIndex)),
+      ),
+    ];
+  }
+
+  const tokens = foldNameTokens(value);
+  const [first = "", ...last] = tokens;
+  return tokens.length > 1
+    ? [
+        toNameParts(first, last),
+        toNameParts(tokens[tokens.length - 1], tokens.slice(0, -1)),
+      ]
+    : [toNameParts(first, last)];
+};
+
+/**
+ * @internal Test-only export. Folds diacritics, case, punctuation and
+ * generational suffixes and expands known first-name nicknames. "Last, First"
+ * splits at the comma; otherwise the first word is the first name.
+ */
+export const splitPersonName = (value: string): PersonNameParts =>
+  readPersonName(value)[0];
+
+const joinNameParts = ({ first, last }: PersonNameParts): string =>
+  `${first} ${last}`.trim();
+
+const getEditDistance = (left: string, right: string): number => {
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[right.length];
+};
+
+const roundConfidence = (value: number): number =>
+  Math.round(value * 1000) / 1000;
+
+const getSimilarity = (left: string, right: string): number => {
+  const maxLength = Math.max(left.length, right.length);
+  return maxLength === 0 ? 0 : 1 - getEditDistance(left, right) / maxLength;
+};
+
+type NormalizedCandidate<T> = {
+  candidate: T;
+  parts: PersonNameParts;
+  name: string;
+};
+
+// Best whole-name similarity over the readings of the target, or null when
+// no reading clears the length bound and the first-name and surname checks.
+const scoreCandidate = <T>(
+  readings: readonly PersonNameParts[],
+  entry: NormalizedCandidate<T>,
+  options: FuzzyNameMatchOptions,
+): number | null => {
+  let confidence: number | null = null;
+
+  for (const reading of readings) {
+    const target = joinNameParts(reading);
+    // Length alone already caps the similarity; skip hopeless readings.
+    const lengthBound =
+      1 -
+      Math.abs(entry.name.length - target.length) /
+        Math.max(entry.name.length, target.length, 1);
+    if (lengthBound < options.minConfidence) continue;
+    if (
+      getSimilarity(reading.first, entry.parts.first) <
+        options.minPartSimilarity ||
+      getSimilarity(reading.last, entry.parts.last) < options.minPartSimilarity
+    ) {
+      continue;
+    }
+
+    confidence = Math.max(confidence ?? 0, getSimilarity(target, entry.name));
+  }
+
+  return confidence;
+};
+
+export const createFuzzyNameMatcher = <T extends NameMatchCandidate>(
+  candidates: readonly T[],
+  options: FuzzyNameMatchOptions = DEFAULT_FUZZY_NAME_MATCH_OPTIONS,
+): FuzzyNameMatcher<T> => {
+  const normalizedCandidates = candidates.map(
+    (candidate): NormalizedCandidate<T> => {
+      const parts = splitPersonName(candidate.name);
+      return { candidate, parts, name: joinNameParts(parts) };
+    },
+  );
+
+  return {
+    match: (name, accept = () => true) => {
+      const readings = readPersonName(name);
+      let best: { id: string; confidence: number } | null = null;
+      let runnerUpConfidence = 0;
+
+      for (const entry of normalizedCandidates) {
+        if (!accept(entry.candidate)) continue;
+
+        const confidence = scoreCandidate(readings, entry, options);
+        if (confidence === null) continue;
+        if (best === null || confidence > best.confidence) {
+          runnerUpConfidence = best?.confidence ?? 0;
+          best = { id: entry.candidate.id, confidence };
+        } else if (confidence > runnerUpConfidence) {
+          runnerUpConfidence = confidence;
+        }
+      }
+
+      if (best === null || best.confidence < options.minConfidence) {
+        return { status: "missing" };
+      }
+      if (best.confidence - runnerUpConfidence < options.ambiguityMargin) {
+        return { status: "ambiguous", confidence: roundConfidence(best.confidence) };
+      }
+
+      return {
+        status: "matched",
+        id: best.id,
+        confidence: roundConfidence(best.confidence),
+      };
+    },
+  };
+};
@@ -7,22 +7,45 @@ import {
   setCachedOkHeaders,
   setNoStoreHeaders,
 } from "../cache.js";
+import {
+  CURRENT_SEASON,
+  DEFAULT_SCORING_MODEL,
+  MAX_SCORE_WEIGHT,
+  MAX_STATS_LIST_LIMIT,
+  SCORING_MODELS,
+  START_SEASON,
+} from "../config/index.js";
 import { loadSnapshot } from "../infra/snapshots/store.js";
-import { HTTP_STATUS } from "./http.js";
+import { ERROR_MESSAGES, HTTP_STATUS } from "./http.js";
+import type { ScoringModel, StatInclude, StatMetric } from "./types/index.js";
 
 export type DataSource = "snapshot" | "db";
 
 export type HandlerResult<T = unknown> = {
   data: T;
   dataSource: DataSource;
+  // Row count before limit/offset, sent as X-Total-Count.
+  total?: number;
+  // Effective scoring weights as field:weight pairs, sent as X-Score-Weights.
+  scoreWeights?: string;
 };
 
 const DATA_SOURCE_HEADER = "x-stats-data-source";
+const TOTAL_COUNT_HEADER = "x-total-count";
+const SCORE_WEIGHTS_HEADER = "x-score-weights";
+
+const responseCache = new Map<string, { etag: string } & HandlerResult>();
 
-const responseCache = new Map<
-  string,
-  { etag: string; data: unknown; dataSource: DataSource }
->();
+const setResultHeaders = (
+  res: ServerResponse,
+  { dataSource, total, scoreWeights }: Omit<HandlerResult, "data">,
+): void => {
+  res.setHeader(DATA_SOURCE_HEADER, dataSource);
+  if (total !== undefined) res.setHeader(TOTAL_COUNT_HEADER, String(total));
+  if (scoreWeights !== undefined) {
+    res.setHeader(SCORE_WEIGHTS_HEADER, scoreWeights);
+  }
+};
 
 const getStatusCode = (err: unknown): number => {
   if (typeof err === "object" && err !== null && "statusCode" in err) {
@@ -59,6 +82,265 @@ export const getQueryParam = (
   return value === null ? undefined : value;
 };
 
+// Query parsers return undefined for a missing value and null for an invalid one.
+export const parseIntegerParam = (
+  value: string | undefined,
+): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/u.test(value)) return null;
+
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+};
+
+export const parseDateParam = (
+  value: string | undefined,
+): string | null | undefined => {
+  if (value === undefined) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/u.test(value)) return null;
+
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().startsWith(value)
+    ? value
+    : null;
+};
+
+export const parseSeasonFilter = (
+  value: string | undefined,
+): number | null | undefined => {
+  const season = parseIntegerParam(value);
+  return season !== undefined &&
+    season !== null &&
+    (season < START_SEASON || season > CURRENT_SEASON)
+    ? null
+    : season;
+};
+
+export type ListOrder = "asc" | "desc";
+
+export type StatsListQuery = {
+  position?: string;
+  minGames?: number;
+  sort?: string;
+  order?: ListOrder;
+  limit?: number;
+  offset: number;
+  search?: string;
+};
+
+type StatsListRow = {
+  name: string;
+  games: number;
+  position?: string;
+};
+
+type StatsListOptions = {
+  positions: readonly string[];
+  sortFields: readonly string[];
+};
+
+const isListOrder = (value: string): value is ListOrder =>
+  value === "asc" || value === "desc";
+
+const foldSearchText = (value: string): string =>
+  value.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+// Filtering, sorting and paging for stats arrays. Returns null when any
+// param is invalid.
+export const parseStatsListQuery = (
+  req: QueryParamRequest,
+  { positions, sortFields }: StatsListOptions,
+): StatsListQuery | null => {
+  const position = getQueryParam(req, "position");
+  const minGames = parseIntegerParam(getQueryParam(req, "minGames"));
+  const sort = getQueryParam(req, "sort");
+  const order = getQueryParam(req, "order");
+  const limit = parseIntegerParam(getQueryParam(req, "limit"));
+  const offset = parseIntegerParam(getQueryParam(req, "offset"));
+  const search = getQueryParam(req, "search")?.trim();
+
+  if (
+    (position !== undefined && !positions.includes(position)) ||
+    minGames === null ||
+    (sort !== undefined && !sortFields.includes(sort)) ||
+    (order !== undefined && !isListOrder(order)) ||
+    limit === null ||
+    (limit !== undefined && (limit < 1 || limit > MAX_STATS_LIST_LIMIT)) ||
+    offset === null
+  ) {
+    return null;
+  }
+
+  return {
+    position,
+    minGames,
+    sort,
+    order,
+    limit,
+    offset: offset ?? 0,
+    search: search || undefined,
+  };
+};
+
+const findScoringModel = (raw: string | undefined): ScoringModel | null =>
+  raw === undefined
+    ? DEFAULT_SCORING_MODEL
+    : (SCORING_MODELS.find((model) => model.id === raw) ?? null);
+
+// Layers field:weight pairs such as "goals:2,hits:0.5" over the model weights.
+// Returns the model weights themselves when the param is omitted.
+const parseScoreWeights = <W extends Record<string, number>>(
+  raw: string | undefined,
+  modelWeights: W,
+): W | null => {
+  if (raw === undefined) return modelWeights;
+
+  const weights: Record<string, number> = { ...modelWeights };
+  for (const pair of raw.split(",")) {
+    const [field, value, ...rest] = pair.split(":");
+    if (rest.length || !value || !Object.hasOwn(weights, field)) return null;
+    const weight = Number(value);
+    if (!Number.isFinite(weight) || weight < 0 || weight > MAX_SCORE_WEIGHT) {
+      return null;
+    }
+    weights[field] = weight;
+  }
+  return weights as W;
+};
+
+const formatScoreWeights = (weights: Record<string, number>): string =>
+  Object.entries(weights)
+    .map(([field, weight]) => `${field}:${weight}`)
+    .join(",");
+
+const STAT_METRICS = [
+  "percentile",
+  "zscore",
+] as const satisfies readonly StatMetric[];
+
+const isStatMetric = (value: string): value is StatMetric =>
+  STAT_METRICS.includes(value as StatMetric);
+
+const parseMetricsParam = (
+  value: string | undefined,
+): StatMetric[] | null | undefined => {
+  if (value === undefined) return undefined;
+
+  const metrics = value.split(",").map((entry) => entry.trim());
+  return metrics.every(isStatMetric) ? [...new Set(metrics)] : null;
+};
+
+const STAT_INCLUDES = ["rates"] as const satisfies readonly StatInclude[];
+
+const isStatInclude = (value: string): value is StatInclude =>
+  STAT_INCLUDES.includes(value as StatInclude);
+
+const parseIncludeParam = (
+  value: string | undefined,
+): StatInclude[] | null | undefined => {
+  if (value === undefined) return undefined;
+
+  const includes = value.split(",").map((entry) => entry.trim());
+  return includes.every(isStatInclude) ? [...new Set(includes)] : null;
+};
+
+export type StatsScoringQuery = {
+  // The requested model with any weights overrides applied.
+  model: ScoringModel;
+  // False when the weights param changed the model weights.
+  usesModelWeights: boolean;
+  scoreWeights: string;
+  metrics?: StatMetric[];
+  include?: StatInclude[];
+};
+
+// Model, weights, metrics and include params shared by the players and
+// goalies stats routes. Weights are validated against the given group.
+export const parseStatsScoringQuery = (
+  req: QueryParamRequest,
+  weightsKey: "playerWeights" | "goalieWeights",
+): StatsScoringQuery | { error: string } => {
+  const model = findScoringModel(getQueryParam(req, "model"));
+  if (!model) return { error: ERROR_MESSAGES.INVALID_SCORING_MODEL };
+
+  const weights = parseScoreWeights(
+    getQueryParam(req, "weights"),
+    model[weightsKey],
+  );
+  if (!weights) return { error: ERROR_MESSAGES.INVALID_SCORE_WEIGHTS };
+
+  const metrics = parseMetricsParam(getQueryParam(req, "metrics"));
+  if (metrics === null) return { error: ERROR_MESSAGES.INVALID_METRICS };
+
+  const include = parseIncludeParam(getQueryParam(req, "include"));
+  if (include === null) return { error: ERROR_MESSAGES.INVALID_INCLUDE };
+
+  return {
+    model: { ...model, [weightsKey]: weights },
+    usesModelWeights: weights === model[weightsKey],
+    scoreWeights: formatScoreWeights(weights),
+    metrics,
+    include,
+  };
+};
+
+// Rows without a value for the sort field stay last in either order.
+const compareBySortField = (
+  field: string,
+  order: ListOrder,
+): ((left: StatsListRow, right: StatsListRow) => number) => {
+  const direction = order === "asc" ? 1 : -1;
+  const getValue = (row: StatsListRow): number | string | undefined => {
+    const value = (row as Record<string, unknown>)[field];
+    if (value === undefined) return undefined;
+    return typeof value === "string" && field !== "name"
+      ? Number(value)
+      : (value as number | string);
+  };
+
+  return (left, right) => {
+    const leftValue = getValue(left);
+    const rightValue = getValue(right);
+    if (leftValue === undefined || rightValue === undefined) {
+      return Number(leftValue === undefined) - Number(rightValue === undefined);
+    }
+    return typeof leftValue === "string"
+      ? direction * leftValue.localeCompare(String(rightValue))
+      : direction * (leftValue - Number(rightValue));
+  };
+};
+
+// Applied to already scored rows, so scores still reflect the full pool.
+export const applyStatsListQuery = <T extends StatsListRow>(
+  rows: readonly T[],
+  query: StatsListQuery,
+): { items: T[]; total: number } => {
+  const search = query.search && foldSearchText(query.search);
+  const filtered = rows.filter(
+    (row) =>
+      (query.position === undefined || row.position === query.position) &&
+      (query.minGames === undefined || row.games >= query.minGames) &&
+      (!search || foldSearchText(row.name).includes(search)),
+  );
+  const sorted = query.sort
+    ? filtered.sort(
+        compareBySortField(
+          query.sort,
+          query.order ?? (query.sort === "name" ? "asc" : "desc"),
+        ),
+      )
+    : filtered;
+
+  return {
+    items: sorted.slice(
+      query.offset,
+      query.limit === undefined ? undefined : query.offset + query.limit,
+    ),
+    total: filtered.length,
+  };
+};
+
 export const withErrorHandlingCached = async (
   req: IncomingMessage | undefined,
   res: ServerResponse,
@@ -69,7 +351,7 @@ export const withErrorHandlingCached = async (
     const cached = responseCache.get(cacheKey);
     if (cached) {
       setCachedOkHeaders(res, cached.etag);
-      res.setHeader(DATA_SOURCE_HEADER, cached.dataSource);
+      setResultHeaders(res, cached);
       if (isIfNoneMatchHit(req, cached.etag)) {
         res.statusCode = 304;
         res.end();
@@ -82,12 +364,12 @@ export const withErrorHandlingCached = async (
 
   try {
     const result = await handler();
-    const { data, dataSource } = result;
+    const { data } = result;
     if (cacheKey) {
       const etag = makeEtagForJson(data);
-      responseCache.set(cacheKey, { etag, data, dataSource });
+      responseCache.set(cacheKey, { etag, ...result });
       setCachedOkHeaders(res, etag);
-      res.setHeader(DATA_SOURCE_HEADER, dataSource);
+      setResultHeaders(res, result);
       if (req && isIfNoneMatchHit(req, etag)) {
         res.statusCode = 304;
         res.end();
@@ -95,7 +377,7 @@ export const withErrorHandlingCached = async (
       }
     }
     if (!cacheKey) {
-      res.setHeader(DATA_SOURCE_HEADER, dataSource);
+      setResultHeaders(res, result);
     }
     send(res, HTTP_STATUS.OK, data);
   } catch (error) {
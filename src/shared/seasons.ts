@@ -2,9 +2,14 @@ import type { CsvReport, Report } from "./types/core.js";
 import {
   CURRENT_SEASON,
   DEFAULT_TEAM_ID,
+  LEAGUE_TEAM_ID,
   REPORT_TYPES,
+  SEASON_START_MONTH,
 } from "../config/settings.js";
-import { getAvailableSeasonsFromDb } from "../db/queries.js";
+import {
+  getAvailableSeasonsFromDb,
+  getLeagueAvailableSeasonsFromDb,
+} from "../db/queries.js";
 import { getTeamStartSeason } from "./teams.js";
 
 const getRegularSeasonRangeForTeam = (teamId: string): number[] => {
@@ -22,7 +27,9 @@ const listSeasonsForTeam = async (
   teamId: string,
   reportType: CsvReport,
 ): Promise<number[]> => {
-  return getAvailableSeasonsFromDb(teamId, reportType);
+  return teamId === LEAGUE_TEAM_ID
+    ? getLeagueAvailableSeasonsFromDb(reportType)
+    : getAvailableSeasonsFromDb(teamId, reportType);
 };
 
 export const availableSeasons = async (
@@ -53,3 +60,9 @@ export const parseSeasonParam = (value: unknown): number | undefined => {
   const parsed = Number(value);
   return Number.isNaN(parsed) ? undefined : parsed;
 };
+
+// Expects a validated YYYY-MM-DD date.
+export const getSeasonForDate = (date: string): number => {
+  const [year, month] = date.split("-").map(Number);
+  return month >= SEASON_START_MONTH ? year : year - 1;
+};
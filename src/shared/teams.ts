@@ -1,8 +1,31 @@
-import { DEFAULT_TEAM_ID, START_SEASON, TEAMS } from "../config/settings.js";
+import {
+  DEFAULT_TEAM_ID,
+  LEAGUE_TEAM_ID,
+  START_SEASON,
+  TEAMS,
+} from "../config/settings.js";
 
-const isConfiguredTeamId = (teamId: string): boolean =>
+export type TeamRef = {
+  id: string;
+  name: string;
+};
+
+const TEAM_NAME_BY_ID = new Map(
+  TEAMS.map((team) => [team.id, team.presentName] as const),
+);
+
+export const isConfiguredTeamId = (teamId: string): boolean =>
   TEAMS.some((team) => team.id === teamId);
 
+// Unknown team ids keep the id as their name.
+export const toTeamRef = (teamId: string): TeamRef => ({
+  id: teamId,
+  name: TEAM_NAME_BY_ID.get(teamId) ?? teamId,
+});
+
+export const toOptionalTeamRef = (teamId: string | null): TeamRef | null =>
+  teamId === null ? null : toTeamRef(teamId);
+
 export const getTeamStartSeason = (teamId: string): number =>
   TEAMS.find((team) => team.id === teamId)?.firstSeason ?? START_SEASON;
 
@@ -15,3 +38,8 @@ export const resolveTeamId = (raw: unknown): string => {
   if (!isConfiguredTeamId(teamId)) return DEFAULT_TEAM_ID;
   return teamId;
 };
+
+export const resolveStatsTeamId = (raw: unknown): string =>
+  typeof raw === "string" && raw.trim() === LEAGUE_TEAM_ID
+    ? LEAGUE_TEAM_ID
+    : resolveTeamId(raw);